@@ -1,7 +1,20 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import Plotly from 'plotly.js-dist-min';
-import { Molecule } from '@/utils/pdbParser';
-import { calculateDistogram } from '@/utils/distogram';
+import { Molecule } from '@/utils/structure';
+import {
+  calculateContactProbabilities,
+  binProbabilities,
+  getDistanceBins,
+  getDistogramResidues,
+  thresholdContacts
+} from '@/utils/distogram';
+import { DistanceMode } from '@/utils/geometry';
+import { ComputeOptions, computeContacts, computeDistanceMatrix } from '@/lib/geometryWorkers';
+import { useWorkerComputation } from '@/hooks/use-worker-computation';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { 
   Tooltip,
   TooltipContent,
@@ -9,13 +22,7 @@ import {
   TooltipTrigger
 } from "@/components/ui/tooltip";
 import { Info } from 'lucide-react';
-
-interface DistogramData {
-  distance_matrix: number[][];
-  bin_edges: number[];
-  max_distance: number;
-  num_bins: number;
-}
+import { Distogram as DistogramData, DistogramObject } from '@/lib/api-schema';
 
 interface DistogramProps {
   molecule?: Molecule;
@@ -23,6 +30,8 @@ interface DistogramProps {
   width?: number;
   height?: number;
   source?: 'file' | 'job'; // Added to know the source of the data
+  selectedResidues?: number[]; // Residue indices drawn as crosshairs
+  onPairSelect?: (i: number, j: number) => void; // A cell was clicked
 }
 
 // Help text explaining how to interpret distance matrices
@@ -46,98 +55,245 @@ Features to observe:
 Distance matrix provides a fingerprint of the protein's structural organization.
 `;
 
-export function Distogram({ molecule, data, width = 500, height = 500, source = 'file' }: DistogramProps) {
+/**
+ * Distance matrix from the distogram data in any of the formats the backend
+ * has sent (object with distance_matrix, 2D array, flat list, JSON string)
+ */
+function toDistanceMatrix(data: DistogramProps['data'], source: 'file' | 'job'): number[][] {
+  let distogramData: number[][] = [];
+  
+  // Use provided data or calculate from molecule
+  if (data) {
+    console.log('Received distogram data:', {
+      type: typeof data,
+      isArray: Array.isArray(data),
+      length: data ? data.length : 0,
+      sampleValue: data && data.length > 0 ? data[0] : null,
+      isFirstItemArray: data && data.length > 0 ? Array.isArray(data[0]) : false,
+      isObject: typeof data === 'object' && !Array.isArray(data),
+      hasDistanceMatrix: typeof data === 'object' && !Array.isArray(data) && 'distance_matrix' in data,
+      source: source,
+      constructor: data ? data.constructor.name : 'null'
+    });
+    
+    // Handle string data (possibly JSON)
+    if (typeof data === 'string') {
+      try {
+        const parsedData = JSON.parse(data);
+        console.log('Parsed string data:', {
+          isArray: Array.isArray(parsedData),
+          length: parsedData.length
+        });
+        data = parsedData;
+      } catch (e) {
+        console.error('Failed to parse string data as JSON:', e);
+        throw new Error('Invalid distogram data: string cannot be parsed as JSON');
+      }
+    }
+    
+    // Check if data is null, undefined, or empty
+    if (!data || (Array.isArray(data) && data.length === 0)) {
+      throw new Error('Distogram data is empty or null');
+    }
+    
+    // Handle the new backend format with distance_matrix
+    if (typeof data === 'object' && !Array.isArray(data) && 'distance_matrix' in data) {
+      console.log('Detected new backend distogram format with distance_matrix property');
+      const distogramObject = data as DistogramObject;
+      if (Array.isArray(distogramObject.distance_matrix)) {
+        distogramData = distogramObject.distance_matrix;
+        console.log(`Using distance_matrix from backend format: ${distogramData.length}x${distogramData[0]?.length} matrix`);
+      } else {
+        throw new Error('Invalid distogram data: distance_matrix is not an array');
+      }
+    }
+    // Check if data is a 1D array (flat list from API) or 2D array
+    else if (Array.isArray(data)) {
+      if (Array.isArray(data[0])) {
+        // Data is already in 2D array format
+        console.log('Distogram is already in 2D array format');
+        distogramData = data as number[][];
+      } else {
+        // Data is a flat list, need to convert to 2D array
+        console.log('Distogram is in flat list format, converting to 2D array');
+        const flatData = data as number[];
+        // Determine matrix size (assuming square matrix)
+        const matrixSize = Math.sqrt(flatData.length);
+        
+        if (Number.isInteger(matrixSize)) {
+          console.log(`Converting flat list of length ${flatData.length} to ${matrixSize}x${matrixSize} matrix`);
+          // Convert flat list to 2D array
+          distogramData = Array(matrixSize).fill(0).map((_, i) => 
+            flatData.slice(i * matrixSize, (i + 1) * matrixSize)
+          );
+          console.log('Conversion complete. First row:', distogramData[0]);
+        } else {
+          console.error('Invalid distogram data format: list length is not a perfect square', {
+            length: flatData.length,
+            squareRoot: matrixSize
+          });
+          throw new Error(`Invalid distogram data: list length (${flatData.length}) is not a perfect square`);
+        }
+      }
+    } else {
+      throw new Error(`Distogram data is not in a recognized format: ${typeof data}`);
+    }
+  } else {
+    throw new Error('No distogram data provided');
+  }
+
+  return distogramData;
+}
+
+// Binned distogram with logits, if the data has them
+function getBinnedDistogram(data: DistogramProps['data']): { logits: number[][][]; bins: [number, number][] } | null {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return null;
+  const distogram = data as DistogramObject;
+  if (!distogram.logits || !distogram.bin_edges) return null;
+
+  const numBins = distogram.num_bins ?? distogram.logits[0]?.[0]?.length ?? 0;
+  try {
+    return { logits: distogram.logits, bins: getDistanceBins(distogram.bin_edges, numBins) };
+  } catch (error) {
+    console.warn('Ignoring distogram logits:', error);
+    return null;
+  }
+}
+
+type DistogramMode = 'distance' | 'probability' | 'contacts' | 'compare';
+
+const MODE_LABELS: Record<DistogramMode, string> = {
+  distance: 'Distances',
+  probability: 'Contact probability',
+  contacts: 'Contact map',
+  compare: 'Predicted vs. structure'
+};
+
+const DISTANCE_MODE_LABELS: Record<DistanceMode, string> = {
+  'all-atom': 'All atoms',
+  CA: 'CA only',
+  CB: 'CB only'
+};
+
+// Residues with atoms this close are in contact
+const CONTACT_CUTOFF = 8;
+
+// Contact probability: white (unlikely) to navy (certain)
+const PROBABILITY_COLORSCALE = [
+  [0, '#F8F8FF'],
+  [0.5, '#6A5ACD'],
+  [1, '#000080']
+];
+
+/**
+ * Bands across the plot through the selected residues, one per run of
+ * consecutive residues
+ */
+function crosshairShapes(indices: number[] = []) {
+  const sorted = [...indices].sort((a, b) => a - b);
+  const runs: [number, number][] = [];
+  sorted.forEach(index => {
+    const last = runs[runs.length - 1];
+    if (last && index <= last[1] + 1) {
+      last[1] = index;
+    } else {
+      runs.push([index, index]);
+    }
+  });
+
+  // Axes count residues from 1
+  const style = { fillcolor: 'rgba(249, 115, 22, 0.15)', line: { color: '#F97316', width: 1 } };
+  return runs.flatMap(([start, end]) => [
+    { type: 'rect', xref: 'x', yref: 'paper', x0: start + 0.5, x1: end + 1.5, y0: 0, y1: 1, ...style },
+    { type: 'rect', xref: 'paper', yref: 'y', x0: 0, x1: 1, y0: start + 0.5, y1: end + 1.5, ...style },
+  ]);
+}
+
+export function Distogram({
+  molecule, data, width = 500, height = 500, source = 'file', selectedResidues, onPairSelect
+}: DistogramProps) {
   const plotRef = useRef<HTMLDivElement>(null);
+  // Set once the heatmap is drawn, so the crosshairs can be updated in place
+  const plotReadyRef = useRef(false);
+  const selectedResiduesRef = useRef(selectedResidues);
+  selectedResiduesRef.current = selectedResidues;
+  const onPairSelectRef = useRef(onPairSelect);
+  onPairSelectRef.current = onPairSelect;
+  const histogramRef = useRef<HTMLDivElement>(null);
   const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<DistogramMode>('distance');
+  const [contactThreshold, setContactThreshold] = useState(0.5);
+  // Atoms used for distances computed from the structure
+  const [distanceMode, setDistanceMode] = useState<DistanceMode>('all-atom');
+  // Residue pair (0-based) whose distance distribution is shown
+  const [selectedPair, setSelectedPair] = useState<[number, number] | null>(null);
+
+  const binned = useMemo(() => getBinnedDistogram(data), [data]);
+  const contactProbabilities = useMemo(() => {
+    if (!binned) return null;
+    try {
+      return calculateContactProbabilities(binned.logits, binned.bins);
+    } catch (err) {
+      console.warn('Could not calculate contact probabilities:', err);
+      return null;
+    }
+  }, [binned]);
+
+  const availableModes: DistogramMode[] = [
+    'distance',
+    ...(contactProbabilities ? ['probability'] as DistogramMode[] : []),
+    ...(contactProbabilities || molecule ? ['contacts'] as DistogramMode[] : []),
+    ...(data && molecule ? ['compare'] as DistogramMode[] : [])
+  ];
+
+  // Falls back to distances when the data for the chosen mode goes away
+  const activeMode = availableModes.includes(mode) ? mode : 'distance';
+
+  // Distances and contacts from the coordinates are computed in the geometry workers
+  const usesComputedMatrix = !!molecule && (!data || activeMode === 'compare');
+  const usesStructureContacts = !!molecule && activeMode === 'contacts' && !contactProbabilities;
+  // Predicted distograms give CB-CB distances (CA for glycine), so the
+  // structure side of the comparison is measured the same way
+  const matrixDistanceMode: DistanceMode = activeMode === 'compare' ? 'CB' : distanceMode;
+
+  const computeMatrix = useMemo(
+    () => (usesComputedMatrix ? (options: ComputeOptions) => computeDistanceMatrix(molecule!, matrixDistanceMode, options) : null),
+    [usesComputedMatrix, molecule, matrixDistanceMode]
+  );
+  const computeStructureContacts = useMemo(
+    () => (usesStructureContacts ? (options: ComputeOptions) => computeContacts(molecule!, CONTACT_CUTOFF, distanceMode, options) : null),
+    [usesStructureContacts, molecule, distanceMode]
+  );
+  const matrixComputation = useWorkerComputation(computeMatrix);
+  const contactComputation = useWorkerComputation(computeStructureContacts);
+  const computation = usesStructureContacts ? contactComputation : matrixComputation;
+
+  const structureContactMap = useMemo(() => {
+    if (!molecule || !contactComputation.result) return null;
+    const size = getDistogramResidues(molecule).length;
+    const map = Array.from({ length: size }, (_, i) => Array.from({ length: size }, (_, j) => (i === j ? 1 : 0)));
+    contactComputation.result.forEach(([i, j]) => {
+      map[i][j] = map[j][i] = 1;
+    });
+    return map;
+  }, [molecule, contactComputation.result]);
+
+  useEffect(() => {
+    setSelectedPair(null);
+  }, [data]);
 
   useEffect(() => {
-    if (!plotRef.current) return;
+    const element = plotRef.current;
+    if (!element) return;
     
     try {
-      let distogramData: number[][] = [];
-      
-      // Use provided data or calculate from molecule
-      if (data) {
-        console.log('Received distogram data:', {
-          type: typeof data,
-          isArray: Array.isArray(data),
-          length: data ? data.length : 0,
-          sampleValue: data && data.length > 0 ? data[0] : null,
-          isFirstItemArray: data && data.length > 0 ? Array.isArray(data[0]) : false,
-          isObject: typeof data === 'object' && !Array.isArray(data),
-          hasDistanceMatrix: typeof data === 'object' && !Array.isArray(data) && 'distance_matrix' in data,
-          source: source,
-          constructor: data ? data.constructor.name : 'null'
-        });
-        
-        // Handle string data (possibly JSON)
-        if (typeof data === 'string') {
-          try {
-            const parsedData = JSON.parse(data);
-            console.log('Parsed string data:', {
-              isArray: Array.isArray(parsedData),
-              length: parsedData.length
-            });
-            data = parsedData;
-          } catch (e) {
-            console.error('Failed to parse string data as JSON:', e);
-            throw new Error('Invalid distogram data: string cannot be parsed as JSON');
-          }
-        }
-        
-        // Check if data is null, undefined, or empty
-        if (!data || (Array.isArray(data) && data.length === 0)) {
-          throw new Error('Distogram data is empty or null');
-        }
-        
-        // Handle the new backend format with distance_matrix
-        if (typeof data === 'object' && !Array.isArray(data) && 'distance_matrix' in data) {
-          console.log('Detected new backend distogram format with distance_matrix property');
-          const distogramObject = data as DistogramData;
-          if (Array.isArray(distogramObject.distance_matrix)) {
-            distogramData = distogramObject.distance_matrix;
-            console.log(`Using distance_matrix from backend format: ${distogramData.length}x${distogramData[0]?.length} matrix`);
-          } else {
-            throw new Error('Invalid distogram data: distance_matrix is not an array');
-          }
-        }
-        // Check if data is a 1D array (flat list from API) or 2D array
-        else if (Array.isArray(data)) {
-          if (Array.isArray(data[0])) {
-            // Data is already in 2D array format
-            console.log('Distogram is already in 2D array format');
-            distogramData = data as number[][];
-          } else {
-            // Data is a flat list, need to convert to 2D array
-            console.log('Distogram is in flat list format, converting to 2D array');
-            const flatData = data as number[];
-            // Determine matrix size (assuming square matrix)
-            const matrixSize = Math.sqrt(flatData.length);
-            
-            if (Number.isInteger(matrixSize)) {
-              console.log(`Converting flat list of length ${flatData.length} to ${matrixSize}x${matrixSize} matrix`);
-              // Convert flat list to 2D array
-              distogramData = Array(matrixSize).fill(0).map((_, i) => 
-                flatData.slice(i * matrixSize, (i + 1) * matrixSize)
-              );
-              console.log('Conversion complete. First row:', distogramData[0]);
-            } else {
-              console.error('Invalid distogram data format: list length is not a perfect square', {
-                length: flatData.length,
-                squareRoot: matrixSize
-              });
-              throw new Error(`Invalid distogram data: list length (${flatData.length}) is not a perfect square`);
-            }
-          }
-        } else {
-          throw new Error(`Distogram data is not in a recognized format: ${typeof data}`);
-        }
-      } else if (molecule) {
-        console.log('No distogram data provided, calculating from molecule');
-        distogramData = calculateDistogram(molecule);
-      } else {
-        // If neither data nor molecule is provided, return early
-        throw new Error('No distogram data or molecule provided');
+      // The comparison view always shows the predicted matrix in the upper half
+      const distogramData = usesStructureContacts
+        ? structureContactMap
+        : data ? toDistanceMatrix(data, source) : matrixComputation.result;
+      if (!distogramData || (activeMode === 'compare' && !matrixComputation.result)) {
+        // Still computing in the workers
+        return;
       }
       
       // Safety check - ensure we have a valid 2D array
@@ -195,12 +351,8 @@ export function Distogram({ molecule, data, width = 500, height = 500, source =
       
       // Generate residue IDs for the axes
       const residueIds = Array.from({ length: distogramData.length }, (_, i) => i + 1);
-  
-      // Create the heatmap data with fixed zmax for better contrast
-      const plotData = [{
-        z: distogramData,
-        x: residueIds,
-        y: residueIds,
+
+      const distanceTrace = {
         type: 'heatmap',
         colorscale: [
           [0, '#000080'],    // Navy blue for closest contacts (0 Å)
@@ -222,11 +374,59 @@ export function Distogram({ molecule, data, width = 500, height = 500, source =
         },
         hoverongaps: false,
         showscale: true
-      }];
+      };
+
+      let z = distogramData;
+      let trace: Record<string, unknown> = distanceTrace;
+      let title = 'Residue Distance Matrix';
+
+      if (activeMode === 'probability' && contactProbabilities) {
+        z = contactProbabilities;
+        title = 'Contact Probability, P(d < 8 Å)';
+        trace = {
+          type: 'heatmap',
+          colorscale: PROBABILITY_COLORSCALE,
+          zmin: 0,
+          zmax: 1,
+          colorbar: { title: 'P(d < 8 Å)', titleside: 'right', tickfont: { size: 10 }, titlefont: { size: 12 } },
+          hoverongaps: false
+        };
+      } else if (activeMode === 'contacts' && usesStructureContacts) {
+        title = `Contact Map, ${distanceMode === 'all-atom' ? 'any atoms' : `${distanceMode} atoms`} within ${CONTACT_CUTOFF} Å`;
+        trace = {
+          type: 'heatmap',
+          colorscale: [[0, '#F8F8FF'], [1, '#000080']],
+          zmin: 0,
+          zmax: 1,
+          showscale: false,
+          hoverongaps: false
+        };
+      } else if (activeMode === 'contacts' && contactProbabilities) {
+        z = thresholdContacts(contactProbabilities, contactThreshold);
+        title = `Contact Map, P(d < 8 Å) ≥ ${contactThreshold.toFixed(2)}`;
+        trace = {
+          type: 'heatmap',
+          colorscale: [[0, '#F8F8FF'], [1, '#000080']],
+          zmin: 0,
+          zmax: 1,
+          showscale: false,
+          hoverongaps: false
+        };
+      } else if (activeMode === 'compare') {
+        const computed = matrixComputation.result;
+        if (computed.length !== distogramData.length) {
+          throw new Error(`Predicted distogram has ${distogramData.length} residues but the structure has ${computed.length}`);
+        }
+        // Predicted above the diagonal, computed from the coordinates below it
+        z = distogramData.map((row, i) => row.map((value, j) => (j >= i ? value : computed[i][j])));
+        title = 'Predicted (upper) vs. Structure CB-CB (lower)';
+      }
+  
+      const plotData = [{ ...trace, z, x: residueIds, y: residueIds }];
   
       const layout = {
         title: {
-          text: 'Residue Distance Matrix',
+          text: title,
           font: { size: 16 }
         },
         xaxis: {
@@ -249,7 +449,8 @@ export function Distogram({ molecule, data, width = 500, height = 500, source =
           t: 40,
         },
         plot_bgcolor: '#FFFFFF',
-        paper_bgcolor: '#FFFFFF'
+        paper_bgcolor: '#FFFFFF',
+        shapes: crosshairShapes(selectedResiduesRef.current)
       };
   
       const config = {
@@ -264,7 +465,18 @@ export function Distogram({ molecule, data, width = 500, height = 500, source =
           rowCount: distogramData.length,
           columnCount: distogramData[0]?.length
         });
-        Plotly.newPlot(plotRef.current, plotData, layout, config);
+        Plotly.newPlot(element, plotData, layout, config).then((plot) => {
+          plotReadyRef.current = true;
+          // Clicking a cell selects that residue pair and shows its distance distribution
+          plot.on('plotly_click', (event) => {
+            const point = event.points?.[0];
+            if (!point) return;
+            if (binned) {
+              setSelectedPair([point.y - 1, point.x - 1]);
+            }
+            onPairSelectRef.current?.(point.y - 1, point.x - 1);
+          });
+        });
         console.log('Plotly plot created successfully');
         setError(null);
       } catch (error) {
@@ -278,23 +490,123 @@ export function Distogram({ molecule, data, width = 500, height = 500, source =
 
     // Cleanup
     return () => {
-      if (plotRef.current) {
-        Plotly.purge(plotRef.current);
-      }
+      plotReadyRef.current = false;
+      Plotly.purge(element);
     };
-  }, [molecule, data, width, height, source]);
+  }, [
+    data, width, height, source, activeMode, contactThreshold, binned, contactProbabilities,
+    usesStructureContacts, structureContactMap, matrixComputation.result, distanceMode
+  ]);
+
+  useEffect(() => {
+    const element = plotRef.current;
+    if (element && plotReadyRef.current) {
+      Plotly.relayout(element, { shapes: crosshairShapes(selectedResidues) });
+    }
+  }, [selectedResidues]);
+
+  useEffect(() => {
+    const element = histogramRef.current;
+    if (!element || !binned || !selectedPair) return;
+
+    const [i, j] = selectedPair;
+    const logits = binned.logits[i]?.[j];
+    if (!logits) return;
+
+    const probabilities = binProbabilities(logits);
+    const labels = binned.bins.map(([lower, upper]) =>
+      Number.isFinite(upper) ? `${lower.toFixed(1)}–${upper.toFixed(1)}` : `> ${lower.toFixed(1)}`
+    );
+
+    const histogramData = [{
+      x: labels,
+      y: probabilities,
+      type: 'bar',
+      marker: { color: binned.bins.map(([lower]) => (lower < 8 ? '#000080' : '#BA55D3')) },
+      hovertemplate: '%{x} Å<br>P = %{y:.3f}<extra></extra>'
+    }];
+
+    const layout = {
+      height: 200,
+      margin: { l: 45, r: 10, t: 10, b: 60 },
+      xaxis: { title: { text: 'Distance (Å)' }, tickfont: { size: 9 } },
+      yaxis: { title: { text: 'Probability' }, rangemode: 'tozero' },
+      paper_bgcolor: 'rgba(0,0,0,0)',
+      plot_bgcolor: 'rgba(0,0,0,0)'
+    };
+
+    Plotly.newPlot(element, histogramData, layout, { responsive: true, displayModeBar: false, displaylogo: false });
 
-  if (error) {
+    return () => {
+      Plotly.purge(element);
+    };
+  }, [binned, selectedPair]);
+
+  const displayError = error || computation.error;
+  const computesFromStructure = usesComputedMatrix || usesStructureContacts;
+
+  if (displayError) {
     return (
       <div className="w-full h-full flex flex-col items-center justify-center p-4 text-center">
         <p className="text-destructive font-medium mb-2">Unable to display distance matrix</p>
-        <p className="text-sm text-muted-foreground">{error}</p>
+        <p className="text-sm text-muted-foreground">{displayError}</p>
+        {activeMode !== 'distance' && (
+          <Button size="sm" variant="outline" className="mt-3" onClick={() => { setError(null); setMode('distance'); }}>
+            Show distances
+          </Button>
+        )}
       </div>
     );
   }
 
   return (
-    <div className="w-full h-full relative">
+    <div className="w-full h-full relative flex flex-col">
+      {(availableModes.length > 1 || computesFromStructure) && (
+        <div className="flex flex-wrap items-center gap-2 p-2 pr-10">
+          {availableModes.map(option => (
+            <Button
+              key={option}
+              size="sm"
+              variant={activeMode === option ? 'default' : 'outline'}
+              onClick={() => setMode(option)}
+            >
+              {MODE_LABELS[option]}
+            </Button>
+          ))}
+          {activeMode === 'compare' ? (
+            <span className="text-xs text-muted-foreground">Structure distances: CB only, as predicted</span>
+          ) : computesFromStructure && (
+            <Select value={distanceMode} onValueChange={(value) => setDistanceMode(value as DistanceMode)}>
+              <SelectTrigger className="h-9 w-[120px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(DISTANCE_MODE_LABELS) as DistanceMode[]).map(option => (
+                  <SelectItem key={option} value={option} className="text-xs">
+                    {DISTANCE_MODE_LABELS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {activeMode === 'contacts' && !usesStructureContacts && (
+            <div className="flex items-center gap-2 ml-2 min-w-[180px]">
+              <span className="text-xs text-muted-foreground whitespace-nowrap">
+                P ≥ {contactThreshold.toFixed(2)}
+              </span>
+              <Slider
+                value={[contactThreshold]}
+                onValueChange={(value) => setContactThreshold(value[0])}
+                min={0.05}
+                max={0.95}
+                step={0.05}
+                className="w-32"
+              />
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Help tooltip in the top-right corner */}
       <div className="absolute top-2 right-2 z-10">
         <TooltipProvider>
@@ -313,11 +625,54 @@ export function Distogram({ molecule, data, width = 500, height = 500, source =
         </TooltipProvider>
       </div>
       
-      <div 
-        ref={plotRef} 
-        className="w-full h-full"
-        style={{ minHeight: '400px' }}
-      />
+      <div className="relative w-full flex-1" style={{ minHeight: '400px' }}>
+        <div 
+          ref={plotRef} 
+          className="w-full h-full"
+        />
+
+        {computesFromStructure && (computation.progress !== null || computation.cancelled) && (
+          <div className="absolute inset-0 flex items-center justify-center bg-background/80">
+            {computation.progress !== null ? (
+              <div className="w-64 space-y-2 text-center">
+                <p className="text-sm text-muted-foreground">
+                  Computing {usesStructureContacts ? 'contacts' : 'distances'}... {Math.round(computation.progress * 100)}%
+                </p>
+                <Progress value={computation.progress * 100} className="h-1" />
+                <Button size="sm" variant="outline" onClick={computation.cancel}>
+                  Cancel
+                </Button>
+              </div>
+            ) : (
+              <div className="space-y-2 text-center">
+                <p className="text-sm text-muted-foreground">Computation cancelled</p>
+                <Button size="sm" variant="outline" onClick={computation.restart}>
+                  Compute again
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {binned && (
+        selectedPair ? (
+          <div className="p-2">
+            <div className="flex justify-between items-center text-xs mb-1">
+              <span className="font-medium">
+                Distance distribution, residues {selectedPair[0] + 1} and {selectedPair[1] + 1}
+                {contactProbabilities && ` (P(d < 8 Å) = ${contactProbabilities[selectedPair[0]][selectedPair[1]].toFixed(2)})`}
+              </span>
+              <button className="text-muted-foreground hover:text-foreground" onClick={() => setSelectedPair(null)}>
+                Clear
+              </button>
+            </div>
+            <div ref={histogramRef} className="w-full" />
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground p-2">Click a cell to see the distance distribution of that residue pair.</p>
+        )
+      )}
     </div>
   );
-} 
\ No newline at end of file
+}
@@ -36,7 +36,8 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onFilesUploaded, num_files
     onDrop,
     accept: {
       'chemical/x-pdb': ['.pdb'],
-      'application/x-cif': ['.cif'],
+      'application/x-cif': ['.cif', '.mmcif'],
+      'application/octet-stream': ['.bcif'],
       'application/x-ent': ['.ent'],
       'application/gzip': ['.gz']
     },
@@ -77,7 +78,7 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onFilesUploaded, num_files
         )}
       </p>
       <p className="text-[10px] text-muted-foreground/70 mt-2">
-        Supports .pdb, .cif, .ent, and .gz files
+        Supports .pdb, .cif, .bcif, .ent, and .gz files
       </p>
       {uploadCount > 0 && (
         <div className="absolute top-1 right-2">
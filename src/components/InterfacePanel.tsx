@@ -0,0 +1,213 @@
+import React, { useMemo, useState } from 'react';
+import { useVisualizeStore, Structure } from '@/store/visualizeStore';
+import { ResidueRef } from '@/types/viewer';
+import { calculateMoleculeStats } from '@/utils/structure';
+import { InterfaceAtom, InterfaceResidue } from '@/utils/interface';
+import { toCSV } from '@/utils/csvParser';
+import { ComputeOptions, analyzeInterfacesInWorker } from '@/lib/geometryWorkers';
+import { saveBlob } from '@/lib/utils';
+import { useWorkerComputation } from '@/hooks/use-worker-computation';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Download, Network, X } from 'lucide-react';
+
+const formatAtom = (atom: InterfaceAtom): string =>
+  `${atom.residueName} ${atom.chain}${atom.residueId}${atom.insertionCode} ${atom.atomName}`;
+
+/**
+ * Interfaces between the chains of a multimer: contacts, buried surface
+ * area, hydrogen bonds and salt bridges, and a table of the interface
+ * residues. The analysis runs in the geometry workers on request.
+ */
+export function InterfacePanel({ structure }: { structure: Structure }) {
+  const { setSelection, setHighlightedResidues } = useVisualizeStore();
+  const [requested, setRequested] = useState(false);
+
+  const chainCount = useMemo(
+    () => (structure.molecule ? calculateMoleculeStats(structure.molecule).chainInfo.filter(chain => chain.residueCount > 0).length : 0),
+    [structure.molecule]
+  );
+
+  const compute = useMemo(
+    () => (requested && structure.molecule
+      ? (options: ComputeOptions) => analyzeInterfacesInWorker(structure.molecule!, options)
+      : null),
+    [requested, structure.molecule]
+  );
+  const { result: analysis, progress, error, cancelled, cancel, restart } = useWorkerComputation(compute);
+
+  const toResidueRef = (residue: InterfaceResidue): ResidueRef => ({
+    structureId: structure.id,
+    chain: residue.chain,
+    residueId: residue.residueId,
+    insertionCode: residue.insertionCode,
+  });
+
+  const exportCSV = () => {
+    if (!analysis) return;
+    const rows = [
+      ['chain', 'residue', 'residue_id', 'insertion_code', 'partner_chains', 'buried_area', 'hbonds', 'salt_bridges'],
+      ...analysis.residues.map(residue => [
+        residue.chain,
+        residue.name,
+        residue.residueId,
+        residue.insertionCode,
+        residue.partners.join(' '),
+        residue.buriedArea.toFixed(1),
+        residue.hbonds,
+        residue.saltBridges,
+      ]),
+    ];
+    saveBlob(new Blob([toCSV(rows)], { type: 'text/csv' }), `${structure.name.replace(/\.[^.]+$/, '')}_interface.csv`);
+  };
+
+  if (chainCount < 2) {
+    return (
+      <div className="text-sm text-muted-foreground text-center py-2">
+        Interface analysis needs a structure with at least two chains
+      </div>
+    );
+  }
+
+  if (!requested) {
+    return (
+      <Button className="w-full" size="sm" variant="outline" onClick={() => setRequested(true)}>
+        <Network className="mr-2 h-3 w-3" />
+        Analyze Interfaces ({chainCount} chains)
+      </Button>
+    );
+  }
+
+  if (progress !== null) {
+    return (
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-muted-foreground whitespace-nowrap">Analyzing... {Math.round(progress * 100)}%</span>
+        <Progress value={progress * 100} className="h-1 flex-1" />
+        <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={cancel}>
+          <X className="mr-1 h-3 w-3" />
+          Cancel
+        </Button>
+      </div>
+    );
+  }
+
+  if (error || cancelled || !analysis) {
+    return (
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>{error ? `Interface analysis failed: ${error}` : 'Interface analysis cancelled'}</span>
+        <Button size="sm" variant="outline" className="h-7 text-xs" onClick={restart}>
+          Analyze again
+        </Button>
+      </div>
+    );
+  }
+
+  if (analysis.interfaces.length === 0) {
+    return <div className="text-sm text-muted-foreground text-center py-2">No contacts between the chains</div>;
+  }
+
+  const bonds = analysis.interfaces.flatMap(chainInterface => chainInterface.bonds);
+
+  return (
+    <div className="space-y-3">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="h-8 text-xs">Chains</TableHead>
+            <TableHead className="h-8 text-xs text-right">Contacts</TableHead>
+            <TableHead className="h-8 text-xs text-right">BSA (Å²)</TableHead>
+            <TableHead className="h-8 text-xs text-right">H-bonds</TableHead>
+            <TableHead className="h-8 text-xs text-right">Salt bridges</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {analysis.interfaces.map(chainInterface => (
+            <TableRow key={`${chainInterface.chainA}-${chainInterface.chainB}`}>
+              <TableCell className="py-1 text-xs font-medium">{chainInterface.chainA}–{chainInterface.chainB}</TableCell>
+              <TableCell className="py-1 text-xs text-right">{chainInterface.contacts}</TableCell>
+              <TableCell className="py-1 text-xs text-right">{chainInterface.buriedSurfaceArea.toFixed(0)}</TableCell>
+              <TableCell className="py-1 text-xs text-right">
+                {chainInterface.bonds.filter(bond => bond.kind === 'hbond').length}
+              </TableCell>
+              <TableCell className="py-1 text-xs text-right">
+                {chainInterface.bonds.filter(bond => bond.kind === 'salt-bridge').length}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-7 text-xs"
+          onClick={() => setSelection({ residues: analysis.residues.map(toResidueRef), origin: 'interface' })}
+        >
+          Show in viewer
+        </Button>
+        <Button size="sm" variant="outline" className="h-7 text-xs" onClick={exportCSV}>
+          <Download className="mr-1 h-3 w-3" />
+          Export CSV
+        </Button>
+      </div>
+
+      <div className="max-h-64 overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="h-8 text-xs">Residue</TableHead>
+              <TableHead className="h-8 text-xs">Partners</TableHead>
+              <TableHead className="h-8 text-xs text-right">Buried (Å²)</TableHead>
+              <TableHead className="h-8 text-xs text-right">H-bonds</TableHead>
+              <TableHead className="h-8 text-xs text-right">Salt bridges</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {analysis.residues.map(residue => (
+              <TableRow
+                key={`${residue.chain}-${residue.residueId}${residue.insertionCode}`}
+                className="cursor-pointer"
+                onMouseEnter={() => setHighlightedResidues([toResidueRef(residue)])}
+                onMouseLeave={() => setHighlightedResidues([])}
+                onClick={() => setSelection({ residues: [toResidueRef(residue)], origin: 'interface' })}
+              >
+                <TableCell className="py-1 text-xs font-medium">
+                  {residue.name} {residue.chain}{residue.residueId}{residue.insertionCode}
+                </TableCell>
+                <TableCell className="py-1 text-xs">{residue.partners.join(', ')}</TableCell>
+                <TableCell className="py-1 text-xs text-right">{residue.buriedArea.toFixed(1)}</TableCell>
+                <TableCell className="py-1 text-xs text-right">{residue.hbonds || ''}</TableCell>
+                <TableCell className="py-1 text-xs text-right">{residue.saltBridges || ''}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {bonds.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-xs text-muted-foreground">Hydrogen bonds and salt bridges:</div>
+          <div className="max-h-40 overflow-y-auto space-y-0.5">
+            {bonds.map((bond, index) => (
+              <div
+                key={index}
+                className="flex justify-between gap-2 text-xs cursor-pointer hover:bg-muted/50 rounded px-1"
+                onMouseEnter={() => setHighlightedResidues([bond.a, bond.b].map(atom => ({
+                  structureId: structure.id, chain: atom.chain, residueId: atom.residueId, insertionCode: atom.insertionCode
+                })))}
+                onMouseLeave={() => setHighlightedResidues([])}
+              >
+                <span className="truncate">{formatAtom(bond.a)} – {formatAtom(bond.b)}</span>
+                <span className="text-muted-foreground whitespace-nowrap">
+                  {bond.kind === 'hbond' ? 'H-bond' : 'Salt bridge'} {bond.distance.toFixed(2)} Å
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
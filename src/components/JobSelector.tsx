@@ -19,45 +19,21 @@ import { cn } from "@/lib/utils";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useVisualizeStore } from "@/store/visualizeStore";
-import { parsePDB } from "@/utils/pdbParser";
+import { parseStructureString } from "@/utils/structureParser";
+import { paeFromJobStatus } from "@/utils/pae";
 import { Input } from '@/components/ui/input';
 import { supabase } from '@/lib/supabase';
 import { toast } from 'sonner';
-import { getApiUrl } from '@/lib/config';
-import { apiClient } from '@/lib/api-client';
+import { getActiveServerProfileId, getApiUrl } from '@/lib/config';
+import { api } from '@/lib/api';
+import { SuccessfulJob } from '@/lib/api-schema';
+import { getModelDisplayName } from '@/lib/models';
+import { useModelsStore } from '@/store/modelsStore';
 
 // Define the maximum number of jobs that can be visualized
 const MAX_JOBS = 3;
 
-// Updated to match the new JobStatus format from the backend
-interface JobStatus {
-  job_id: string;
-  job_name: string;
-  status: string;
-  created_at: string;
-  completed_at?: string;
-  error_message?: string;
-  pdb_content?: string;
-  distogram?: {
-    distance_matrix: number[][];
-    bin_edges: number[];
-    max_distance: number;
-    num_bins: number;
-  };
-  plddt_score?: number;
-  user_id: string;
-  model: string;
-}
-
-interface Job {
-  job_id: string;
-  job_name: string;
-  created_at: string;
-  completed_at: string;
-  status: string;
-  model?: string;
-  plddt_score?: number;
-}
+type Job = SuccessfulJob;
 
 interface JobSelectorProps {
   onSelect?: (jobId: string) => void;
@@ -73,6 +49,7 @@ export function JobSelector({ onSelect }: JobSelectorProps) {
     canAddMoreJobs, 
     getCurrentJobCount 
   } = useVisualizeStore();
+  const models = useModelsStore(state => state.models);
   const [jobs, setJobs] = useState<Job[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [loading, setLoading] = useState(true);
@@ -106,8 +83,9 @@ export function JobSelector({ onSelect }: JobSelectorProps) {
         return null;
       }
 
-      // Fetch the job details from the API using apiClient
-      const jobStatus = await apiClient.get<JobStatus>(`jobs/${job.job_id}/status`);
+      // Fetch the job details from the server the job list came from
+      const profileId = getActiveServerProfileId();
+      const jobStatus = await api.getJobStatus(job.job_id, profileId);
       
       // Debug the API response
       console.log(`API Response for job ${job.job_id}:`, {
@@ -129,15 +107,8 @@ export function JobSelector({ onSelect }: JobSelectorProps) {
       
       console.log(`Received PDB content (${jobStatus.pdb_content.length} bytes) for job ${job.job_id}`);
 
-      // Create a File object from the PDB content with a proper name
-      const pdbFile = new File(
-        [jobStatus.pdb_content],
-        `${jobStatus.job_name}.pdb`,
-        { type: 'text/plain' }
-      );
-
       // Parse the PDB content from the job
-      const molecule = await parsePDB(pdbFile);
+      const molecule = parseStructureString(jobStatus.pdb_content, `${jobStatus.job_name}.pdb`);
       console.log('Parsed molecule for job:', jobStatus.job_id, 
         molecule ? `${molecule.atoms.length} atoms` : 'No molecule parsed');
       
@@ -154,13 +125,15 @@ export function JobSelector({ onSelect }: JobSelectorProps) {
         molecule: molecule,
         metadata: {
           distogram: jobStatus.distogram, // Keep the entire distogram object
+          pae: paeFromJobStatus(jobStatus.pae),
           plddt_score: jobStatus.plddt_score,
           created_at: jobStatus.created_at,
           completed_at: jobStatus.completed_at,
           error_message: jobStatus.error_message,
           user_id: jobStatus.user_id,
           model: jobStatus.model,
-          job_id: jobStatus.job_id
+          job_id: jobStatus.job_id,
+          server_profile_id: profileId
         }
       };
       
@@ -261,8 +234,8 @@ export function JobSelector({ onSelect }: JobSelectorProps) {
         setLoading(true);
         setError(null);
 
-        // Fetch successful jobs from the API using apiClient
-        const data = await apiClient.get<Job[]>('jobs/successful');
+        // Fetch successful jobs from the API
+        const data = await api.getSuccessfulJobs();
         setJobs(data);
       } catch (err) {
         console.error('Error fetching jobs:', err);
@@ -288,16 +261,7 @@ export function JobSelector({ onSelect }: JobSelectorProps) {
   }
 
   // Helper function to get a model display name
-  const getModelDisplayName = (modelId: string): string => {
-    switch(modelId?.toLowerCase()) {
-      case 'esm3':
-        return 'ESM-3';
-      case 'alphafold2':
-        return 'AlphaFold2';
-      default:
-        return modelId || 'Unknown';
-    }
-  };
+  const getModelName = (modelId: string): string => getModelDisplayName(models, modelId);
 
   // Helper function to get a badge color for the model
   const getModelBadgeVariant = (modelId: string): "default" | "secondary" | "outline" => {
@@ -397,7 +361,7 @@ export function JobSelector({ onSelect }: JobSelectorProps) {
                         <div className="flex items-center gap-2">
                           {job.model && (
                             <Badge variant={getModelBadgeVariant(job.model)} className="text-xs">
-                              {getModelDisplayName(job.model)}
+                              {getModelName(job.model)}
                             </Badge>
                           )}
                           {job.plddt_score !== undefined && (
@@ -430,7 +394,7 @@ export function JobSelector({ onSelect }: JobSelectorProps) {
                   {job.job_name}
                   {job.model && (
                     <Badge variant={getModelBadgeVariant(job.model)} className="ml-1 text-xs">
-                      {getModelDisplayName(job.model)}
+                      {getModelName(job.model)}
                     </Badge>
                   )}
                 </span>
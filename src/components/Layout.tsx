@@ -15,7 +15,15 @@ import {
 import { useEffect, useState } from "react";
 import { Toaster } from "@/components/ui/toaster";
 import { Button } from "@/components/ui/button";
-import { getApiUrl } from "@/lib/config";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useServerStore } from "@/store/serverStore";
+import { useModelsStore } from "@/store/modelsStore";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 
 const navItems = [
@@ -28,7 +36,8 @@ const navItems = [
 export function Layout() {
   const location = useLocation();
   const [isCollapsed, setIsCollapsed] = useState(false);
-  const [serverStatus, setServerStatus] = useState<'online' | 'offline'>('offline');
+  const { profiles, activeProfileId, health, setActiveProfile, startHealthMonitor } = useServerStore();
+  const serverStatus = health[activeProfileId]?.online ? 'online' : 'offline';
   const [user, setUser] = useState<{
     email?: string;
     avatar_url?: string;
@@ -50,26 +59,14 @@ export function Layout() {
     fetchUserData();
   }, []);
 
-  // Check server status
-  useEffect(() => {
-    const checkServerStatus = async () => {
-      try {
-        // Use apiClient for health check to maintain consistent auth
-        const response = await fetch(`${getApiUrl()}/health`);
-        setServerStatus(response.ok ? 'online' : 'offline');
-      } catch (error) {
-        setServerStatus('offline');
-      }
-    };
+  // Poll the health of every server profile in the background
+  useEffect(() => startHealthMonitor(), [startHealthMonitor]);
 
-    // Check initially
-    checkServerStatus();
-    
-    // Set up polling interval
-    const intervalId = setInterval(checkServerStatus, 30000); // Check every 30 seconds
-    
-    return () => clearInterval(intervalId);
-  }, []);
+  // Model rules and the model picker follow the active server
+  const loadModels = useModelsStore(state => state.loadModels);
+  useEffect(() => {
+    loadModels(activeProfileId);
+  }, [activeProfileId, loadModels]);
 
   const getInitials = (name?: string) => {
     if (!name) return '??';
@@ -207,15 +204,38 @@ export function Layout() {
             <h2 className="text-lg font-medium">
               {navItems.find((item) => item.path === location.pathname)?.name}
             </h2>
-            <a 
-              href="https://github.com/Anindyadeep/litefold"
-              target="_blank"
-              rel="noopener noreferrer"
-              className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors"
-            >
-              <Github className="h-5 w-5" />
-              <span className="hidden sm:inline">LiteFold GitHub</span>
-            </a>
+            <div className="flex items-center gap-4">
+              <Select value={activeProfileId} onValueChange={setActiveProfile}>
+                <SelectTrigger className="h-8 w-48 text-sm">
+                  <SelectValue placeholder="Select server" />
+                </SelectTrigger>
+                <SelectContent>
+                  {profiles.map((profile) => (
+                    <SelectItem key={profile.id} value={profile.id}>
+                      <div className="flex items-center gap-2">
+                        <div
+                          className={cn(
+                            "h-2 w-2 rounded-full",
+                            !health[profile.id] ? "bg-gray-400"
+                              : health[profile.id].online ? "bg-green-500" : "bg-red-500"
+                          )}
+                        />
+                        {profile.name}
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <a 
+                href="https://github.com/Anindyadeep/litefold"
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors"
+              >
+                <Github className="h-5 w-5" />
+                <span className="hidden sm:inline">LiteFold GitHub</span>
+              </a>
+            </div>
           </div>
           <div className="p-6">
             <Outlet />
@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React from 'react';
 import { useVisualizeStore } from '@/store/visualizeStore';
 import { Card } from './ui/card';
 import { Badge } from './ui/badge';
@@ -8,24 +8,10 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { X } from 'lucide-react';
 import { StructureDetails } from './StructureDetails';
 import { Distogram } from './Distogram';
-import { calculateDistogram } from '@/utils/distogram';
+import { getResidues } from '@/utils/structure';
 
 export function LoadedStructures() {
   const { loadedStructures, removeStructureById } = useVisualizeStore();
-  const [calculatedDistograms, setCalculatedDistograms] = useState<Record<string, number[][]>>({});
-
-  // Calculate distograms for uploaded structures
-  useEffect(() => {
-    loadedStructures.forEach(structure => {
-      if (structure.source === 'file' && structure.molecule && !calculatedDistograms[structure.id]) {
-        const distogram = calculateDistogram(structure.molecule);
-        setCalculatedDistograms(prev => ({
-          ...prev,
-          [structure.id]: distogram
-        }));
-      }
-    });
-  }, [loadedStructures]);
 
   if (loadedStructures.length === 0) {
     return (
@@ -55,7 +41,7 @@ export function LoadedStructures() {
                           {structure.molecule.atoms.length} atoms
                         </Badge>
                         <Badge variant="outline">
-                          {new Set(structure.molecule.atoms.map(a => a.residueId)).size} residues
+                          {getResidues(structure.molecule).length} residues
                         </Badge>
                       </>
                     )}
@@ -74,7 +60,7 @@ export function LoadedStructures() {
                 <TabsList>
                   <TabsTrigger value="info">Info</TabsTrigger>
                   <TabsTrigger value="stats">Statistics</TabsTrigger>
-                  {(structure.metadata?.distogram || calculatedDistograms[structure.id]) && (
+                  {(structure.metadata?.distogram || structure.molecule) && (
                     <TabsTrigger value="distogram">Distogram</TabsTrigger>
                   )}
                 </TabsList>
@@ -105,14 +91,14 @@ export function LoadedStructures() {
                 </TabsContent>
 
                 {/* Distogram Tab */}
-                {(structure.metadata?.distogram || calculatedDistograms[structure.id]) && (
+                {(structure.metadata?.distogram || structure.molecule) && (
                   <TabsContent value="distogram">
                     <Card className="p-4">
                       <h4 className="text-sm font-medium mb-4">Distance Matrix</h4>
                       <div className="h-[400px]">
                         <Distogram 
                           molecule={structure.molecule}
-                          data={structure.metadata?.distogram || calculatedDistograms[structure.id]}
+                          data={structure.metadata?.distogram}
                           width={400} 
                           height={400}
                         />
@@ -0,0 +1,118 @@
+import React from 'react';
+import { useVisualizeStore, getMeasurementKey, Structure } from '@/store/visualizeStore';
+import { MeasuredAtom, MeasurementKind } from '@/types/viewer';
+import {
+  MEASUREMENT_ATOM_COUNT,
+  MEASUREMENT_LABELS,
+  formatMeasuredAtom,
+  formatMeasurementValue,
+  measurementsToCSV
+} from '@/utils/measurements';
+import { saveBlob } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Download, Trash2 } from 'lucide-react';
+
+interface MeasurementPanelProps {
+  mode: MeasurementKind | null;
+  onModeChange: (mode: MeasurementKind | null) => void;
+  /** Atoms picked so far for the measurement in progress */
+  pendingAtoms: MeasuredAtom[];
+}
+
+/**
+ * Measurement tools for the 3D viewer and the measurements of the loaded
+ * structures, which are kept across reloads of the same file or job
+ */
+export function MeasurementPanel({ mode, onModeChange, pendingAtoms }: MeasurementPanelProps) {
+  const { loadedStructures, measurements, removeMeasurement, clearMeasurements } = useVisualizeStore();
+
+  // One entry per stored list; a file loaded twice shares its measurements
+  const groups: { structure: Structure; key: string }[] = [];
+  loadedStructures.forEach(structure => {
+    const key = getMeasurementKey(structure);
+    if (measurements[key]?.length && !groups.some(group => group.key === key)) {
+      groups.push({ structure, key });
+    }
+  });
+
+  const exportCSV = () => {
+    const rows = groups.flatMap(({ structure, key }) =>
+      measurements[key].map(measurement => ({ structure: structure.name, measurement }))
+    );
+    saveBlob(new Blob([measurementsToCSV(rows)], { type: 'text/csv' }), 'measurements.csv');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(MEASUREMENT_LABELS) as MeasurementKind[]).map(kind => (
+          <Button
+            key={kind}
+            size="sm"
+            variant={mode === kind ? 'default' : 'outline'}
+            onClick={() => onModeChange(mode === kind ? null : kind)}
+          >
+            {MEASUREMENT_LABELS[kind]}
+          </Button>
+        ))}
+      </div>
+
+      {mode && (
+        <div className="bg-muted/30 p-2 rounded-md text-xs space-y-1">
+          <div className="flex justify-between items-center">
+            <span>
+              Pick atom {pendingAtoms.length + 1} of {MEASUREMENT_ATOM_COUNT[mode]} in the 3D viewer
+            </span>
+            <button className="text-muted-foreground hover:text-foreground" onClick={() => onModeChange(null)}>
+              Done
+            </button>
+          </div>
+          {pendingAtoms.length > 0 && (
+            <div className="text-muted-foreground">{pendingAtoms.map(formatMeasuredAtom).join(' – ')}</div>
+          )}
+        </div>
+      )}
+
+      {groups.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          No measurements yet. Choose a tool and click atoms in the 3D viewer.
+        </p>
+      ) : (
+        <>
+          {groups.map(({ structure, key }) => (
+            <div key={key} className="space-y-1">
+              <div className="flex justify-between items-center text-xs">
+                <span className="font-medium truncate">{structure.name}</span>
+                <button className="text-muted-foreground hover:text-foreground" onClick={() => clearMeasurements(structure)}>
+                  Clear
+                </button>
+              </div>
+              {measurements[key].map(measurement => (
+                <div key={measurement.id} className="flex items-center gap-2 text-xs">
+                  <span className="text-muted-foreground w-14 shrink-0">{MEASUREMENT_LABELS[measurement.kind]}</span>
+                  <span className="flex-1 truncate" title={measurement.atoms.map(formatMeasuredAtom).join(' – ')}>
+                    {measurement.atoms.map(formatMeasuredAtom).join(' – ')}
+                  </span>
+                  <span className="font-medium whitespace-nowrap">{formatMeasurementValue(measurement)}</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 text-muted-foreground"
+                    onClick={() => removeMeasurement(structure, measurement.id)}
+                    title="Remove measurement"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ))}
+          <Button size="sm" variant="outline" onClick={exportCSV}>
+            <Download className="h-4 w-4 mr-1" />
+            Export CSV
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
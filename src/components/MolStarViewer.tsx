@@ -2,7 +2,17 @@ import React, { useEffect, useRef, forwardRef, useImperativeHandle } from 'react
 import { PluginUIContext } from 'molstar/lib/mol-plugin-ui/context';
 import { DefaultPluginUISpec } from 'molstar/lib/mol-plugin-ui/spec';
 import { Plugin } from 'molstar/lib/mol-plugin-ui/plugin';
-import { ViewerState } from '@/types/viewer';
+import { ColorTheme } from 'molstar/lib/mol-theme/color';
+import { ThemeDataContext } from 'molstar/lib/mol-theme/theme';
+import { ParamDefinition as PD } from 'molstar/lib/mol-util/param-definition';
+import { Color } from 'molstar/lib/mol-util/color';
+import { Location } from 'molstar/lib/mol-model/location';
+import { Bond, Structure, StructureElement, StructureProperties, StructureSelection } from 'molstar/lib/mol-model/structure';
+import { Script } from 'molstar/lib/mol-script/script';
+import { ButtonsType } from 'molstar/lib/mol-util/input/input-observer';
+import { ViewerState, ResidueColors, ResidueRef, Measurement, MeasurementKind, MeasuredAtom } from '@/types/viewer';
+import { detectTextFormat } from '@/utils/structureParser';
+import { NO_VALUE_COLOR, residueKey } from '@/utils/residueColors';
 import { createRoot } from 'react-dom/client';
 
 interface MolStarViewerProps {
@@ -11,8 +21,16 @@ interface MolStarViewerProps {
     pdbData: string;
     name?: string;
     source?: 'file' | 'job';
+    residueColors?: ResidueColors;
   }[];
   viewerState: ViewerState;
+  highlightedResidues?: ResidueRef[];
+  selectedResidues?: ResidueRef[];
+  distancePair?: [ResidueRef, ResidueRef];
+  onResiduePick?: (residue: ResidueRef, extend: boolean) => void;
+  measurements?: Record<string, Measurement[]>;   // By structure id
+  measurementMode?: MeasurementKind | null;        // Clicks pick atoms for a new measurement
+  onAtomPick?: (structureId: string, atom: MeasuredAtom, position: [number, number, number]) => void;
 }
 
 const STRUCTURE_COLORS = [
@@ -27,14 +45,144 @@ const COLOR_SCHEMES = {
   RESIDUE: 'residue-name',
   ELEMENT: 'element-symbol',
   BFACTOR: 'b-factor',
-  SEQUENCE: 'sequence-id'
+  SEQUENCE: 'sequence-id',
+  DEVIATION: 'residue-colors',
+  PLDDT: 'residue-colors',
+  EXPOSURE: 'residue-colors'
 };
 
-export const MolStarViewer = forwardRef<any, MolStarViewerProps>(({ structures, viewerState }, ref) => {
+// Color theme for per-residue analyses: colors each residue from the
+// ResidueColors map passed with its structure
+const ResidueColorsThemeParams = {
+  colors: PD.Value<ResidueColors>({}, { isHidden: true }),
+};
+type ResidueColorsThemeParams = typeof ResidueColorsThemeParams;
+
+function ResidueColorsTheme(ctx: ThemeDataContext, props: PD.Values<ResidueColorsThemeParams>): ColorTheme<ResidueColorsThemeParams> {
+  const bondLocation = StructureElement.Location.create();
+
+  const residueColor = (location: StructureElement.Location): Color => {
+    const key = residueKey(
+      StructureProperties.chain.auth_asym_id(location),
+      StructureProperties.residue.auth_seq_id(location),
+      StructureProperties.residue.pdbx_PDB_ins_code(location)
+    );
+    return Color(props.colors[key] ?? NO_VALUE_COLOR);
+  };
+
+  const color = (location: Location): Color => {
+    if (StructureElement.Location.is(location)) {
+      return residueColor(location);
+    }
+    if (Bond.isLocation(location)) {
+      bondLocation.structure = location.aStructure;
+      bondLocation.unit = location.aUnit;
+      bondLocation.element = location.aUnit.elements[location.aIndex];
+      return residueColor(bondLocation);
+    }
+    return Color(NO_VALUE_COLOR);
+  };
+
+  return {
+    factory: ResidueColorsTheme,
+    granularity: 'group',
+    color,
+    props,
+    description: 'Colors residues by a per-residue analysis value.'
+  };
+}
+
+const ResidueColorsThemeProvider: ColorTheme.Provider<ResidueColorsThemeParams, 'residue-colors'> = {
+  name: 'residue-colors',
+  label: 'Residue Values',
+  category: 'Residue Property',
+  factory: ResidueColorsTheme,
+  getParams: () => ResidueColorsThemeParams,
+  defaultValues: PD.getDefaultValues(ResidueColorsThemeParams),
+  isApplicable: (ctx: ThemeDataContext) => !!ctx.structure
+};
+
+/**
+ * Loci of the residues, one per structure, chain and insertion code so
+ * residue ranges stay cheap. With `atomNames` only those atoms of each
+ * residue are included.
+ */
+function residueLoci(loaded: Map<string, Structure>, residues: ResidueRef[], atomNames?: string[]): StructureElement.Loci[] {
+  const groups = new Map<string, ResidueRef[]>();
+  residues.forEach(residue => {
+    const key = `${residue.structureId}|${residue.chain}|${residue.insertionCode}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(residue);
+  });
+
+  const loci: StructureElement.Loci[] = [];
+  groups.forEach(group => {
+    const { structureId, chain, insertionCode } = group[0];
+    const structure = loaded.get(structureId);
+    if (!structure) return;
+
+    const selection = Script.getStructureSelection(Q => Q.struct.generator.atomGroups({
+      'chain-test': Q.core.rel.eq([Q.struct.atomProperty.macromolecular.auth_asym_id(), chain]),
+      'residue-test': Q.core.logic.and([
+        Q.core.set.has([
+          Q.set(...group.map(residue => residue.residueId)),
+          Q.struct.atomProperty.macromolecular.auth_seq_id()
+        ]),
+        Q.core.rel.eq([Q.struct.atomProperty.macromolecular.pdbx_PDB_ins_code(), insertionCode]),
+      ]),
+      ...(atomNames ? {
+        'atom-test': Q.core.set.has([Q.set(...atomNames), Q.struct.atomProperty.macromolecular.label_atom_id()])
+      } : {}),
+    }), structure);
+    const groupLoci = StructureSelection.toLociWithSourceUnits(selection);
+    if (!StructureElement.Loci.isEmpty(groupLoci)) loci.push(groupLoci);
+  });
+  return loci;
+}
+
+// Atom a residue-residue distance is measured from
+const REPRESENTATIVE_ATOMS = ['CA', "C4'"];
+
+/**
+ * Loci of one atom of a measurement, or undefined when the structure has no
+ * such atom
+ */
+function atomLoci(structure: Structure, atom: MeasuredAtom): StructureElement.Loci | undefined {
+  const selection = Script.getStructureSelection(Q => Q.struct.generator.atomGroups({
+    'chain-test': Q.core.rel.eq([Q.struct.atomProperty.macromolecular.auth_asym_id(), atom.chain]),
+    'residue-test': Q.core.logic.and([
+      Q.core.rel.eq([Q.struct.atomProperty.macromolecular.auth_seq_id(), atom.residueId]),
+      Q.core.rel.eq([Q.struct.atomProperty.macromolecular.pdbx_PDB_ins_code(), atom.insertionCode]),
+    ]),
+    'atom-test': Q.core.rel.eq([Q.struct.atomProperty.macromolecular.auth_atom_id(), atom.atomName]),
+  }), structure);
+  const loci = StructureSelection.toLociWithSourceUnits(selection);
+  return StructureElement.Loci.isEmpty(loci) ? undefined : loci;
+}
+
+export const MolStarViewer = forwardRef<any, MolStarViewerProps>(({
+  structures, viewerState, highlightedResidues, selectedResidues, distancePair, onResiduePick,
+  measurements, measurementMode, onAtomPick
+}, ref) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const pluginRef = useRef<PluginUIContext | null>(null);
+  // Loaded structures by structure id, for highlighting
+  const loadedStructuresRef = useRef(new Map<string, Structure>());
   const structuresRef = useRef(structures);
   const isVisibleRef = useRef(true);
+  // Latest selection props, re-applied after the structures are reloaded
+  const selectionRef = useRef({ selectedResidues, distancePair });
+  selectionRef.current = { selectedResidues, distancePair };
+  const onResiduePickRef = useRef(onResiduePick);
+  onResiduePickRef.current = onResiduePick;
+  // State ref of the distance measurement between the selected pair
+  const distanceRef = useRef<string | null>(null);
+  const measurementsRef = useRef(measurements);
+  measurementsRef.current = measurements;
+  const pickRef = useRef({ measurementMode, onAtomPick });
+  pickRef.current = { measurementMode, onAtomPick };
+  // State refs of the drawn measurements
+  const measurementRefs = useRef<string[]>([]);
 
   useImperativeHandle(ref, () => ({
     plugin: pluginRef.current,
@@ -75,9 +223,39 @@ export const MolStarViewer = forwardRef<any, MolStarViewerProps>(({ structures,
 
         const plugin = new PluginUIContext(spec);
         await plugin.init();
+        plugin.representation.structure.themes.colorThemeRegistry.add(ResidueColorsThemeProvider);
 
         pluginRef.current = plugin;
 
+        // Residues picked in 3D become the shared selection; shift-click adds to it.
+        // With a measurement tool active the picked atoms go to the measurement.
+        plugin.behaviors.interaction.click.subscribe(({ current: { loci }, button, modifiers }) => {
+          if (button !== ButtonsType.Flag.Primary || !StructureElement.Loci.is(loci)) return;
+          const entry = [...loadedStructuresRef.current.entries()]
+            .find(([, structure]) => Structure.areRootsEquivalent(structure, loci.structure));
+          const location = StructureElement.Loci.getFirstLocation(loci);
+          if (!entry || !location) return;
+
+          const { measurementMode, onAtomPick } = pickRef.current;
+          if (measurementMode) {
+            onAtomPick?.(entry[0], {
+              chain: StructureProperties.chain.auth_asym_id(location),
+              residueId: StructureProperties.residue.auth_seq_id(location),
+              insertionCode: StructureProperties.residue.pdbx_PDB_ins_code(location),
+              residueName: StructureProperties.atom.auth_comp_id(location),
+              atomName: StructureProperties.atom.auth_atom_id(location),
+            }, [StructureProperties.atom.x(location), StructureProperties.atom.y(location), StructureProperties.atom.z(location)]);
+            return;
+          }
+
+          onResiduePickRef.current?.({
+            structureId: entry[0],
+            chain: StructureProperties.chain.auth_asym_id(location),
+            residueId: StructureProperties.residue.auth_seq_id(location),
+            insertionCode: StructureProperties.residue.pdbx_PDB_ins_code(location),
+          }, modifiers.shift);
+        });
+
         const pluginContainer = document.createElement('div');
         containerRef.current.appendChild(pluginContainer);
 
@@ -150,6 +328,91 @@ export const MolStarViewer = forwardRef<any, MolStarViewerProps>(({ structures,
     }
   }, [viewerState.viewMode, viewerState.colorScheme, viewerState.showLigand, viewerState.showWaterIon]);
 
+  useEffect(() => {
+    const plugin = pluginRef.current;
+    if (!plugin) return;
+
+    const highlights = plugin.managers.interactivity.lociHighlights;
+    highlights.clearHighlights();
+    residueLoci(loadedStructuresRef.current, highlightedResidues || [])
+      .forEach(loci => highlights.highlight({ loci }, false));
+  }, [highlightedResidues]);
+
+  // Select the residues and measure the distance of the selected pair
+  const applySelection = async () => {
+    const plugin = pluginRef.current;
+    if (!plugin) return;
+    const { selectedResidues, distancePair } = selectionRef.current;
+    const loaded = loadedStructuresRef.current;
+
+    const selects = plugin.managers.interactivity.lociSelects;
+    selects.deselectAll();
+    residueLoci(loaded, selectedResidues || []).forEach(loci => selects.select({ loci }, false));
+
+    try {
+      if (distanceRef.current) {
+        const previous = distanceRef.current;
+        distanceRef.current = null;
+      measurementRefs.current = [];
+        await plugin.build().delete(previous).commit();
+      }
+      if (!distancePair) return;
+
+      const [a, b] = distancePair.map(residue =>
+        residueLoci(loaded, [residue], REPRESENTATIVE_ATOMS)[0] ?? residueLoci(loaded, [residue])[0]
+      );
+      if (a && b) {
+        const { selection } = await plugin.managers.structure.measurement.addDistance(a, b);
+        distanceRef.current = selection.ref;
+      }
+    } catch (error) {
+      console.error('Error measuring selected residue pair:', error);
+    }
+  };
+
+  useEffect(() => {
+    applySelection();
+  }, [selectedResidues, distancePair]);
+
+  // Draw the stored measurements of every loaded structure
+  const applyMeasurements = async () => {
+    const plugin = pluginRef.current;
+    if (!plugin) return;
+
+    try {
+      const previous = measurementRefs.current;
+      measurementRefs.current = [];
+      if (previous.length > 0) {
+        const update = plugin.build();
+        previous.forEach(ref => update.delete(ref));
+        await update.commit();
+      }
+
+      const manager = plugin.managers.structure.measurement;
+      for (const [id, structure] of loadedStructuresRef.current) {
+        for (const measurement of measurementsRef.current?.[id] || []) {
+          const loci = measurement.atoms.map(atom => atomLoci(structure, atom));
+          // Skip measurements whose atoms are not in this structure
+          if (loci.some(atom => !atom)) continue;
+
+          const [a, b, c, d] = loci;
+          const { selection } = measurement.kind === 'distance'
+            ? await manager.addDistance(a, b)
+            : measurement.kind === 'angle'
+              ? await manager.addAngle(a, b, c)
+              : await manager.addDihedral(a, b, c, d);
+          measurementRefs.current.push(selection.ref);
+        }
+      }
+    } catch (error) {
+      console.error('Error drawing measurements:', error);
+    }
+  };
+
+  useEffect(() => {
+    applyMeasurements();
+  }, [measurements]);
+
   const loadStructures = async () => {
     if (!pluginRef.current || structures.length === 0) return;
 
@@ -157,11 +420,12 @@ export const MolStarViewer = forwardRef<any, MolStarViewerProps>(({ structures,
 
     try {
       await plugin.clear();
+      loadedStructuresRef.current.clear();
+      distanceRef.current = null;
 
       for (let i = 0; i < structures.length; i++) {
-        const { id, pdbData } = structures[i];
-        const fileExt = id.toLowerCase().split('.').pop() || 'pdb';
-        const format = fileExt === 'cif' ? 'mmcif' : 'pdb';
+        const { id, pdbData, residueColors } = structures[i];
+        const format = detectTextFormat(pdbData);
         const blob = new Blob([pdbData], { type: 'text/plain' });
         const blobUrl = URL.createObjectURL(blob);
 
@@ -170,7 +434,6 @@ export const MolStarViewer = forwardRef<any, MolStarViewerProps>(({ structures,
           const trajectory = await plugin.builders.structure.parseTrajectory(data, format);
 
           const colorNum = STRUCTURE_COLORS[i % STRUCTURE_COLORS.length];
-          const color = `#${colorNum.toString(16).padStart(6, '0')}`;
           const preset = 'default';
 
           const reprParams: any = {
@@ -202,18 +465,27 @@ export const MolStarViewer = forwardRef<any, MolStarViewerProps>(({ structures,
 
           const colorScheme = COLOR_SCHEMES[viewerState.colorScheme] || COLOR_SCHEMES.DEFAULT;
 
-          if (colorScheme === 'uniform' && viewerState.colorScheme === 'DEFAULT') {
-            reprParams.colorTheme = {
-              name: 'uniform',
-              params: { value: color }
+          if (colorScheme === 'uniform') {
+            reprParams.theme = {
+              globalName: 'uniform',
+              globalColorParams: { value: Color(colorNum) }
+            };
+          } else if (colorScheme === ResidueColorsThemeProvider.name) {
+            reprParams.theme = {
+              globalName: colorScheme,
+              globalColorParams: { colors: residueColors || {} }
             };
           } else {
-            reprParams.colorTheme = { name: colorScheme };
+            reprParams.theme = { globalName: colorScheme };
           }
 
-          await plugin.builders.structure.hierarchy.applyPreset(trajectory, preset as any, {
+          const hierarchy = await plugin.builders.structure.hierarchy.applyPreset(trajectory, preset, {
             representationPresetParams: reprParams
           });
+          const structureData = hierarchy?.structure?.cell?.obj?.data;
+          if (structureData) {
+            loadedStructuresRef.current.set(id, structureData);
+          }
 
           URL.revokeObjectURL(blobUrl);
         } catch (e) {
@@ -223,6 +495,8 @@ export const MolStarViewer = forwardRef<any, MolStarViewerProps>(({ structures,
       }
 
       plugin.managers.camera.reset();
+      await applySelection();
+      await applyMeasurements();
     } catch (e) {
       console.error('Error processing structures:', e);
     }
@@ -105,7 +105,7 @@ export function MolecularViewer() {
             type="file"
             id="structure-upload"
             className="hidden"
-            accept=".pdb,.cif,.ent,.gz"
+            accept=".pdb,.cif,.mmcif,.bcif,.ent,.gz"
             onChange={handleFileUpload}
           />
           <Button
@@ -3,7 +3,7 @@ import React, { useRef, useMemo, useState, useEffect } from 'react';
 import { Canvas, useThree, useFrame } from '@react-three/fiber';
 import { OrbitControls, Stats, Text } from '@react-three/drei';
 import * as THREE from 'three';
-import { Molecule, Atom } from '@/utils/pdbParser';
+import { Molecule, Atom } from '@/utils/structure';
 import { ViewMode } from './ViewControls';
 
 interface MoleculeViewerProps {
@@ -1,6 +1,7 @@
 import React, { useEffect, useRef } from 'react';
 import * as NGL from 'ngl';
-import { Molecule } from '@/utils/pdbParser';
+import { Molecule } from '@/utils/structure';
+import { toPDBString } from '@/utils/pdbParser';
 import { ViewerState } from './index';
 
 interface NGLViewportProps {
@@ -127,7 +128,7 @@ export function NGLViewport({ molecule, viewerState }: NGLViewportProps) {
         stageRef.current.removeAllComponents();
 
         // Convert molecule data to PDB format string
-        const pdbString = moleculeToPDBString(molecule);
+        const pdbString = toPDBString(molecule);
         console.log("Generated PDB string length:", pdbString.length);
 
         // Load the molecule from the string
@@ -257,27 +258,3 @@ export function NGLViewport({ molecule, viewerState }: NGLViewportProps) {
     </div>
   );
 }
-
-// Helper function to convert molecule object to PDB format
-const moleculeToPDBString = (molecule: Molecule): string => {
-  let pdbString = '';
-  
-  molecule.atoms.forEach(atom => {
-    // Format according to PDB specification
-    // http://www.wwpdb.org/documentation/file-format-content/format33/sect9.html#ATOM
-    const record = atom.id > 99999 ? 'HETATM' : 'ATOM  ';
-    const atomId = atom.id.toString().padStart(5, ' ');
-    const element = atom.element.padEnd(4, ' ');
-    const residue = atom.residue.padEnd(3, ' ');
-    const chain = atom.chain || 'A';
-    const resId = atom.residueId.toString().padStart(4, ' ');
-    const x = atom.position[0].toFixed(3).padStart(8, ' ');
-    const y = atom.position[1].toFixed(3).padStart(8, ' ');
-    const z = atom.position[2].toFixed(3).padStart(8, ' ');
-    
-    pdbString += `${record}${atomId} ${element} ${residue} ${chain}${resId}    ${x}${y}${z}  1.00  0.00          ${atom.element.substring(0, 2).padEnd(2, ' ')}\n`;
-  });
-  
-  pdbString += 'END\n';
-  return pdbString;
-}; 
\ No newline at end of file
@@ -3,8 +3,8 @@ import { Card } from '../ui/card';
 import { Button } from '../ui/button';
 import { Slider } from '../ui/slider';
 import { ViewerState } from './index';
-import { Molecule } from '@/utils/pdbParser';
-import { parsePDB } from '@/utils/pdbParser';
+import { Molecule } from '@/utils/structure';
+import { parseStructure } from '@/utils/structureParser';
 import { Check, X, ChevronsUpDown } from 'lucide-react';
 import {
   Command,
@@ -99,10 +99,10 @@ export function ViewerControls({
     const processedFiles = await Promise.all(
       files.map(async (file) => {
         try {
-          const molecule = await parsePDB(file);
+          const molecule = await parseStructure(file);
           return { file, molecule };
         } catch (error) {
-          console.error('Error parsing PDB file:', error);
+          console.error('Error parsing structure file:', error);
           return { file };
         }
       })
@@ -127,10 +127,10 @@ export function ViewerControls({
     const processedFiles = await Promise.all(
       files.map(async (file) => {
         try {
-          const molecule = await parsePDB(file);
+          const molecule = await parseStructure(file);
           return { file, molecule };
         } catch (error) {
-          console.error('Error parsing PDB file:', error);
+          console.error('Error parsing structure file:', error);
           return { file };
         }
       })
@@ -155,7 +155,7 @@ export function ViewerControls({
             id="file-upload"
             className="hidden"
             multiple
-            accept=".pdb,.cif,.ent,.gz"
+            accept=".pdb,.cif,.mmcif,.bcif,.ent,.gz"
             onChange={handleFileChange}
           />
           <div className="flex flex-col items-center gap-2">
@@ -2,7 +2,7 @@ import React, { useState } from 'react';
 import { ViewerControls } from './ViewerControls';
 import { NGLViewport } from './NGLViewport';
 import { Card } from '../ui/card';
-import { Molecule } from '@/utils/pdbParser';
+import { Molecule } from '@/utils/structure';
 import { CompletedJobs } from '../CompletedJobs';
 
 export interface ViewerState {
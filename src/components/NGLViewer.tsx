@@ -1,6 +1,8 @@
 import React, { useEffect, useRef, forwardRef } from 'react';
 import * as NGL from 'ngl';
-import { ViewerState } from '@/types/viewer';
+import { ViewerState, ResidueColors, ResidueRef, Measurement, MeasurementKind, MeasuredAtom } from '@/types/viewer';
+import { detectTextFormat } from '@/utils/structureParser';
+import { NO_VALUE_COLOR, residueKey } from '@/utils/residueColors';
 
 interface NGLViewerProps {
   structures: { 
@@ -8,8 +10,16 @@ interface NGLViewerProps {
     pdbData: string;
     name?: string;
     source?: 'file' | 'job';
+    residueColors?: ResidueColors;
   }[];
   viewerState: ViewerState;
+  highlightedResidues?: ResidueRef[];
+  selectedResidues?: ResidueRef[];
+  distancePair?: [ResidueRef, ResidueRef];
+  onResiduePick?: (residue: ResidueRef, extend: boolean) => void;
+  measurements?: Record<string, Measurement[]>;   // By structure id
+  measurementMode?: MeasurementKind | null;        // Clicks pick atoms for a new measurement
+  onAtomPick?: (structureId: string, atom: MeasuredAtom, position: [number, number, number]) => void;
 }
 
 // Define colors for different structures in DEFAULT mode
@@ -28,6 +38,9 @@ const STRUCTURE_COLORS = [
   0x33FF57  // Lime
 ];
 
+// Colors from the per-residue map passed with each structure
+const RESIDUE_COLORS = 'residue-colors';
+
 // Color scheme definitions
 const COLOR_SCHEMES = {
   DEFAULT: 'uniform',
@@ -36,7 +49,19 @@ const COLOR_SCHEMES = {
   CHAIN: 'chainindex',
   BFACTOR: 'bfactor',
   ATOMINDEX: 'atomindex',
-  ELECTROSTATIC: 'electrostatic'
+  ELECTROSTATIC: 'electrostatic',
+  DEVIATION: RESIDUE_COLORS,
+  PLDDT: RESIDUE_COLORS,
+  EXPOSURE: RESIDUE_COLORS
+};
+
+// Register a color scheme coloring residues from a per-residue analysis
+const createResidueColorScheme = (colors: ResidueColors): string => {
+  return NGL.ColormakerRegistry.addScheme(function (this: NGL.Colormaker) {
+    this.atomColor = function (atom) {
+      return colors[residueKey(atom.chainname, atom.resno, atom.inscode)] ?? NO_VALUE_COLOR;
+    };
+  });
 };
 
 // Get color scheme parameters based on the selected scheme
@@ -74,10 +99,48 @@ const getColorSchemeParams = (scheme: string, structureIndex: number = 0) => {
   }
 };
 
-export const NGLViewer = forwardRef<any, NGLViewerProps>(({ structures, viewerState }, ref) => {
+// NGL residue number with its insertion code, e.g. "100^A"
+const resnoSele = (residueId: number, insertionCode: string): string =>
+  insertionCode ? `${residueId}^${insertionCode}` : `${residueId}`;
+
+// NGL selection string of a residue
+const residueSele = (residue: ResidueRef): string => {
+  const resno = resnoSele(residue.residueId, residue.insertionCode);
+  return residue.chain ? `${resno}:${residue.chain}` : resno;
+};
+
+// NGL selection string of one atom of a measurement
+const atomSele = (atom: MeasuredAtom): string =>
+  `${resnoSele(atom.residueId, atom.insertionCode)}:${atom.chain}.${atom.atomName}`;
+
+// Representation and atom parameter for each kind of measurement
+const MEASUREMENT_REPRESENTATIONS: Record<MeasurementKind, [string, string]> = {
+  distance: ['distance', 'atomPair'],
+  angle: ['angle', 'atomTriple'],
+  dihedral: ['dihedral', 'atomQuad'],
+};
+
+export const NGLViewer = forwardRef<any, NGLViewerProps>(({
+  structures, viewerState, highlightedResidues, selectedResidues, distancePair, onResiduePick,
+  measurements, measurementMode, onAtomPick
+}, ref) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const stageRef = useRef<any>(null);
   const loadedStructuresRef = useRef<Map<string, any>>(new Map());
+  // Data each component was loaded from; new data under the same id (e.g.
+  // low-confidence residues hidden) reloads the component
+  const loadedDataRef = useRef<Map<string, string>>(new Map());
+  // Bumped on every structures update; loads finishing after a newer update are dropped
+  const loadRunRef = useRef(0);
+  // Registered residue color schemes and highlight representations by structure id
+  const residueSchemesRef = useRef<Map<string, string>>(new Map());
+  const highlightsRef = useRef<Map<string, NGL.RepresentationElement>>(new Map());
+  const selectionsRef = useRef<Map<string, NGL.RepresentationElement[]>>(new Map());
+  const measurementsRef = useRef<Map<string, NGL.RepresentationElement[]>>(new Map());
+  const onResiduePickRef = useRef(onResiduePick);
+  onResiduePickRef.current = onResiduePick;
+  const pickRef = useRef({ measurementMode, onAtomPick });
+  pickRef.current = { measurementMode, onAtomPick };
 
   // Initialize NGL Stage
   useEffect(() => {
@@ -111,6 +174,34 @@ export const NGLViewer = forwardRef<any, NGLViewerProps>(({ structures, viewerSt
     };
     window.addEventListener('resize', handleResize);
 
+    // Residues picked in 3D become the shared selection; shift-click adds to it.
+    // With a measurement tool active the picked atoms go to the measurement.
+    stageRef.current.signals.clicked.add((pickingProxy: NGL.PickingProxy | undefined) => {
+      if (!pickingProxy?.atom) return;
+      const entry = [...loadedStructuresRef.current.entries()].find(([, component]) => component === pickingProxy.component);
+      if (!entry) return;
+
+      const { atom } = pickingProxy;
+      const { measurementMode, onAtomPick } = pickRef.current;
+      if (measurementMode) {
+        onAtomPick?.(entry[0], {
+          chain: atom.chainname,
+          residueId: atom.resno,
+          insertionCode: atom.inscode,
+          residueName: atom.resname,
+          atomName: atom.atomname,
+        }, [atom.x, atom.y, atom.z]);
+        return;
+      }
+
+      onResiduePickRef.current?.({
+        structureId: entry[0],
+        chain: pickingProxy.atom.chainname,
+        residueId: pickingProxy.atom.resno,
+        insertionCode: pickingProxy.atom.inscode,
+      }, pickingProxy.shiftKey);
+    });
+
     return () => {
       window.removeEventListener('resize', handleResize);
       if (stageRef.current) {
@@ -134,6 +225,7 @@ export const NGLViewer = forwardRef<any, NGLViewerProps>(({ structures, viewerSt
     // Track current structures and previously loaded ones
     const currentStructureIds = new Set(structures.map(s => s.id));
     const previousStructureIds = new Set(loadedStructuresRef.current.keys());
+    const run = ++loadRunRef.current;
     
     const processStructures = async () => {
       try {
@@ -145,6 +237,7 @@ export const NGLViewer = forwardRef<any, NGLViewerProps>(({ structures, viewerSt
             if (component) {
               stageRef.current.removeComponent(component);
               loadedStructuresRef.current.delete(id);
+              loadedDataRef.current.delete(id);
             }
           }
         }
@@ -155,30 +248,43 @@ export const NGLViewer = forwardRef<any, NGLViewerProps>(({ structures, viewerSt
           const { id, pdbData } = structure;
           const source = structure.source || 'unknown';
           
+          // Drop a component whose data changed so it is loaded again below
+          const loaded = loadedStructuresRef.current.get(id);
+          if (loaded && loadedDataRef.current.get(id) !== pdbData) {
+            console.log('Reloading changed structure:', id);
+            stageRef.current.removeComponent(loaded);
+            loadedStructuresRef.current.delete(id);
+            loadedDataRef.current.delete(id);
+          }
+          
           // Check if the structure is already loaded
           if (loadedStructuresRef.current.has(id)) {
             // Just update the representation
             const component = loadedStructuresRef.current.get(id);
             if (component) {
               // Set structureIndex to ensure each structure gets a unique color
-              updateRepresentation(component, i);
+              updateRepresentation(component, i, structure);
               console.log(`Updated representation for existing structure: ${id} (index: ${i})`);
             }
           } else {
             // Load new structure
             console.log(`Loading new structure: ${id} (index: ${i}, source: ${source})`);
             try {
-              // Determine file extension
-              const fileExt = id.toLowerCase().split('.').pop() || 'pdb';
-              const ext = fileExt === 'cif' ? 'cif' : 'pdb';
+              // Structure ids carry no reliable extension, so look at the content
+              const ext = detectTextFormat(pdbData) === 'mmcif' ? 'cif' : 'pdb';
               
               // Create a blob and load it
               const blob = new Blob([pdbData], { type: 'text/plain' });
               const component = await stageRef.current.loadFile(blob, { ext });
+              if (run !== loadRunRef.current || !stageRef.current) {
+                stageRef.current?.removeComponent(component);
+                return;
+              }
               
               // Store reference and add representations
               loadedStructuresRef.current.set(id, component);
-              updateRepresentation(component, i);
+              loadedDataRef.current.set(id, pdbData);
+              updateRepresentation(component, i, structure);
               console.log(`Loaded new structure: ${id} with index ${i}`);
             } catch (error) {
               console.error('Error loading structure:', id, error);
@@ -198,14 +304,119 @@ export const NGLViewer = forwardRef<any, NGLViewerProps>(({ structures, viewerSt
     
     processStructures();
   }, [structures, viewerState]);
+
+  // Highlight residues hovered in the analysis plots
+  useEffect(() => {
+    loadedStructuresRef.current.forEach((component, id) => {
+      const previous = highlightsRef.current.get(id);
+      if (previous) {
+        component.removeRepresentation(previous);
+        highlightsRef.current.delete(id);
+      }
+
+      const residues = (highlightedResidues || []).filter(residue => residue.structureId === id);
+      if (residues.length === 0) return;
+
+      const sele = residues.map(residueSele).join(' or ');
+      highlightsRef.current.set(id, component.addRepresentation('ball+stick', {
+        name: 'highlight',
+        sele,
+        color: 0xFFD700,
+        scale: viewerState.atomSize * 1.5
+      }));
+    });
+  }, [highlightedResidues, structures, viewerState.atomSize]);
+
+  // Selected residues with labels, and the distance of the selected pair
+  useEffect(() => {
+    loadedStructuresRef.current.forEach((component, id) => {
+      (selectionsRef.current.get(id) || []).forEach(representation => component.removeRepresentation(representation));
+      selectionsRef.current.delete(id);
+
+      const residues = (selectedResidues || []).filter(residue => residue.structureId === id);
+      const representations: NGL.RepresentationElement[] = [];
+
+      if (residues.length > 0) {
+        const sele = residues.map(residueSele).join(' or ');
+        representations.push(component.addRepresentation('ball+stick', {
+          name: 'selectedResidues',
+          sele,
+          quality: 'high',
+          aspectRatio: 1.5,
+          scale: viewerState.atomSize * 1.5,
+          bondScale: viewerState.atomSize * 0.3,
+          bondSpacing: 1.0,
+          color: 0xFF0000,
+          opacity: 1.0
+        }));
+        // Shows "ALA 1", "GLY 2", etc. at the alpha carbon
+        representations.push(component.addRepresentation('label', {
+          name: 'selectedLabels',
+          sele: `(${sele}) and .CA`,
+          labelType: 'res',
+          labelColor: 0xFFFFFF,
+          labelSize: 1.2,
+          labelBorder: true,
+          labelBorderColor: 0x000000,
+          labelBorderWidth: 0.25,
+          labelBackground: true,
+          labelBackgroundColor: 0x000000,
+          labelBackgroundOpacity: 0.5,
+          labelZOffset: 0.5
+        }));
+      }
+
+      if (distancePair && distancePair.every(residue => residue.structureId === id)) {
+        representations.push(component.addRepresentation('distance', {
+          name: 'selectedDistance',
+          atomPair: [distancePair.map(residue => `${residueSele(residue)} and .CA`)],
+          labelUnit: 'angstrom',
+          labelColor: 0x000000,
+          color: 0xF97316
+        }));
+      }
+
+      selectionsRef.current.set(id, representations);
+    });
+  }, [selectedResidues, distancePair, structures, viewerState]);
+
+  // Stored measurements of each structure
+  useEffect(() => {
+    loadedStructuresRef.current.forEach((component, id) => {
+      (measurementsRef.current.get(id) || []).forEach(representation => component.removeRepresentation(representation));
+      measurementsRef.current.set(id, (measurements?.[id] || []).map(measurement => {
+        const [type, atomsParam] = MEASUREMENT_REPRESENTATIONS[measurement.kind];
+        return component.addRepresentation(type, {
+          name: `measurement-${measurement.id}`,
+          [atomsParam]: [measurement.atoms.map(atomSele)],
+          ...(measurement.kind === 'distance' ? { labelUnit: 'angstrom' } : {}),
+          labelColor: 0x000000,
+          color: 0x10B981
+        });
+      }));
+    });
+  }, [measurements, structures, viewerState]);
   
-  const updateRepresentation = (structure: any, structureIndex: number) => {
+  const updateRepresentation = (structure: any, structureIndex: number, source: NGLViewerProps['structures'][number]) => {
     try {
       // Remove existing representations
       structure.removeAllRepresentations();
+      highlightsRef.current.delete(source.id);
+      selectionsRef.current.delete(source.id);
+      measurementsRef.current.delete(source.id);
 
       // Get color scheme parameters
-      const colorParams = getColorSchemeParams(COLOR_SCHEMES[viewerState.colorScheme] || COLOR_SCHEMES.DEFAULT, structureIndex);
+      const scheme = COLOR_SCHEMES[viewerState.colorScheme] || COLOR_SCHEMES.DEFAULT;
+      let colorParams: Record<string, unknown>;
+      if (scheme === RESIDUE_COLORS) {
+        const previousScheme = residueSchemesRef.current.get(source.id);
+        if (previousScheme) NGL.ColormakerRegistry.removeScheme(previousScheme);
+        const schemeId = createResidueColorScheme(source.residueColors || {});
+        residueSchemesRef.current.set(source.id, schemeId);
+        colorParams = { color: schemeId };
+      } else {
+        colorParams = getColorSchemeParams(scheme, structureIndex);
+      }
 
       // Log the structure and color assignment for debugging
       console.log(`Applying representation to structure index ${structureIndex} with color scheme:`, viewerState.colorScheme, colorParams);
@@ -280,85 +491,6 @@ export const NGLViewer = forwardRef<any, NGLViewerProps>(({ structures, viewerSt
           colorScheme: 'element'
         });
       }
-
-      // Highlight selected residues if any
-      if (viewerState.selectedResidues && viewerState.selectedResidues.length > 0) {
-        // Create selection string for residues
-        const residueSelection = viewerState.selectedResidues
-          .map(resNum => `${resNum}`)
-          .join(' or ');
-        
-        console.log(`Highlighting residues: ${residueSelection}`);
-        
-        // Add ball+stick representation for highlighted residues
-        structure.addRepresentation('ball+stick', {
-          name: "selectedResidues",
-          sele: residueSelection,
-          quality: 'high',
-          aspectRatio: 1.5,
-          scale: viewerState.atomSize * 1.5,
-          bondScale: viewerState.atomSize * 0.3,
-          bondSpacing: 1.0,
-          color: 0xFF0000, // Red color for highlighted residues
-          opacity: 1.0
-        });
-        
-        // Add a label for each selected residue with residue name and ID
-        viewerState.selectedResidues.forEach(resNum => {
-          structure.addRepresentation('label', {
-            name: `label-${resNum}`,
-            sele: `${resNum} and .CA`, // Select alpha carbon of the residue
-            labelType: 'res',          // This shows "ALA 1", "GLY 2", etc. - both name and number
-            labelColor: 0xFFFFFF,
-            labelSize: 1.2,
-            labelBorder: true,
-            labelBorderColor: 0x000000,
-            labelBorderWidth: 0.25,
-            labelBackground: true,
-            labelBackgroundColor: 0x000000,
-            labelBackgroundOpacity: 0.5,
-            labelZOffset: 0.5,
-            labelYOffset: 0.0,
-            labelXOffset: 0.0
-          });
-        });
-        
-        // Center view on the selected residue(s) with smoother animation
-        try {
-          // Create a selection using the residue numbers
-          const selection = structure.structure.getSelection(residueSelection);
-          
-          if (selection && selection.atomCount > 0) {
-            // Get the center of the selection
-            const center = selection.center();
-            
-            // Calculate appropriate zoom level based on selection size
-            // This creates a nice view that focuses on the selected residue
-            // while showing some context around it
-            const boundingBox = selection.boundingBox;
-            const size = Math.max(
-              boundingBox.size().x,
-              boundingBox.size().y,
-              boundingBox.size().z,
-              5 // Minimum size to prevent too much zoom on small residues
-            );
-            
-            // Use more sophisticated zooming with a slower, smoother animation
-            stageRef.current.animationControls.move(center, 600);
-            
-            // Adjust camera position based on view mode
-            if (viewerState.viewMode === 'surface') {
-              // For surface mode, we need to be further away
-              stageRef.current.animationControls.zoom(size * 2, 600);
-            } else {
-              // For other modes, we can be closer
-              stageRef.current.animationControls.zoom(size * 1.5, 600);
-            }
-          }
-        } catch (error) {
-          console.error('Error centering on residue:', error);
-        }
-      }
     } catch (error) {
       console.error('Error updating representation:', error);
     }
@@ -0,0 +1,212 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import Plotly from 'plotly.js-dist-min';
+import { useVisualizeStore, Structure } from '@/store/visualizeStore';
+import { ResidueRef } from '@/types/viewer';
+import { getPolymerResidues } from '@/utils/structure';
+import { calculateChainPairPAE, readPAEFile } from '@/utils/pae';
+import { residueKey } from '@/utils/residueColors';
+import { Button } from '@/components/ui/button';
+import { Upload } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface PAEPanelProps {
+  structure: Structure;
+  size?: number;
+}
+
+/**
+ * Predicted aligned error heatmap of a structure. Zooming into a rectangle
+ * highlights both residue ranges in the 3D viewer; double-click resets.
+ */
+export function PAEPanel({ structure, size = 320 }: PAEPanelProps) {
+  const { updateStructureMetadata, setHighlightedResidues } = useVisualizeStore();
+  const plotRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const pae = structure.metadata?.pae;
+  const residues = useMemo(() => (structure.molecule ? getPolymerResidues(structure.molecule) : []), [structure.molecule]);
+
+  const chainPairs = useMemo(() => {
+    if (!pae || !structure.molecule) return { summaries: [], error: null };
+    try {
+      return { summaries: calculateChainPairPAE(pae, structure.molecule), error: null };
+    } catch (error) {
+      return { summaries: [], error: error instanceof Error ? error.message : 'Could not summarize PAE' };
+    }
+  }, [pae, structure.molecule]);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const data = await readPAEFile(file);
+      if (data.matrix.length !== residues.length) {
+        toast.warning(`${file.name} covers ${data.matrix.length} residues, ${structure.name} has ${residues.length}`);
+      }
+      updateStructureMetadata(structure.id, { pae: data });
+      toast.success(`Loaded PAE for ${structure.name}`);
+    } catch (error) {
+      console.error('Error reading PAE file:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to read PAE file');
+    }
+  };
+
+  useEffect(() => {
+    const element = plotRef.current;
+    if (!element || !pae) return;
+
+    // Residue labels as categories, so hovering a cell names both residues
+    // without building N² hover strings. Categories sit at 0..N-1.
+    const matrixSize = pae.matrix.length;
+    const residueLabels = Array.from({ length: matrixSize }, (_, index) => {
+      const residue = residues[index];
+      return residue ? `${residue.name} ${residue.chain}${residue.residueId}${residue.insertionCode}` : `#${index + 1}`;
+    });
+    // Repeated labels would merge categories
+    const labels = new Set(residueLabels).size === matrixSize
+      ? residueLabels
+      : residueLabels.map((label, index) => `${index + 1}: ${label}`);
+
+    // Ticks show residue positions rather than the long labels
+    const tickStep = Math.max(1, Math.ceil(matrixSize / 6));
+    const tickIndices = Array.from({ length: Math.ceil(matrixSize / tickStep) }, (_, k) => k * tickStep);
+    const ticks = {
+      type: 'category',
+      tickmode: 'array',
+      tickvals: tickIndices.map(index => labels[index]),
+      ticktext: tickIndices.map(index => String(index + 1)),
+    };
+
+    // Chain boundaries as lines across the matrix
+    const boundaries = residues
+      .map((residue, index) => (index > 0 && residue.chain !== residues[index - 1].chain ? index - 0.5 : null))
+      .filter((position): position is number => position !== null && position < matrixSize - 0.5);
+    const boundaryShapes = boundaries.flatMap(position => [
+      { type: 'line', x0: position, x1: position, y0: -0.5, y1: matrixSize - 0.5, line: { color: '#111827', width: 1 } },
+      { type: 'line', x0: -0.5, x1: matrixSize - 0.5, y0: position, y1: position, line: { color: '#111827', width: 1 } },
+    ]);
+
+    const data = [{
+      z: pae.matrix,
+      x: labels,
+      y: labels,
+      type: 'heatmap',
+      hovertemplate: 'Aligned on %{y}<br>Scored %{x}<br>PAE %{z:.1f} Å<extra></extra>',
+      zmin: 0,
+      zmax: pae.maxError,
+      // Dark green for confident relative positions, as in the AlphaFold database
+      colorscale: 'Greens',
+      colorbar: {
+        title: { text: 'Expected error (Å)', side: 'right' },
+        thickness: 12
+      }
+    }];
+
+    const layout = {
+      width: size,
+      height: size,
+      margin: { l: 45, r: 10, t: 10, b: 40 },
+      xaxis: { title: { text: 'Scored residue' }, ...ticks },
+      yaxis: { title: { text: 'Aligned residue' }, autorange: 'reversed', ...ticks },
+      shapes: boundaryShapes,
+      dragmode: 'zoom',
+      paper_bgcolor: 'rgba(0,0,0,0)',
+      plot_bgcolor: 'rgba(0,0,0,0)'
+    };
+
+    const config = {
+      responsive: true,
+      displayModeBar: true,
+      displaylogo: false,
+      modeBarButtonsToRemove: ['lasso2d', 'select2d']
+    };
+
+    // Axis ranges are category positions, i.e. residue indices
+    const toResidueRefs = (from: number, to: number): ResidueRef[] => {
+      const start = Math.max(0, Math.ceil(Math.min(from, to)));
+      const end = Math.min(residues.length - 1, Math.floor(Math.max(from, to)));
+      return residues.slice(start, end + 1).map(residue => ({
+        structureId: structure.id,
+        chain: residue.chain,
+        residueId: residue.residueId,
+        insertionCode: residue.insertionCode
+      }));
+    };
+
+    Plotly.newPlot(element, data, layout, config).then((plot) => {
+      plot.on('plotly_relayout', (event) => {
+        if (event['xaxis.autorange'] || event['yaxis.autorange']) {
+          setHighlightedResidues([]);
+          return;
+        }
+        const xRange = [event['xaxis.range[0]'], event['xaxis.range[1]']];
+        const yRange = [event['yaxis.range[0]'], event['yaxis.range[1]']];
+        if (xRange.some(value => value === undefined) || yRange.some(value => value === undefined)) return;
+
+        // Both ranges, without listing residues twice where they overlap
+        const selected = new Map<string, ResidueRef>();
+        [...toResidueRefs(yRange[0], yRange[1]), ...toResidueRefs(xRange[0], xRange[1])].forEach(residue => {
+          selected.set(residueKey(residue.chain, residue.residueId, residue.insertionCode), residue);
+        });
+        setHighlightedResidues([...selected.values()]);
+      });
+    });
+
+    return () => {
+      Plotly.purge(element);
+      setHighlightedResidues([]);
+    };
+  }, [pae, residues, structure.id, size, setHighlightedResidues]);
+
+  return (
+    <div className="space-y-3">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={handleFileChange}
+      />
+
+      {pae ? (
+        <>
+          <div ref={plotRef} />
+
+          {chainPairs.error ? (
+            <div className="text-xs bg-destructive/10 text-destructive p-2 rounded-md">{chainPairs.error}</div>
+          ) : chainPairs.summaries.length > 0 ? (
+            <div className="bg-muted/30 p-3 rounded-md text-xs">
+              <div className="grid grid-cols-4 gap-2 font-medium text-muted-foreground mb-1">
+                <div>Chains</div>
+                <div>Mean PAE</div>
+                <div>Interface PAE</div>
+                <div>Contacts</div>
+              </div>
+              {chainPairs.summaries.map(pair => (
+                <div key={`${pair.chainA}-${pair.chainB}`} className="grid grid-cols-4 gap-2 py-1 border-b border-muted/20 last:border-0">
+                  <div className="font-medium">{pair.chainA} – {pair.chainB}</div>
+                  <div>{pair.meanPAE.toFixed(1)} Å</div>
+                  <div>{pair.interfacePAE !== null ? `${pair.interfacePAE.toFixed(1)} Å` : '–'}</div>
+                  <div>{pair.contactCount}</div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-xs text-muted-foreground">Single chain: no interface to summarize</div>
+          )}
+        </>
+      ) : (
+        <div className="text-xs text-muted-foreground">
+          No PAE for this structure. Load the AlphaFold PAE JSON to inspect domain and interface confidence.
+        </div>
+      )}
+
+      <Button size="sm" variant="outline" className="w-full" onClick={() => fileInputRef.current?.click()}>
+        <Upload className="mr-2 h-3 w-3" />
+        {pae ? 'Replace PAE JSON' : 'Load PAE JSON'}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import Plotly from 'plotly.js-dist-min';
+import { useVisualizeStore } from '@/store/visualizeStore';
+import { Molecule } from '@/utils/structure';
+import { PLDDT_BANDS, getResiduePLDDT } from '@/utils/plddt';
+import { Slider } from '@/components/ui/slider';
+
+interface PLDDTTrackProps {
+  structureId: string;
+  molecule: Molecule;
+  height?: number;
+}
+
+const toHex = (color: number) => `#${color.toString(16).padStart(6, '0')}`;
+
+/**
+ * Per-residue pLDDT along the sequence over the AlphaFold confidence bands,
+ * with the slider that hides low-confidence residues in the viewer
+ */
+export function PLDDTTrack({ structureId, molecule, height = 200 }: PLDDTTrackProps) {
+  const { viewerState, setViewerState, setHighlightedResidues } = useVisualizeStore();
+  const plotRef = useRef<HTMLDivElement>(null);
+  const threshold = viewerState.plddtThreshold || 0;
+  // Follows the slider while dragging; the viewer updates on release
+  const [draftThreshold, setDraftThreshold] = useState(threshold);
+
+  useEffect(() => {
+    setDraftThreshold(threshold);
+  }, [threshold]);
+
+  const residues = useMemo(() => getResiduePLDDT(molecule), [molecule]);
+  const hiddenCount = residues.filter(({ plddt }) => plddt < draftThreshold).length;
+
+  useEffect(() => {
+    const element = plotRef.current;
+    if (!element || residues.length === 0) return;
+
+    const data = [{
+      x: residues.map((_, index) => index + 1),
+      y: residues.map(({ plddt }) => plddt),
+      text: residues.map(({ chain, residueId, name, plddt }) => `${name} ${chain}${residueId}<br>pLDDT ${plddt.toFixed(1)}`),
+      type: 'scatter',
+      mode: 'lines',
+      line: { color: '#1f2937', width: 1.5 },
+      hoverinfo: 'text'
+    }];
+
+    // Confidence bands behind the line
+    const bandShapes = PLDDT_BANDS.map((band, index) => ({
+      type: 'rect',
+      xref: 'paper',
+      x0: 0,
+      x1: 1,
+      y0: band.min,
+      y1: index === 0 ? 100 : PLDDT_BANDS[index - 1].min,
+      fillcolor: toHex(band.color),
+      opacity: 0.25,
+      line: { width: 0 },
+      layer: 'below'
+    }));
+
+    const layout = {
+      height,
+      margin: { l: 45, r: 10, t: 10, b: 40 },
+      xaxis: { title: { text: 'Residue' }, range: [1, residues.length] },
+      yaxis: { title: { text: 'pLDDT' }, range: [0, 100] },
+      shapes: [
+        ...bandShapes,
+        ...(threshold > 0 ? [{
+          type: 'line',
+          xref: 'paper',
+          x0: 0,
+          x1: 1,
+          y0: threshold,
+          y1: threshold,
+          line: { color: '#B2182B', width: 1, dash: 'dash' }
+        }] : [])
+      ],
+      hovermode: 'closest',
+      paper_bgcolor: 'rgba(0,0,0,0)',
+      plot_bgcolor: 'rgba(0,0,0,0)'
+    };
+
+    const config = {
+      responsive: true,
+      displayModeBar: false,
+      displaylogo: false
+    };
+
+    Plotly.newPlot(element, data, layout, config).then((plot) => {
+      plot.on('plotly_hover', (event) => {
+        const residue = residues[event.points?.[0]?.pointIndex];
+        if (residue) {
+          setHighlightedResidues([{
+            structureId, chain: residue.chain, residueId: residue.residueId, insertionCode: residue.insertionCode
+          }]);
+        }
+      });
+      plot.on('plotly_unhover', () => setHighlightedResidues([]));
+    });
+
+    return () => {
+      Plotly.purge(element);
+      setHighlightedResidues([]);
+    };
+  }, [residues, structureId, threshold, height, setHighlightedResidues]);
+
+  if (residues.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div ref={plotRef} className="w-full" />
+
+      <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-muted-foreground">
+        {PLDDT_BANDS.map(band => (
+          <div key={band.label} className="flex items-center gap-1">
+            <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: toHex(band.color) }} />
+            {band.label} {band.min > 0 ? `(≥ ${band.min})` : `(< ${PLDDT_BANDS[PLDDT_BANDS.length - 2].min})`}
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex justify-between text-xs">
+          <span className="text-muted-foreground">Hide residues below pLDDT</span>
+          <span className="font-medium">
+            {draftThreshold > 0 ? `${draftThreshold} (${hiddenCount} hidden)` : 'Off'}
+          </span>
+        </div>
+        <Slider
+          value={[draftThreshold]}
+          onValueChange={(value) => setDraftThreshold(value[0])}
+          onValueCommit={(value) => setViewerState({ plddtThreshold: value[0] })}
+          min={0}
+          max={90}
+          step={5}
+          className="w-full"
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import Plotly from 'plotly.js-dist-min';
+import { useVisualizeStore } from '@/store/visualizeStore';
+import { ResidueRef } from '@/types/viewer';
+import { getResidueDeviations } from '@/utils/structureAlignment';
+
+// Pairs further apart are not counted as aligned by the TM-score
+const ALIGNED_CUTOFF = 5;
+
+/**
+ * Per-residue deviation of the last pairwise comparison, along the sequence
+ * of structure A. Hovering a residue highlights it (and its aligned partner)
+ * in the 3D viewer.
+ */
+export function ResidueDeviationPlot({ height = 220 }: { height?: number }) {
+  const { structureComparison, loadedStructures, setHighlightedResidues } = useVisualizeStore();
+  const plotRef = useRef<HTMLDivElement>(null);
+
+  const moleculeA = loadedStructures.find(s => s.id === structureComparison?.structureA)?.molecule;
+
+  const deviations = useMemo(() => {
+    if (!structureComparison?.alignment || !moleculeA) return [];
+    return getResidueDeviations(moleculeA, structureComparison.alignment);
+  }, [structureComparison, moleculeA]);
+
+  useEffect(() => {
+    const element = plotRef.current;
+    if (!element || !structureComparison || deviations.length === 0) return;
+
+    const x = deviations.map((_, index) => index + 1);
+    const text = deviations.map(({ residue, partner, distance }) => {
+      const label = `${residue.name} ${residue.chain}${residue.residueId}${residue.insertionCode}`;
+      return partner && distance !== null
+        ? `${label} ↔ ${partner.name} ${partner.chain}${partner.residueId}${partner.insertionCode}<br>${distance.toFixed(2)} Å`
+        : `${label}<br>Not aligned`;
+    });
+
+    const data = [{
+      x,
+      y: deviations.map(d => d.distance),
+      text,
+      type: 'scatter',
+      mode: 'lines',
+      line: { color: '#2166AC', width: 1.5 },
+      // Gaps in the alignment break the line
+      connectgaps: false,
+      hoverinfo: 'text',
+      fill: 'tozeroy',
+      fillcolor: 'rgba(33, 102, 172, 0.15)'
+    }];
+
+    const layout = {
+      height,
+      margin: { l: 45, r: 10, t: 10, b: 40 },
+      xaxis: { title: { text: 'Residue (structure A)' }, range: [1, deviations.length] },
+      yaxis: { title: { text: 'Deviation (Å)' }, rangemode: 'tozero' },
+      shapes: [{
+        type: 'line',
+        xref: 'paper',
+        x0: 0,
+        x1: 1,
+        y0: ALIGNED_CUTOFF,
+        y1: ALIGNED_CUTOFF,
+        line: { color: '#B2182B', width: 1, dash: 'dash' }
+      }],
+      hovermode: 'closest',
+      paper_bgcolor: 'rgba(0,0,0,0)',
+      plot_bgcolor: 'rgba(0,0,0,0)'
+    };
+
+    const config = {
+      responsive: true,
+      displayModeBar: false,
+      displaylogo: false
+    };
+
+    const { structureA, structureB, alignedStructureId } = structureComparison;
+
+    Plotly.newPlot(element, data, layout, config).then((plot) => {
+      plot.on('plotly_hover', (event) => {
+        const deviation = deviations[event.points?.[0]?.pointIndex];
+        if (!deviation) return;
+
+        const { chain, residueId, insertionCode } = deviation.residue;
+        const residues: ResidueRef[] = [{ structureId: structureA, chain, residueId, insertionCode }];
+        const partner = deviation.partner;
+        if (partner) {
+          [structureB, alignedStructureId].forEach(structureId => {
+            if (structureId) {
+              residues.push({ structureId, chain: partner.chain, residueId: partner.residueId, insertionCode: partner.insertionCode });
+            }
+          });
+        }
+        setHighlightedResidues(residues);
+      });
+      plot.on('plotly_unhover', () => setHighlightedResidues([]));
+    });
+
+    return () => {
+      Plotly.purge(element);
+      setHighlightedResidues([]);
+    };
+  }, [structureComparison, deviations, height, setHighlightedResidues]);
+
+  if (!structureComparison?.alignment || deviations.length === 0) {
+    return null;
+  }
+
+  return <div ref={plotRef} className="w-full" />;
+}
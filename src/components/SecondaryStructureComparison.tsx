@@ -0,0 +1,191 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import Plotly from 'plotly.js-dist-min';
+import { useVisualizeStore } from '@/store/visualizeStore';
+import { ResidueRef } from '@/types/viewer';
+import { Molecule } from '@/utils/structure';
+import {
+  DSSP_STATE_NAMES,
+  SECONDARY_STRUCTURE_COLORS,
+  SecondaryStructureClass,
+  assignSecondaryStructure,
+  compareSecondaryStructure,
+  secondaryStructureFromRecords,
+  toSecondaryStructureClass
+} from '@/utils/secondaryStructure';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+type AssignmentSource = 'dssp' | 'records';
+
+const CLASS_ORDER: SecondaryStructureClass[] = ['H', 'E', 'C'];
+
+// One band per class for z = 0 (helix), 1 (strand), 2 (coil)
+const CLASS_COLORSCALE = CLASS_ORDER.flatMap((stateClass, index) => [
+  [index / 3, SECONDARY_STRUCTURE_COLORS[stateClass]],
+  [(index + 1) / 3, SECONDARY_STRUCTURE_COLORS[stateClass]],
+]);
+
+const getAssignment = (molecule: Molecule, source: AssignmentSource) =>
+  source === 'records' ? secondaryStructureFromRecords(molecule) : assignSecondaryStructure(molecule);
+
+function SourceSelect({ label, molecule, value, onChange }: {
+  label: string;
+  molecule: Molecule;
+  value: AssignmentSource;
+  onChange: (value: AssignmentSource) => void;
+}) {
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <span className="text-muted-foreground w-4">{label}</span>
+      <Select value={value} onValueChange={(source) => onChange(source as AssignmentSource)}>
+        <SelectTrigger className="h-7 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="dssp" className="text-xs">DSSP from coordinates</SelectItem>
+          <SelectItem value="records" className="text-xs" disabled={molecule.secondaryStructure.length === 0}>
+            HELIX/SHEET records of the file
+          </SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+/**
+ * Three-state secondary structure of the two structures of the last
+ * comparison along their alignment. Experimental structures can use their
+ * deposited HELIX/SHEET records instead of DSSP.
+ */
+export function SecondaryStructureComparison({ height = 140 }: { height?: number }) {
+  const { structureComparison, loadedStructures, setHighlightedResidues } = useVisualizeStore();
+  const plotRef = useRef<HTMLDivElement>(null);
+  const [sourceA, setSourceA] = useState<AssignmentSource>('dssp');
+  const [sourceB, setSourceB] = useState<AssignmentSource>('dssp');
+
+  const structureA = loadedStructures.find(s => s.id === structureComparison?.structureA);
+  const structureB = loadedStructures.find(s => s.id === structureComparison?.structureB);
+
+  const comparison = useMemo(() => {
+    if (!structureComparison?.alignment || !structureA?.molecule || !structureB?.molecule) return null;
+    return compareSecondaryStructure(
+      getAssignment(structureA.molecule, sourceA),
+      getAssignment(structureB.molecule, sourceB),
+      structureComparison.alignment
+    );
+  }, [structureComparison, structureA?.molecule, structureB?.molecule, sourceA, sourceB]);
+
+  useEffect(() => {
+    const element = plotRef.current;
+    if (!element || !comparison || comparison.pairs.length === 0 || !structureComparison) return;
+
+    const { pairs } = comparison;
+    const rows = [
+      pairs.map(pair => CLASS_ORDER.indexOf(toSecondaryStructureClass(pair.target))),
+      pairs.map(pair => CLASS_ORDER.indexOf(toSecondaryStructureClass(pair.mobile))),
+    ];
+    const text = [
+      pairs.map(({ targetResidue, target }) =>
+        `${targetResidue.name} ${targetResidue.chain}${targetResidue.residueId}${targetResidue.insertionCode}<br>${DSSP_STATE_NAMES[target]}`),
+      pairs.map(({ mobileResidue, mobile }) =>
+        `${mobileResidue.name} ${mobileResidue.chain}${mobileResidue.residueId}${mobileResidue.insertionCode}<br>${DSSP_STATE_NAMES[mobile]}`),
+    ];
+
+    const data = [{
+      z: rows,
+      x: pairs.map((_, index) => index + 1),
+      y: ['A', 'B'],
+      text,
+      type: 'heatmap',
+      hoverinfo: 'text',
+      zmin: 0,
+      zmax: 3,
+      colorscale: CLASS_COLORSCALE,
+      showscale: false,
+      xgap: 0,
+      ygap: 4
+    }];
+
+    const layout = {
+      height,
+      margin: { l: 25, r: 10, t: 10, b: 40 },
+      xaxis: { title: { text: 'Aligned pair' } },
+      yaxis: { autorange: 'reversed', fixedrange: true },
+      paper_bgcolor: 'rgba(0,0,0,0)',
+      plot_bgcolor: 'rgba(0,0,0,0)'
+    };
+
+    const config = {
+      responsive: true,
+      displayModeBar: false,
+      displaylogo: false
+    };
+
+    const { structureA: idA, structureB: idB, alignedStructureId } = structureComparison;
+
+    Plotly.newPlot(element, data, layout, config).then((plot) => {
+      plot.on('plotly_hover', (event) => {
+        const pair = pairs[event.points?.[0]?.pointNumber?.[1]];
+        if (!pair) return;
+
+        const { targetResidue, mobileResidue } = pair;
+        const residues: ResidueRef[] = [{
+          structureId: idA,
+          chain: targetResidue.chain,
+          residueId: targetResidue.residueId,
+          insertionCode: targetResidue.insertionCode,
+        }];
+        [idB, alignedStructureId].forEach(structureId => {
+          if (structureId) {
+            residues.push({
+              structureId,
+              chain: mobileResidue.chain,
+              residueId: mobileResidue.residueId,
+              insertionCode: mobileResidue.insertionCode,
+            });
+          }
+        });
+        setHighlightedResidues(residues);
+      });
+      plot.on('plotly_unhover', () => setHighlightedResidues([]));
+    });
+
+    return () => {
+      Plotly.purge(element);
+      setHighlightedResidues([]);
+    };
+  }, [comparison, structureComparison, height, setHighlightedResidues]);
+
+  if (!comparison || !structureA?.molecule || !structureB?.molecule) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <SourceSelect label="A" molecule={structureA.molecule} value={sourceA} onChange={setSourceA} />
+        <SourceSelect label="B" molecule={structureB.molecule} value={sourceB} onChange={setSourceB} />
+      </div>
+
+      {comparison.pairs.length > 0 ? (
+        <>
+          <div className="text-xs">
+            <span className="text-muted-foreground">Three-state agreement (Q3): </span>
+            <span className="font-medium">{(comparison.agreement * 100).toFixed(1)}%</span>
+            <span className="text-muted-foreground"> over {comparison.pairs.length} aligned residues</span>
+          </div>
+          <div ref={plotRef} className="w-full" />
+          <div className="flex gap-3 text-xs text-muted-foreground">
+            {([['H', 'Helix'], ['E', 'Strand'], ['C', 'Coil']] as const).map(([stateClass, label]) => (
+              <div key={stateClass} className="flex items-center gap-1">
+                <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: SECONDARY_STRUCTURE_COLORS[stateClass] }} />
+                {label}
+              </div>
+            ))}
+          </div>
+        </>
+      ) : (
+        <div className="text-xs text-muted-foreground">No aligned residues with a secondary structure assignment</div>
+      )}
+    </div>
+  );
+}
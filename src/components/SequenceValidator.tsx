@@ -1,4 +1,6 @@
 import React, { useState, useEffect } from 'react';
+import { useModelsStore } from '@/store/modelsStore';
+import { DEFAULT_MODEL_ID, ModelCapabilities } from '@/lib/models';
 
 // Valid amino acids single letter codes
 // Standard 20 amino acids plus some special characters
@@ -8,9 +10,9 @@ const VALID_AA_CHARS = new Set([
   'X', 'B', 'Z', 'J', 'O', 'U', '-'  // X: unknown, B: D or N, Z: E or Q, J/O/U: rare/special
 ]);
 
-// Constants for sequence length limits
-export const MAX_SEQUENCE_LENGTH = 3000;  // AlphaFold2 limit
-export const MAX_ESM_SEQUENCE_LENGTH = 1024;  // ESM-3 limit
+// Look up a model's rules in the registry of the active server
+const getModelCapabilities = (model: string): ModelCapabilities | undefined =>
+  useModelsStore.getState().getModel(model);
 
 /**
  * Check if a string is in FASTA format (starts with >)
@@ -92,13 +94,9 @@ export function isSequenceLengthValid(sequence: string, model: string): boolean
   // For multimer sequences, count total length of all chains
   const totalLength = cleanSequence.replace(/:/g, '').length;
   
-  // Check against model-specific limits
-  if (model === 'esm3') {
-    return totalLength <= MAX_ESM_SEQUENCE_LENGTH;
-  } else {
-    // AlphaFold2 or other models
-    return totalLength <= MAX_SEQUENCE_LENGTH;
-  }
+  // Check against the model's limit (unknown models get the default model's)
+  const capabilities = getModelCapabilities(model) || getModelCapabilities(DEFAULT_MODEL_ID);
+  return totalLength <= capabilities.maxLength;
 }
 
 /**
@@ -113,17 +111,26 @@ export function validateSequenceForSubmission(
     return 'Sequence cannot be empty';
   }
   
+  const capabilities = getModelCapabilities(model);
+  if (!capabilities) {
+    return `Unsupported model "${model}"`;
+  }
+  
+  if (!capabilities.available) {
+    return `${capabilities.name} is not available on this server`;
+  }
+  
   // Check model-specific format requirements
-  if (model === 'alphafold2' && !isFastaFormat(sequence)) {
-    return 'AlphaFold2 requires FASTA format input (starting with >)';
+  if (capabilities.inputFormat === 'fasta' && !isFastaFormat(sequence)) {
+    return `${capabilities.name} requires FASTA format input (starting with >)`;
   }
   
-  if (model === 'esm3' && isFastaFormat(sequence)) {
-    return 'ESM-3 requires raw sequence input (without FASTA header)';
+  if (capabilities.inputFormat === 'raw' && isFastaFormat(sequence)) {
+    return `${capabilities.name} requires raw sequence input (without FASTA header)`;
   }
   
-  if (model === 'esm3' && isMultimer(sequence)) {
-    return 'ESM-3 does not support multimer sequences (with colons)';
+  if (!capabilities.supportsMultimer && isMultimer(sequence)) {
+    return `${capabilities.name} does not support multimer sequences (with colons)`;
   }
   
   // Check for valid amino acid characters
@@ -137,8 +144,7 @@ export function validateSequenceForSubmission(
   
   // Check sequence length
   if (!isSequenceLengthValid(sequence, model)) {
-    const limit = model === 'esm3' ? MAX_ESM_SEQUENCE_LENGTH : MAX_SEQUENCE_LENGTH;
-    return `Sequence exceeds maximum length of ${limit} amino acids for ${model.toUpperCase()}`;
+    return `Sequence exceeds maximum length of ${capabilities.maxLength} amino acids for ${capabilities.name}`;
   }
   
   return null; // Valid sequence
@@ -161,13 +167,13 @@ export function prepareSequenceForSubmission(
   // Clean the sequence (remove any invisible characters, normalize)
   let cleanedSequence = inputSequence.trim();
   
-  // For ESM-3, extract sequence from FASTA if needed
-  if (model === 'esm3' && isFastaFormat(cleanedSequence)) {
+  // Convert to the input format the model expects
+  const inputFormat = getModelCapabilities(model)?.inputFormat;
+  if (inputFormat === 'raw' && isFastaFormat(cleanedSequence)) {
     cleanedSequence = extractSequenceFromFasta(cleanedSequence);
   }
   
-  // For AlphaFold2, ensure it's in FASTA format
-  if (model === 'alphafold2' && !isFastaFormat(cleanedSequence)) {
+  if (inputFormat === 'fasta' && !isFastaFormat(cleanedSequence)) {
     cleanedSequence = `>Protein_Sequence\n${cleanedSequence}`;
   }
   
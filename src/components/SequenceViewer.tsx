@@ -1,7 +1,14 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { cn } from '@/lib/utils';
 import { Minimize, Maximize } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import {
+  DSSPState,
+  DSSP_STATE_NAMES,
+  SECONDARY_STRUCTURE_COLORS,
+  toSecondaryStructureClass
+} from '@/utils/secondaryStructure';
+import { EXPOSURE_COLOR_STOPS, EXPOSURE_THRESHOLD, exposureColor } from '@/utils/sasa';
 
 export interface ResidueInfo {
   id: number;
@@ -13,8 +20,18 @@ export interface ResidueInfo {
 interface SequenceViewerProps {
   sequence: string;
   residueData?: ResidueInfo[];
+  /** Secondary structure of each residue, drawn as a track above the sequence */
+  secondaryStructure?: DSSPState[];
+  /** Relative solvent accessibility of each residue, drawn as a track below the sequence */
+  exposure?: (number | null)[];
   onResidueClick?: (index: number) => void;
   onResidueHover?: (index: number | null) => void;
+  /** Selected residues, outlined in the sequence */
+  selectedIndices?: number[];
+  /** Click selects a residue, shift-click a range, ctrl/cmd-click toggles one */
+  onSelectionChange?: (indices: number[]) => void;
+  /** Residue to scroll into view, e.g. one picked in the 3D viewer */
+  scrollToIndex?: number | null;
 }
 
 const aminoAcidGroups = {
@@ -25,15 +42,58 @@ const aminoAcidGroups = {
   special: ['G', 'P']
 };
 
+const toHex = (color: number) => `#${color.toString(16).padStart(6, '0')}`;
+
+const formatExposure = (rsa: number): string =>
+  `RSA ${Math.round(rsa * 100)}%, ${rsa >= EXPOSURE_THRESHOLD ? 'exposed' : 'buried'}`;
+
 export function SequenceViewer({ 
   sequence, 
   residueData,
+  secondaryStructure,
+  exposure,
   onResidueClick, 
-  onResidueHover 
+  onResidueHover,
+  selectedIndices,
+  onSelectionChange,
+  scrollToIndex
 }: SequenceViewerProps) {
 
   const [isCollapsed, setIsCollapsed] = useState(false);
   const toggleCollapse = () => setIsCollapsed(!isCollapsed);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  // Residue the last click started from, for shift-click ranges
+  const anchorRef = useRef<number | null>(null);
+
+  const selected = new Set(selectedIndices);
+
+  useEffect(() => {
+    if (scrollToIndex === null || scrollToIndex === undefined) return;
+    const element = scrollRef.current?.querySelector(`[data-residue-index="${scrollToIndex}"]`);
+    element?.scrollIntoView({ behavior: 'smooth', block: 'nearest', inline: 'nearest' });
+  }, [scrollToIndex, isCollapsed]);
+
+  const handleResidueClick = (index: number, event: React.MouseEvent) => {
+    onResidueClick?.(index);
+    if (!onSelectionChange) return;
+
+    if (event.shiftKey && anchorRef.current !== null) {
+      const start = Math.min(anchorRef.current, index);
+      const end = Math.max(anchorRef.current, index);
+      onSelectionChange(Array.from({ length: end - start + 1 }, (_, i) => start + i));
+      return;
+    }
+
+    anchorRef.current = index;
+    if (event.ctrlKey || event.metaKey) {
+      onSelectionChange(selected.has(index)
+        ? [...selected].filter(i => i !== index)
+        : [...selected, index].sort((a, b) => a - b));
+    } else {
+      // Clicking the only selected residue again clears the selection
+      onSelectionChange(selected.size === 1 && selected.has(index) ? [] : [index]);
+    }
+  };
 
   const cleanedSequence = sequence.replace(/\s+/g, '');
 
@@ -52,6 +112,9 @@ export function SequenceViewer({
       let tooltip = info.name ? `${info.name} (${info.code})` : info.code;
       tooltip += ` ${info.id}`;
       if (info.chain) tooltip += ` Chain ${info.chain}`;
+      if (secondaryStructure?.[index]) tooltip += ` (${DSSP_STATE_NAMES[secondaryStructure[index]]})`;
+      const rsa = exposure?.[index];
+      if (rsa !== null && rsa !== undefined) tooltip += ` ${formatExposure(rsa)}`;
       return tooltip;
     }
     return `${residue}${index + 1}`;
@@ -92,7 +155,7 @@ export function SequenceViewer({
     }
 
     return (
-      <div className="w-full overflow-x-auto overflow-y-auto max-h-[30vh]">
+      <div ref={scrollRef} className="w-full overflow-x-auto overflow-y-auto max-h-[30vh]">
         <table className="w-max">
           <tbody>
             {rows.map((row, rowIndex) => (
@@ -109,12 +172,18 @@ export function SequenceViewer({
                           {segment.split('').map((residue, idx) => {
                             const globalIndex = startIndex + idx;
                             const code = residueData?.[globalIndex]?.code || residue;
-                            return (
+                            const state = secondaryStructure?.[globalIndex];
+                            const rsa = exposure?.[globalIndex];
+                            const residueSpan = (
                               <span
                                 key={idx}
+                                data-residue-index={globalIndex}
                                 style={{ backgroundColor: getResidueColor(code) }}
-                                className="w-[14px] h-[24px] text-center text-xs rounded-sm font-medium flex items-center justify-center"
-                                onClick={() => onResidueClick?.(globalIndex)}
+                                className={cn(
+                                  "w-[14px] h-[24px] text-center text-xs rounded-sm font-medium flex items-center justify-center select-none",
+                                  selected.has(globalIndex) && "ring-2 ring-offset-1 ring-orange-500"
+                                )}
+                                onClick={(event) => handleResidueClick(globalIndex, event)}
                                 onMouseEnter={() => onResidueHover?.(globalIndex)}
                                 onMouseLeave={() => onResidueHover?.(null)}
                                 title={getResidueTooltip(residue, globalIndex)}
@@ -122,6 +191,27 @@ export function SequenceViewer({
                                 {residue}
                               </span>
                             );
+                            if (!secondaryStructure && !exposure) return residueSpan;
+                            // Secondary structure track above the residue, exposure below
+                            return (
+                              <div key={idx} className="flex flex-col gap-[2px]">
+                                {secondaryStructure && (
+                                  <div
+                                    className="w-[14px] h-[4px] rounded-sm"
+                                    style={{ backgroundColor: state ? SECONDARY_STRUCTURE_COLORS[toSecondaryStructureClass(state)] : 'transparent' }}
+                                    title={state ? DSSP_STATE_NAMES[state] : undefined}
+                                  />
+                                )}
+                                {residueSpan}
+                                {exposure && (
+                                  <div
+                                    className="w-[14px] h-[4px] rounded-sm"
+                                    style={{ backgroundColor: rsa !== null && rsa !== undefined ? toHex(exposureColor(rsa)) : 'transparent' }}
+                                    title={rsa !== null && rsa !== undefined ? formatExposure(rsa) : undefined}
+                                  />
+                                )}
+                              </div>
+                            );
                           })}
                         </div>
                       </div>
@@ -186,6 +276,35 @@ export function SequenceViewer({
             <span>Other</span>
           </div>
         </div>
+
+        {secondaryStructure && (
+          <div className="flex flex-wrap gap-3 text-xs mt-2">
+            <span className="text-muted-foreground">Secondary structure (DSSP):</span>
+            {([['H', 'Helix'], ['E', 'Strand'], ['C', 'Coil']] as const).map(([stateClass, label]) => (
+              <div key={stateClass} className="flex items-center gap-1">
+                <div className="w-3 h-[4px] rounded-sm" style={{ backgroundColor: SECONDARY_STRUCTURE_COLORS[stateClass] }}></div>
+                <span>{label}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {exposure && (
+          <div className="flex flex-wrap items-center gap-3 text-xs mt-2">
+            <span className="text-muted-foreground">Solvent exposure (RSA):</span>
+            <div className="flex items-center gap-1">
+              <span>0%</span>
+              <div
+                className="w-24 h-[4px] rounded-sm"
+                style={{
+                  background: `linear-gradient(to right, ${EXPOSURE_COLOR_STOPS.map(([value, color]) => `${toHex(color)} ${value * 100}%`).join(', ')})`
+                }}
+              ></div>
+              <span>100%</span>
+            </div>
+            <span className="text-muted-foreground">Buried below {EXPOSURE_THRESHOLD * 100}%</span>
+          </div>
+        )}
       </div>
     </div>
   );
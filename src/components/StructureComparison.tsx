@@ -1,77 +1,20 @@
 import React, { useState, useEffect } from 'react';
-import { useVisualizeStore } from '@/store/visualizeStore';
+import { useVisualizeStore, Structure, getStructureJobId, getStructureProfileId } from '@/store/visualizeStore';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { ArrowRight, BarChart2, Beaker, Save } from 'lucide-react';
 import { toast } from 'sonner';
-import { apiClient } from '@/lib/api-client';
+import { api } from '@/lib/api';
+import { CompareStructuresRequest, CompareStructuresResponse } from '@/lib/api-schema';
+import { DEFAULT_MODEL_ID } from '@/lib/models';
 import { Textarea } from '@/components/ui/textarea';
-
-interface Structure {
-  id: string;
-  pdbData: string;
-  source: 'file' | 'job' | 'aligned';
-  name: string;
-  metadata?: {
-    distogram?: number[][];
-    plddt_score?: number;
-    created_at?: string;
-    completed_at?: string;
-    error_message?: string | null;
-    user_id?: string;
-    model?: string;
-    aligned_pdb_content?: string;
-    tm_score?: number;
-    rmsd?: number;
-  };
-}
-
-interface CompareResponse {
-  user_id: string;
-  experiment_id: string;
-  aligned_pdb_content: string;
-  aligned_job_id: string;
-  tm_score: number;
-  rmsd: number;
-  success: boolean;
-  error_message: string;
-}
-
-interface UpdateNoteResponse {
-  success: boolean;
-  error_message?: string;
-}
-
-interface TMScoreComparisionRequest {
-  compare_to_job_id: string;
-  compare_with_job_id: string | null;
-  compare_with_file_name: string | null;
-  compare_with_file_content: string | null;
-  model: string;
-}
-
-// Helper function to properly format job IDs for the API
-function formatJobId(id: string): string {
-  if (!id) return id;
-  
-  // Remove 'job-' prefix if present
-  if (id.startsWith('job-')) {
-    id = id.substring(4);
-  }
-  
-  // Remove the timestamp suffix if present (everything after the UUID)
-  // Standard UUID format: xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx
-  const uuidRegex = /^([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})/i;
-  const match = id.match(uuidRegex);
-  
-  if (match && match[1]) {
-    return match[1]; // Return just the UUID part
-  }
-  
-  return id;
-}
+import { toPDBString } from '@/utils/pdbParser';
+import { superposeMolecule } from '@/utils/structureAlignment';
+import { alignStructuresInWorker } from '@/lib/geometryWorkers';
+import { ResidueDeviationPlot } from '@/components/ResidueDeviationPlot';
+import { SecondaryStructureComparison } from '@/components/SecondaryStructureComparison';
 
 export default function StructureComparison() {
   const { 
@@ -80,7 +23,7 @@ export default function StructureComparison() {
     setStructureComparison,
     structureComparison,
     updateStructureMetadata,
-    setLoadedStructures
+    setAlignedStructure
   } = useVisualizeStore();
   
   const [structureA, setStructureA] = useState<string>('');
@@ -91,6 +34,8 @@ export default function StructureComparison() {
   const [experimentNote, setExperimentNote] = useState<string>('');
   const [isSavingNote, setIsSavingNote] = useState<boolean>(false);
   const [cachedExperimentId, setCachedExperimentId] = useState<string | null>(null);
+  // Server profile the cached experiment was recorded on
+  const [cachedProfileId, setCachedProfileId] = useState<string | undefined>(undefined);
   const [cachedUserId, setCachedUserId] = useState<string | null>(null);
   
   // Reset selections if the number of loaded structures changes
@@ -103,91 +48,65 @@ export default function StructureComparison() {
     }
   }, [loadedStructures.length, setCompareStructureIds, setStructureComparison]);
 
-  // New effect to maintain structure selections when loadedStructures changes
-  // This ensures uploaded PDB files remain selectable after job selection
+  // Keep the selections pointing at loaded structures. Structure A defaults
+  // to a job (the prediction being evaluated), Structure B to any other one.
   useEffect(() => {
-    // If we have structure selections but they don't exist in the current loadedStructures,
-    // we need to reset them or find replacements
-    
-    const structureAExists = structureA ? loadedStructures.some(s => s.id === structureA) : false;
-    const structureBExists = structureB ? loadedStructures.some(s => s.id === structureB) : false;
-    
-    // Log the current state for debugging
-    console.log('StructureComparison: Checking structure selection validity after loadedStructures change:', {
-      loadedStructureCount: loadedStructures.length,
-      structureAId: structureA,
-      structureBId: structureB,
-      structureAExists,
-      structureBExists,
-    });
-    
-    // Auto-select first two structures if both are invalid and we have at least 2 structures
-    if (loadedStructures.length >= 2 && (!structureAExists && !structureBExists)) {
-      // Find all job structures for Structure A
-      const jobStructures = loadedStructures.filter(s => s.source === 'job');
-      
-      // If we have at least one job structure, select it for Structure A
-      if (jobStructures.length > 0) {
-        const newStructureA = jobStructures[0].id;
-        console.log('StructureComparison: Auto-selecting first job for structureA:', newStructureA);
-        setStructureA(newStructureA);
-        
-        // Then find a structure (job or file) for Structure B
-        const availableForB = loadedStructures.filter(s => s.id !== newStructureA);
-        if (availableForB.length > 0) {
-          const newStructureB = availableForB[0].id;
-          console.log('StructureComparison: Auto-selecting structure for structureB:', newStructureB);
-          setStructureB(newStructureB);
-        }
-      }
-    } 
-    // If structureA is invalid but structureB is valid, try to find a new structureA
-    else if (!structureAExists && structureBExists) {
-      // Find a job structure for Structure A that is not Structure B
-      const availableJobs = loadedStructures.filter(
-        s => s.source === 'job' && s.id !== structureB
-      );
-      
-      if (availableJobs.length > 0) {
-        const newStructureA = availableJobs[0].id;
-        console.log('StructureComparison: Auto-selecting new structureA (job):', newStructureA);
-        setStructureA(newStructureA);
-      }
-    } 
-    // If structureB is invalid but structureA is valid, try to find a new structureB
-    else if (structureAExists && !structureBExists && loadedStructures.length >= 2) {
-      // Make sure Structure A is still a job
-      const structureAObj = loadedStructures.find(s => s.id === structureA);
-      if (structureAObj && structureAObj.source === 'job') {
-        // Find a structure for Structure B that is not Structure A
-        const newStructureB = loadedStructures.find(s => s.id !== structureA)?.id;
-        if (newStructureB) {
-          console.log('StructureComparison: Auto-selecting new structureB:', newStructureB);
-          setStructureB(newStructureB);
-        }
-      } else {
-        // Structure A is not a job, we need to find a job for Structure A
-        const jobStructures = loadedStructures.filter(s => s.source === 'job');
-        if (jobStructures.length > 0) {
-          const newStructureA = jobStructures[0].id;
-          console.log('StructureComparison: Replacing non-job structureA with job:', newStructureA);
-          setStructureA(newStructureA);
-          
-          // Then find a structure (job or file) for Structure B
-          const availableForB = loadedStructures.filter(s => s.id !== newStructureA);
-          if (availableForB.length > 0) {
-            const newStructureB = availableForB[0].id;
-            console.log('StructureComparison: Auto-selecting structure for structureB:', newStructureB);
-            setStructureB(newStructureB);
-          }
-        }
-      }
+    const candidates = loadedStructures.filter(s => s.source !== 'aligned');
+    if (candidates.length < 2) return;
+
+    const exists = (id: string) => candidates.some(s => s.id === id);
+    let nextA = structureA;
+    if (!exists(nextA)) {
+      nextA = (
+        candidates.find(s => s.source === 'job' && s.id !== structureB) ||
+        candidates.find(s => s.id !== structureB)
+      )?.id || '';
+      setStructureA(nextA);
+    }
+    if (!exists(structureB) || structureB === nextA) {
+      setStructureB(candidates.find(s => s.id !== nextA)?.id || '');
     }
-    
-    // If there are less than 2 structures loaded, keep the reset logic from the other useEffect
   }, [loadedStructures, structureA, structureB]);
 
+  // Register a job comparison with the server so observations can be saved
+  // to the experiment. Returns the server's result, null if it failed.
+  const recordExperiment = async (structureAObj: Structure, structureBObj: Structure): Promise<CompareStructuresResponse | null> => {
+    // A server only knows its own jobs
+    const profileId = getStructureProfileId(structureAObj);
+    if (structureBObj.source === 'job' && getStructureProfileId(structureBObj) !== profileId) {
+      setInfoMessage('The jobs ran on different servers; comparison computed locally and observations cannot be saved for it.');
+      return null;
+    }
+
+    const requestData: CompareStructuresRequest = {
+      compare_to_job_id: getStructureJobId(structureAObj),
+      compare_with_job_id: structureBObj.source === 'job' ? getStructureJobId(structureBObj) : null,
+      compare_with_file_name: structureBObj.source === 'file' ? structureBObj.name : null,
+      compare_with_file_content: structureBObj.source === 'file' ? structureBObj.pdbData : null,
+      model: structureAObj.metadata?.model || DEFAULT_MODEL_ID
+    };
+
+    try {
+      const result = await api.compareStructures(requestData, profileId);
+      if (!result.success) {
+        throw new Error(result.error_message || 'Unknown error comparing structures');
+      }
+      setCachedExperimentId(result.experiment_id);
+      setCachedProfileId(profileId);
+      setCachedUserId(result.user_id);
+      return result;
+    } catch (error) {
+      console.warn('Could not record the comparison on the server:', error);
+      setInfoMessage('Comparison computed locally; observations cannot be saved for it.');
+      return null;
+    }
+  };
+
   const handleCompare = async () => {
+    setError(null);
+    setInfoMessage(null);
+    setCachedExperimentId(null);
+
     try {
       // Validate inputs
       if (!structureA || !structureB) {
@@ -202,125 +121,90 @@ export default function StructureComparison() {
         throw new Error('Could not find the selected structures');
       }
 
-      // Ensure Structure A is always a job
-      if (structureAObj.source !== 'job') {
-        throw new Error('Structure A must be a job');
+      if (!structureAObj.molecule || !structureBObj.molecule) {
+        throw new Error('Both structures need parsed coordinates to compare');
       }
 
-      // Prepare request data
-      const requestData: TMScoreComparisionRequest = {
-        compare_to_job_id: '',
-        compare_with_job_id: null,
-        compare_with_file_name: null,
-        compare_with_file_content: null,
-        model: 'alphafold2'
-      };
-      
-      // Since Structure A is always a job now, we have two cases:
-      // 1. Job-to-job comparison
-      // 2. Job-to-file comparison
-      if (structureBObj.source === 'job') {
-        // Job-to-job comparison
-        requestData.compare_to_job_id = formatJobId(structureAObj.id);
-        requestData.compare_with_job_id = formatJobId(structureBObj.id);
-        requestData.model = structureAObj.metadata?.model || "alphafold2";
-      } else if (structureBObj.source === 'file') {
-        // Job-to-file comparison
-        requestData.compare_to_job_id = formatJobId(structureAObj.id);
-        
-        // Ensure we have valid PDB data
-        if (!structureBObj.pdbData || typeof structureBObj.pdbData !== 'string' || structureBObj.pdbData.length === 0) {
-          throw new Error(`No valid PDB data found for structure ${structureBObj.name}`);
-        }
-        
-        requestData.compare_with_file_content = structureBObj.pdbData;
-        requestData.model = structureAObj.metadata?.model || "alphafold2";
-      }
+      setIsComparing(true);
 
-      console.log('Sending comparison request:', {
-        ...requestData,
-        compare_with_file_content: requestData.compare_with_file_content ? 
-          `PDB data present (${requestData.compare_with_file_content.length} bytes)` : 
-          'not present'
+      // Structure B is superposed onto structure A. Comparisons with a job are
+      // recorded as experiments, and job/job pairs are scored by the
+      // compare-structures endpoint like in the comparison matrix; the local
+      // alignment still gives the superposition and the residue pairs.
+      const [result, serverResult] = await Promise.all([
+        alignStructuresInWorker(structureBObj.molecule, structureAObj.molecule),
+        structureAObj.source === 'job' ? recordExperiment(structureAObj, structureBObj) : Promise.resolve(null),
+      ]);
+      const alignedMolecule = superposeMolecule(structureBObj.molecule, result.transform);
+      const serverScores = structureAObj.source === 'job' && structureBObj.source === 'job'
+        && serverResult?.tm_score != null && serverResult.rmsd != null
+        ? { tmScore: serverResult.tm_score, rmsd: serverResult.rmsd }
+        : null;
+      const tmScore = serverScores?.tmScore ?? result.tmScoreTarget;
+      const rmsd = serverScores?.rmsd ?? result.rmsd;
+      console.log('Comparison result:', {
+        tmScore,
+        rmsd,
+        alignedLength: result.alignedLength,
+        scoredOnServer: !!serverScores,
       });
-      
-      // Make API call using the apiClient
-      const result = await apiClient.post<CompareResponse>('compare-structures', requestData);
-      console.log('Comparison result:', result);
-
-      if (!result.success) {
-        throw new Error(result.error_message || 'Unknown error comparing structures');
+      if (serverScores) {
+        setInfoMessage('TM-score and RMSD from the server; superposition and residue deviations computed locally.');
       }
 
-      // Cache the experiment ID and user ID for later use
-      setCachedExperimentId(result.experiment_id);
-      setCachedUserId(result.user_id);
-      
-      // Create a unique ID for the aligned structure
-      const alignedStructureId = `aligned-${Date.now()}`;
-      
-      // Remove any existing aligned structures
-      const filteredStructures = loadedStructures.filter(s => !s.id.startsWith('aligned-'));
-      
-      // Add the new aligned structure
       const alignedStructure: Structure = {
-        id: alignedStructureId,
-        name: `Aligned: ${structureAObj.name} vs ${structureBObj.name}`,
+        id: `aligned-${Date.now()}`,
+        name: `Aligned: ${structureBObj.name} on ${structureAObj.name}`,
         source: 'aligned',
-        pdbData: result.aligned_pdb_content,
+        pdbData: toPDBString(alignedMolecule),
+        molecule: alignedMolecule,
         metadata: {
-          aligned_pdb_content: result.aligned_pdb_content,
-          model: requestData.model,
-          tm_score: result.tm_score,
-          rmsd: result.rmsd
+          model: structureAObj.metadata?.model,
+          tm_score: tmScore,
+          rmsd
         }
       };
-      
-      setLoadedStructures([...filteredStructures, alignedStructure]);
-      
-      // Show success message
+
+      // Replaces any previous aligned structure, keeping structures loaded
+      // while the alignment ran
+      setAlignedStructure(alignedStructure);
+      setCompareStructureIds([structureAObj.id, structureBObj.id]);
+      setStructureComparison({
+        structureA: structureAObj.id,
+        structureB: structureBObj.id,
+        // The server reports one TM-score for both directions
+        tmScore,
+        tmScoreB: serverScores ? serverScores.tmScore : result.tmScoreMobile,
+        rmsd,
+        caAtomsCount: result.alignedLength,
+        gdtTs: result.gdtTs,
+        sequenceIdentity: result.sequenceIdentity,
+        alignment: result.alignment,
+        alignedStructureId: alignedStructure.id
+      });
+
       toast.success('Structures compared successfully');
-      
     } catch (error) {
       console.error('Error comparing structures:', error);
+      setError(error instanceof Error ? error.message : 'Failed to compare structures');
       toast.error(error instanceof Error ? error.message : 'Failed to compare structures');
+    } finally {
+      setIsComparing(false);
     }
   };
 
   // Handle selection changes
   const handleStructureAChange = (value: string) => {
-    // Only allow selecting jobs for Structure A
-    const structureObj = loadedStructures.find(s => s.id === value);
-    if (structureObj && structureObj.source === 'job') {
-      setStructureA(value);
-      
-      // If Structure B is the same as the new Structure A, reset Structure B
-      if (value === structureB) {
-        setStructureB('');
-      }
-    } else {
-      // This shouldn't happen since we're filtering the dropdown, but just in case
-      toast.error('Structure A must be a job');
+    setStructureA(value);
+
+    // If Structure B is the same as the new Structure A, reset Structure B
+    if (value === structureB) {
+      setStructureB('');
     }
   };
 
   const handleStructureBChange = (value: string) => {
     setStructureB(value);
-    
-    // If Structure A is the same as the new Structure B, we need to find a new job for Structure A
-    if (value === structureA) {
-      // Find another job to use for Structure A
-      const availableJobs = loadedStructures.filter(s => 
-        s.source === 'job' && s.id !== value
-      );
-      
-      if (availableJobs.length > 0) {
-        setStructureA(availableJobs[0].id);
-      } else {
-        setStructureA('');
-        toast.error('No other job available for Structure A');
-      }
-    }
   };
 
   // Get names of structures for display
@@ -338,10 +222,10 @@ export default function StructureComparison() {
     setIsSavingNote(true);
     
     try {
-      const response = await apiClient.post<UpdateNoteResponse>('experiments/note', {
+      const response = await api.updateExperimentNote({
         experiment_id: cachedExperimentId,
         note: experimentNote
-      });
+      }, cachedProfileId);
       
       if (response.success) {
         toast.success('Observation saved to experiment');
@@ -366,18 +250,19 @@ export default function StructureComparison() {
         <div className="comparison-container">
           <div className="grid grid-cols-7 gap-2 items-center">
             <div className="col-span-3">
-              <div className="text-xs text-muted-foreground mb-1">Structure A (Job)</div>
+              <div className="text-xs text-muted-foreground mb-1">Structure A (reference)</div>
               <Select value={structureA} onValueChange={handleStructureAChange}>
                 <SelectTrigger className="text-xs">
-                  <SelectValue placeholder="Select job structure" />
+                  <SelectValue placeholder="Select reference structure" />
                 </SelectTrigger>
                 <SelectContent>
                   {loadedStructures
-                    .filter(structure => structure.source === 'job') // Only show jobs for Structure A
+                    .filter(structure => structure.source !== 'aligned')
                     .map(structure => (
                       <SelectItem key={structure.id} value={structure.id}>
                         {structure.name}
                         {structure.source === 'job' && ' (job)'}
+                        {structure.source === 'file' && ' (file)'}
                       </SelectItem>
                     ))}
                 </SelectContent>
@@ -389,14 +274,14 @@ export default function StructureComparison() {
             </div>
             
             <div className="col-span-3">
-              <div className="text-xs text-muted-foreground mb-1">Structure B (Job or File)</div>
+              <div className="text-xs text-muted-foreground mb-1">Structure B (superposed onto A)</div>
               <Select value={structureB} onValueChange={handleStructureBChange}>
                 <SelectTrigger className="text-xs">
                   <SelectValue placeholder="Select structure to compare" />
                 </SelectTrigger>
                 <SelectContent>
                   {loadedStructures
-                    .filter(structure => structure.id !== structureA) // Don't show already selected Structure A
+                    .filter(structure => structure.id !== structureA && structure.source !== 'aligned')
                     .map(structure => (
                       <SelectItem key={structure.id} value={structure.id}>
                         {structure.name}
@@ -471,7 +356,7 @@ export default function StructureComparison() {
                 {/* TM-Score */}
                 <div>
                   <div className="flex justify-between items-center mb-1">
-                    <span className="text-xs text-muted-foreground">TM-Score:</span>
+                    <span className="text-xs text-muted-foreground">TM-Score (by A):</span>
                     <span className="text-xs font-medium">
                       {isNaN(structureComparison.tmScore) ? 
                         "Not available" : 
@@ -512,6 +397,32 @@ export default function StructureComparison() {
                   )}
                 </div>
 
+                {/* Alignment summary */}
+                <div className="grid grid-cols-2 gap-2 text-xs">
+                  {structureComparison.tmScoreB !== undefined && (
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">TM-Score (by B):</span>
+                      <span className="font-medium">{structureComparison.tmScoreB.toFixed(4)}</span>
+                    </div>
+                  )}
+                  {structureComparison.gdtTs !== undefined && (
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">GDT-TS:</span>
+                      <span className="font-medium">{structureComparison.gdtTs.toFixed(1)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Aligned residues:</span>
+                    <span className="font-medium">{structureComparison.caAtomsCount}</span>
+                  </div>
+                  {structureComparison.sequenceIdentity !== undefined && (
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Sequence identity:</span>
+                      <span className="font-medium">{(structureComparison.sequenceIdentity * 100).toFixed(0)}%</span>
+                    </div>
+                  )}
+                </div>
+
                 {/* RMSD */}
                 {structureComparison.rmsd !== undefined && (
                   <div>
@@ -556,6 +467,22 @@ export default function StructureComparison() {
                     )}
                   </div>
                 )}
+
+                {/* Per-residue deviation */}
+                {structureComparison.alignment && (
+                  <div>
+                    <div className="text-xs text-muted-foreground mb-1">Per-residue deviation after superposition:</div>
+                    <ResidueDeviationPlot />
+                  </div>
+                )}
+
+                {/* Secondary structure along the alignment */}
+                {structureComparison.alignment && (
+                  <div>
+                    <div className="text-xs text-muted-foreground mb-1">Secondary structure of the aligned residues:</div>
+                    <SecondaryStructureComparison />
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -0,0 +1,235 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import Plotly from 'plotly.js-dist-min';
+import { useVisualizeStore } from '@/store/visualizeStore';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Slider } from '@/components/ui/slider';
+import { Grid3x3, Beaker, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { GEOMETRY_POOL_SIZE, compareMoleculesInWorker } from '@/lib/geometryWorkers';
+import {
+  ComparisonMatrix,
+  buildComparisonMatrix,
+  clusterMatrix,
+  cutTree,
+  leafOrder,
+} from '@/utils/comparisonMatrix';
+
+type MatrixMetric = 'tm' | 'rmsd';
+
+export default function StructureComparisonMatrix() {
+  const { loadedStructures } = useVisualizeStore();
+  const plotRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const [matrix, setMatrix] = useState<ComparisonMatrix | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [metric, setMetric] = useState<MatrixMetric>('tm');
+  const [clusterThreshold, setClusterThreshold] = useState<number>(0.5);
+
+  const candidates = useMemo(
+    () => loadedStructures.filter(s => s.source !== 'aligned' && s.molecule),
+    [loadedStructures]
+  );
+
+  // Drop the matrix once one of its structures is unloaded
+  useEffect(() => {
+    if (matrix && !matrix.ids.every(id => loadedStructures.some(s => s.id === id))) {
+      setMatrix(null);
+    }
+  }, [loadedStructures, matrix]);
+
+  // Stop comparing when the panel goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const dendrogram = useMemo(() => (matrix ? clusterMatrix(matrix) : null), [matrix]);
+  const clusters = useMemo(() => cutTree(dendrogram, clusterThreshold), [dendrogram, clusterThreshold]);
+
+  const handleCompareAll = async () => {
+    const structures = candidates;
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    // Every pair is scored locally: compare-structures records an experiment
+    // per call, which a matrix of N² pairs should not leave behind
+    const compare = (i: number, j: number) =>
+      compareMoleculesInWorker(structures[i].molecule!, structures[j].molecule!, { signal: controller.signal });
+
+    try {
+      setProgress({ done: 0, total: 0 });
+      const result = await buildComparisonMatrix(structures, compare, {
+        onProgress: (done, total) => setProgress({ done, total }),
+        concurrency: GEOMETRY_POOL_SIZE,
+        signal: controller.signal
+      });
+      setMatrix(result);
+      toast.success(`Compared ${structures.length} structures`);
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        toast.info('Comparison cancelled');
+        return;
+      }
+      console.error('Error building comparison matrix:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to compare structures');
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  useEffect(() => {
+    const element = plotRef.current;
+    if (!element || !matrix) return;
+
+    // Rows and columns in dendrogram order so clusters appear as blocks
+    const order = leafOrder(dendrogram);
+    const labels = order.map(i => matrix.names[i]);
+    const values = metric === 'tm' ? matrix.tmScore : matrix.rmsd;
+    const z = order.map(i => order.map(j => (Number.isFinite(values[i][j]) ? values[i][j] : null)));
+    const text = order.map(i => order.map(j => {
+      const aligned = matrix.alignedLength[i][j];
+      return [
+        `${matrix.names[j]} on ${matrix.names[i]}`,
+        `TM-score (by row): ${matrix.tmScore[i][j].toFixed(3)}`,
+        `RMSD: ${matrix.rmsd[i][j].toFixed(2)} Å`,
+        ...(aligned !== null ? [`Aligned residues: ${aligned}`] : []),
+      ].join('<br>');
+    }));
+
+    const maxRmsd = Math.max(1, ...matrix.rmsd.flat().filter(Number.isFinite));
+    const data = [{
+      z,
+      x: labels,
+      y: labels,
+      text,
+      type: 'heatmap',
+      hoverinfo: 'text',
+      zmin: 0,
+      zmax: metric === 'tm' ? 1 : maxRmsd,
+      // Similar pairs are dark in both metrics
+      colorscale: 'Viridis',
+      reversescale: metric === 'tm',
+      colorbar: {
+        title: { text: metric === 'tm' ? 'TM-score' : 'RMSD (Å)', side: 'right' },
+        thickness: 12
+      }
+    }];
+
+    const layout = {
+      height: 140 + labels.length * 40,
+      margin: { l: 110, r: 20, t: 10, b: 100 },
+      xaxis: { tickangle: -45, automargin: true },
+      yaxis: { autorange: 'reversed', automargin: true },
+      paper_bgcolor: 'rgba(0,0,0,0)',
+      plot_bgcolor: 'rgba(0,0,0,0)'
+    };
+
+    const config = {
+      responsive: true,
+      displayModeBar: true,
+      displaylogo: false,
+      modeBarButtonsToRemove: ['lasso2d', 'select2d']
+    };
+
+    Plotly.newPlot(element, data, layout, config);
+
+    return () => {
+      Plotly.purge(element);
+    };
+  }, [matrix, dendrogram, metric]);
+
+  if (candidates.length < 2) {
+    return (
+      <div className="text-sm text-muted-foreground text-center py-2">
+        Load at least two structures to build a comparison matrix
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <Button
+        className="w-full"
+        onClick={handleCompareAll}
+        disabled={progress !== null}
+        size="sm"
+        variant="outline"
+      >
+        {progress ? (
+          <div className="flex items-center">
+            <Beaker className="mr-2 h-3 w-3 animate-spin" />
+            Comparing {progress.done}/{progress.total} pairs...
+          </div>
+        ) : (
+          <div className="flex items-center">
+            <Grid3x3 className="mr-2 h-3 w-3" />
+            Compare All ({candidates.length} structures)
+          </div>
+        )}
+      </Button>
+
+      {progress && progress.total > 0 && (
+        <div className="flex items-center gap-2">
+          <Progress value={(progress.done / progress.total) * 100} className="h-1 flex-1" />
+          <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={() => abortRef.current?.abort()}>
+            <X className="mr-1 h-3 w-3" />
+            Cancel
+          </Button>
+        </div>
+      )}
+
+      {matrix && (
+        <div className="space-y-3">
+          <div className="flex gap-1">
+            <Button
+              size="sm"
+              variant={metric === 'tm' ? 'default' : 'outline'}
+              className="h-7 text-xs"
+              onClick={() => setMetric('tm')}
+            >
+              TM-score
+            </Button>
+            <Button
+              size="sm"
+              variant={metric === 'rmsd' ? 'default' : 'outline'}
+              className="h-7 text-xs"
+              onClick={() => setMetric('rmsd')}
+            >
+              RMSD
+            </Button>
+          </div>
+
+          <div ref={plotRef} className="w-full" />
+
+          <div className="space-y-2">
+            <div className="flex justify-between text-xs">
+              <span className="text-muted-foreground">Cluster at TM-score ≥</span>
+              <span className="font-medium">{clusterThreshold.toFixed(2)}</span>
+            </div>
+            <Slider
+              value={[clusterThreshold]}
+              onValueChange={(value) => setClusterThreshold(value[0])}
+              min={0.3}
+              max={0.95}
+              step={0.05}
+              className="w-full"
+            />
+            <div className="space-y-1">
+              {clusters.map((members, index) => (
+                <div key={members.join('-')} className="flex flex-wrap items-center gap-1 text-xs">
+                  <span className="text-muted-foreground mr-1">Cluster {index + 1}:</span>
+                  {members.map(member => (
+                    <Badge key={matrix.ids[member]} variant="outline" className="text-xs">
+                      {matrix.names[member]}
+                    </Badge>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,81 +1,16 @@
-import React from 'react';
-import { Molecule } from '@/utils/pdbParser';
+import React, { useMemo } from 'react';
+import { Molecule, calculateMoleculeStats } from '@/utils/structure';
+import {
+  SECONDARY_STRUCTURE_COLORS,
+  assignSecondaryStructure,
+  summarizeSecondaryStructure
+} from '@/utils/secondaryStructure';
 import { Card } from './ui/card';
 import { Separator } from './ui/separator';
 import { Button } from './ui/button';
 import { Trash2 } from 'lucide-react';
 import { Badge } from './ui/badge';
 
-interface MoleculeStats {
-  totalAtoms: number;
-  uniqueElements: string[];
-  residueCounts: { [key: string]: number };
-  chainInfo: {
-    chainId: string;
-    residueCount: number;
-    atomCount: number;
-  }[];
-  waterCount: number;
-  ionCount: number;
-}
-
-const calculateMoleculeStats = (molecule: Molecule): MoleculeStats => {
-  const stats: MoleculeStats = {
-    totalAtoms: molecule.atoms.length,
-    uniqueElements: [],
-    residueCounts: {},
-    chainInfo: [],
-    waterCount: 0,
-    ionCount: 0
-  };
-
-  // Temporary sets and maps for calculations
-  const elements = new Set<string>();
-  const chainMap = new Map<string, { residues: Set<number>, atoms: number }>();
-
-  // Process each atom
-  molecule.atoms.forEach(atom => {
-    // Count unique elements
-    elements.add(atom.element);
-
-    // Count residues
-    if (!stats.residueCounts[atom.residue]) {
-      stats.residueCounts[atom.residue] = 0;
-    }
-    stats.residueCounts[atom.residue]++;
-
-    // Process chain information
-    if (!chainMap.has(atom.chain)) {
-      chainMap.set(atom.chain, { residues: new Set(), atoms: 0 });
-    }
-    const chainInfo = chainMap.get(atom.chain)!;
-    chainInfo.residues.add(atom.residueId);
-    chainInfo.atoms++;
-
-    // Count water and ions
-    if (atom.residue === 'HOH' || atom.residue === 'WAT') {
-      stats.waterCount++;
-    } else if (atom.residue.length <= 2 && !atom.residue.match(/[a-z]/i)) {
-      stats.ionCount++;
-    }
-  });
-
-  // Convert chain map to array
-  stats.chainInfo = Array.from(chainMap.entries()).map(([chainId, info]) => ({
-    chainId,
-    residueCount: info.residues.size,
-    atomCount: info.atoms
-  }));
-
-  // Sort chains by ID
-  stats.chainInfo.sort((a, b) => a.chainId.localeCompare(b.chainId));
-
-  // Convert elements set to sorted array
-  stats.uniqueElements = Array.from(elements).sort();
-
-  return stats;
-};
-
 interface StructureDetailsProps {
   molecule: Molecule;
   distogram?: number[][];
@@ -92,6 +27,10 @@ export function StructureDetails({
   onDelete 
 }: StructureDetailsProps) {
   const stats = calculateMoleculeStats(molecule);
+  const secondaryStructure = useMemo(
+    () => summarizeSecondaryStructure(assignSecondaryStructure(molecule)),
+    [molecule]
+  );
 
   return (
     <div className="space-y-6">
@@ -156,6 +95,38 @@ export function StructureDetails({
 
       <Separator />
 
+      {/* Secondary Structure (DSSP) */}
+      {secondaryStructure.length > 0 && (
+        <>
+          <div>
+            <h4 className="text-sm font-medium mb-2">Secondary Structure (DSSP)</h4>
+            <div className="grid grid-cols-4 gap-4 text-sm font-medium mb-2">
+              <div>Chain</div>
+              <div>% Helix</div>
+              <div>% Strand</div>
+              <div>% Coil</div>
+            </div>
+            {secondaryStructure.map(chain => (
+              <div key={chain.chain} className="text-sm mb-2">
+                <div className="grid grid-cols-4 gap-4">
+                  <div>{chain.chain}</div>
+                  <div>{(chain.helix * 100).toFixed(1)}%</div>
+                  <div>{(chain.strand * 100).toFixed(1)}%</div>
+                  <div>{(chain.coil * 100).toFixed(1)}%</div>
+                </div>
+                <div className="flex h-1.5 mt-1 rounded-sm overflow-hidden">
+                  <div style={{ width: `${chain.helix * 100}%`, backgroundColor: SECONDARY_STRUCTURE_COLORS.H }} />
+                  <div style={{ width: `${chain.strand * 100}%`, backgroundColor: SECONDARY_STRUCTURE_COLORS.E }} />
+                  <div style={{ width: `${chain.coil * 100}%`, backgroundColor: SECONDARY_STRUCTURE_COLORS.C }} />
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <Separator />
+        </>
+      )}
+
       {/* Water and Ion Information */}
       <div>
         <h4 className="text-sm font-medium mb-2">Water and Ion Content</h4>
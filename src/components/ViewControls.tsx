@@ -3,7 +3,7 @@ import { Card } from './ui/card';
 import { Button } from './ui/button';
 import { Slider } from './ui/slider';
 import { ViewerState, ViewMode, ColorScheme } from '@/types/viewer';
-import { Molecule } from '@/utils/pdbParser';
+import { Molecule } from '@/utils/structure';
 import { useVisualizeStore } from '@/store/visualizeStore';
 import { Badge } from './ui/badge';
 import { Separator } from './ui/separator';
@@ -108,6 +108,9 @@ export function ViewControls({
                 <SelectItem value="ELEMENT">Element</SelectItem>
                 <SelectItem value="BFACTOR">B-Factor</SelectItem>
                 <SelectItem value="SEQUENCE">Sequence</SelectItem>
+                <SelectItem value="PLDDT">pLDDT (AlphaFold)</SelectItem>
+                <SelectItem value="DEVIATION">Deviation (last comparison)</SelectItem>
+                <SelectItem value="EXPOSURE">Exposure (SASA)</SelectItem>
               </SelectContent>
             </Select>
           </div>
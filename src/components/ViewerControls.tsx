@@ -37,7 +37,7 @@ export function ViewerControls({
           type="file"
           id="structure-upload"
           className="hidden"
-          accept=".pdb,.cif,.ent,.gz"
+          accept=".pdb,.cif,.mmcif,.bcif,.ent,.gz"
           onChange={handleFileChange}
         />
         <Button 
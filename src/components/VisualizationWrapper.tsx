@@ -1,7 +1,7 @@
 import React, { forwardRef, useRef, useEffect } from 'react';
 import { MolStarViewer } from './MolStarViewer';
 import { NGLViewer } from './NGLViewer';
-import { ViewerState } from '@/types/viewer';
+import { ViewerState, ResidueColors, ResidueRef, Measurement, MeasurementKind, MeasuredAtom } from '@/types/viewer';
 
 interface VisualizationWrapperProps {
   structures: { 
@@ -9,12 +9,23 @@ interface VisualizationWrapperProps {
     pdbData: string;
     name?: string;
     source?: 'file' | 'job';
+    residueColors?: ResidueColors;
   }[];
   viewerState: ViewerState;
+  highlightedResidues?: ResidueRef[];
+  selectedResidues?: ResidueRef[];
+  distancePair?: [ResidueRef, ResidueRef];
+  onResiduePick?: (residue: ResidueRef, extend: boolean) => void;
+  measurements?: Record<string, Measurement[]>;
+  measurementMode?: MeasurementKind | null;
+  onAtomPick?: (structureId: string, atom: MeasuredAtom, position: [number, number, number]) => void;
 }
 
 export const VisualizationWrapper = forwardRef<any, VisualizationWrapperProps>(
-  ({ structures, viewerState }, ref) => {
+  ({
+    structures, viewerState, highlightedResidues, selectedResidues, distancePair, onResiduePick,
+    measurements, measurementMode, onAtomPick
+  }, ref) => {
     const prevStructuresRef = useRef<string[]>([]);
     
     useEffect(() => {
@@ -52,6 +63,13 @@ export const VisualizationWrapper = forwardRef<any, VisualizationWrapperProps>(
           <MolStarViewer
             structures={structures}
             viewerState={viewerState}
+            highlightedResidues={highlightedResidues}
+            selectedResidues={selectedResidues}
+            distancePair={distancePair}
+            onResiduePick={onResiduePick}
+            measurements={measurements}
+            measurementMode={measurementMode}
+            onAtomPick={onAtomPick}
             ref={ref}
             key={viewerKey}
           />
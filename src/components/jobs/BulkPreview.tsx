@@ -0,0 +1,72 @@
+import React from 'react';
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertCircle, CheckCircle2 } from "lucide-react";
+import { ParsedBatch } from "@/lib/batchService";
+
+interface BulkPreviewProps {
+  batch: ParsedBatch;
+  progress?: { completed: number; total: number } | null;
+}
+
+export default function BulkPreview({ batch, progress }: BulkPreviewProps) {
+  const { rows, errors } = batch;
+
+  return (
+    <div className="space-y-3 w-full text-left">
+      <div className="flex items-center gap-2 text-sm">
+        <Badge variant="secondary" className="bg-green-500/15 text-green-700">
+          <CheckCircle2 className="h-3 w-3 mr-1" />
+          {rows.length} valid
+        </Badge>
+        {errors.length > 0 && (
+          <Badge variant="secondary" className="bg-red-500/15 text-red-700">
+            <AlertCircle className="h-3 w-3 mr-1" />
+            {errors.length} invalid
+          </Badge>
+        )}
+        {progress && (
+          <span className="text-xs text-muted-foreground ml-auto">
+            Submitted {progress.completed} of {progress.total}
+          </span>
+        )}
+      </div>
+
+      {errors.length > 0 && (
+        <div className="border rounded-md max-h-48 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[60px]">Line</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Problem</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {errors.map((error) => (
+                <TableRow key={error.line}>
+                  <TableCell className="font-mono text-xs">{error.line}</TableCell>
+                  <TableCell className="text-xs">{error.name || '-'}</TableCell>
+                  <TableCell className="text-xs text-red-600">{error.error}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {errors.length > 0 && rows.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Invalid rows will be skipped. Only the {rows.length} valid rows will be submitted.
+        </p>
+      )}
+    </div>
+  );
+}
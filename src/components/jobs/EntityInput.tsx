@@ -53,8 +53,14 @@ const extractFastaHeader = (sequence) => {
   return "";
 };
 
-export default function EntityInput({ onEntitiesChange, onSubmit }) {
-  const [entities, setEntities] = useState([{ ...DEFAULT_ENTITY }]);
+// allowedTypes limits the entity types to those the selected model accepts,
+// initialSequence pre-fills the first entity (e.g. when editing a copy of a job)
+export default function EntityInput({ onEntitiesChange, onSubmit, allowedTypes = null, initialSequence = "" }) {
+  const [entities, setEntities] = useState(() => [
+    initialSequence
+      ? { ...DEFAULT_ENTITY, sequence: initialSequence, fastaHeader: extractFastaHeader(initialSequence) }
+      : { ...DEFAULT_ENTITY }
+  ]);
   const [collapsedEntities, setCollapsedEntities] = useState({});
   const [originalSequences, setOriginalSequences] = useState({});
   const [editingEntities, setEditingEntities] = useState({});
@@ -331,7 +337,7 @@ export default function EntityInput({ onEntitiesChange, onSubmit }) {
                   <SelectValue placeholder="Select type" />
                 </SelectTrigger>
                 <SelectContent>
-                  {ENTITY_TYPES.map((type) => (
+                  {ENTITY_TYPES.filter(t => !allowedTypes || allowedTypes.includes(t.value)).map((type) => (
                     <SelectItem key={type.value} value={type.value}>
                       <div className="flex items-center">
                         {type.icon}
@@ -5,6 +5,7 @@ import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useJobsStore } from "@/store/jobsStore";
+import { useModelsStore } from "@/store/modelsStore";
 import { useState, useEffect } from "react";
 import { toast } from "sonner";
 import { Info } from "lucide-react";
@@ -42,6 +43,10 @@ const proteinExamples = [
 
 export default function JobExamples() {
   const { formData, setFormData } = useJobsStore();
+  const selectedModel = useModelsStore(state => state.getModel(formData.selectedModel));
+  const modelName = selectedModel?.name || formData.selectedModel;
+  const usesFasta = selectedModel?.inputFormat === 'fasta';
+  const supportsMultimer = selectedModel?.supportsMultimer ?? true;
   
   // FASTA format validation
   const isFastaFormat = (input: string): boolean => {
@@ -56,19 +61,19 @@ export default function JobExamples() {
     const isFasta = isFastaFormat(input);
     console.log("Is FASTA format:", isFasta);
     
-    if (formData.selectedModel === "esm3" && isFasta) {
-      // For ESM-3, we need to extract just the sequence part from FASTA
+    if (!usesFasta && isFasta) {
+      // Raw sequence models need just the sequence part from FASTA
       // But preserve the colons if they exist for multimers
       const sequence = input.split('\n').slice(1).join('');
-      console.log("Extracted sequence for ESM-3:", sequence);
+      console.log(`Extracted sequence for ${modelName}:`, sequence);
       setFormData({ inputString: sequence });
-      toast.success('Example applied in raw sequence format for ESM-3 model');
-    } else if (formData.selectedModel === "alphafold2" && !isFasta) {
-      // For AlphaFold2, we need to add a FASTA header
+      toast.success(`Example applied in raw sequence format for ${modelName} model`);
+    } else if (usesFasta && !isFasta) {
+      // FASTA models need a header
       const fasta = `>Protein_Sequence\n${input}`;
-      console.log("Created FASTA for AlphaFold2:", fasta);
+      console.log(`Created FASTA for ${modelName}:`, fasta);
       setFormData({ inputString: fasta });
-      toast.success('Example applied in FASTA format for AlphaFold2 model');
+      toast.success(`Example applied in FASTA format for ${modelName} model`);
     } else {
       // If the format already matches the model's requirements
       console.log("Using input as-is:", input);
@@ -78,23 +83,29 @@ export default function JobExamples() {
   };
 
   const getInputFormatDescription = () => {
-    if (formData.selectedModel === "alphafold2") {
+    const multimerHint = supportsMultimer
+      ? <strong>For multimers, separate chains with colons (:)</strong>
+      : <strong>{modelName} only predicts single chains</strong>;
+    if (usesFasta) {
       return (
         <p className="text-sm text-muted-foreground">
-          FASTA format includes a header line starting with '&gt;' followed by the sequence. <strong>For multimers, separate chains with colons (:)</strong>. The header can include metadata like protein name, ID, and type.
+          FASTA format includes a header line starting with '&gt;' followed by the sequence. {multimerHint}. The header can include metadata like protein name, ID, and type.
         </p>
       );
     } else {
       return (
         <p className="text-sm text-muted-foreground">
-          Raw amino acid sequences using standard single-letter codes. <strong>For multimers, separate chains with colons (:)</strong>. This format is simpler but contains no metadata.
+          Raw amino acid sequences using standard single-letter codes. {multimerHint}. This format is simpler but contains no metadata.
         </p>
       );
     }
   };
 
   const getMultimerFormatExample = () => {
-    if (formData.selectedModel === "alphafold2") {
+    if (!supportsMultimer) {
+      return null;
+    }
+    if (usesFasta) {
       return (
         <div className="bg-muted/30 p-3 rounded-md">
           <p className="text-sm font-semibold">Multimer Format Example:</p>
@@ -110,7 +121,7 @@ export default function JobExamples() {
     } else {
       return (
         <div className="bg-muted/30 p-3 rounded-md">
-          <p className="text-sm font-semibold">ESM-3 Format Example:</p>
+          <p className="text-sm font-semibold">{modelName} Format Example:</p>
           <p className="text-xs font-mono">
             SEQUENCEOFCHAINA:SEQUENCEOFCHAINB:SEQUENCEOFCHAINC
           </p>
@@ -123,7 +134,7 @@ export default function JobExamples() {
   };
 
   const renderExampleContent = (protein) => {
-    if (formData.selectedModel === "alphafold2") {
+    if (usesFasta) {
       return (
         <div className="text-xs font-mono bg-muted/50 p-2 rounded whitespace-pre-line">
           {protein.fasta.split('\n')[0]}
@@ -143,18 +154,18 @@ export default function JobExamples() {
   };
 
   const getExampleInput = (protein) => {
-    // For ESM-3, return the raw sequence
-    // For AlphaFold2, return the FASTA format
-    if (formData.selectedModel === "alphafold2") {
+    // FASTA models get the FASTA format, everything else the raw sequence
+    if (usesFasta) {
       return protein.fasta;
     } else {
-      // For ESM-3, we return the raw sequence
       return protein.sequence;
     }
   };
 
   const shouldShowProtein = (protein) => {
-    return true; // Show all proteins for all models
+    // Hide examples the selected model cannot predict
+    if (protein.type === "Multimer" && !supportsMultimer) return false;
+    return !selectedModel || protein.sequence.replace(/:/g, '').length <= selectedModel.maxLength;
   };
 
   return (
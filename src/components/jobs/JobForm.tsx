@@ -13,25 +13,66 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useJobsStore } from "@/store/jobsStore";
+import { useModelsStore } from "@/store/modelsStore";
 import { useState, useRef, useEffect } from "react";
 import { toast } from "sonner";
-import { Info, Upload } from "lucide-react";
+import { GitBranch, Info, Upload, X } from "lucide-react";
 import { supabase } from "@/lib/supabase";
 import EntityInput from "./EntityInput";
+import BulkPreview from "./BulkPreview";
+import { parseBatchCSV, ParsedBatch } from "@/lib/batchService";
+import { ModelCapabilities, describeModelInput } from "@/lib/models";
+import { isFastaFormat, isMultimer } from "@/components/SequenceValidator";
+
+// Short picker label for a model's trade-off
+const getModelTagline = (model: ModelCapabilities): string => {
+  if (!model.available) return 'Coming soon';
+  if (model.accuracy === 'high') return 'Highly accurate';
+  return model.speed === 'fast' ? 'Fast predictions' : 'Balanced';
+};
+
+/**
+ * Check that an input matches the format a model expects.
+ * Returns an error message, or null if the input fits.
+ */
+const getInputFormatError = (input: string, model: ModelCapabilities | undefined): string | null => {
+  if (!model) return null;
+  if (model.inputFormat === 'fasta' && !isFastaFormat(input)) {
+    return `${model.name} requires FASTA format input`;
+  }
+  if (model.inputFormat === 'raw' && isFastaFormat(input)) {
+    return `${model.name} requires raw sequence input`;
+  }
+  if (!model.supportsMultimer && isMultimer(input)) {
+    return `${model.name} does not support multimer sequences (with colons)`;
+  }
+  return null;
+};
 
 export default function JobForm() {
   const { 
     formData,
     setFormData,
     submitJob,
+    submitBatch,
+    resetFormData,
   } = useJobsStore();
+  const { models, getModel } = useModelsStore();
+  const selectedModel = getModel(formData.selectedModel);
+  
+  // The entity editor builds FASTA input, so it is used for models that take FASTA
+  const showEntityInput = selectedModel?.inputFormat === 'fasta';
 
   // Input method state
   const [inputMethod, setInputMethod] = useState<"manual" | "bulk">("manual");
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [selectedFileName, setSelectedFileName] = useState<string | null>(null);
   
-  // Entity data for AlphaFold2
+  // Parsed bulk CSV and submission progress
+  const [parsedBatch, setParsedBatch] = useState<ParsedBatch | null>(null);
+  const [batchProgress, setBatchProgress] = useState<{ completed: number; total: number } | null>(null);
+  
+  // Entity data for FASTA models
   const [entities, setEntities] = useState([]);
   
   // Input validation
@@ -49,16 +90,6 @@ export default function JobForm() {
     getUser();
   }, []);
 
-  // FASTA format validation
-  const isFastaFormat = (input: string): boolean => {
-    return input.trim().startsWith(">");
-  };
-
-  // Multimer validation (checks if sequence contains colons which separate chains)
-  const isMultimer = (input: string): boolean => {
-    return input.includes(":");
-  };
-
   // Handle entities change
   const handleEntitiesChange = (newEntities) => {
     setEntities(newEntities);
@@ -76,6 +107,24 @@ export default function JobForm() {
     }
   };
 
+  // Edited copies of a job are always single submissions
+  useEffect(() => {
+    if (formData.parentJobId) {
+      setInputMethod("manual");
+      setInputError(null);
+    }
+  }, [formData.parentJobId]);
+
+  // Switch away from a model the active server does not serve
+  useEffect(() => {
+    if (selectedModel && !selectedModel.available) {
+      const fallback = models.find(model => model.available);
+      if (fallback) {
+        setFormData({ selectedModel: fallback.id });
+      }
+    }
+  }, [selectedModel, models, setFormData]);
+
   // Add a debug effect to log when input string changes
   useEffect(() => {
     if (formData.inputString) {
@@ -88,6 +137,18 @@ export default function JobForm() {
     }
   }, [formData.inputString]);
 
+  // Parse and validate a bulk CSV for the preview
+  const loadBatch = (content: string, model: string) => {
+    try {
+      const batch = parseBatchCSV(content, model);
+      setParsedBatch(batch);
+      setInputError(batch.rows.length === 0 ? 'No valid rows found in CSV file' : null);
+    } catch (error) {
+      setParsedBatch(null);
+      setInputError(error instanceof Error ? error.message : 'Error processing CSV file');
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user) {
@@ -96,56 +157,74 @@ export default function JobForm() {
     }
     
     // Handle bulk CSV uploads
-    if (inputMethod === "bulk" && formData.inputString && selectedFileName?.toLowerCase().endsWith('.csv')) {
+    if (inputMethod === "bulk") {
+      if (!parsedBatch) {
+        toast.error('Please upload a CSV file for bulk prediction');
+        return;
+      }
+      
+      if (parsedBatch.rows.length === 0) {
+        toast.error('The CSV file does not contain any valid rows to submit');
+        return;
+      }
+      
+      if (batchProgress) {
+        return;
+      }
+      
       try {
-        // Simple CSV parsing (for a production app, use a proper CSV parser library)
-        const lines = formData.inputString.split('\n');
-        if (lines.length < 2) {
-          toast.error('CSV file must contain at least a header row and one data row');
-          return;
-        }
-        
-        const header = lines[0].toLowerCase();
-        if (!header.includes('name') || !header.includes('sequence')) {
-          toast.error('CSV file must contain "name" and "sequence" columns');
-          return;
-        }
-        
-        // For demo purposes, we'll just acknowledge the CSV was processed
-        toast.success(
-          `Bulk job with ${lines.length - 1} proteins has been submitted! We'll process these sequentially.`,
+        setBatchProgress({ completed: 0, total: parsedBatch.rows.length });
+        const result = await submitBatch(
+          parsedBatch.rows,
           {
-            duration: 6000,
-            icon: "🧬",
+            name: formData.name || selectedFileName?.replace(/\.csv$/i, '') || 'Bulk submission',
+            description: formData.description
+          },
+          (completed, total) => {
+            setBatchProgress({ completed, total });
           }
         );
         
+        if (result.failed.length > 0) {
+          toast.warning(
+            `${result.failed.length} of ${parsedBatch.rows.length} proteins could not be submitted: ${result.failed.map(f => f.name).join(', ')}`,
+            { duration: 8000 }
+          );
+        }
+        
+        if (result.submitted > 0) {
+          toast.success(
+            `Bulk job with ${result.submitted} proteins has been submitted! We'll notify you as predictions complete.`,
+            {
+              duration: 6000,
+              icon: "🧬",
+            }
+          );
+        }
+        
         // Reset form
         setSelectedFileName(null);
+        setParsedBatch(null);
         setFormData({ 
           inputString: '',
           name: '',
           description: ''
         });
-        
-        return;
       } catch (error) {
-        console.error('Error processing CSV:', error);
-        toast.error('Error processing CSV file. Please check the format.');
-        return;
+        console.error('Error submitting bulk job:', error);
+        toast.error(`Failed to submit bulk job: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      } finally {
+        setBatchProgress(null);
       }
-    }
-    
-    // Input validation based on model (for non-bulk submissions)
-    if (formData.selectedModel === "alphafold2" && !isFastaFormat(formData.inputString)) {
-      toast.error('AlphaFold2 only supports FASTA format input. Please provide a sequence in FASTA format.');
-      setInputError('AlphaFold2 requires FASTA format input');
+      
       return;
     }
     
-    if (formData.selectedModel === "esm3" && isFastaFormat(formData.inputString)) {
-      toast.error('ESM-3 only supports raw sequence input. Please provide a sequence without FASTA header.');
-      setInputError('ESM-3 requires raw sequence input');
+    // Input validation based on model (for non-bulk submissions)
+    const formatError = getInputFormatError(formData.inputString, selectedModel);
+    if (formatError) {
+      toast.error(`${formatError}. Please adjust the sequence and try again.`);
+      setInputError(formatError);
       return;
     }
     
@@ -189,21 +268,16 @@ export default function JobForm() {
       
       // Handle different file types
       if (file.name.toLowerCase().endsWith('.csv')) {
-        // For CSV files (bulk mode), we'll store the raw content and process it on submission
-        setInputError(null);
+        // For CSV files (bulk mode), parse and validate every row up front for the preview
         setFormData({ inputString: content });
+        loadBatch(content, formData.selectedModel);
       } else {
         // For FASTA/TXT files (standard mode)
         // Validate file content based on model
-        if (formData.selectedModel === "esm3" && isFastaFormat(content)) {
-          toast.error('ESM-3 only supports raw sequence input. Please provide a sequence without FASTA header.');
-          setInputError('ESM-3 requires raw sequence input');
-          return;
-        }
-        
-        if (formData.selectedModel === "alphafold2" && !isFastaFormat(content)) {
-          toast.error('AlphaFold2 only supports FASTA format input. Please provide a sequence in FASTA format.');
-          setInputError('AlphaFold2 requires FASTA format input');
+        const formatError = getInputFormatError(content, selectedModel);
+        if (formatError) {
+          toast.error(`${formatError}. Please adjust the file and try again.`);
+          setInputError(formatError);
           return;
         }
         
@@ -224,6 +298,19 @@ export default function JobForm() {
   return (
     <form onSubmit={handleSubmit} className="space-y-6 flex flex-col">
       <div className="space-y-6 flex-1">
+        {formData.parentJobId && (
+          <div className="flex items-center gap-2 rounded-md border bg-muted/30 px-3 py-2 text-sm">
+            <GitBranch className="h-4 w-4 text-muted-foreground" />
+            <span className="flex-1">
+              Editing a copy of job <span className="font-mono text-xs">{formData.parentJobId}</span>. Submitting creates a new linked job.
+            </span>
+            <Button type="button" variant="ghost" size="sm" onClick={resetFormData}>
+              <X className="h-4 w-4 mr-1" />
+              Start fresh
+            </Button>
+          </div>
+        )}
+
         <div className="space-y-2">
           <div className="flex items-center justify-between">
             <Label htmlFor="name" className="text-sm font-medium">Job Name</Label>
@@ -234,7 +321,7 @@ export default function JobForm() {
             value={formData.name}
             onChange={(e) => setFormData({ name: e.target.value })}
             placeholder="e.g., Insulin Structure Prediction"
-            required
+            required={inputMethod === "manual"}
           />
         </div>
 
@@ -249,7 +336,7 @@ export default function JobForm() {
             onChange={(e) => setFormData({ description: e.target.value })}
             placeholder="e.g., Human insulin protein structure prediction using ESM-3 model for diabetes research"
             className="h-20"
-            required
+            required={inputMethod === "manual"}
           />
         </div>
 
@@ -262,14 +349,10 @@ export default function JobForm() {
                 setFormData({ selectedModel: value });
                 
                 // Validate existing input when model changes
-                if (formData.inputString) {
-                  if (value === "alphafold2" && !isFastaFormat(formData.inputString)) {
-                    setInputError('AlphaFold2 requires FASTA format input');
-                  } else if (value === "esm3" && isFastaFormat(formData.inputString)) {
-                    setInputError('ESM-3 requires raw sequence input');
-                  } else {
-                    setInputError(null);
-                  }
+                if (inputMethod === "bulk" && parsedBatch) {
+                  loadBatch(formData.inputString, value);
+                } else if (formData.inputString) {
+                  setInputError(getInputFormatError(formData.inputString, getModel(value)));
                 }
               }}
             >
@@ -277,22 +360,17 @@ export default function JobForm() {
                 <SelectValue placeholder="Select a model" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="alphafold2">AlphaFold2 <span className="text-xs text-muted-foreground ml-1">(Highly accurate)</span></SelectItem>
-                <SelectItem value="esm3">ESM-3 <span className="text-xs text-muted-foreground ml-1">(Fast predictions)</span></SelectItem>
-                <SelectItem value="Chai-1" disabled>
-                  Chai-1 (Coming soon)
-                </SelectItem>
-                <SelectItem value="NanoFold" disabled>
-                  NanoFold (Coming soon)
-                </SelectItem>
+                {models.map((model) => (
+                  <SelectItem key={model.id} value={model.id} disabled={!model.available}>
+                    {model.name} <span className="text-xs text-muted-foreground ml-1">({getModelTagline(model)})</span>
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
             <p className="text-xs text-muted-foreground flex items-center mt-1">
               <Info className="inline-block w-4 h-4 mr-1" />
-              {formData.selectedModel === "esm3" 
-                ? "ESM-3 is the fastest model, useful for initial bulk or rough predictions." 
-                : formData.selectedModel === "alphafold2" 
-                ? "AlphaFold2 is slower but highly accurate, ideal when precision is critical."
+              {selectedModel
+                ? `${selectedModel.description} Up to ${selectedModel.maxLength} residues.`
                 : "Select a model based on your prediction needs."}
             </p>
           </div>
@@ -310,10 +388,16 @@ export default function JobForm() {
       </div>
 
       <div className="flex-1">
-        {/* AlphaFold2 Entity Input */}
-        {formData.selectedModel === "alphafold2" && inputMethod === "manual" ? (
+        {/* Entity Input for FASTA models */}
+        {showEntityInput && inputMethod === "manual" ? (
           <div className="overflow-visible pr-2">
-            <EntityInput onEntitiesChange={handleEntitiesChange} onSubmit={handleSubmit} />
+            <EntityInput
+              key={formData.parentJobId || 'new'}
+              initialSequence={formData.parentJobId ? formData.inputString : ""}
+              onEntitiesChange={handleEntitiesChange}
+              onSubmit={handleSubmit}
+              allowedTypes={selectedModel.entityTypes}
+            />
           </div>
         ) : inputMethod === "manual" ? (
           <div className="space-y-2">
@@ -324,7 +408,7 @@ export default function JobForm() {
                 setFormData({ inputString: e.target.value });
                 setInputError(null); // Clear error on change
               }}
-              placeholder={formData.selectedModel === "alphafold2" 
+              placeholder={selectedModel?.inputFormat === "fasta"
                 ? "Enter protein sequence in FASTA format (include a header line starting with >)" 
                 : "Enter raw protein sequence (without FASTA header)"}
               className={`h-40 min-h-[10rem] ${inputError ? 'border-red-500' : ''}`}
@@ -335,10 +419,8 @@ export default function JobForm() {
             )}
             <p className="text-xs text-muted-foreground">
               <Info className="inline-block w-4 h-4 mr-1" />
-              {formData.selectedModel === "alphafold2" 
-                ? "AlphaFold2 requires FASTA format input (starting with '>')"
-                : formData.selectedModel === "esm3"
-                ? "ESM-3 requires raw sequence input. For multimers, separate chains with colons (:)"
+              {selectedModel
+                ? describeModelInput(selectedModel)
                 : "Please enter a valid protein sequence"}
             </p>
           </div>
@@ -355,7 +437,7 @@ export default function JobForm() {
             <h3 className="text-lg font-medium mb-2">
               Upload {inputMethod === "bulk" 
                 ? "CSV" 
-                : formData.selectedModel === "alphafold2" 
+                : selectedModel?.inputFormat === "fasta"
                 ? "FASTA" 
                 : "Sequence"} File
             </h3>
@@ -368,13 +450,18 @@ export default function JobForm() {
                 <p className={`mt-1 ${inputError ? 'text-red-500' : 'text-muted-foreground'}`}>
                   {inputError || 'File loaded successfully'}
                 </p>
+                {inputMethod === "bulk" && parsedBatch && (
+                  <div className="mt-4">
+                    <BulkPreview batch={parsedBatch} progress={batchProgress} />
+                  </div>
+                )}
               </div>
             ) : (
               <div className="upload-instructions">
                 <p className="text-sm text-muted-foreground mb-4">
                   Drag and drop your {inputMethod === "bulk"
                     ? ".csv"
-                    : formData.selectedModel === "alphafold2" 
+                    : selectedModel?.inputFormat === "fasta"
                     ? ".fasta" 
                     : ".txt"} file here or click to browse
                 </p>
@@ -383,10 +470,10 @@ export default function JobForm() {
                   <div className="mt-2 mb-4 border rounded p-2 bg-muted/20 text-left">
                     <p className="text-xs font-medium mb-1">CSV Format Example:</p>
                     <pre className="text-xs overflow-x-auto whitespace-pre">
-                      name,sequence,description<br/>
-                      protein1,MDVFMKGLSKAKEGV,Human protein sample<br/>
-                      protein2,MTEITAAMVKELREST,Mouse protein sample<br/>
-                      protein3,MAAGVKQLADDRTLL,Bacterial protein
+                      name,sequence,description,model<br/>
+                      protein1,MDVFMKGLSKAKEGV,Human protein sample,esm3<br/>
+                      protein2,MTEITAAMVKELREST,"Mouse protein, variant 2",<br/>
+                      protein3,MAAGVKQLADDRTLL,Bacterial protein,alphafold2
                     </pre>
                   </div>
                 )}
@@ -394,11 +481,9 @@ export default function JobForm() {
                 <p className="text-xs text-muted-foreground">
                   <Info className="inline-block w-4 h-4 mr-1" />
                   {inputMethod === "bulk"
-                    ? "Upload a CSV file with protein name, sequence, and optional description"
-                    : formData.selectedModel === "alphafold2" 
-                    ? "AlphaFold2 requires FASTA format input (starting with '>')"
-                    : formData.selectedModel === "esm3"
-                    ? "ESM-3 requires raw sequence input. For multimers, separate chains with colons (:)"
+                    ? "Upload a CSV file with protein name, sequence, and optional description and model (defaults to the selected model)"
+                    : selectedModel
+                    ? describeModelInput(selectedModel)
                     : "Please upload a valid protein sequence file"}
                 </p>
               </div>
@@ -417,10 +502,14 @@ export default function JobForm() {
       </div>
 
       {/* Submit Job button - fixed position at bottom of the form */}
-      {!(formData.selectedModel === "alphafold2" && inputMethod === "manual") && (
+      {!(showEntityInput && inputMethod === "manual") && (
         <div className="mt-4">
-          <Button type="submit" className="w-full">
-            Submit Job
+          <Button type="submit" className="w-full" disabled={!!batchProgress}>
+            {batchProgress
+              ? `Submitting ${batchProgress.completed}/${batchProgress.total}...`
+              : inputMethod === "bulk" && parsedBatch
+              ? `Submit ${parsedBatch.rows.length} Jobs`
+              : "Submit Job"}
           </Button>
         </div>
       )}
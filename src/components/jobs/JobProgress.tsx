@@ -0,0 +1,66 @@
+import React, { useEffect } from 'react';
+import { useJobProgress } from "@/hooks/use-job-progress";
+import { useJobsStore } from "@/store/jobsStore";
+import { JobStage } from "@/lib/api-client";
+
+const stageLabels: Record<JobStage, string> = {
+  queued: 'Queued',
+  msa: 'Building MSA',
+  inference: 'Running inference',
+  relaxation: 'Relaxing structure',
+  completed: 'Completed',
+  failed: 'Failed',
+};
+
+const formatEta = (seconds: number): string => {
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${Math.round(seconds % 60)}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+interface JobProgressProps {
+  jobId: string;
+  profileId?: string | null;
+}
+
+export default function JobProgress({ jobId, profileId }: JobProgressProps) {
+  const { progress, connected, available, queued } = useJobProgress(jobId, true, profileId);
+  const updateJobStatus = useJobsStore(state => state.updateJobStatus);
+
+  // Sync the final status as soon as the stream reports it
+  const stage = progress?.stage;
+  useEffect(() => {
+    if (stage === 'completed' || stage === 'failed') {
+      updateJobStatus(jobId);
+    }
+  }, [stage, jobId, updateJobStatus]);
+
+  if (!progress) {
+    return null;
+  }
+
+  const percent = Math.round(Math.min(1, Math.max(0, progress.progress ?? 0)) * 100);
+
+  return (
+    <div className="mt-1 w-40 space-y-0.5" title={progress.message}>
+      <div className="h-1.5 w-full rounded bg-muted overflow-hidden">
+        <div
+          className={`h-full transition-all ${progress.stage === 'failed' ? 'bg-red-500' : 'bg-primary'}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <div className="flex justify-between text-[11px] text-muted-foreground">
+        <span>
+          {progress.stage === 'queued' && progress.queue_position != null
+            ? `Queued (#${progress.queue_position})`
+            : stageLabels[progress.stage] ?? progress.stage}
+          {!connected && available && !queued && stage !== 'completed' && stage !== 'failed' && ' · reconnecting'}
+        </span>
+        {progress.eta_seconds != null && progress.eta_seconds > 0 && (
+          <span>~{formatEta(progress.eta_seconds)}</span>
+        )}
+      </div>
+    </div>
+  );
+}
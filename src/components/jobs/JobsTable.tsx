@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
@@ -18,42 +18,103 @@ import {
   PaginationNext,
   PaginationPrevious,
 } from "@/components/ui/pagination";
-import { useJobsStore } from "@/store/jobsStore";
-import { Download, Trash2 } from "lucide-react";
+import {
+  useJobsStore,
+  JobsTableEntry,
+  getBatchStatusCounts,
+  getJobLineage,
+  isActiveJobStatus,
+} from "@/store/jobsStore";
+import { ChevronDown, ChevronRight, Copy, Download, GitBranch, Trash2, XCircle } from "lucide-react";
 import { toast } from "sonner";
-import { apiClient } from "@/lib/api-client";
+import { LiteFoldBatch, LiteFoldJob, getJobProfileId } from "@/lib/supabase";
+import { isServerProfileAvailable } from "@/lib/config";
+import { useServerStore, serverSupports } from "@/store/serverStore";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { downloadJobsArchive, StructureExportFormat } from "@/lib/jobResults";
+import JobProgress from "./JobProgress";
+
+const DOWNLOAD_OPTIONS: { label: string; formats: StructureExportFormat[] }[] = [
+  { label: 'PDB', formats: ['pdb'] },
+  { label: 'mmCIF', formats: ['cif'] },
+  { label: 'PDB + mmCIF', formats: ['pdb', 'cif'] },
+];
 
-// Define the type for the job status response
-interface JobStatusResponse {
-  job_id: string;
-  status: string;
-  pdb_content?: string;
-  scores?: Record<string, any>;
-  input_sequence?: string;
-  model: string;
-  created_at: string;
-  completed_at?: string;
-  distogram?: Record<string, any>;
+// Download button that asks for the structure format first
+function DownloadResultsMenu({
+  title,
+  onDownload,
+}: {
+  title: string;
+  onDownload: (formats: StructureExportFormat[]) => void;
+}) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 p-0 hover:text-primary"
+          title={title}
+        >
+          <Download className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Structure format</DropdownMenuLabel>
+        {DOWNLOAD_OPTIONS.map(option => (
+          <DropdownMenuItem key={option.label} onClick={() => onDownload(option.formats)}>
+            {option.label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
 }
 
 interface JobsTableProps {
-  jobs: any[];
+  entries: JobsTableEntry[];
   isLoading: boolean;
   currentPage: number;
   totalPages: number;
   itemsPerPage: number;
   paginate: (pageNumber: number) => void;
+  onCloneJob?: (job: LiteFoldJob) => void;
 }
 
 export default function JobsTable({
-  jobs,
+  entries,
   isLoading,
   currentPage,
   totalPages,
   itemsPerPage,
-  paginate
+  paginate,
+  onCloneJob
 }: JobsTableProps) {
-  const { deleteJob } = useJobsStore();
+  const { jobs, deleteJob, cancelJob, cancelBatch, deleteBatch } = useJobsStore();
+  const health = useServerStore(state => state.health);
+  // Cancelling is only offered where the job's server says it can
+  const canCancel = (job: LiteFoldJob) =>
+    isActiveJobStatus(job.status) && serverSupports(health, getJobProfileId(job), 'cancel');
+  const [expandedBatches, setExpandedBatches] = useState<Set<string>>(new Set());
+
+  const toggleBatch = (batchId: string) => {
+    setExpandedBatches(prev => {
+      const next = new Set(prev);
+      if (next.has(batchId)) {
+        next.delete(batchId);
+      } else {
+        next.add(batchId);
+      }
+      return next;
+    });
+  };
 
   const getStatusBadgeColor = (status: string) => {
     switch (status) {
@@ -62,7 +123,10 @@ export default function JobsTable({
       case 'processing':
         return 'bg-blue-500/15 text-blue-700 hover:bg-blue-500/25';
       case 'error':
+      case 'crashed':
         return 'bg-red-500/15 text-red-700 hover:bg-red-500/25';
+      case 'cancelled':
+        return 'bg-gray-500/15 text-gray-700 hover:bg-gray-500/25';
       case 'pending':
         return 'bg-yellow-500/15 text-yellow-700 hover:bg-yellow-500/25';
       default:
@@ -74,64 +138,286 @@ export default function JobsTable({
     return new Date(dateString).toLocaleString();
   };
 
-  const downloadJobResults = async (jobId: string) => {
+  const downloadJobResults = async (
+    jobs: LiteFoldJob[],
+    archiveName: string,
+    formats: StructureExportFormat[]
+  ) => {
+    const toastId = toast.loading(`Preparing download for ${archiveName}...`);
     try {
-      toast.loading(`Preparing download for job ${jobId}...`);
-      
-      // Get current job info from jobs state first
-      const jobInfo = jobs.find(job => job.job_id === jobId);
-      
-      if (!jobInfo) {
-        throw new Error("Job not found in current list");
+      const included = await downloadJobsArchive(jobs, archiveName, formats);
+      toast.success(
+        jobs.length > 1 ? `Downloaded results of ${included} jobs` : 'Download complete',
+        { id: toastId }
+      );
+    } catch (error) {
+      console.error('Error downloading job results:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to download job results', { id: toastId });
+    }
+  };
+
+  // Ask for confirmation in a toast before running a destructive action
+  const confirmAction = (
+    toastId: string,
+    title: string,
+    message: React.ReactNode,
+    actionLabel: string,
+    onConfirm: () => void
+  ) => {
+    toast.custom(
+      (t) => (
+        <div className="bg-background border rounded-lg shadow-lg p-4 max-w-md mx-auto">
+          <div className="flex flex-col gap-2">
+            <div className="font-medium text-base">{title}</div>
+            <div className="text-sm text-muted-foreground">{message}</div>
+            <div className="flex gap-2 mt-2 justify-end">
+              <Button 
+                variant="outline" 
+                size="sm"
+                onClick={() => toast.dismiss(t)}
+              >
+                Cancel
+              </Button>
+              <Button 
+                variant="destructive" 
+                size="sm"
+                onClick={() => {
+                  // Dismiss the confirmation toast first
+                  toast.dismiss(t);
+                  onConfirm();
+                }}
+              >
+                {actionLabel}
+              </Button>
+            </div>
+          </div>
+        </div>
+      ),
+      { id: toastId, duration: 10000 }
+    );
+  };
+
+  const handleDeleteJob = (job: LiteFoldJob) => {
+    confirmAction(
+      `confirm-delete-${job.job_id}`,
+      'Confirm Deletion',
+      <>
+        Are you sure you want to delete job "{job.job_name}"?<br/>
+        This will remove all data and cannot be undone.
+      </>,
+      'Delete Job',
+      () => {
+        toast.promise(deleteJob(job.job_id), {
+          loading: `Deleting job ${job.job_name}...`,
+          success: `Job deleted successfully`,
+          error: (err) => `Failed to delete job: ${err.message || "Unknown error"}`
+        });
       }
-      
-      // Call the status endpoint using apiClient
-      let data: JobStatusResponse;
-      try {
-        data = await apiClient.get<JobStatusResponse>(`jobs/${jobId}/status`);
-        console.log("API Response:", data); // Log the response for debugging
-      } catch (error) {
-        console.warn("Could not fetch detailed status data, using basic job info", error);
-        // Use basic job info if API call fails
-        data = {
-          job_id: jobInfo.job_id,
-          status: jobInfo.status,
-          model: jobInfo.model,
-          created_at: jobInfo.created_at,
-          completed_at: jobInfo.completed_at,
-        };
+    );
+  };
+
+  const handleCancelJob = (job: LiteFoldJob) => {
+    confirmAction(
+      `confirm-cancel-${job.job_id}`,
+      'Confirm Cancellation',
+      <>Cancel job "{job.job_name}"? The prediction will be stopped.</>,
+      'Cancel Job',
+      () => {
+        cancelJob(job.job_id)
+          .then(() => toast.success(`Job ${job.job_name} cancelled`))
+          .catch((err) => toast.error(`Failed to cancel job: ${err.message || "Unknown error"}`));
       }
-      
-      // Create a zip file with the results
-      const JSZip = (await import('jszip')).default;
-      const zip = new JSZip();
-      
-      // Add PDB file if available
-      if (data.pdb_content) {
-        zip.file(`${jobInfo.job_name}.pdb`, data.pdb_content);
+    );
+  };
+
+  const handleCancelBatch = (batch: LiteFoldBatch) => {
+    confirmAction(
+      `confirm-cancel-batch-${batch.batch_id}`,
+      'Confirm Cancellation',
+      <>Cancel all pending and running jobs of batch "{batch.batch_name}"?</>,
+      'Cancel Jobs',
+      () => {
+        toast.promise(cancelBatch(batch.batch_id), {
+          loading: `Cancelling jobs of ${batch.batch_name}...`,
+          success: (count) => `Cancelled ${count} jobs`,
+          error: (err) => `Failed to cancel batch: ${err.message || "Unknown error"}`
+        });
       }
-      
-      // Add distogram if available
-      if (data.distogram) {
-        zip.file(`${jobInfo.job_name}_distogram.json`, JSON.stringify(data.distogram));
+    );
+  };
+
+  const handleDeleteBatch = (batch: LiteFoldBatch, jobCount: number) => {
+    confirmAction(
+      `confirm-delete-batch-${batch.batch_id}`,
+      'Confirm Deletion',
+      <>
+        Are you sure you want to delete batch "{batch.batch_name}" and its {jobCount} jobs?<br/>
+        This will remove all data and cannot be undone.
+      </>,
+      'Delete Batch',
+      () => {
+        toast.promise(deleteBatch(batch.batch_id), {
+          loading: `Deleting batch ${batch.batch_name}...`,
+          success: `Batch deleted successfully`,
+          error: (err) => `Failed to delete batch: ${err.message || "Unknown error"}`
+        });
       }
-      
-      // Generate and download the zip file
-      const content = await zip.generateAsync({ type: "blob" });
-      const url = window.URL.createObjectURL(content);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `${jobInfo.job_name}_results.zip`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      window.URL.revokeObjectURL(url);
-      
-      toast.success('Download complete');
-    } catch (error) {
-      console.error('Error downloading job results:', error);
-      toast.error(error instanceof Error ? error.message : 'Failed to download job results');
-    }
+    );
+  };
+
+  // Name of the job a resubmission was edited from, if it is still listed
+  const getParentName = (job: LiteFoldJob) =>
+    jobs.find(j => j.job_id === job.parent_job_id)?.job_name;
+
+  const renderJobRow = (job: LiteFoldJob, nested = false) => (
+    <TableRow key={job.job_id} className={nested ? "bg-muted/20" : undefined}>
+      <TableCell className={`font-mono ${nested ? "pl-10" : ""}`}>{job.job_id}</TableCell>
+      <TableCell>
+        {job.job_name}
+        {job.parent_job_id && (
+          <div className="flex items-center gap-1 text-xs text-muted-foreground" title={`Edited from job ${job.parent_job_id}`}>
+            <GitBranch className="h-3 w-3" />
+            Iteration {Math.max(2, getJobLineage(jobs, job.job_id).length)}
+            {getParentName(job) && ` of ${getParentName(job)}`}
+          </div>
+        )}
+      </TableCell>
+      <TableCell>{job.model}</TableCell>
+      <TableCell className="max-w-xs truncate">{job.job_desc}</TableCell>
+      <TableCell>
+        <Badge className={getStatusBadgeColor(job.status)} variant="secondary">
+          {job.status}
+        </Badge>
+        {isActiveJobStatus(job.status) && (isServerProfileAvailable(getJobProfileId(job)) ? (
+          <JobProgress jobId={job.job_id} profileId={getJobProfileId(job)} />
+        ) : (
+          <div
+            className="mt-1 text-[11px] text-muted-foreground"
+            title={`Submitted to server profile "${job.server_profile_id}", which is not configured in this browser`}
+          >
+            Server unavailable
+          </div>
+        ))}
+      </TableCell>
+      <TableCell>{formatDate(job.created_at)}</TableCell>
+      <TableCell>{job.completed_at ? formatDate(job.completed_at) : '-'}</TableCell>
+      <TableCell>
+        <div className="flex items-center space-x-1">
+          {job.status === 'successful' && (
+            <DownloadResultsMenu
+              title="Download results"
+              onDownload={(formats) => downloadJobResults([job], job.job_name, formats)}
+            />
+          )}
+          {canCancel(job) && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 p-0 hover:text-destructive"
+              onClick={() => handleCancelJob(job)}
+              title="Cancel job"
+            >
+              <XCircle className="h-4 w-4" />
+            </Button>
+          )}
+          {onCloneJob && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 p-0 hover:text-primary"
+              onClick={() => onCloneJob(job)}
+              title="Clone & edit"
+            >
+              <Copy className="h-4 w-4" />
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 p-0 hover:text-destructive"
+            onClick={() => handleDeleteJob(job)}
+            title="Delete job"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </TableCell>
+    </TableRow>
+  );
+
+  const renderBatchRows = (batch: LiteFoldBatch, batchJobs: LiteFoldJob[]) => {
+    const isExpanded = expandedBatches.has(batch.batch_id);
+    const counts = getBatchStatusCounts(batchJobs);
+    const finishedCount = batchJobs.filter(job => !isActiveJobStatus(job.status)).length;
+    const successfulJobs = batchJobs.filter(job => job.status === 'successful');
+    const hasCancellableJobs = batchJobs.some(canCancel);
+
+    return (
+      <React.Fragment key={batch.batch_id}>
+        <TableRow className="cursor-pointer font-medium" onClick={() => toggleBatch(batch.batch_id)}>
+          <TableCell className="font-mono">
+            <div className="flex items-center gap-1">
+              {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+              {batch.batch_id}
+            </div>
+          </TableCell>
+          <TableCell>
+            {batch.batch_name}
+            <span className="ml-2 text-xs text-muted-foreground">({batchJobs.length} jobs)</span>
+          </TableCell>
+          <TableCell>{Array.from(new Set(batchJobs.map(job => job.model))).join(', ')}</TableCell>
+          <TableCell className="max-w-xs truncate">{batch.batch_desc}</TableCell>
+          <TableCell>
+            <div className="flex flex-wrap gap-1">
+              {Object.entries(counts).map(([status, count]) => (
+                <Badge key={status} className={getStatusBadgeColor(status)} variant="secondary">
+                  {count} {status}
+                </Badge>
+              ))}
+            </div>
+            <div className="mt-1 h-1.5 w-full rounded bg-muted overflow-hidden">
+              <div
+                className="h-full bg-primary transition-all"
+                style={{ width: `${batchJobs.length ? (finishedCount / batchJobs.length) * 100 : 0}%` }}
+              />
+            </div>
+          </TableCell>
+          <TableCell>{formatDate(batch.created_at)}</TableCell>
+          <TableCell>{finishedCount}/{batchJobs.length} done</TableCell>
+          <TableCell>
+            <div className="flex items-center space-x-1" onClick={(e) => e.stopPropagation()}>
+              {successfulJobs.length > 0 && (
+                <DownloadResultsMenu
+                  title="Download all results"
+                  onDownload={(formats) => downloadJobResults(successfulJobs, batch.batch_name, formats)}
+                />
+              )}
+              {hasCancellableJobs && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 p-0 hover:text-destructive"
+                  onClick={() => handleCancelBatch(batch)}
+                  title="Cancel running jobs"
+                >
+                  <XCircle className="h-4 w-4" />
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 p-0 hover:text-destructive"
+                onClick={() => handleDeleteBatch(batch, batchJobs.length)}
+                title="Delete batch"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </TableCell>
+        </TableRow>
+        {isExpanded && batchJobs.map(job => renderJobRow(job, true))}
+      </React.Fragment>
+    );
   };
 
   return (
@@ -146,7 +432,7 @@ export default function JobsTable({
             <TableHead>Status</TableHead>
             <TableHead>Submitted</TableHead>
             <TableHead>Completed</TableHead>
-            <TableHead className="w-[100px]">Actions</TableHead>
+            <TableHead className="w-[140px]">Actions</TableHead>
           </TableRow>
         </TableHeader>
         <TableBody>
@@ -163,100 +449,11 @@ export default function JobsTable({
                   <TableCell><Skeleton className="h-4 w-16" /></TableCell>
                 </TableRow>
               ))
-            : jobs.map((job) => (
-                <TableRow key={job.job_id}>
-                  <TableCell className="font-mono">{job.job_id}</TableCell>
-                  <TableCell>{job.job_name}</TableCell>
-                  <TableCell>{job.model}</TableCell>
-                  <TableCell className="max-w-xs truncate">{job.job_desc}</TableCell>
-                  <TableCell>
-                    <Badge className={getStatusBadgeColor(job.status)} variant="secondary">
-                      {job.status}
-                    </Badge>
-                  </TableCell>
-                  <TableCell>{formatDate(job.created_at)}</TableCell>
-                  <TableCell>{job.completed_at ? formatDate(job.completed_at) : '-'}</TableCell>
-                  <TableCell>
-                    <div className="flex items-center space-x-1">
-                      {job.status === 'successful' && (
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="h-8 w-8 p-0 hover:text-primary"
-                          onClick={() => downloadJobResults(job.job_id)}
-                          title="Download results"
-                        >
-                          <Download className="h-4 w-4" />
-                        </Button>
-                      )}
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="h-8 w-8 p-0 hover:text-destructive"
-                        onClick={() => {
-                          // Create an object with a custom ID to track this toast
-                          const toastId = `confirm-delete-${job.job_id}`;
-                          
-                          toast.custom(
-                            (t) => (
-                              <div className="bg-background border rounded-lg shadow-lg p-4 max-w-md mx-auto">
-                                <div className="flex flex-col gap-2">
-                                  <div className="font-medium text-base">Confirm Deletion</div>
-                                  <div className="text-sm text-muted-foreground">
-                                    Are you sure you want to delete job "{job.job_name}"?<br/>
-                                    This will remove all data and cannot be undone.
-                                  </div>
-                                  <div className="flex gap-2 mt-2 justify-end">
-                                    <Button 
-                                      variant="outline" 
-                                      size="sm"
-                                      onClick={() => toast.dismiss(t)}
-                                    >
-                                      Cancel
-                                    </Button>
-                                    <Button 
-                                      variant="destructive" 
-                                      size="sm"
-                                      onClick={async () => {
-                                        // Dismiss the confirmation toast first
-                                        toast.dismiss(t);
-                                        
-                                        // Use promise-based toast to handle the deletion
-                                        toast.promise(
-                                          // This is the promise to await
-                                          new Promise(async (resolve, reject) => {
-                                            try {
-                                              await deleteJob(job.job_id);
-                                              resolve("success");
-                                            } catch (err) {
-                                              reject(err);
-                                            }
-                                          }),
-                                          {
-                                            loading: `Deleting job ${job.job_name}...`,
-                                            success: `Job deleted successfully`,
-                                            error: (err) => `Failed to delete job: ${err.message || "Unknown error"}`
-                                          }
-                                        );
-                                      }}
-                                    >
-                                      Delete Job
-                                    </Button>
-                                  </div>
-                                </div>
-                              </div>
-                            ),
-                            { id: toastId, duration: 10000 }
-                          );
-                        }}
-                        title="Delete job"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
-                    </div>
-                  </TableCell>
-                </TableRow>
-              ))}
+            : entries.map((entry) =>
+                entry.type === 'batch'
+                  ? renderBatchRows(entry.batch, entry.jobs)
+                  : renderJobRow(entry.job)
+              )}
         </TableBody>
       </Table>
       
@@ -1,7 +1,7 @@
-import { useJobsStore } from "@/store/jobsStore";
+import { useJobsStore, groupJobsByBatch } from "@/store/jobsStore";
 import { useEffect, useState, useRef } from "react";
 import { Card } from "@/components/ui/card";
-import { supabase } from "@/lib/supabase";
+import { supabase, LiteFoldJob } from "@/lib/supabase";
 import { Separator } from "@/components/ui/separator";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
@@ -11,7 +11,7 @@ import JobExamples from "./JobExamples";
 import JobsTable from "./JobsTable";
 
 export default function StructurePredict() {
-  const { jobs, isLoading, fetchJobs, updateJobStatus } = useJobsStore();
+  const { jobs, batches, isLoading, watchJobs, cloneJob } = useJobsStore();
 
   // Pagination state
   const [currentPage, setCurrentPage] = useState(1);
@@ -32,30 +32,28 @@ export default function StructurePredict() {
     getUser();
   }, []);
 
-  // Poll for status updates of pending/processing jobs
+  // Keep job statuses live via realtime updates, falling back to polling
   useEffect(() => {
     if (!user) return;
+    return watchJobs(user.id);
+  }, [watchJobs, user]);
 
-    const pollInterval = setInterval(() => {
-      jobs.forEach(job => {
-        if (job.status === 'pending' || job.status === 'processing') {
-          updateJobStatus(job.job_id);
-        }
-      });
-    }, 10000); // Poll every 10 seconds
-
-    return () => clearInterval(pollInterval);
-  }, [jobs, updateJobStatus, user]);
-
-  // Get current jobs
+  // Get current jobs, with batch jobs grouped so a batch never spans pages
+  const entries = groupJobsByBatch(jobs, batches);
   const indexOfLastItem = currentPage * itemsPerPage;
   const indexOfFirstItem = indexOfLastItem - itemsPerPage;
-  const currentJobs = jobs.slice(indexOfFirstItem, indexOfLastItem);
-  const totalPages = Math.ceil(jobs.length / itemsPerPage);
+  const currentEntries = entries.slice(indexOfFirstItem, indexOfLastItem);
+  const totalPages = Math.ceil(entries.length / itemsPerPage);
 
   // Change page
   const paginate = (pageNumber: number) => setCurrentPage(pageNumber);
 
+  // Open the form pre-filled with a job's inputs
+  const handleCloneJob = (job: LiteFoldJob) => {
+    cloneJob(job);
+    setActiveView("launchpad");
+  };
+
   return (
     <div className="space-y-6">
       {/* Main Navigation Tabs */}
@@ -93,12 +91,13 @@ export default function StructurePredict() {
             <div className="p-6">
               <h3 className="text-xl font-semibold mb-4">Your Structure Prediction Jobs</h3>
               <JobsTable 
-                jobs={currentJobs}
+                entries={currentEntries}
                 isLoading={isLoading}
                 currentPage={currentPage}
                 totalPages={totalPages}
                 itemsPerPage={itemsPerPage}
                 paginate={paginate}
+                onCloneJob={handleCloneJob}
               />
             </div>
           </Card>
@@ -10,7 +10,8 @@ import { Label } from '@/components/ui/label';
 import { Card, CardContent } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { MolStarViewer } from '../MolStarViewer';
-import { parsePDB, Molecule } from '@/utils/pdbParser';
+import { Molecule, calculateMoleculeStats, getSequenceResidues } from '@/utils/structure';
+import { loadStructureFile } from '@/utils/structureParser';
 import { VisualizationWrapper } from '../VisualizationWrapper';
 import FileUploader from '../FileUploader';
 import { SequenceViewer, ResidueInfo } from '../SequenceViewer';
@@ -130,8 +131,8 @@ const UploadTab: React.FC<UploadTabProps> = ({ onSubmit }) => {
     const processedFiles = await Promise.all(newFiles.map(async (file) => {
       try {
         console.log('Processing file:', file.name);
-        // Read file content as text
-        const fileData = await file.text();
+        // Decompress and parse PDB, mmCIF or BinaryCIF; the viewers get the text form
+        const { content: fileData, molecule: parsedMolecule } = await loadStructureFile(file);
         
         if (!fileData || fileData.length === 0) {
           console.error('Error: Empty file content for', file.name);
@@ -139,13 +140,7 @@ const UploadTab: React.FC<UploadTabProps> = ({ onSubmit }) => {
         }
         
         console.log(`Read ${fileData.length} bytes from ${file.name}`);
-        
-        // Parse the PDB file
-        const parsedMolecule = await parsePDB(file);
-        
-        console.log('Parsed molecule:', parsedMolecule ? 
-          `${parsedMolecule.atoms.length} atoms` : 
-          'No molecule parsed');
+        console.log('Parsed molecule:', `${parsedMolecule.atoms.length} atoms`);
           
         return { file, molecule: parsedMolecule, pdbData: fileData };
       } catch (error) {
@@ -178,50 +173,8 @@ const UploadTab: React.FC<UploadTabProps> = ({ onSubmit }) => {
       const uniqueId = `file-${file.name}-${Date.now()}`;
       console.log(`Creating structure with ID ${uniqueId}, PDB data length: ${pdbData?.length || 0}`);
       
-      // Extract residue information for sequence viewer
-      const residuesById = molecule?.atoms
-        .filter(atom => atom.residue !== 'HOH' && atom.residue !== 'WAT')
-        .reduce((acc, atom) => {
-          if (!acc[atom.residueId]) {
-            acc[atom.residueId] = {
-              id: atom.residueId,
-              name: atom.residue,
-              chain: atom.chain
-            };
-          }
-          return acc;
-        }, {} as Record<number, { id: number, name: string, chain: string }>) || {};
-
-      // Sort residues by ID to maintain proper sequence order
-      const sortedResidueIds = Object.keys(residuesById)
-        .map(Number)
-        .sort((a, b) => a - b);
-      
-      // Convert 3-letter amino acid codes to 1-letter codes for display
-      const aminoAcidMap: Record<string, string> = {
-        'ALA': 'A', 'ARG': 'R', 'ASN': 'N', 'ASP': 'D',
-        'CYS': 'C', 'GLN': 'Q', 'GLU': 'E', 'GLY': 'G',
-        'HIS': 'H', 'ILE': 'I', 'LEU': 'L', 'LYS': 'K',
-        'MET': 'M', 'PHE': 'F', 'PRO': 'P', 'SER': 'S',
-        'THR': 'T', 'TRP': 'W', 'TYR': 'Y', 'VAL': 'V',
-        // Non-standard amino acids
-        'MSE': 'M', 'HSE': 'H', 'HSD': 'H', 'HSP': 'H',
-        'SEC': 'U', 'PYL': 'O', 'ASX': 'B', 'GLX': 'Z',
-        'UNK': 'X'
-      };
-      
-      // Build the residue info array
-      const residueInfo: ResidueInfo[] = [];
-      sortedResidueIds.forEach(resId => {
-        const residue = residuesById[resId];
-        const code = aminoAcidMap[residue.name] || 'X'; // Default to X for unknown
-        residueInfo.push({ 
-          id: resId, 
-          code,
-          name: residue.name,
-          chain: residue.chain
-        });
-      });
+      // Polymer residues in chain order for the sequence viewer
+      const residueInfo: ResidueInfo[] = molecule ? getSequenceResidues(molecule) : [];
       
       const sequenceString = residueInfo.map(res => res.code).join('');
       
@@ -497,74 +450,4 @@ const UploadTab: React.FC<UploadTabProps> = ({ onSubmit }) => {
   );
 };
 
-interface MoleculeStats {
-  totalAtoms: number;
-  uniqueElements: string[];
-  residueCounts: { [key: string]: number };
-  chainInfo: {
-    chainId: string;
-    residueCount: number;
-    atomCount: number;
-  }[];
-  waterCount: number;
-  ionCount: number;
-}
-
-const calculateMoleculeStats = (molecule: Molecule): MoleculeStats => {
-  const stats: MoleculeStats = {
-    totalAtoms: molecule.atoms.length,
-    uniqueElements: [],
-    residueCounts: {},
-    chainInfo: [],
-    waterCount: 0,
-    ionCount: 0
-  };
-
-  // Temporary sets and maps for calculations
-  const elements = new Set<string>();
-  const chainMap = new Map<string, { residues: Set<number>, atoms: number }>();
-
-  // Process each atom
-  molecule.atoms.forEach(atom => {
-    // Count unique elements
-    elements.add(atom.element);
-
-    // Count residues
-    if (!stats.residueCounts[atom.residue]) {
-      stats.residueCounts[atom.residue] = 0;
-    }
-    stats.residueCounts[atom.residue]++;
-
-    // Process chain information
-    if (!chainMap.has(atom.chain)) {
-      chainMap.set(atom.chain, { residues: new Set(), atoms: 0 });
-    }
-    const chainInfo = chainMap.get(atom.chain)!;
-    chainInfo.residues.add(atom.residueId);
-    chainInfo.atoms++;
-
-    // Count water and ions
-    if (atom.residue === 'HOH' || atom.residue === 'WAT') {
-      stats.waterCount++;
-    } else if (atom.residue.length <= 2 && !atom.residue.match(/[a-z]/i)) {
-      stats.ionCount++;
-    }
-  });
-
-  // Convert chain map to array
-  stats.chainInfo = Array.from(chainMap.entries()).map(([chainId, info]) => ({
-    chainId,
-    residueCount: info.residues.size,
-    atomCount: info.atoms
-  }));
-
-  // Sort chains by ID
-  stats.chainInfo.sort((a, b) => a.chainId.localeCompare(b.chainId));
-
-  // Convert elements set to sorted array
-  stats.uniqueElements = Array.from(elements).sort();
-
-  return stats;
-};
-
 export default UploadTab;
\ No newline at end of file
@@ -0,0 +1,70 @@
+import * as React from "react"
+import { apiClient, JobProgressEvent, JobStage } from "@/lib/api-client"
+import { api } from "@/lib/api"
+import { JobStatusValue } from "@/lib/api-schema"
+
+// How often a job waiting for a stream slot polls its status instead
+const QUEUED_POLL_INTERVAL_MS = 5000
+
+const statusStages: Record<JobStatusValue, JobStage> = {
+  pending: "queued",
+  processing: "inference",
+  successful: "completed",
+  crashed: "failed",
+  cancelled: "failed",
+  error: "failed",
+}
+
+/**
+ * Follow the live progress stream of a job while `enabled` is true,
+ * on the server profile the job was submitted to. While the stream waits
+ * for a free slot, the job status is polled for a coarse stage instead.
+ */
+export function useJobProgress(jobId: string, enabled: boolean, profileId?: string | null) {
+  const [progress, setProgress] = React.useState<JobProgressEvent | null>(null)
+  const [connected, setConnected] = React.useState(false)
+  // False once the server turned the stream down for good
+  const [available, setAvailable] = React.useState(true)
+  const [queued, setQueued] = React.useState(false)
+
+  React.useEffect(() => {
+    if (!enabled) return
+
+    setAvailable(true)
+    return apiClient.streamJobEvents(jobId, {
+      onEvent: setProgress,
+      onConnectionChange: setConnected,
+      onUnavailable: () => setAvailable(false),
+      onQueuedChange: setQueued,
+    }, profileId)
+  }, [jobId, enabled, profileId])
+
+  React.useEffect(() => {
+    if (!enabled || !queued) return
+
+    let cancelled = false
+    let timer: ReturnType<typeof setTimeout> | null = null
+
+    const poll = async () => {
+      try {
+        const { status } = await api.getJobStatus(jobId, profileId)
+        if (cancelled) return
+        const stage = statusStages[status]
+        // Keep whatever a stream reported before it lost its slot
+        setProgress(previous => previous?.stage === stage ? previous : { job_id: jobId, status, stage })
+        if (stage === "completed" || stage === "failed") return
+      } catch (error) {
+        console.warn(`Polling status of queued job ${jobId} failed:`, error)
+      }
+      if (!cancelled) timer = setTimeout(poll, QUEUED_POLL_INTERVAL_MS)
+    }
+
+    poll()
+    return () => {
+      cancelled = true
+      if (timer) clearTimeout(timer)
+    }
+  }, [jobId, enabled, profileId, queued])
+
+  return { progress, connected, available, queued }
+}
@@ -0,0 +1,64 @@
+import * as React from "react"
+import { ComputeOptions } from "@/lib/geometryWorkers"
+
+/**
+ * Run a computation from lib/geometryWorkers whenever `compute` changes
+ * (memoize it), with its progress and a way to cancel it. A null `compute`
+ * clears the result.
+ */
+export function useWorkerComputation<T>(compute: ((options: ComputeOptions) => Promise<T>) | null) {
+  const [result, setResult] = React.useState<T | null>(null)
+  const [progress, setProgress] = React.useState<number | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+  const [cancelled, setCancelled] = React.useState(false)
+  // Bumped to run the same computation again after cancelling
+  const [run, setRun] = React.useState(0)
+  const controllerRef = React.useRef<AbortController | null>(null)
+
+  React.useEffect(() => {
+    setResult(null)
+    setError(null)
+    setCancelled(false)
+    if (!compute) {
+      controllerRef.current = null
+      setProgress(null)
+      return
+    }
+
+    const controller = new AbortController()
+    controllerRef.current = controller
+    setProgress(0)
+
+    // Only the latest run may update the state
+    const isCurrent = () => controllerRef.current === controller
+
+    compute({
+      signal: controller.signal,
+      onProgress: fraction => {
+        if (isCurrent()) setProgress(fraction)
+      },
+    })
+      .then(value => {
+        if (isCurrent() && !controller.signal.aborted) setResult(value)
+      })
+      .catch(err => {
+        if (!isCurrent()) return
+        if (err instanceof Error && err.name === "AbortError") {
+          setCancelled(true)
+        } else {
+          console.error("Worker computation failed:", err)
+          setError(err instanceof Error ? err.message : "Computation failed")
+        }
+      })
+      .finally(() => {
+        if (isCurrent()) setProgress(null)
+      })
+
+    return () => controller.abort()
+  }, [compute, run])
+
+  const cancel = React.useCallback(() => controllerRef.current?.abort(), [])
+  const restart = React.useCallback(() => setRun(value => value + 1), [])
+
+  return { result, progress, error, cancelled, cancel, restart }
+}
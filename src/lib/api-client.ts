@@ -1,6 +1,15 @@
-import { getApiUrl } from './config';
+import { canReceiveSessionToken, findServerProfile, getApiUrl } from './config';
 import { supabase } from './supabase';
 
+/**
+ * Retry behaviour for failed requests
+ */
+export interface RetryOptions {
+  retries: number;        // Extra attempts after the first one
+  baseDelayMs: number;    // Backoff base, doubled on every attempt
+  maxDelayMs: number;     // Upper bound for a single backoff; a longer Retry-After is not waited for
+}
+
 /**
  * Common options for all API requests
  */
@@ -9,35 +18,189 @@ interface ApiRequestOptions {
   headers?: Record<string, string>;
   data?: any;
   timeout?: number;
+  retry?: Partial<RetryOptions> | false;
+  profileId?: string | null;  // Server profile to talk to, the active one by default
+}
+
+/**
+ * Where and how to reach a server profile
+ */
+interface ResolvedServer {
+  baseUrl: string;
+  proxyTarget: string | null;
+  apiKey: string | null;
+  sendSessionToken: boolean;
+}
+
+const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+};
+
+// Methods that are safe to repeat after an ambiguous failure
+const IDEMPOTENT_METHODS = new Set(['GET', 'PUT', 'DELETE']);
+
+// Statuses that mean the server did not process the request, so any method may retry
+const RETRYABLE_STATUSES = new Set([429, 502, 503]);
+
+/**
+ * Error thrown for every failed API request.
+ * `status` is 0 when no response was received (network error or timeout).
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: string | null;
+  readonly body: unknown;
+  readonly retryAfterMs: number | null;
+
+  constructor(message: string, status: number, code: string | null = null, body: unknown = null, retryAfterMs: number | null = null) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.body = body;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  get isNotFound(): boolean {
+    return this.status === 404;
+  }
+}
+
+/**
+ * Parse a Retry-After header given either in seconds or as an HTTP date
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Build an ApiError from a non-OK response, reading FastAPI style bodies
+ * ({ "detail": ... }) as well as { "code", "message" } / { "error_message" }
+ */
+async function toApiError(response: Response): Promise<ApiError> {
+  const text = await response.text().catch(() => '');
+  let body: unknown = text;
+  let code: string | null = null;
+  let detail = text || response.statusText || 'Unknown error';
+  
+  try {
+    const json = JSON.parse(text);
+    body = json;
+    if (json && typeof json === 'object') {
+      code = typeof json.code === 'string' ? json.code : null;
+      const message = json.detail ?? json.message ?? json.error_message ?? json.error;
+      if (typeof message === 'string') {
+        detail = message;
+      } else if (message) {
+        detail = JSON.stringify(message);
+      }
+    }
+  } catch {
+    // Plain text body
+  }
+  
+  return new ApiError(
+    `API error (${response.status}): ${detail}`,
+    response.status,
+    code,
+    body,
+    parseRetryAfter(response.headers.get('Retry-After'))
+  );
 }
 
+/**
+ * Pipeline stages reported by the job events stream
+ */
+export type JobStage = 'queued' | 'msa' | 'inference' | 'relaxation' | 'completed' | 'failed';
+
+/**
+ * A single progress update from `jobs/{id}/events`. The stream is not in
+ * api.doc yet; servers without it answer 404 and jobs fall back to status
+ * polling.
+ */
+export interface JobProgressEvent {
+  job_id: string;
+  status: string;
+  stage: JobStage;
+  queue_position?: number | null;
+  progress?: number;        // 0..1 within the whole pipeline
+  eta_seconds?: number | null;
+  message?: string;
+}
+
+interface JobEventHandlers {
+  onEvent: (event: JobProgressEvent) => void;
+  onConnectionChange?: (connected: boolean) => void;
+  // The stream gave up for good; status polling is all that is left
+  onUnavailable?: () => void;
+  // The stream is waiting for a free slot (true) or got one (false)
+  onQueuedChange?: (queued: boolean) => void;
+}
+
+// Refresh the Supabase session when its token expires within this window
+const TOKEN_REFRESH_MARGIN_MS = 60000;
+
+// Reconnection bounds for the job events stream
+const EVENTS_INITIAL_RETRY_MS = 1000;
+const EVENTS_MAX_RETRY_MS = 30000;
+
+// Open event streams at once; each holds a connection, and browsers allow
+// only about six per host over HTTP/1.1
+const MAX_EVENT_STREAMS = 2;
+
+// Statuses of the events endpoint that no retry can fix. 401 gets one
+// attempt with a refreshed token first.
+const isFatalStreamStatus = (status: number): boolean =>
+  status >= 400 && status < 500 && status !== 408 && status !== 429;
+
+// Statuses meaning the server has no events endpoint at all
+const UNSUPPORTED_STREAM_STATUSES = new Set([404, 405, 501]);
+
 /**
  * Unified API client for making requests to the backend
  */
 class ApiClient {
-  private baseUrl: string;
   private defaultTimeout: number;
-  private isUsingProxy: boolean;
-  private customServerUrl: string | null;
+  private inFlight = new Map<string, Promise<unknown>>();
+  // Servers (by base URL and proxy target) without a job events endpoint
+  private eventsUnsupported = new Set<string>();
+  private openStreams = 0;
+  private streamQueue: (() => void)[] = [];
   
   constructor() {
-    this.baseUrl = getApiUrl();
     this.defaultTimeout = 30000; // 30 seconds default timeout
+  }
+  
+  /**
+   * Resolve where and how to reach a server profile. Profiles are read on
+   * every request so switching servers takes effect immediately. A profile
+   * not configured here is an error rather than a fallback, since another
+   * server would not know the job.
+   */
+  private resolveServer(profileId?: string | null): ResolvedServer {
+    const profile = findServerProfile(profileId);
+    if (!profile) {
+      throw new ApiError(`Server profile "${profileId}" is not configured in this browser`, 0, 'unknown_profile');
+    }
+    const baseUrl = getApiUrl(profile.id);
     
-    // Check if we're using the proxy for custom server
-    const isDevelopment = process.env.NODE_ENV === 'development';
-    this.isUsingProxy = isDevelopment && this.baseUrl === '/api-proxy';
-    
-    // Store the actual custom URL if we're using the proxy
-    this.customServerUrl = this.isUsingProxy ? 
-      (typeof localStorage !== 'undefined' ? localStorage.getItem('savedCustomUrl') : null) : 
-      null;
-    
-    console.log('API Client initialized with:', {
-      baseUrl: this.baseUrl,
-      isUsingProxy: this.isUsingProxy,
-      customServerUrl: this.customServerUrl
-    });
+    return {
+      baseUrl,
+      // The dev proxy forwards to the real server named in X-Target-URL
+      proxyTarget: baseUrl === '/api-proxy' ? profile.url : null,
+      apiKey: profile.apiKey || null,
+      sendSessionToken: canReceiveSessionToken(profile),
+    };
   }
   
   /**
@@ -50,44 +213,161 @@ class ApiClient {
   }
   
   /**
-   * Get the API key for authentication
+   * Get the bearer token for the backend: the user-supplied API key of the
+   * server profile if one is configured, otherwise the access token of
+   * the Supabase session (refreshed when it is about to expire) for servers
+   * allowed to see it, and none for the rest
+   */
+  private async getAuthToken(server: Pick<ResolvedServer, 'apiKey' | 'sendSessionToken'>, forceRefresh = false): Promise<string | null> {
+    if (server.apiKey) {
+      return server.apiKey;
+    }
+    if (!server.sendSessionToken) {
+      return null;
+    }
+    
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return null;
+    }
+    
+    const expiresAt = session.expires_at ? session.expires_at * 1000 : Infinity;
+    if (forceRefresh || expiresAt - Date.now() < TOKEN_REFRESH_MARGIN_MS) {
+      const { data, error } = await supabase.auth.refreshSession();
+      if (error || !data.session) {
+        console.warn('Could not refresh session:', error);
+        return forceRefresh ? null : session.access_token;
+      }
+      return data.session.access_token;
+    }
+    
+    return session.access_token;
+  }
+  
+  /**
+   * Build the headers shared by every request
    */
-  private getApiKey(): string {
-    // Use fixed API key from FastAPI documentation
-    return "DPYPGUkpKiKLGBdluIh3nc8DiNt6krEzjvCjDY-Zoqw";
+  private async buildHeaders(
+    server: ResolvedServer,
+    headers: Record<string, string> = {},
+    forceTokenRefresh = false
+  ): Promise<Record<string, string>> {
+    // Add custom server URL as header when using proxy
+    const customHeaders = { ...headers };
+    if (server.proxyTarget) {
+      customHeaders['X-Target-URL'] = server.proxyTarget;
+    }
+    
+    const token = await this.getAuthToken(server, forceTokenRefresh);
+    
+    return {
+      'Accept': 'application/json',
+      'Content-Type': 'application/json',
+      ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+      ...customHeaders,
+    };
   }
   
   /**
-   * Make an API request with unified error handling
+   * Make an API request with unified error handling, retries and
+   * de-duplication of identical in-flight GET requests
    */
   public async request<T>(endpoint: string, options: ApiRequestOptions = {}): Promise<T> {
+    const { method = 'GET' } = options;
+    
+    if (method !== 'GET') {
+      return this.requestWithRetry<T>(endpoint, options);
+    }
+    
+    const key = `${options.profileId || ''} ${method} ${endpoint.replace(/^\//, '')}`;
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending as Promise<T>;
+    }
+    
+    const promise = this.requestWithRetry<T>(endpoint, options).finally(() => {
+      this.inFlight.delete(key);
+    });
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+  
+  /**
+   * Repeat a request with jittered exponential backoff while it fails with
+   * a retryable error, honouring Retry-After when the server sends one.
+   * A 401 is re-sent once with a freshly refreshed token.
+   */
+  private async requestWithRetry<T>(endpoint: string, options: ApiRequestOptions): Promise<T> {
+    const { method = 'GET', retry } = options;
+    const retryOptions = retry === false
+      ? { ...DEFAULT_RETRY_OPTIONS, retries: 0 }
+      : { ...DEFAULT_RETRY_OPTIONS, ...retry };
+    
+    let refreshedToken = false;
+    
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.requestOnce<T>(endpoint, options, refreshedToken);
+      } catch (error) {
+        if (error instanceof ApiError && error.status === 401 && !refreshedToken) {
+          refreshedToken = true;
+          attempt--; // Re-authenticating does not count as a retry
+          continue;
+        }
+        
+        if (!(error instanceof ApiError) || attempt >= retryOptions.retries || !this.isRetryable(error, method)) {
+          throw error;
+        }
+        
+        // Retrying before Retry-After only gets rejected again, so a
+        // longer wait than we are willing to make goes to the caller,
+        // who can read it from error.retryAfterMs
+        if (error.retryAfterMs !== null && error.retryAfterMs > retryOptions.maxDelayMs) {
+          throw error;
+        }
+        
+        // Full jitter keeps many clients from retrying in lockstep
+        const backoff = Math.random() * Math.min(retryOptions.maxDelayMs, retryOptions.baseDelayMs * 2 ** attempt);
+        const delay = error.retryAfterMs ?? backoff;
+        
+        console.warn(`Retrying ${method} ${endpoint} in ${Math.round(delay)}ms (attempt ${attempt + 1}/${retryOptions.retries}):`, error.message);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+  
+  private isRetryable(error: ApiError, method: string): boolean {
+    if (error.code === 'unknown_profile') {
+      return false;
+    }
+    
+    if (RETRYABLE_STATUSES.has(error.status)) {
+      return true;
+    }
+    
+    // Network errors, timeouts and server errors are only safe to repeat for idempotent verbs
+    return IDEMPOTENT_METHODS.has(method) && (error.status === 0 || error.status >= 500);
+  }
+  
+  /**
+   * Perform a single HTTP attempt
+   */
+  private async requestOnce<T>(endpoint: string, options: ApiRequestOptions, forceTokenRefresh = false): Promise<T> {
     const { 
       method = 'GET', 
       headers = {}, 
       data,
-      timeout = this.defaultTimeout 
+      timeout = this.defaultTimeout,
+      profileId
     } = options;
     
     const { controller, timeoutId } = this.createAbortController(timeout);
+    const server = this.resolveServer(profileId);
     
     try {
-      // Get API key
-      const apiKey = this.getApiKey();
-      
-      // Add custom server URL as header when using proxy
-      const customHeaders = { ...headers };
-      if (this.isUsingProxy && this.customServerUrl) {
-        customHeaders['X-Target-URL'] = this.customServerUrl;
-      }
-      
       const requestOptions: RequestInit = {
         method,
-        headers: {
-          'Accept': 'application/json',
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`,
-          ...customHeaders,
-        },
+        headers: await this.buildHeaders(server, headers, forceTokenRefresh),
         signal: controller.signal,
       };
       
@@ -98,7 +378,7 @@ class ApiClient {
         requestOptions.body = JSON.stringify(data);
       }
       
-      const url = `${this.baseUrl}/${endpoint.replace(/^\//, '')}`;
+      const url = `${server.baseUrl}/${endpoint.replace(/^\//, '')}`;
       
       console.log(`Making API request to ${url}`);
       const response = await fetch(url, requestOptions);
@@ -107,8 +387,7 @@ class ApiClient {
       clearTimeout(timeoutId);
       
       if (!response.ok) {
-        const errorText = await response.text().catch(() => 'Unknown error');
-        throw new Error(`API error (${response.status}): ${errorText}`);
+        throw await toApiError(response);
       }
       
       // Handle empty responses
@@ -116,15 +395,27 @@ class ApiClient {
         return {} as T;
       }
       
-      return await response.json() as T;
+      try {
+        return await response.json() as T;
+      } catch {
+        throw new ApiError(`API error (${response.status}): invalid JSON response`, response.status, 'invalid_json');
+      }
     } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      
       // Handle abort errors separately
       if (error instanceof Error && error.name === 'AbortError') {
-        throw new Error(`Request timeout after ${timeout}ms`);
+        throw new ApiError(`Request timeout after ${timeout}ms`, 0, 'timeout');
       }
       
-      // Re-throw other errors
-      throw error;
+      // fetch only rejects on network failures (offline, DNS, CORS)
+      throw new ApiError(
+        `Network error: ${error instanceof Error ? error.message : 'request failed'}`,
+        0,
+        'network_error'
+      );
     } finally {
       // Ensure timeout is cleared
       clearTimeout(timeoutId);
@@ -149,6 +440,206 @@ class ApiClient {
   public async delete<T>(endpoint: string, options: Omit<ApiRequestOptions, 'method'> = {}): Promise<T> {
     return this.request<T>(endpoint, { ...options, method: 'DELETE' });
   }
+  
+  /**
+   * Wait for one of the MAX_EVENT_STREAMS stream slots. The returned
+   * function gives up the slot, or the place in the queue.
+   */
+  private acquireStreamSlot(onAcquired: () => void, onQueuedChange?: (queued: boolean) => void): () => void {
+    let state: 'queued' | 'open' | 'released' = 'queued';
+    let waited = false;
+    const start = () => {
+      if (waited) onQueuedChange?.(false);
+      state = 'open';
+      this.openStreams++;
+      onAcquired();
+    };
+
+    if (this.openStreams < MAX_EVENT_STREAMS) {
+      start();
+    } else {
+      this.streamQueue.push(start);
+      waited = true;
+      onQueuedChange?.(true);
+    }
+
+    return () => {
+      if (state === 'queued') {
+        this.streamQueue = this.streamQueue.filter(waiting => waiting !== start);
+        onQueuedChange?.(false);
+      } else if (state === 'open') {
+        this.openStreams--;
+        this.streamQueue.shift()?.();
+      }
+      state = 'released';
+    };
+  }
+  
+  /**
+   * Subscribe to the Server-Sent Events progress stream of a job.
+   * Reconnects with exponential backoff (resuming from the last event id)
+   * until the job reaches a final stage or the returned function is called.
+   * Client errors other than a 401 that a token refresh fixes end the
+   * subscription with onUnavailable; a server without the endpoint is not
+   * asked again. While all stream slots are taken the subscription waits in
+   * a queue and reports so through onQueuedChange.
+   */
+  public streamJobEvents(jobId: string, handlers: JobEventHandlers, profileId?: string | null): () => void {
+    const { onEvent, onConnectionChange, onUnavailable, onQueuedChange } = handlers;
+    if (!findServerProfile(profileId)) {
+      onUnavailable?.();
+      return () => {};
+    }
+    const server = this.resolveServer(profileId);
+    const serverKey = `${server.baseUrl} ${server.proxyTarget || ''}`;
+    const url = `${server.baseUrl}/jobs/${jobId}/events`;
+    let controller: AbortController | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let releaseSlot: (() => void) | null = null;
+    let retryDelay = EVENTS_INITIAL_RETRY_MS;
+    let lastEventId: string | null = null;
+    let refreshedToken = false;
+    let finished = false;
+    
+    const giveUp = () => {
+      finished = true;
+      onConnectionChange?.(false);
+      onUnavailable?.();
+    };
+    
+    if (this.eventsUnsupported.has(serverKey)) {
+      giveUp();
+      return () => {};
+    }
+    
+    const dispatch = (rawEvent: string) => {
+      let data = '';
+      for (const line of rawEvent.split('\n')) {
+        if (line.startsWith(':')) continue; // Comment / keep-alive
+        const separator = line.indexOf(':');
+        const field = separator === -1 ? line : line.slice(0, separator);
+        const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+        
+        if (field === 'data') {
+          data += data ? `\n${value}` : value;
+        } else if (field === 'id') {
+          lastEventId = value;
+        } else if (field === 'retry' && /^\d+$/.test(value)) {
+          retryDelay = parseInt(value, 10);
+        }
+      }
+      
+      if (!data) return;
+      
+      try {
+        const event = JSON.parse(data) as JobProgressEvent;
+        onEvent(event);
+        if (event.stage === 'completed' || event.stage === 'failed') {
+          finished = true;
+        }
+      } catch (error) {
+        console.warn('Ignoring malformed job event:', data, error);
+      }
+    };
+    
+    const connect = async () => {
+      controller = new AbortController();
+      
+      try {
+        const headers = await this.buildHeaders(server, { 'Accept': 'text/event-stream' }, refreshedToken);
+        if (lastEventId) {
+          headers['Last-Event-ID'] = lastEventId;
+        }
+        
+        const response = await fetch(url, {
+          headers,
+          credentials: 'include',
+          signal: controller.signal,
+        });
+        
+        if (!response.ok) {
+          throw await toApiError(response);
+        }
+        
+        if (!response.body) {
+          throw new ApiError(`API error (${response.status}): event stream unavailable`, response.status);
+        }
+        
+        onConnectionChange?.(true);
+        retryDelay = EVENTS_INITIAL_RETRY_MS;
+        refreshedToken = false;
+        
+        const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+        let buffer = '';
+        
+        while (!finished) {
+          const { value, done } = await reader.read();
+          if (done) break;
+          
+          // A CR ending the chunk may be the first half of a CRLF, so it
+          // is normalised together with the next chunk
+          buffer += value;
+          const pendingCR = buffer.endsWith('\r');
+          buffer = (pendingCR ? buffer.slice(0, -1) : buffer).replace(/\r\n?/g, '\n');
+          let boundary = buffer.indexOf('\n\n');
+          while (boundary !== -1) {
+            dispatch(buffer.slice(0, boundary));
+            buffer = buffer.slice(boundary + 2);
+            boundary = buffer.indexOf('\n\n');
+          }
+          if (pendingCR) buffer += '\r';
+        }
+        
+        if (finished) {
+          controller.abort();
+        }
+      } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') {
+          return;
+        }
+        
+        if (error instanceof ApiError && error.status === 401 && !refreshedToken) {
+          // Reconnect at once with a freshly refreshed token
+          refreshedToken = true;
+          releaseSlot?.();
+          releaseSlot = this.acquireStreamSlot(connect, onQueuedChange);
+          return;
+        }
+        
+        if (error instanceof ApiError && isFatalStreamStatus(error.status)) {
+          console.warn(`Job events stream for ${jobId} unavailable, relying on status polling:`, error.message);
+          if (UNSUPPORTED_STREAM_STATUSES.has(error.status)) {
+            this.eventsUnsupported.add(serverKey);
+          }
+          releaseSlot?.();
+          giveUp();
+          return;
+        }
+        
+        console.warn(`Job events stream for ${jobId} failed:`, error);
+      }
+      
+      releaseSlot?.();
+      releaseSlot = null;
+      onConnectionChange?.(false);
+      
+      if (!finished && controller && !controller.signal.aborted) {
+        retryTimer = setTimeout(() => {
+          releaseSlot = this.acquireStreamSlot(connect, onQueuedChange);
+        }, retryDelay);
+        retryDelay = Math.min(retryDelay * 2, EVENTS_MAX_RETRY_MS);
+      }
+    };
+    
+    releaseSlot = this.acquireStreamSlot(connect, onQueuedChange);
+    
+    return () => {
+      finished = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      controller?.abort();
+      releaseSlot?.();
+    };
+  }
 }
 
 // Export a singleton instance
@@ -0,0 +1,209 @@
+/**
+ * Request and response types for every backend route, with zod schemas
+ * used to validate responses at runtime.
+ *
+ * Mirrors the backend OpenAPI schema; keep field names in sync with it.
+ */
+import { z } from 'zod';
+
+// Backend job states, see "Status Values" in api.doc, plus the states of
+// cancelled jobs and of jobs the server gave up on
+export const JobStatusValueSchema = z.enum(['pending', 'processing', 'successful', 'crashed', 'cancelled', 'error']);
+
+// Distance matrix with the bin data, as current backends send it
+export const DistogramObjectSchema = z.object({
+  distance_matrix: z.array(z.array(z.number())),
+  bin_edges: z.array(z.number()).optional(),
+  max_distance: z.number().optional(),
+  num_bins: z.number().optional(),
+  // N x N x num_bins distance bin logits. Not in api.doc yet: optional
+  // until the backend ships it
+  logits: z.array(z.array(z.array(z.number()))).optional(),
+}).passthrough();
+
+// api.doc documents the distogram as a plain array (N x N or flattened), and
+// older backends sent it JSON encoded; Distogram reads all of these
+export const DistogramSchema = z.union([
+  DistogramObjectSchema,
+  z.array(z.array(z.number())),
+  z.array(z.number()),
+  z.string(),
+]);
+
+// Predicted aligned error, in the AlphaFold database JSON layout. Not in
+// api.doc yet; only read when a backend sends it
+export const PAESchema = z.object({
+  predicted_aligned_error: z.array(z.array(z.number())),
+  max_predicted_aligned_error: z.number().optional(),
+}).passthrough();
+
+// POST predict
+export interface PredictRequest {
+  job_id: string;
+  job_name: string;
+  model: string;
+  sequence: string;
+  user_id: string;
+}
+
+export const PredictResponseSchema = z.object({
+  job_id: z.string(),
+  status: z.string(),
+  message: z.string().nullish(),
+}).passthrough();
+
+// GET jobs/{id}/status
+export const JobStatusResponseSchema = z.object({
+  job_id: z.string(),
+  job_name: z.string().nullish(),
+  status: JobStatusValueSchema,
+  model: z.string().nullish(),
+  user_id: z.string().nullish(),
+  created_at: z.string().nullish(),
+  completed_at: z.string().nullish(),
+  error_message: z.string().nullish(),
+  input_sequence: z.string().nullish(),
+  pdb_content: z.string().nullish(),
+  // Optional results: a malformed one is dropped rather than failing the status
+  distogram: DistogramSchema.nullish().catch(null),
+  pae: PAESchema.nullish().catch(null),
+  plddt_score: z.number().nullish(),
+  scores: z.record(z.unknown()).nullish(),
+}).passthrough();
+
+// GET jobs/successful
+export const SuccessfulJobSchema = z.object({
+  job_id: z.string(),
+  job_name: z.string(),
+  status: z.string().nullish(),
+  model: z.string().nullish(),
+  created_at: z.string(),
+  completed_at: z.string().nullish(),
+  result_path: z.string().nullish(),
+  plddt_score: z.number().nullish(),
+  user_id: z.string().nullish(),
+}).passthrough();
+
+export const SuccessfulJobsResponseSchema = z.array(SuccessfulJobSchema);
+
+// POST jobs/delete
+export interface DeleteJobRequest {
+  job_id: string;
+  user_id: string;
+}
+
+export const DeleteJobResponseSchema = z.object({
+  job_id: z.string().nullish(),
+  user_id: z.string().nullish(),
+  success: z.boolean(),
+  error_message: z.string().nullish(),
+}).passthrough();
+
+// POST jobs/cancel. Not in api.doc yet; only sent to servers whose /health
+// lists the "cancel" feature
+export interface CancelJobRequest {
+  job_id: string;
+  user_id: string;
+}
+
+export const CancelJobResponseSchema = z.object({
+  job_id: z.string().nullish(),
+  success: z.boolean(),
+  error_message: z.string().nullish(),
+}).passthrough();
+
+// POST compare-structures
+export interface CompareStructuresRequest {
+  compare_to_job_id: string;
+  compare_with_job_id: string | null;
+  compare_with_file_name: string | null;
+  compare_with_file_content: string | null;
+  model: string;
+}
+
+export const CompareStructuresResponseSchema = z.object({
+  success: z.boolean(),
+  user_id: z.string().nullish(),
+  experiment_id: z.string().nullish(),
+  aligned_pdb_content: z.string().nullish(),
+  aligned_job_id: z.string().nullish(),
+  tm_score: z.number().nullish(),
+  rmsd: z.number().nullish(),
+  error_message: z.string().nullish(),
+}).passthrough();
+
+// GET experiments
+export const ExperimentSchema = z.object({
+  experiment_id: z.string(),
+  experiment_type: z.string(),
+  compare_to_job_id: z.string().nullish(),
+  compare_with_job_id: z.string().nullish(),
+  compare_with_file_name: z.string().nullish(),
+  model: z.string().nullish(),
+  compare_to_sequence: z.string().nullish(),
+  compare_with_sequence: z.string().nullish(),
+  tm_score: z.number().nullable(),
+  rmsd: z.number().nullable(),
+  success: z.boolean(),
+  created_at: z.string(),
+  notes: z.string().nullish(),
+}).passthrough();
+
+export const ExperimentsResponseSchema = z.array(ExperimentSchema);
+
+// POST experiments/note
+export interface UpdateExperimentNoteRequest {
+  experiment_id: string;
+  note: string;
+}
+
+export const UpdateExperimentNoteResponseSchema = z.object({
+  success: z.boolean(),
+  error_message: z.string().nullish(),
+}).passthrough();
+
+// GET health
+// Backends report different levels of detail, so everything but the status is optional
+export const HealthResponseSchema = z.object({
+  status: z.string().nullish(),
+  gpu_available: z.boolean().nullish(),
+  gpu_name: z.string().nullish(),
+  gpu_memory_used: z.number().nullish(),
+  gpu_memory_total: z.number().nullish(),
+  models: z.array(z.string()).nullish(),
+  queue_length: z.number().nullish(),
+  // Optional routes beyond api.doc the server implements, e.g. "cancel".
+  // Not in api.doc yet; servers that do not send it support none of them
+  features: z.array(z.string()).nullish(),
+}).passthrough();
+
+// GET models
+export const ModelInfoSchema = z.object({
+  id: z.string(),
+  name: z.string().nullish(),
+  input_format: z.enum(['fasta', 'raw']).nullish(),
+  max_length: z.number().nullish(),
+  supports_multimer: z.boolean().nullish(),
+  entity_types: z.array(z.string()).nullish(),
+  speed: z.enum(['fast', 'medium', 'slow']).nullish(),
+  accuracy: z.enum(['standard', 'high']).nullish(),
+  description: z.string().nullish(),
+  available: z.boolean().nullish(),
+}).passthrough();
+
+export const ModelsResponseSchema = z.array(ModelInfoSchema);
+
+export type JobStatusValue = z.infer<typeof JobStatusValueSchema>;
+export type DistogramObject = z.infer<typeof DistogramObjectSchema>;
+export type Distogram = z.infer<typeof DistogramSchema>;
+export type PAE = z.infer<typeof PAESchema>;
+export type PredictResponse = z.infer<typeof PredictResponseSchema>;
+export type JobStatusResponse = z.infer<typeof JobStatusResponseSchema>;
+export type SuccessfulJob = z.infer<typeof SuccessfulJobSchema>;
+export type DeleteJobResponse = z.infer<typeof DeleteJobResponseSchema>;
+export type CancelJobResponse = z.infer<typeof CancelJobResponseSchema>;
+export type CompareStructuresResponse = z.infer<typeof CompareStructuresResponseSchema>;
+export type Experiment = z.infer<typeof ExperimentSchema>;
+export type UpdateExperimentNoteResponse = z.infer<typeof UpdateExperimentNoteResponseSchema>;
+export type HealthResponse = z.infer<typeof HealthResponseSchema>;
+export type ModelInfo = z.infer<typeof ModelInfoSchema>;
@@ -0,0 +1,89 @@
+/**
+ * Typed endpoints of the prediction backend.
+ *
+ * Every route has one request/response type (see api-schema.ts) and every
+ * response is validated, so a schema drift surfaces as an ApiSchemaError
+ * naming the route and the offending fields instead of undefined values.
+ */
+import { z } from 'zod';
+import { apiClient } from './api-client';
+import {
+  PredictRequest,
+  PredictResponseSchema,
+  JobStatusResponseSchema,
+  SuccessfulJobsResponseSchema,
+  DeleteJobRequest,
+  DeleteJobResponseSchema,
+  CancelJobRequest,
+  CancelJobResponseSchema,
+  CompareStructuresRequest,
+  CompareStructuresResponseSchema,
+  ExperimentsResponseSchema,
+  UpdateExperimentNoteRequest,
+  UpdateExperimentNoteResponseSchema,
+  HealthResponseSchema,
+  ModelsResponseSchema,
+} from './api-schema';
+
+/**
+ * Raised when a backend response does not match the expected schema
+ */
+export class ApiSchemaError extends Error {
+  readonly route: string;
+  readonly issues: z.ZodIssue[];
+
+  constructor(route: string, issues: z.ZodIssue[]) {
+    const details = issues
+      .slice(0, 3)
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    super(`Unexpected response from ${route}: ${details}`);
+    this.name = 'ApiSchemaError';
+    this.route = route;
+    this.issues = issues;
+  }
+}
+
+function parseResponse<S extends z.ZodTypeAny>(route: string, schema: S, data: unknown): z.infer<S> {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    console.error(`Schema mismatch for ${route}:`, result.error.issues, data);
+    throw new ApiSchemaError(route, result.error.issues);
+  }
+  return result.data;
+}
+
+// Routes that act on a job accept the id of the server profile the job ran on;
+// everything else goes to the active profile
+export const api = {
+  predict: async (request: PredictRequest, profileId?: string | null) =>
+    parseResponse('predict', PredictResponseSchema, await apiClient.post<unknown>('predict', request, { profileId })),
+
+  getJobStatus: async (jobId: string, profileId?: string | null) =>
+    parseResponse('jobs/{id}/status', JobStatusResponseSchema, await apiClient.get<unknown>(`jobs/${jobId}/status`, { profileId })),
+
+  getSuccessfulJobs: async () =>
+    parseResponse('jobs/successful', SuccessfulJobsResponseSchema, await apiClient.get<unknown>('jobs/successful')),
+
+  deleteJob: async (request: DeleteJobRequest, profileId?: string | null) =>
+    parseResponse('jobs/delete', DeleteJobResponseSchema, await apiClient.post<unknown>('jobs/delete', request, { profileId })),
+
+  cancelJob: async (request: CancelJobRequest, profileId?: string | null) =>
+    parseResponse('jobs/cancel', CancelJobResponseSchema, await apiClient.post<unknown>('jobs/cancel', request, { profileId })),
+
+  compareStructures: async (request: CompareStructuresRequest, profileId?: string | null) =>
+    parseResponse('compare-structures', CompareStructuresResponseSchema, await apiClient.post<unknown>('compare-structures', request, { profileId })),
+
+  getExperiments: async () =>
+    parseResponse('experiments', ExperimentsResponseSchema, await apiClient.get<unknown>('experiments')),
+
+  updateExperimentNote: async (request: UpdateExperimentNoteRequest, profileId?: string | null) =>
+    parseResponse('experiments/note', UpdateExperimentNoteResponseSchema, await apiClient.post<unknown>('experiments/note', request, { profileId })),
+
+  // Health checks fail fast: a slow or unreachable server is reported as offline
+  getHealth: async (profileId?: string | null) =>
+    parseResponse('health', HealthResponseSchema, await apiClient.get<unknown>('health', { profileId, retry: false, timeout: 5000 })),
+
+  getModels: async (profileId?: string | null) =>
+    parseResponse('models', ModelsResponseSchema, await apiClient.get<unknown>('models', { profileId, retry: false })),
+};
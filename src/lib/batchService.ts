@@ -0,0 +1,119 @@
+/**
+ * Bulk (CSV) job parsing, validation and rate-limited submission helpers
+ */
+import { parseCSV } from '@/utils/csvParser';
+import { useModelsStore } from '@/store/modelsStore';
+import {
+  validateSequenceForSubmission,
+  isFastaFormat
+} from '../components/SequenceValidator';
+
+// Minimum delay between two consecutive prediction requests
+export const DEFAULT_BATCH_SUBMIT_INTERVAL_MS = 1000;
+
+export interface BatchRow {
+  line: number;
+  name: string;
+  description: string;
+  model: string;
+  sequence: string;
+}
+
+export interface BatchRowError {
+  line: number;
+  name: string;
+  error: string;
+}
+
+export interface ParsedBatch {
+  rows: BatchRow[];
+  errors: BatchRowError[];
+}
+
+/**
+ * Parse a bulk submission CSV and validate every row for its model.
+ * Throws if the file itself is unusable (missing columns, no data rows).
+ */
+export function parseBatchCSV(content: string, defaultModel: string): ParsedBatch {
+  const records = parseCSV(content);
+  if (records.length < 2) {
+    throw new Error('CSV file must contain at least a header row and one data row');
+  }
+
+  const header = records[0].map(column => column.trim().toLowerCase());
+  const nameIndex = header.indexOf('name');
+  const sequenceIndex = header.indexOf('sequence');
+  const descriptionIndex = header.indexOf('description');
+  const modelIndex = header.indexOf('model');
+
+  if (nameIndex === -1 || sequenceIndex === -1) {
+    throw new Error('CSV file must contain "name" and "sequence" columns');
+  }
+
+  const rows: BatchRow[] = [];
+  const errors: BatchRowError[] = [];
+  const seenNames = new Set<string>();
+
+  records.slice(1).forEach((record, index) => {
+    // Header is line 1, so the first data record is line 2
+    const line = index + 2;
+    const name = (record[nameIndex] ?? '').trim();
+    const description = descriptionIndex === -1 ? '' : (record[descriptionIndex] ?? '').trim();
+    const model = (modelIndex === -1 ? '' : (record[modelIndex] ?? '').trim().toLowerCase()) || defaultModel;
+    let sequence = (record[sequenceIndex] ?? '').trim();
+
+    if (!name) {
+      errors.push({ line, name, error: 'Missing job name' });
+      return;
+    }
+
+    if (seenNames.has(name)) {
+      errors.push({ line, name, error: `Duplicate job name "${name}"` });
+      return;
+    }
+
+    // CSV cells hold raw sequences, so give rows for FASTA models a header.
+    // Unknown or unavailable models are reported by the validation below.
+    if (useModelsStore.getState().getModel(model)?.inputFormat === 'fasta' && sequence && !isFastaFormat(sequence)) {
+      sequence = `>${name}\n${sequence}`;
+    }
+
+    const validationError = validateSequenceForSubmission(sequence, model);
+    if (validationError) {
+      errors.push({ line, name, error: validationError });
+      return;
+    }
+
+    seenNames.add(name);
+    rows.push({ line, name, description, model, sequence });
+  });
+
+  return { rows, errors };
+}
+
+/**
+ * Run an async worker over every item sequentially, waiting at least
+ * `minIntervalMs` between the start of two consecutive calls
+ */
+export async function runRateLimited<T, R>(
+  items: T[],
+  worker: (item: T, index: number) => Promise<R>,
+  options: { minIntervalMs?: number; onProgress?: (completed: number, total: number) => void } = {}
+): Promise<R[]> {
+  const { minIntervalMs = DEFAULT_BATCH_SUBMIT_INTERVAL_MS, onProgress } = options;
+  const results: R[] = [];
+  let lastStart = 0;
+
+  for (let i = 0; i < items.length; i++) {
+    const wait = lastStart + minIntervalMs - Date.now();
+    if (i > 0 && wait > 0) {
+      await new Promise(resolve => setTimeout(resolve, wait));
+    }
+
+    lastStart = Date.now();
+    results.push(await worker(items[i], i));
+    onProgress?.(i + 1, items.length);
+  }
+
+  return results;
+}
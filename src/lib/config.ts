@@ -12,6 +12,36 @@ const isDevelopment = typeof import.meta.env !== 'undefined' && import.meta.env.
 // Server type options
 export type ServerType = 'default' | 'custom';
 
+/**
+ * A named backend the app can talk to
+ */
+export interface ServerProfile {
+  id: string;
+  name: string;
+  url: string;
+  apiKey?: string | null;   // Sent instead of the Supabase session token when set
+  trusted?: boolean;        // May receive the Supabase session token when it has no API key
+  useProxy: boolean;        // Route through the dev server proxy to avoid CORS
+  models: string[];
+}
+
+// The built-in profile, always present and not removable
+export const DEFAULT_PROFILE_ID = 'default';
+
+const DEFAULT_PROFILE: ServerProfile = {
+  id: DEFAULT_PROFILE_ID,
+  name: 'Default',
+  url: DEFAULT_API_URL,
+  apiKey: null,
+  trusted: true,
+  useProxy: false,
+  models: ['alphafold2', 'esm3'],
+};
+
+// localStorage keys
+const SERVER_PROFILES_KEY = 'serverProfiles';
+const ACTIVE_SERVER_PROFILE_KEY = 'activeServerProfileId';
+
 /**
  * Safely get an item from localStorage with fallback
  */
@@ -19,7 +49,7 @@ const getLocalStorageItem = (key: string, fallback: string): string => {
   if (typeof window === 'undefined') {
     return fallback;
   }
-  
+
   try {
     const value = localStorage.getItem(key);
     return value || fallback;
@@ -30,51 +60,163 @@ const getLocalStorageItem = (key: string, fallback: string): string => {
 };
 
 /**
- * Get the current API URL based on user preference
+ * Build the initial profile list from the single custom server settings
+ * (serverType / savedCustomUrl / useProxyForCustom / customServerApiKeys)
+ * used before profiles
+ */
+const migrateLegacyServerSettings = (): ServerProfile[] => {
+  const profiles = [DEFAULT_PROFILE];
+  const savedCustomUrl = getLocalStorageItem('savedCustomUrl', '');
+
+  if (savedCustomUrl) {
+    let apiKey: string | null = null;
+    try {
+      apiKey = JSON.parse(getLocalStorageItem('customServerApiKeys', '{}'))[savedCustomUrl] || null;
+    } catch {
+      // Ignore unreadable legacy keys
+    }
+
+    profiles.push({
+      id: 'custom',
+      name: 'Custom server',
+      url: savedCustomUrl,
+      apiKey,
+      useProxy: getLocalStorageItem('useProxyForCustom', 'false') === 'true',
+      models: [...DEFAULT_PROFILE.models],
+    });
+
+    if (getLocalStorageItem('serverType', 'default') === 'custom') {
+      localStorage.setItem(ACTIVE_SERVER_PROFILE_KEY, 'custom');
+    }
+  }
+
+  return profiles;
+};
+
+/**
+ * Get all server profiles, the default one first
+ */
+export function getServerProfiles(): ServerProfile[] {
+  if (typeof window === 'undefined') {
+    return [DEFAULT_PROFILE];
+  }
+
+  const stored = getLocalStorageItem(SERVER_PROFILES_KEY, '');
+  if (!stored) {
+    const profiles = migrateLegacyServerSettings();
+    saveServerProfiles(profiles);
+    return profiles;
+  }
+
+  try {
+    const profiles = (JSON.parse(stored) as ServerProfile[]).filter(p => p.id !== DEFAULT_PROFILE_ID);
+    return [DEFAULT_PROFILE, ...profiles];
+  } catch (error) {
+    console.error('Invalid server profiles in localStorage:', error);
+    return [DEFAULT_PROFILE];
+  }
+}
+
+/**
+ * Persist the server profiles (the built-in default profile is not stored)
+ */
+export function saveServerProfiles(profiles: ServerProfile[]): void {
+  const custom = profiles.filter(p => p.id !== DEFAULT_PROFILE_ID);
+  localStorage.setItem(SERVER_PROFILES_KEY, JSON.stringify(custom));
+}
+
+/**
+ * Get the id of the profile new requests and jobs use
+ */
+export function getActiveServerProfileId(): string {
+  const id = getLocalStorageItem(ACTIVE_SERVER_PROFILE_KEY, DEFAULT_PROFILE_ID);
+  return getServerProfiles().some(p => p.id === id) ? id : DEFAULT_PROFILE_ID;
+}
+
+export function setActiveServerProfileId(id: string): void {
+  localStorage.setItem(ACTIVE_SERVER_PROFILE_KEY, id);
+}
+
+/**
+ * Find the profile a request for `profileId` goes to: the active profile
+ * when no id is given, the default profile for null (jobs submitted before
+ * profiles existed ran there), or null when the id names a profile that is
+ * not configured in this browser (deleted, or a job from another browser)
+ */
+export function findServerProfile(profileId?: string | null): ServerProfile | null {
+  if (profileId === null) {
+    return DEFAULT_PROFILE;
+  }
+
+  const profiles = getServerProfiles();
+  const id = profileId === undefined ? getActiveServerProfileId() : profileId;
+  return profiles.find(p => p.id === id) || null;
+}
+
+/**
+ * Whether requests for `profileId` have a server to go to (see findServerProfile)
+ */
+export function isServerProfileAvailable(profileId?: string | null): boolean {
+  return findServerProfile(profileId) !== null;
+}
+
+/**
+ * Get a profile by id like findServerProfile, falling back to the active
+ * profile when the id is unknown. Only for display and settings; requests
+ * about a job must not go to a server the job was not submitted to.
+ */
+export function getServerProfile(profileId?: string | null): ServerProfile {
+  return findServerProfile(profileId) || findServerProfile() || DEFAULT_PROFILE;
+}
+
+/**
+ * Whether a profile may be sent the user's Supabase session token. Anyone
+ * holding it can act as the user against Supabase, so only the default
+ * server and profiles the user marked as trusted get it.
+ */
+export function canReceiveSessionToken(profile: ServerProfile): boolean {
+  return profile.id === DEFAULT_PROFILE_ID || profile.trusted === true;
+}
+
+/**
+ * Get the API URL of a server profile (the active one by default)
  * @returns The API URL to use for requests
  */
-export function getApiUrl(): string {
+export function getApiUrl(profileId?: string | null): string {
   // Handle server-side rendering case
   if (typeof window === 'undefined') {
     return DEFAULT_API_URL;
   }
-  
+
   try {
-    const serverType = getLocalStorageItem('serverType', 'default') as ServerType;
-    
+    const profile = getServerProfile(profileId);
+
     // In development, use the proxy path to avoid CORS issues
     if (isDevelopment) {
-      if (serverType === 'default') {
+      if (profile.id === DEFAULT_PROFILE_ID) {
         return '/api';
       }
-      
-      // For custom URLs in development, check if we need to use the proxy
-      const useProxy = getLocalStorageItem('useProxyForCustom', 'false') === 'true';
-      const customUrl = getLocalStorageItem('savedCustomUrl', DEFAULT_API_URL);
-      
-      if (useProxy) {
+
+      if (profile.useProxy) {
         // Use a different proxy path for custom servers
-        console.log('Using API proxy for custom server');
         return '/api-proxy';
       }
-      
+
       // Use custom URL directly if no proxy needed
-      return customUrl;
+      return profile.url;
     }
-    
+
     // In production
-    if (serverType === 'default') {
+    if (profile.id === DEFAULT_PROFILE_ID) {
       return DEFAULT_API_URL;
     }
-    
-    const customUrl = getLocalStorageItem('savedCustomUrl', DEFAULT_API_URL);
-    
+
     // Basic URL validation
     try {
-      new URL(customUrl);
-      return customUrl;
+      new URL(profile.url);
+      return profile.url;
     } catch (e) {
-      console.error('Invalid custom URL:', customUrl);
+      console.error('Invalid custom URL:', profile.url);
       return DEFAULT_API_URL;
     }
   } catch (error) {
@@ -82,4 +224,4 @@ export function getApiUrl(): string {
     console.error('Error getting API URL:', error);
     return DEFAULT_API_URL;
   }
-} 
\ No newline at end of file
+}
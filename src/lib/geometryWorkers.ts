@@ -0,0 +1,269 @@
+/**
+ * Pool of geometry workers for the heavy structure computations (distance
+ * matrices, contacts, structural alignment), so large structures do not
+ * block the page.
+ *
+ * Every call takes an optional AbortSignal. Aborting drops a queued task,
+ * or terminates the worker running it; the promise then rejects with an
+ * AbortError.
+ */
+import { Molecule } from '@/utils/structure';
+import {
+  DistanceMode,
+  GeometryTask,
+  packResidues,
+  residueCount,
+  runGeometryTask,
+} from '@/utils/geometry';
+import type { GeometryWorkerMessage } from '@/utils/geometry.worker';
+import { AlignmentOptions, StructureAlignment } from '@/utils/structureAlignment';
+import { PairScores, pairScoresFromAlignment } from '@/utils/comparisonMatrix';
+import { InterfaceAnalysis } from '@/utils/interface';
+import { SASAResult } from '@/utils/sasa';
+
+export interface ComputeOptions {
+  signal?: AbortSignal;
+  /** Fraction done, 0-1 */
+  onProgress?: (fraction: number) => void;
+}
+
+interface QueuedTask extends ComputeOptions {
+  task: GeometryTask;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  current: QueuedTask | null;
+}
+
+// Leave a core for the page itself
+export const GEOMETRY_POOL_SIZE = typeof navigator !== 'undefined'
+  ? Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1))
+  : 1;
+
+// Rows of the distance matrix are split into about this many tasks per worker
+const CHUNKS_PER_WORKER = 4;
+
+const pool: PoolWorker[] = [];
+const queue: QueuedTask[] = [];
+
+const abortError = () => new DOMException('Computation cancelled', 'AbortError');
+
+function startWorker(): PoolWorker {
+  const entry: PoolWorker = {
+    worker: new Worker(new URL('../utils/geometry.worker.ts', import.meta.url), { type: 'module' }),
+    current: null,
+  };
+
+  entry.worker.onmessage = (event: MessageEvent<GeometryWorkerMessage>) => {
+    const task = entry.current;
+    if (!task) return;
+
+    const message = event.data;
+    if (message.type === 'progress') {
+      task.onProgress?.(message.fraction);
+      return;
+    }
+
+    entry.current = null;
+    if (message.type === 'result') {
+      task.onProgress?.(1);
+      task.resolve(message.result);
+    } else {
+      task.reject(new Error(message.message));
+    }
+    dispatch();
+  };
+
+  entry.worker.onerror = (event) => {
+    event.preventDefault();
+    const task = entry.current;
+    replaceWorker(entry);
+    task?.reject(new Error(event.message || 'Geometry worker failed'));
+    dispatch();
+  };
+
+  return entry;
+}
+
+// A worker busy with a cancelled or crashed task cannot be interrupted
+function replaceWorker(entry: PoolWorker) {
+  entry.worker.terminate();
+  pool[pool.indexOf(entry)] = startWorker();
+}
+
+function dispatch() {
+  while (queue.length > 0) {
+    let entry = pool.find(worker => worker.current === null);
+    if (!entry && pool.length < GEOMETRY_POOL_SIZE) {
+      entry = startWorker();
+      pool.push(entry);
+    }
+    if (!entry) return;
+
+    const task = queue.shift()!;
+    entry.current = task;
+    entry.worker.postMessage(task.task);
+  }
+}
+
+/**
+ * Run a task on the pool. Without Worker support it runs on the main thread.
+ */
+export function runInWorker<T>(task: GeometryTask, { signal, onProgress }: ComputeOptions = {}): Promise<T> {
+  if (signal?.aborted) {
+    return Promise.reject(abortError());
+  }
+
+  if (typeof Worker === 'undefined') {
+    return new Promise<T>(resolve => resolve(runGeometryTask(task, onProgress) as T));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const queued: QueuedTask = {
+      task,
+      onProgress,
+      signal,
+      resolve: result => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(result as T);
+      },
+      reject: error => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      },
+    };
+
+    function onAbort() {
+      const index = queue.indexOf(queued);
+      if (index >= 0) {
+        queue.splice(index, 1);
+      } else {
+        const entry = pool.find(worker => worker.current === queued);
+        if (entry) {
+          replaceWorker(entry);
+          dispatch();
+        }
+      }
+      queued.reject(abortError());
+    }
+
+    signal?.addEventListener('abort', onAbort);
+    queue.push(queued);
+    dispatch();
+  });
+}
+
+/**
+ * Residue distance matrix of a molecule (rows as in calculateDistogram),
+ * computed in row blocks across the pool
+ */
+export async function computeDistanceMatrix(
+  molecule: Molecule,
+  mode: DistanceMode = 'all-atom',
+  { signal, onProgress }: ComputeOptions = {}
+): Promise<number[][]> {
+  const residues = packResidues(molecule, mode);
+  const size = residueCount(residues);
+  const matrix = Array.from({ length: size }, () => new Array<number>(size).fill(0));
+  if (size === 0) return matrix;
+
+  // Blocks of about the same number of pairs; the rows get shorter
+  const totalPairs = (size * (size + 1)) / 2;
+  const pairsPerChunk = Math.max(size, totalPairs / (GEOMETRY_POOL_SIZE * CHUNKS_PER_WORKER));
+  const chunks: [number, number][] = [];
+  for (let start = 0, pairs = 0, i = 0; i < size; i++) {
+    pairs += size - i;
+    if (pairs >= pairsPerChunk || i === size - 1) {
+      chunks.push([start, i + 1]);
+      start = i + 1;
+      pairs = 0;
+    }
+  }
+
+  const done = new Array<number>(chunks.length).fill(0);
+  const chunkPairs = chunks.map(([start, end]) => (end - start) * size - ((end - 1) * end - (start - 1) * start) / 2);
+  const report = () => onProgress?.(done.reduce((sum, pairs) => sum + pairs, 0) / totalPairs);
+
+  await Promise.all(chunks.map(([start, end], chunk) =>
+    runInWorker<Float32Array>(
+      { type: 'distance-rows', residues, start, end },
+      {
+        signal,
+        onProgress: fraction => {
+          done[chunk] = fraction * chunkPairs[chunk];
+          report();
+        },
+      }
+    ).then(rows => {
+      let k = 0;
+      for (let i = start; i < end; i++) {
+        for (let j = i; j < size; j++) {
+          matrix[i][j] = matrix[j][i] = rows[k++];
+        }
+      }
+    })
+  ));
+
+  return matrix;
+}
+
+/**
+ * Residue pairs (indices into the distogram residues, i < j) with atoms
+ * within `cutoff` Å, found on a spatial grid
+ */
+export async function computeContacts(
+  molecule: Molecule,
+  cutoff = 8,
+  mode: DistanceMode = 'all-atom',
+  options: ComputeOptions = {}
+): Promise<[number, number][]> {
+  const flat = await runInWorker<Uint32Array>(
+    { type: 'contacts', residues: packResidues(molecule, mode), cutoff },
+    options
+  );
+  const pairs: [number, number][] = [];
+  for (let k = 0; k < flat.length; k += 2) {
+    pairs.push([flat[k], flat[k + 1]]);
+  }
+  return pairs;
+}
+
+/**
+ * alignStructures on the pool
+ */
+export function alignStructuresInWorker(
+  mobile: Molecule,
+  target: Molecule,
+  alignmentOptions?: AlignmentOptions,
+  options: ComputeOptions = {}
+): Promise<StructureAlignment> {
+  return runInWorker<StructureAlignment>({ type: 'align', mobile, target, options: alignmentOptions }, options);
+}
+
+/**
+ * compareMolecules on the pool
+ */
+export async function compareMoleculesInWorker(
+  moleculeA: Molecule,
+  moleculeB: Molecule,
+  options: ComputeOptions = {}
+): Promise<PairScores> {
+  return pairScoresFromAlignment(await alignStructuresInWorker(moleculeB, moleculeA, undefined, options));
+}
+
+/**
+ * analyzeInterfaces on the pool
+ */
+export function analyzeInterfacesInWorker(molecule: Molecule, options: ComputeOptions = {}): Promise<InterfaceAnalysis> {
+  return runInWorker<InterfaceAnalysis>({ type: 'interface', molecule }, options);
+}
+
+/**
+ * calculateSASA on the pool
+ */
+export function calculateSASAInWorker(molecule: Molecule, options: ComputeOptions = {}): Promise<SASAResult> {
+  return runInWorker<SASAResult>({ type: 'sasa', molecule }, options);
+}
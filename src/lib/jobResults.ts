@@ -0,0 +1,105 @@
+/**
+ * Fetching and packaging prediction results for download
+ */
+import type JSZip from 'jszip';
+import { api } from './api';
+import { JobStatusResponse } from './api-schema';
+import { LiteFoldJob, getJobProfileId } from './supabase';
+import { parsePDBString } from '@/utils/pdbParser';
+import { toCIFString } from '@/utils/cifParser';
+import { saveBlob } from './utils';
+
+// Structure file formats results can be downloaded in
+export type StructureExportFormat = 'pdb' | 'cif';
+
+/**
+ * Make a job name safe to use as a file or folder name inside a ZIP
+ */
+const toFileName = (name: string): string => {
+  return name.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'job';
+};
+
+/**
+ * Fetch the results of a job and add its structure and distogram to the archive.
+ * Returns false when the job had no downloadable results.
+ */
+async function addJobResultsToZip(
+  zip: JSZip,
+  job: LiteFoldJob,
+  formats: StructureExportFormat[],
+  folder?: string
+): Promise<boolean> {
+  let data: JobStatusResponse;
+  try {
+    data = await api.getJobStatus(job.job_id, getJobProfileId(job));
+  } catch (error) {
+    console.warn(`Could not fetch results for job ${job.job_id}`, error);
+    return false;
+  }
+
+  const baseName = toFileName(job.job_name);
+  const target = folder ? zip.folder(folder) : zip;
+  let added = false;
+
+  // Add the structure in each requested format; the server returns PDB,
+  // mmCIF is converted from it
+  if (data.pdb_content) {
+    if (formats.includes('pdb')) {
+      target.file(`${baseName}.pdb`, data.pdb_content);
+    }
+    if (formats.includes('cif')) {
+      target.file(`${baseName}.cif`, toCIFString(parsePDBString(data.pdb_content, baseName)));
+    }
+    added = true;
+  }
+
+  // Add distogram if available
+  if (data.distogram) {
+    target.file(`${baseName}_distogram.json`, JSON.stringify(data.distogram));
+    added = true;
+  }
+
+  return added;
+}
+
+/**
+ * Download the results of one or more jobs as a single ZIP archive, with
+ * the structures in the given formats.
+ * With several jobs every job gets its own folder inside the archive.
+ * Returns the number of jobs whose results were included.
+ */
+export async function downloadJobsArchive(
+  jobs: LiteFoldJob[],
+  archiveName: string,
+  formats: StructureExportFormat[] = ['pdb']
+): Promise<number> {
+  const JSZip = (await import('jszip')).default;
+  const zip = new JSZip();
+  const usedFolders = new Set<string>();
+  let included = 0;
+
+  for (const job of jobs) {
+    let folder: string | undefined;
+    if (jobs.length > 1) {
+      // Disambiguate jobs that share a name
+      folder = toFileName(job.job_name);
+      if (usedFolders.has(folder)) {
+        folder = `${folder}_${job.job_id.slice(0, 8)}`;
+      }
+      usedFolders.add(folder);
+    }
+
+    if (await addJobResultsToZip(zip, job, formats, folder)) {
+      included++;
+    }
+  }
+
+  if (included === 0) {
+    throw new Error('No results available to download');
+  }
+
+  const content = await zip.generateAsync({ type: 'blob' });
+  saveBlob(content, `${toFileName(archiveName)}_results.zip`);
+
+  return included;
+}
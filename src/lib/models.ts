@@ -0,0 +1,168 @@
+/**
+ * Prediction model registry: what each model accepts and how it is shown.
+ *
+ * The built-in entries describe the models we know about. Servers can
+ * override or extend them through the backend `models` endpoint (see
+ * store/modelsStore.ts); every rule about a model should be read from here
+ * rather than compared against model ids.
+ */
+import { ModelInfo } from './api-schema';
+
+export type ModelInputFormat = 'fasta' | 'raw';
+
+export type ModelEntityType = 'protein' | 'dna' | 'rna' | 'ligand' | 'ion';
+
+export interface ModelCapabilities {
+  id: string;
+  name: string;
+  inputFormat: ModelInputFormat;
+  maxLength: number;              // Total residues over all chains
+  supportsMultimer: boolean;
+  entityTypes: ModelEntityType[];
+  speed: 'fast' | 'medium' | 'slow';
+  accuracy: 'standard' | 'high';
+  description: string;
+  available: boolean;             // False for models listed but not served
+}
+
+export const BUILTIN_MODELS: ModelCapabilities[] = [
+  {
+    id: 'alphafold2',
+    name: 'AlphaFold2',
+    inputFormat: 'fasta',
+    maxLength: 3000,
+    supportsMultimer: true,
+    entityTypes: ['protein'],
+    speed: 'slow',
+    accuracy: 'high',
+    description: 'AlphaFold2 is slower but highly accurate, ideal when precision is critical.',
+    available: true,
+  },
+  {
+    id: 'esm3',
+    name: 'ESM-3',
+    inputFormat: 'raw',
+    maxLength: 1024,
+    supportsMultimer: false,
+    entityTypes: ['protein'],
+    speed: 'fast',
+    accuracy: 'standard',
+    description: 'ESM-3 is the fastest model, useful for initial bulk or rough predictions.',
+    available: true,
+  },
+  {
+    id: 'chai-1',
+    name: 'Chai-1',
+    inputFormat: 'fasta',
+    maxLength: 2048,
+    supportsMultimer: true,
+    entityTypes: ['protein', 'dna', 'rna', 'ligand'],
+    speed: 'medium',
+    accuracy: 'high',
+    description: 'Chai-1 predicts complexes of proteins, nucleic acids and small molecules.',
+    available: false,
+  },
+  {
+    id: 'nanofold',
+    name: 'NanoFold',
+    inputFormat: 'raw',
+    maxLength: 512,
+    supportsMultimer: false,
+    entityTypes: ['protein'],
+    speed: 'fast',
+    accuracy: 'standard',
+    description: 'NanoFold is a lightweight model for quick single-chain predictions.',
+    available: false,
+  },
+];
+
+// Model used when nothing else is selected or known
+export const DEFAULT_MODEL_ID = 'alphafold2';
+
+// Rules for models a server reports that we have no built-in entry for
+const UNKNOWN_MODEL_DEFAULTS: Omit<ModelCapabilities, 'id' | 'name'> = {
+  inputFormat: 'raw',
+  maxLength: 1024,
+  supportsMultimer: false,
+  entityTypes: ['protein'],
+  speed: 'medium',
+  accuracy: 'standard',
+  description: 'Custom model served by this server.',
+  available: true,
+};
+
+/**
+ * Combine the built-in registry with what a server reports.
+ *
+ * `remote` is the server's model list: its entries override matching
+ * built-ins field by field and built-ins it leaves out are unavailable. When
+ * the server only reports model ids (`servedIds`, e.g. from /health or the
+ * profile), built-ins not in the list are marked unavailable and unknown ids
+ * get conservative defaults.
+ */
+export function buildModelRegistry(remote: ModelInfo[] | null, servedIds?: string[] | null): ModelCapabilities[] {
+  const registry = new Map(BUILTIN_MODELS.map(model => [model.id, { ...model }]));
+
+  if (remote) {
+    const listed = new Set(remote.map(info => info.id.toLowerCase()));
+    registry.forEach(model => {
+      model.available = listed.has(model.id);
+    });
+  } else if (servedIds && servedIds.length > 0) {
+    const served = new Set(servedIds.map(id => id.toLowerCase()));
+    registry.forEach(model => {
+      model.available = served.has(model.id);
+    });
+    served.forEach(id => {
+      if (!registry.has(id)) {
+        registry.set(id, { id, name: id, ...UNKNOWN_MODEL_DEFAULTS });
+      }
+    });
+  }
+
+  remote?.forEach(info => {
+    const id = info.id.toLowerCase();
+    const base = registry.get(id) || { id, name: info.name || id, ...UNKNOWN_MODEL_DEFAULTS };
+    registry.set(id, {
+      ...base,
+      name: info.name ?? base.name,
+      inputFormat: info.input_format ?? base.inputFormat,
+      maxLength: info.max_length ?? base.maxLength,
+      supportsMultimer: info.supports_multimer ?? base.supportsMultimer,
+      entityTypes: (info.entity_types as ModelEntityType[] | undefined) ?? base.entityTypes,
+      speed: info.speed ?? base.speed,
+      accuracy: info.accuracy ?? base.accuracy,
+      description: info.description ?? base.description,
+      available: info.available ?? true,
+    });
+  });
+
+  return [...registry.values()];
+}
+
+/**
+ * Look up a model, falling back to the built-in entry
+ */
+export function findModel(models: ModelCapabilities[], modelId: string | null | undefined): ModelCapabilities | undefined {
+  const id = modelId?.toLowerCase();
+  return models.find(model => model.id === id) || BUILTIN_MODELS.find(model => model.id === id);
+}
+
+/**
+ * Human readable name of a model id, e.g. "esm3" -> "ESM-3"
+ */
+export function getModelDisplayName(models: ModelCapabilities[], modelId: string | null | undefined): string {
+  return findModel(models, modelId)?.name || modelId || 'Unknown';
+}
+
+/**
+ * Short input format hint shown next to sequence inputs
+ */
+export function describeModelInput(model: ModelCapabilities): string {
+  const format = model.inputFormat === 'fasta'
+    ? `${model.name} requires FASTA format input (starting with '>')`
+    : `${model.name} requires raw sequence input`;
+  return model.supportsMultimer
+    ? `${format}. For multimers, separate chains with colons (:)`
+    : format;
+}
@@ -2,7 +2,8 @@
  * Sequence processing and submission service
  */
 import { getApiUrl } from './config';
-import { apiClient } from './api-client';
+import { api } from './api';
+import { PredictResponse } from './api-schema';
 import {
   validateSequenceForSubmission,
   prepareSequenceForSubmission,
@@ -15,13 +16,14 @@ interface SubmitSequenceParams {
   model: string;
   sequence: string;
   userId: string;
+  profileId?: string | null;  // Server profile to submit to, the active one by default
 }
 
 interface SequenceSubmissionResponse {
   success: boolean;
   error?: string;
   jobId: string;
-  data?: any;
+  data?: PredictResponse;
 }
 
 /**
@@ -29,7 +31,7 @@ interface SequenceSubmissionResponse {
  */
 export async function submitSequenceForPrediction(params: SubmitSequenceParams): Promise<SequenceSubmissionResponse> {
   try {
-    const { jobId, jobName, model, sequence, userId } = params;
+    const { jobId, jobName, model, sequence, userId, profileId } = params;
     
     // Validate the sequence
     const validationError = validateSequenceForSubmission(sequence, model);
@@ -60,15 +62,15 @@ export async function submitSequenceForPrediction(params: SubmitSequenceParams):
       userId
     });
     
-    // Submit to API using the apiClient
+    // Submit to API using the typed endpoint
     try {
-      const responseData = await apiClient.post('predict', {
+      const responseData = await api.predict({
         job_id: jobId,
         job_name: jobName,
         model: model,
         sequence: cleanedSequence,
         user_id: userId
-      });
+      }, profileId);
       
       return {
         success: true,
@@ -30,8 +30,26 @@ export interface LiteFoldJob {
   job_desc: string
   model: string
   sequence: string
-  status: 'pending' | 'processing' | 'successful' | 'crashed'
+  status: 'pending' | 'processing' | 'successful' | 'crashed' | 'error' | 'cancelled'
   created_at: string
   completed_at?: string
   user_id: string
-} 
\ No newline at end of file
+  batch_id?: string | null
+  error_message?: string | null
+  server_profile_id?: string | null
+  parent_job_id?: string | null
+}
+
+// Server profile a job was submitted to; null for jobs from before
+// profiles, which ran on the default server
+export const getJobProfileId = (job: LiteFoldJob): string | null => job.server_profile_id ?? null
+
+export interface LiteFoldBatch {
+  id: string
+  batch_id: string
+  batch_name: string
+  batch_desc: string
+  job_count: number
+  created_at: string
+  user_id: string
+}
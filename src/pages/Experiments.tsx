@@ -1,27 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { apiClient } from "@/lib/api-client";
+import { api } from "@/lib/api";
+import { Experiment } from "@/lib/api-schema";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
 import { ChevronLeft, ChevronRight, ChevronDown, ChevronUp } from "lucide-react";
 import { useAuth } from "../lib/auth";
 
-interface Experiment {
-  experiment_id: string;
-  experiment_type: string;
-  compare_to_job_id: string;
-  compare_with_job_id: string;
-  compare_with_file_name: string;
-  model: string;
-  compare_to_sequence: string;
-  compare_with_sequence: string;
-  tm_score: number | null;
-  rmsd: number | null;
-  success: boolean;
-  created_at: string;
-  notes: string;
-}
-
 export default function Experiments() {
   const [experiments, setExperiments] = useState<Experiment[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -42,7 +27,7 @@ export default function Experiments() {
         setIsLoading(true);
         
         // Fetch experiments from the API using the correct endpoint
-        const data = await apiClient.get<Experiment[]>('experiments');
+        const data = await api.getExperiments();
         setExperiments(data);
         setError(null);
       } catch (err) {
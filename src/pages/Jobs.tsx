@@ -35,24 +35,11 @@ import { supabase } from "@/lib/supabase";
 import { toast } from "sonner";
 import { Trash2, Upload, Info, Download } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { apiClient } from "@/lib/api-client";
+import { downloadJobsArchive } from "@/lib/jobResults";
 import StructurePredict from "@/components/jobs/StructurePredict";
 import SearchTab from "@/components/search/SearchTab";
 import UploadTab from "@/components/jobs/UploadTab";
 
-// Define the type for the job status response
-interface JobStatusResponse {
-  job_id: string;
-  status: string;
-  pdb_content?: string;
-  scores?: Record<string, any>;
-  input_sequence?: string;
-  model: string;
-  created_at: string;
-  completed_at?: string;
-  distogram?: Record<string, any>;
-}
-
 const proteinExamples = [
   {
     name: "Insulin",
@@ -91,7 +78,6 @@ export default function Jobs() {
     setFormData,
     submitJob,
     fetchJobs,
-    updateJobStatus,
     deleteJob 
   } = useJobsStore();
 
@@ -136,20 +122,7 @@ export default function Jobs() {
     }
   }, [fetchJobs, user]);
 
-  // Poll for status updates of pending/processing jobs
-  useEffect(() => {
-    if (!user) return;
-
-    const pollInterval = setInterval(() => {
-      jobs.forEach(job => {
-        if (job.status === 'pending' || job.status === 'processing') {
-          updateJobStatus(job.job_id);
-        }
-      });
-    }, 10000); // Poll every 10 seconds
-
-    return () => clearInterval(pollInterval);
-  }, [jobs, updateJobStatus, user]);
+  // Status updates of pending/processing jobs are watched by StructurePredict
 
   // Get current jobs
   const indexOfLastItem = currentPage * itemsPerPage;
@@ -290,63 +263,20 @@ export default function Jobs() {
     return new Date(dateString).toLocaleString();
   };
 
-  const downloadJobResults = async (jobId: string) => {
+  const downloadJobResults = async (jobIds: string[], archiveName: string) => {
+    const toastId = toast.loading(`Preparing download for ${archiveName}...`);
     try {
-      toast.loading(`Preparing download for job ${jobId}...`);
+      const selectedJobs = jobs.filter(job => jobIds.includes(job.job_id));
       
-      // Get current job info from jobs state first
-      const jobInfo = jobs.find(job => job.job_id === jobId);
-      
-      if (!jobInfo) {
+      if (selectedJobs.length === 0) {
         throw new Error("Job not found in current list");
       }
       
-      // Call the status endpoint using apiClient
-      let data: JobStatusResponse;
-      try {
-        data = await apiClient.get<JobStatusResponse>(`jobs/${jobId}/status`);
-        console.log("API Response:", data); // Log the response for debugging
-      } catch (error) {
-        console.warn("Could not fetch detailed status data, using basic job info", error);
-        // Use basic job info if API call fails
-        data = {
-          job_id: jobInfo.job_id,
-          status: jobInfo.status,
-          model: jobInfo.model,
-          created_at: jobInfo.created_at,
-          completed_at: jobInfo.completed_at,
-        };
-      }
-      
-      // Create a zip file with the results
-      const JSZip = (await import('jszip')).default;
-      const zip = new JSZip();
-      
-      // Add PDB file if available
-      if (data.pdb_content) {
-        zip.file(`${jobInfo.job_name}.pdb`, data.pdb_content);
-      }
-      
-      // Add distogram if available
-      if (data.distogram) {
-        zip.file(`${jobInfo.job_name}_distogram.json`, JSON.stringify(data.distogram));
-      }
-      
-      // Generate and download the zip file
-      const content = await zip.generateAsync({ type: "blob" });
-      const url = window.URL.createObjectURL(content);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `${jobInfo.job_name}_results.zip`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      window.URL.revokeObjectURL(url);
-      
-      toast.success('Download complete');
+      await downloadJobsArchive(selectedJobs, archiveName);
+      toast.success('Download complete', { id: toastId });
     } catch (error) {
       console.error('Error downloading job results:', error);
-      toast.error(error instanceof Error ? error.message : 'Failed to download job results');
+      toast.error(error instanceof Error ? error.message : 'Failed to download job results', { id: toastId });
     }
   };
 
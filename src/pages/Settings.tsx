@@ -8,50 +8,46 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { supabase } from "@/lib/supabase";
 import { toast } from "@/components/ui/use-toast";
-import { Loader2 } from "lucide-react";
+import { Loader2, Pencil, Plus, Trash2 } from "lucide-react";
 import { useJobsStore } from "@/store/jobsStore";
+import { useServerStore } from "@/store/serverStore";
 import { useMemo } from 'react';
-import { DEFAULT_API_URL } from "@/lib/config";
-import { apiClient } from "@/lib/api-client";
-
-// Use the default server URL from the config
-const DEFAULT_SERVER_URL = DEFAULT_API_URL;
+import { v4 as uuidv4 } from 'uuid';
+import { DEFAULT_PROFILE_ID, ServerProfile } from "@/lib/config";
+import { cn } from "@/lib/utils";
 
-export default function Settings() {
-  const [serverType, setServerType] = useState(() => {
-    if (typeof window !== 'undefined') {
-      return localStorage.getItem('serverType') || 'default';
-    }
-    return 'default';
-  });
-  
-  const [customUrl, setCustomUrl] = useState(() => {
-    if (typeof window !== 'undefined') {
-      return localStorage.getItem('customUrl') || '';
-    }
-    return '';
-  });
+// Form values of the profile being added or edited
+interface ProfileDraft {
+  id: string | null;
+  name: string;
+  url: string;
+  apiKey: string;
+  trusted: boolean;
+  useProxy: boolean;
+  models: string;  // Comma separated
+}
 
-  const [activeServerUrl, setActiveServerUrl] = useState(() => {
-    if (typeof window !== 'undefined') {
-      const type = localStorage.getItem('serverType') || 'default';
-      return type === 'default' ? 'Default' : localStorage.getItem('savedCustomUrl') || '';
-    }
-    return 'Default';
-  });
+const emptyDraft: ProfileDraft = {
+  id: null,
+  name: '',
+  url: '',
+  apiKey: '',
+  trusted: false,
+  useProxy: false,
+  models: 'alphafold2, esm3',
+};
 
+export default function Settings() {
+  const { profiles, activeProfileId, health, setActiveProfile, saveProfile, removeProfile, checkHealth } = useServerStore();
+  const [draft, setDraft] = useState<ProfileDraft | null>(null);
   const [isValidating, setIsValidating] = useState(false);
 
   const [user, setUser] = useState<{
@@ -76,55 +72,60 @@ export default function Settings() {
     fetchUserData();
   }, []);
 
-  // Update localStorage when server type changes
-  useEffect(() => {
-    localStorage.setItem('serverType', serverType);
-    if (serverType === 'default') {
-      setActiveServerUrl('Default');
-      setCustomUrl(''); // Clear custom URL when switching to default
-    } else {
-      const savedUrl = localStorage.getItem('savedCustomUrl');
-      if (savedUrl) {
-        setActiveServerUrl(savedUrl);
-        setCustomUrl(savedUrl);
-      }
+  const editProfile = (profile: ServerProfile) => {
+    setDraft({
+      id: profile.id,
+      name: profile.name,
+      url: profile.url,
+      apiKey: profile.apiKey || '',
+      trusted: profile.trusted === true,
+      useProxy: profile.useProxy,
+      models: profile.models.join(', '),
+    });
+  };
+
+  const handleSaveProfile = async () => {
+    if (!draft) return;
+
+    try {
+      new URL(draft.url.trim());
+    } catch {
+      toast({ title: "Invalid URL", description: "Enter a full server URL, e.g. http://localhost:8000", variant: "destructive" });
+      return;
     }
-  }, [serverType]);
 
-  const handleSaveUrl = async () => {
-    if (customUrl && serverType === 'custom') {
-      try {
-        setIsValidating(true);
-        
-        // Test the connection directly without appending to the base URL
-        try {
-          // Don't use apiClient.get here as it will append the URL again
-          const response = await fetch(`${customUrl.trim()}/health`, {
-            method: 'GET',
-            headers: {
-              'Accept': 'application/json'
-            }
-          });
-          
-          if (!response.ok) {
-            throw new Error(`Server returned ${response.status}`);
-          }
-          
-          setActiveServerUrl(customUrl);
-          localStorage.setItem('savedCustomUrl', customUrl);
-          localStorage.setItem('customUrl', customUrl);
-          toast({ title: "Success", description: "Custom server URL has been saved.", variant: "default" });
-        } catch (error) {
-          toast({ title: "Server Error", description: "Could not connect to the server.", variant: "destructive" });
-        }
-      } catch {
-        toast({ title: "Connection Error", description: "Failed to connect to the server.", variant: "destructive" });
-      } finally {
-        setIsValidating(false);
+    const profile: ServerProfile = {
+      id: draft.id || uuidv4(),
+      name: draft.name.trim(),
+      url: draft.url.trim().replace(/\/+$/, ''),
+      apiKey: draft.apiKey.trim() || null,
+      trusted: draft.trusted,
+      useProxy: draft.useProxy,
+      models: draft.models.split(',').map(m => m.trim()).filter(Boolean),
+    };
+
+    setIsValidating(true);
+    try {
+      saveProfile(profile);
+      setDraft(null);
+
+      // Saved either way; warn when the server cannot be reached right now
+      const status = await checkHealth(profile.id);
+      if (status.online) {
+        toast({ title: "Success", description: `Server "${profile.name}" has been saved.`, variant: "default" });
+      } else {
+        toast({ title: "Server Error", description: `Saved "${profile.name}", but could not connect to the server.`, variant: "destructive" });
       }
+    } finally {
+      setIsValidating(false);
     }
   };
 
+  const handleRemoveProfile = (profile: ServerProfile) => {
+    removeProfile(profile.id);
+    toast({ title: "Server removed", description: `"${profile.name}" has been removed.`, variant: "default" });
+  };
+
   const getInitials = (name?: string) => {
     if (!name) return '??';
     return name.split(' ').map(p => p[0]).join('').toUpperCase().slice(0,2);
@@ -176,55 +177,148 @@ export default function Settings() {
           <Card>
             <CardHeader>
               <CardTitle>Server Configuration</CardTitle>
-              <CardDescription>Choose default or custom server</CardDescription>
+              <CardDescription>Named servers to run jobs on; switch the active one from the header</CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
-              {/* Current Server Info Section */}
-              <div className="space-y-4 p-4 bg-muted/30 rounded-md">
-                <div>
-                  <div className="mb-1 text-sm text-muted-foreground">Server Type</div>
-                  <div className="font-medium">{serverType}</div>
-                </div>
-                <div>
-                  <div className="mb-1 text-sm text-muted-foreground">Server URL</div>
-                  <div className="font-medium">
-                    {activeServerUrl}
-                  </div>
-                </div>
+              {/* Profile list with live health */}
+              <div className="space-y-3">
+                {profiles.map((profile) => {
+                  const status = health[profile.id];
+                  const isActive = profile.id === activeProfileId;
+                  return (
+                    <div key={profile.id} className="space-y-2 p-4 bg-muted/30 rounded-md">
+                      <div className="flex items-center gap-2">
+                        <div
+                          className={cn(
+                            "h-2.5 w-2.5 rounded-full",
+                            !status ? "bg-gray-400" : status.online ? "bg-green-500" : "bg-red-500"
+                          )}
+                        />
+                        <span className="font-medium">{profile.name}</span>
+                        {isActive && <Badge variant="secondary">Active</Badge>}
+                        <div className="ml-auto flex items-center gap-1">
+                          {!isActive && (
+                            <Button variant="outline" size="sm" onClick={() => setActiveProfile(profile.id)}>
+                              Use
+                            </Button>
+                          )}
+                          {profile.id !== DEFAULT_PROFILE_ID && (
+                            <>
+                              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => editProfile(profile)}>
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleRemoveProfile(profile)}>
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      </div>
+                      <div className="text-sm text-muted-foreground break-all">{profile.url}</div>
+                      <div className="text-xs text-muted-foreground space-y-0.5">
+                        {!status ? (
+                          <div>Checking...</div>
+                        ) : status.online ? (
+                          <>
+                            <div>
+                              Online{status.latencyMs !== null && ` (${status.latencyMs} ms)`}
+                              {status.gpuAvailable !== null && ` · ${status.gpuAvailable ? status.gpuName || 'GPU available' : 'No GPU'}`}
+                              {status.gpuMemoryUsed !== null && status.gpuMemoryTotal !== null &&
+                                ` · ${status.gpuMemoryUsed.toFixed(1)} / ${status.gpuMemoryTotal.toFixed(1)} GB`}
+                            </div>
+                            <div>Models: {(status.models || profile.models).join(', ') || 'none'}</div>
+                          </>
+                        ) : (
+                          <div className="text-red-600">Offline{status.error && `: ${status.error}`}</div>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
               </div>
-              
-              {/* Configuration controls */}
-              <div className="space-y-4">
-                <Select value={serverType} onValueChange={setServerType}>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select server type" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="default">Default</SelectItem>
-                    <SelectItem value="custom">Custom</SelectItem>
-                  </SelectContent>
-                </Select>
-                
-                {serverType === 'custom' && (
-                  <div className="space-y-2">
+
+              {/* Add / edit form */}
+              {draft ? (
+                <div className="space-y-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="profile-name">Name</Label>
                     <Input
+                      id="profile-name"
+                      placeholder="e.g. Lab GPU box"
+                      value={draft.name}
+                      onChange={e => setDraft({ ...draft, name: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="profile-url">Server URL</Label>
+                    <Input
+                      id="profile-url"
                       placeholder="Enter server URL"
-                      value={customUrl}
-                      onChange={e => setCustomUrl(e.target.value)}
+                      value={draft.url}
+                      onChange={e => setDraft({ ...draft, url: e.target.value })}
                     />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="profile-key">API key</Label>
+                    <Input
+                      id="profile-key"
+                      type="password"
+                      placeholder="API key (optional)"
+                      value={draft.apiKey}
+                      onChange={e => setDraft({ ...draft, apiKey: e.target.value })}
+                      autoComplete="off"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Without a key, requests only carry your account session if you trust this server.
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="profile-trusted"
+                      checked={draft.trusted}
+                      onCheckedChange={checked => setDraft({ ...draft, trusted: checked })}
+                    />
+                    <Label htmlFor="profile-trusted">Trust this server with my account session</Label>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="profile-models">Models</Label>
+                    <Input
+                      id="profile-models"
+                      placeholder="alphafold2, esm3"
+                      value={draft.models}
+                      onChange={e => setDraft({ ...draft, models: e.target.value })}
+                    />
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="profile-proxy"
+                      checked={draft.useProxy}
+                      onCheckedChange={checked => setDraft({ ...draft, useProxy: checked })}
+                    />
+                    <Label htmlFor="profile-proxy">Route through the dev proxy (avoids CORS in development)</Label>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="outline" onClick={() => setDraft(null)} className="flex-1">
+                      Cancel
+                    </Button>
                     <Button
-                      onClick={handleSaveUrl}
-                      disabled={!customUrl.trim() || isValidating}
-                      className="w-full"
+                      onClick={handleSaveProfile}
+                      disabled={!draft.name.trim() || !draft.url.trim() || isValidating}
+                      className="flex-1"
                     >
                       {isValidating ? (
                         <Loader2 className="animate-spin h-4 w-4 mr-2" />
                       ) : null}
-                      Save Configuration
+                      Save Server
                     </Button>
                   </div>
-                )}
-              </div>
+                </div>
+              ) : (
+                <Button variant="outline" onClick={() => setDraft(emptyDraft)} className="w-full">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Server
+                </Button>
+              )}
             </CardContent>
           </Card>
 
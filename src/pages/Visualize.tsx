@@ -4,22 +4,40 @@ import FileList from '@/components/FileList';
 import { ViewControls } from '@/components/ViewControls';
 import { MolStarViewer } from '@/components';
 import { VisualizationWrapper } from '@/components/VisualizationWrapper';
-import { parsePDB, Molecule } from '@/utils/pdbParser';
+import { Molecule, calculateMoleculeStats, getSequenceResidues } from '@/utils/structure';
+import { loadStructureFile } from '@/utils/structureParser';
 import { Card } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { useVisualizeStore } from '@/store/visualizeStore';
-import { ViewMode, ColorScheme } from '@/types/viewer';
+import { useVisualizeStore, getMeasurementKey } from '@/store/visualizeStore';
+import { useModelsStore } from '@/store/modelsStore';
+import { getModelDisplayName } from '@/lib/models';
+import { ViewMode, ColorScheme, ResidueColors, ResidueRef, MeasuredAtom, MeasurementKind } from '@/types/viewer';
+import { deviationResidueColors, residueKey } from '@/utils/residueColors';
+import { getDistogramResidues } from '@/utils/distogram';
+import { MEASUREMENT_ATOM_COUNT, measure } from '@/utils/measurements';
+import { v4 as uuidv4 } from 'uuid';
+import { hideLowConfidence, plddtResidueColors } from '@/utils/plddt';
+import { assignSecondaryStructure } from '@/utils/secondaryStructure';
+import { toPDBString } from '@/utils/pdbParser';
+import { SASAResult, exposureResidueColors } from '@/utils/sasa';
+import { ComputeOptions, calculateSASAInWorker } from '@/lib/geometryWorkers';
+import { useWorkerComputation } from '@/hooks/use-worker-computation';
+import { PLDDTTrack } from '@/components/PLDDTTrack';
+import { PAEPanel } from '@/components/PAEPanel';
+import { MeasurementPanel } from '@/components/MeasurementPanel';
+import { InterfacePanel } from '@/components/InterfacePanel';
 import { JobSelector } from '@/components/JobSelector';
 import { Badge } from '@/components/ui/badge';
 import { Distogram } from '@/components/Distogram';
 import { Input } from '@/components/ui/input';
 import ErrorBoundary from '@/components/ErrorBoundary';
-import { SequenceViewer, ResidueInfo } from '@/components/SequenceViewer';
-import { Maximize, Minimize, Trash2, Info } from 'lucide-react';
+import { SequenceViewer } from '@/components/SequenceViewer';
+import { Maximize, Minimize, Trash2, Info, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { toast } from 'sonner';
 import StructureComparison from '@/components/StructureComparison';
+import StructureComparisonMatrix from '@/components/StructureComparisonMatrix';
 
 // Amino acid property grouping for color coding
 const aminoAcidGroups = {
@@ -41,76 +59,6 @@ const getResidueColor = (code: string): string => {
   return '#cccccc'; // Gray for other/unknown
 };
 
-interface MoleculeStats {
-  totalAtoms: number;
-  uniqueElements: string[];
-  residueCounts: { [key: string]: number };
-  chainInfo: {
-    chainId: string;
-    residueCount: number;
-    atomCount: number;
-  }[];
-  waterCount: number;
-  ionCount: number;
-}
-
-const calculateMoleculeStats = (molecule: Molecule): MoleculeStats => {
-  const stats: MoleculeStats = {
-    totalAtoms: molecule.atoms.length,
-    uniqueElements: [],
-    residueCounts: {},
-    chainInfo: [],
-    waterCount: 0,
-    ionCount: 0
-  };
-
-  // Temporary sets and maps for calculations
-  const elements = new Set<string>();
-  const chainMap = new Map<string, { residues: Set<number>, atoms: number }>();
-
-  // Process each atom
-  molecule.atoms.forEach(atom => {
-    // Count unique elements
-    elements.add(atom.element);
-
-    // Count residues
-    if (!stats.residueCounts[atom.residue]) {
-      stats.residueCounts[atom.residue] = 0;
-    }
-    stats.residueCounts[atom.residue]++;
-
-    // Process chain information
-    if (!chainMap.has(atom.chain)) {
-      chainMap.set(atom.chain, { residues: new Set(), atoms: 0 });
-    }
-    const chainInfo = chainMap.get(atom.chain)!;
-    chainInfo.residues.add(atom.residueId);
-    chainInfo.atoms++;
-
-    // Count water and ions
-    if (atom.residue === 'HOH' || atom.residue === 'WAT') {
-      stats.waterCount++;
-    } else if (atom.residue.length <= 2 && !atom.residue.match(/[a-z]/i)) {
-      stats.ionCount++;
-    }
-  });
-
-  // Convert chain map to array
-  stats.chainInfo = Array.from(chainMap.entries()).map(([chainId, info]) => ({
-    chainId,
-    residueCount: info.residues.size,
-    atomCount: info.atoms
-  }));
-
-  // Sort chains by ID
-  stats.chainInfo.sort((a, b) => a.chainId.localeCompare(b.chainId));
-
-  // Convert elements set to sorted array
-  stats.uniqueElements = Array.from(elements).sort();
-
-  return stats;
-};
-
 // Add this component to display the loaded structures with delete buttons
 function LoadedStructuresList({ 
   structures, 
@@ -118,6 +66,7 @@ function LoadedStructuresList({
   onDeleteStructure,
   selectedStructureId
 }) {
+  const models = useModelsStore(state => state.models);
   return (
     <Card className="p-4">
       <div className="flex items-center justify-between mb-3">
@@ -152,9 +101,7 @@ function LoadedStructuresList({
                     structure.metadata.model === 'alphafold2' ? "secondary" : 
                     "outline"
                   } className="px-1.5 py-0 text-xs">
-                    {structure.metadata.model === 'esm3' ? 'ESM-3' :
-                     structure.metadata.model === 'alphafold2' ? 'AlphaFold2' :
-                     structure.metadata.model}
+                    {getModelDisplayName(models, structure.metadata.model)}
                   </Badge>
                 )}
                 <span className="text-sm truncate max-w-[160px]">{structure.name}</span>
@@ -202,14 +149,31 @@ function VisualizeContent() {
     setViewerState,
     deleteFile,
     deleteLoadedStructure,
-    getSelectedStructure
+    getSelectedStructure,
+    structureComparison,
+    highlightedResidues,
+    setHighlightedResidues,
+    selection,
+    setSelection,
+    measurements,
+    addMeasurement
   } = useVisualizeStore();
+  const models = useModelsStore(state => state.models);
   
   // Reference for the plot container
   const plotRef = useRef<HTMLDivElement>(null);
   const molstarRef = useRef<any>(null);
   const canvasContainerRef = useRef<HTMLDivElement>(null);
   const [isFullScreen, setIsFullScreen] = useState(false);
+  // Active measurement tool and the atoms picked so far, all from one structure
+  const [measurementMode, setMeasurementMode] = useState<MeasurementKind | null>(null);
+  const [pendingMeasurement, setPendingMeasurement] = useState<{
+    structureId: string;
+    atoms: MeasuredAtom[];
+    positions: [number, number, number][];
+  } | null>(null);
+  // Exposure track in the sequence viewer
+  const [showExposure, setShowExposure] = useState(false);
   
   // Function to reset the camera when needed
   const resetCamera = () => {
@@ -234,6 +198,203 @@ function VisualizeContent() {
       }));
   }, [loadedStructures]);
 
+  // DSSP states of the selected structure, for the sequence track
+  const selectedSecondaryStructure = useMemo(
+    () => (selectedStructure?.molecule ? assignSecondaryStructure(selectedStructure.molecule).map(residue => residue.state) : undefined),
+    [selectedStructure?.molecule]
+  );
+
+  // Solvent accessibility, computed in the geometry workers: for every
+  // loaded structure when the viewers color by exposure, otherwise for the
+  // selected one when its sequence track is shown
+  const selectedStructureId = selectedStructure?.id;
+  const computeExposure = useMemo(() => {
+    const targets = loadedStructures.filter(structure => structure.molecule && (
+      viewerState.colorScheme === 'EXPOSURE' || (showExposure && structure.id === selectedStructureId)
+    ));
+    if (targets.length === 0) return null;
+
+    return async ({ signal, onProgress }: ComputeOptions): Promise<Record<string, SASAResult>> => {
+      const done = new Array<number>(targets.length).fill(0);
+      const results = await Promise.all(targets.map((structure, index) =>
+        calculateSASAInWorker(structure.molecule!, {
+          signal,
+          onProgress: fraction => {
+            done[index] = fraction;
+            onProgress?.(done.reduce((sum, value) => sum + value, 0) / targets.length);
+          },
+        })
+      ));
+      return Object.fromEntries(targets.map((structure, index) => [structure.id, results[index]]));
+    };
+  }, [loadedStructures, viewerState.colorScheme, showExposure, selectedStructureId]);
+  const { result: exposure, progress: exposureProgress, cancel: cancelExposure } = useWorkerComputation(computeExposure);
+  const selectedExposure = selectedStructureId ? exposure?.[selectedStructureId] : undefined;
+
+  // Residues of the selected structure in sequence and distogram order, to
+  // map the shared selection to row indices and back
+  const sequenceResidues = useMemo(
+    () => (selectedStructure?.molecule ? getSequenceResidues(selectedStructure.molecule) : []),
+    [selectedStructure?.molecule]
+  );
+  const distogramResidues = useMemo(
+    () => (selectedStructure?.molecule ? getDistogramResidues(selectedStructure.molecule) : []),
+    [selectedStructure?.molecule]
+  );
+
+  // Relative accessibility of each sequence residue, for the exposure track
+  const sequenceExposure = useMemo(() => {
+    if (!selectedExposure) return undefined;
+    const rsa = new Map(selectedExposure.residues.map(residue =>
+      [residueKey(residue.chain, residue.residueId, residue.insertionCode), residue.rsa]));
+    return sequenceResidues.map(residue => rsa.get(residueKey(residue.chain, residue.id, residue.insertionCode)) ?? null);
+  }, [selectedExposure, sequenceResidues]);
+
+  const { selectedSequenceIndices, selectedDistogramIndices, pickedSequenceIndex } = useMemo(() => {
+    const selected = (selection?.residues || []).filter(residue => residue.structureId === selectedStructureId);
+    const keys = new Set(selected.map(residue => residueKey(residue.chain, residue.residueId, residue.insertionCode)));
+    const indicesOf = (residueKeys: string[]) => residueKeys.flatMap((key, index) => (keys.has(key) ? [index] : []));
+
+    // The residue last picked in 3D is scrolled to in the sequence
+    const picked = selection?.origin === 'viewer' ? selected[selected.length - 1] : undefined;
+    return {
+      selectedSequenceIndices: indicesOf(sequenceResidues.map(residue => residueKey(residue.chain, residue.id, residue.insertionCode))),
+      selectedDistogramIndices: indicesOf(distogramResidues.map(residue =>
+        residueKey(residue.chain, residue.residueId, residue.insertionCode))),
+      pickedSequenceIndex: picked
+        ? sequenceResidues.findIndex(residue =>
+          residueKey(residue.chain, residue.id, residue.insertionCode) === residueKey(picked.chain, picked.residueId, picked.insertionCode))
+        : null,
+    };
+  }, [selection, selectedStructureId, sequenceResidues, distogramResidues]);
+
+  const toResidueRef = (residue: { chain: string; residueId: number; insertionCode: string }): ResidueRef => ({
+    structureId: selectedStructureId!,
+    chain: residue.chain,
+    residueId: residue.residueId,
+    insertionCode: residue.insertionCode,
+  });
+
+  // Sequence residues carry their number as `id`
+  const sequenceResidueRef = (index: number): ResidueRef => {
+    const { chain, id, insertionCode } = sequenceResidues[index];
+    return toResidueRef({ chain, residueId: id, insertionCode });
+  };
+
+  const handleSequenceSelection = (indices: number[]) => {
+    setSelection(indices.length > 0 ? {
+      residues: indices.map(sequenceResidueRef),
+      origin: 'sequence',
+    } : null);
+  };
+
+  const handlePairSelect = (i: number, j: number) => {
+    if (!distogramResidues[i] || !distogramResidues[j]) return;
+    const a = toResidueRef(distogramResidues[i]);
+    const b = toResidueRef(distogramResidues[j]);
+    setSelection(i === j
+      ? { residues: [a], origin: 'distogram' }
+      : { residues: [a, b], origin: 'distogram', pair: [a, b] });
+  };
+
+  const handleResiduePick = (residue: ResidueRef, extend: boolean) => {
+    const current = extend && selection ? selection.residues : [];
+    const isSame = (other: ResidueRef) => other.structureId === residue.structureId
+      && residueKey(other.chain, other.residueId, other.insertionCode) === residueKey(residue.chain, residue.residueId, residue.insertionCode);
+    setSelection({
+      residues: current.some(isSame) ? current.filter(other => !isSame(other)) : [...current, residue],
+      origin: 'viewer',
+    });
+
+    // Show the sequence of the structure the residue was picked in
+    const index = loadedStructures.findIndex(structure => structure.id === residue.structureId);
+    if (index >= 0 && index !== selectedFileIndex) {
+      setSelectedFileIndex(index);
+    }
+  };
+
+  // Stored measurements of each loaded structure, by structure id
+  const viewerMeasurements = useMemo(
+    () => Object.fromEntries(loadedStructures.map(structure => [structure.id, measurements[getMeasurementKey(structure)] || []])),
+    [loadedStructures, measurements]
+  );
+
+  const handleMeasurementModeChange = (mode: MeasurementKind | null) => {
+    setMeasurementMode(mode);
+    setPendingMeasurement(null);
+  };
+
+  const handleAtomPick = (structureId: string, atom: MeasuredAtom, position: [number, number, number]) => {
+    const structure = loadedStructures.find(s => s.id === structureId);
+    if (!measurementMode || !structure) return;
+
+    // Picking an atom of another structure starts over
+    const pending = pendingMeasurement?.structureId === structureId
+      ? pendingMeasurement
+      : { structureId, atoms: [], positions: [] };
+    const last = pending.atoms[pending.atoms.length - 1];
+    if (last && last.atomName === atom.atomName
+      && residueKey(last.chain, last.residueId, last.insertionCode) === residueKey(atom.chain, atom.residueId, atom.insertionCode)) return;
+
+    const atoms = [...pending.atoms, atom];
+    const positions = [...pending.positions, position];
+    if (atoms.length < MEASUREMENT_ATOM_COUNT[measurementMode]) {
+      setPendingMeasurement({ structureId, atoms, positions });
+      return;
+    }
+
+    addMeasurement(structure, { id: uuidv4(), kind: measurementMode, atoms, value: measure(measurementMode, positions) });
+    setPendingMeasurement(null);
+  };
+
+  // Structures as the viewer gets them: with per-residue colors when an
+  // analysis color scheme is active, and predictions without the residues
+  // below the pLDDT threshold
+  const viewerStructures = useMemo(() => {
+    const threshold = viewerState.plddtThreshold || 0;
+    let colors: Record<string, ResidueColors> | null = null;
+
+    if (viewerState.colorScheme === 'DEVIATION' && structureComparison?.alignment) {
+      const { structureA, structureB, alignedStructureId, alignment } = structureComparison;
+      const findMolecule = (id: string) => loadedStructures.find(s => s.id === id)?.molecule;
+      const moleculeA = findMolecule(structureA);
+      const moleculeB = findMolecule(structureB);
+      colors = {};
+      if (moleculeA) {
+        colors[structureA] = deviationResidueColors(moleculeA, alignment, 'target');
+      }
+      if (moleculeB) {
+        // The aligned copy of B keeps B's residue numbering
+        colors[structureB] = deviationResidueColors(moleculeB, alignment, 'mobile');
+        if (alignedStructureId) colors[alignedStructureId] = colors[structureB];
+      }
+    } else if (viewerState.colorScheme === 'PLDDT') {
+      colors = Object.fromEntries(
+        loadedStructures
+          .filter(structure => structure.molecule)
+          .map(structure => [structure.id, plddtResidueColors(structure.molecule!)])
+      );
+    } else if (viewerState.colorScheme === 'EXPOSURE') {
+      // Residues stay uncolored until the workers are done
+      colors = Object.fromEntries(
+        Object.entries(exposure || {}).map(([id, result]) => [id, exposureResidueColors(result)])
+      );
+    }
+
+    if (!colors && threshold === 0) {
+      return loadedStructures;
+    }
+
+    return loadedStructures.map(structure => {
+      const viewerStructure = { ...structure, residueColors: colors?.[structure.id] || {} };
+      // pLDDT is only meaningful for predictions
+      if (threshold > 0 && structure.source === 'job' && structure.molecule) {
+        viewerStructure.pdbData = toPDBString(hideLowConfidence(structure.molecule, threshold));
+      }
+      return viewerStructure;
+    });
+  }, [loadedStructures, viewerState.colorScheme, viewerState.plddtThreshold, structureComparison, exposure]);
+
   // Add useCallback for deleteFile to add logging
   const handleDeleteFile = useCallback((index: number) => {
     console.log(`Visualize: About to delete file at index ${index}`);
@@ -273,8 +434,8 @@ function VisualizeContent() {
     const processedFiles = await Promise.all(newFiles.map(async (file) => {
       try {
         console.log('Processing file:', file.name);
-        // Read file content as text
-        const fileData = await file.text();
+        // Decompress and parse PDB, mmCIF or BinaryCIF; the viewers get the text form
+        const { content: fileData, molecule } = await loadStructureFile(file);
         
         if (!fileData || fileData.length === 0) {
           console.error('Error: Empty file content for', file.name);
@@ -282,18 +443,7 @@ function VisualizeContent() {
         }
         
         console.log(`Read ${fileData.length} bytes from ${file.name}`);
-        
-        // For CIF files, we don't need to parse them as they'll be handled directly by NGL
-        const isCifFile = file.name.toLowerCase().endsWith('.cif');
-        const molecule = isCifFile ? null : await parsePDB(file);
-        
-        if (isCifFile) {
-          console.log('CIF file detected, skipping PDB parsing');
-        } else {
-          console.log('Parsed molecule:', molecule ? 
-            `${molecule.atoms.length} atoms` : 
-            'No molecule parsed');
-        }
+        console.log('Parsed molecule:', `${molecule.atoms.length} atoms`);
         
         return { file, molecule, pdbData: fileData };
       } catch (error) {
@@ -522,7 +672,29 @@ function VisualizeContent() {
         {selectedStructure?.molecule && (
           <Card className="p-4 bg-card">
             <div className="flex items-center justify-between mb-3">
-              <h5 className="text-sm font-medium">Sequence</h5>
+              <div className="flex items-center gap-3">
+                <h5 className="text-sm font-medium">Sequence</h5>
+                <Button
+                  size="sm"
+                  variant={showExposure ? 'default' : 'outline'}
+                  className="h-6 px-2 text-xs"
+                  onClick={() => setShowExposure(!showExposure)}
+                >
+                  Exposure
+                </Button>
+                {exposureProgress !== null ? (
+                  <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                    Computing SASA... {Math.round(exposureProgress * 100)}%
+                    <button className="hover:text-foreground" onClick={cancelExposure} title="Cancel">
+                      <X className="h-3 w-3" />
+                    </button>
+                  </span>
+                ) : selectedExposure && (
+                  <span className="text-xs text-muted-foreground">
+                    Total SASA {Math.round(selectedExposure.total).toLocaleString()} Å²
+                  </span>
+                )}
+              </div>
               <Badge variant={
                 selectedStructure.source === 'file' ? "outline" : 
                 selectedStructure.source === 'aligned' ? "default" : 
@@ -531,92 +703,19 @@ function VisualizeContent() {
                 {selectedStructure.name || 'Structure'}
               </Badge>
             </div>
-            {(() => {
-              // Extract sequence information
-              const residuesById = selectedStructure.molecule.atoms
-                .filter(atom => atom.residue !== 'HOH' && atom.residue !== 'WAT')
-                .reduce((acc, atom) => {
-                  if (!acc[atom.residueId]) {
-                    acc[atom.residueId] = {
-                      id: atom.residueId,
-                      name: atom.residue,
-                      chain: atom.chain
-                    };
-                  }
-                  return acc;
-                }, {} as Record<number, { id: number, name: string, chain: string }>);
-              
-              // Sort residues by ID to maintain proper sequence order
-              const sortedResidueIds = Object.keys(residuesById)
-                .map(Number)
-                .sort((a, b) => a - b);
-              
-              // Convert 3-letter amino acid codes to 1-letter codes for display
-              const aminoAcidMap: Record<string, string> = {
-                'ALA': 'A', 'ARG': 'R', 'ASN': 'N', 'ASP': 'D',
-                'CYS': 'C', 'GLN': 'Q', 'GLU': 'E', 'GLY': 'G',
-                'HIS': 'H', 'ILE': 'I', 'LEU': 'L', 'LYS': 'K',
-                'MET': 'M', 'PHE': 'F', 'PRO': 'P', 'SER': 'S',
-                'THR': 'T', 'TRP': 'W', 'TYR': 'Y', 'VAL': 'V',
-                // Non-standard amino acids
-                'MSE': 'M', 'HSE': 'H', 'HSD': 'H', 'HSP': 'H',
-                'SEC': 'U', 'PYL': 'O', 'ASX': 'B', 'GLX': 'Z',
-                'UNK': 'X'
-              };
-              
-              // Build the residue info array
-              const residueInfo: ResidueInfo[] = [];
-              sortedResidueIds.forEach(resId => {
-                const residue = residuesById[resId];
-                const code = aminoAcidMap[residue.name] || 'X'; // Default to X for unknown
-                residueInfo.push({ 
-                  id: resId, 
-                  code,
-                  name: residue.name,
-                  chain: residue.chain
-                });
-              });
-              
-              const sequenceString = residueInfo.map(res => res.code).join('');
-              
-              return (
-                <SequenceViewer 
-                  sequence={sequenceString}
-                  residueData={residueInfo}
-                  getResidueColor={(index) => getResidueColor(residueInfo[index]?.code || 'X')}
-                  onResidueClick={(index) => {
-                    const residueId = residueInfo[index]?.id;
-                    if (residueId !== undefined) {
-                      // Update viewer state to display the clicked residue in licorice representation
-                      setViewerState({
-                        ...viewerState,
-                        selectedResidues: [residueId],
-                        viewMode: 'licorice' // Switch to licorice view when clicking a residue
-                      });
-                    }
-                  }}
-                  onResidueHover={(index) => {
-                    if (index === null) {
-                      // Clear selection when not hovering
-                      setViewerState({
-                        ...viewerState,
-                        selectedResidues: []
-                      });
-                    } else {
-                      // Get the actual residue ID from our mapping
-                      const residueId = residueInfo[index]?.id;
-                      if (residueId !== undefined) {
-                        // Update viewer state to highlight the hovered residue
-                        setViewerState({
-                          ...viewerState,
-                          selectedResidues: [residueId]
-                        });
-                      }
-                    }
-                  }}
-                />
-              );
-            })()}
+            <SequenceViewer 
+              sequence={sequenceResidues.map(residue => residue.code).join('')}
+              residueData={sequenceResidues}
+              secondaryStructure={selectedSecondaryStructure}
+              exposure={showExposure ? sequenceExposure : undefined}
+              getResidueColor={(index) => getResidueColor(sequenceResidues[index]?.code || 'X')}
+              selectedIndices={selectedSequenceIndices}
+              onSelectionChange={handleSequenceSelection}
+              scrollToIndex={pickedSequenceIndex}
+              onResidueHover={(index) => {
+                setHighlightedResidues(index !== null && sequenceResidues[index] ? [sequenceResidueRef(index)] : []);
+              }}
+            />
           </Card>
         )}
         
@@ -654,8 +753,15 @@ function VisualizeContent() {
                     </button> */}
                     <VisualizationWrapper 
                       ref={molstarRef}
-                      structures={loadedStructures as any}
+                      structures={viewerStructures as any}
                       viewerState={viewerState}
+                      highlightedResidues={highlightedResidues}
+                      selectedResidues={selection?.residues}
+                      distancePair={selection?.pair}
+                      onResiduePick={handleResiduePick}
+                      measurements={viewerMeasurements}
+                      measurementMode={measurementMode}
+                      onAtomPick={handleAtomPick}
                       key={`viewer-${loadedStructures.map(s => s.id).join('-')}`}
                     />
                   </div>
@@ -719,6 +825,8 @@ function VisualizeContent() {
                                 width={plotRef?.current?.offsetWidth || 500}
                                 height={plotRef?.current?.offsetHeight || 500}
                                 source={selectedStructure.source as 'file' | 'job'}
+                                selectedResidues={selectedDistogramIndices}
+                                onPairSelect={handlePairSelect}
                               />
                             );
                           })()}
@@ -761,9 +869,7 @@ function VisualizeContent() {
                                       selectedStructure.metadata.model === 'alphafold2' ? "secondary" : 
                                       "outline"
                                     }>
-                                      {selectedStructure.metadata.model === 'esm3' ? 'ESM-3' :
-                                      selectedStructure.metadata.model === 'alphafold2' ? 'AlphaFold2' :
-                                      selectedStructure.metadata.model}
+                                      {getModelDisplayName(models, selectedStructure.metadata.model)}
                                     </Badge>
                                   )}
                                 </div>
@@ -874,6 +980,18 @@ function VisualizeContent() {
           
           {/* Statistics Card - Right side */}
           <div className="col-span-4 space-y-6">
+            <Card className="p-4 shadow-sm">
+              <div className="flex items-center justify-between mb-4">
+                <h5 className="text-sm font-semibold">Measurements</h5>
+                <Badge variant="outline">3D Viewer</Badge>
+              </div>
+              <MeasurementPanel
+                mode={measurementMode}
+                onModeChange={handleMeasurementModeChange}
+                pendingAtoms={pendingMeasurement?.atoms || []}
+              />
+            </Card>
+
             <Card className="p-4 shadow-sm">
               <div className="flex items-center justify-between mb-4">
                 <h5 className="text-sm font-semibold">Metrics & Comparison</h5>
@@ -903,14 +1021,40 @@ function VisualizeContent() {
                         <span>Confident</span>
                       </div>
                     </div>
+                    <div className="mt-3">
+                      <div className="text-xs text-muted-foreground mb-1">Per-residue pLDDT:</div>
+                      <PLDDTTrack structureId={selectedStructure.id} molecule={selectedStructure.molecule} />
+                    </div>
                   </div>
                 )}
                 
+                {/* Predicted aligned error of the selected structure */}
+                {selectedStructure?.molecule && (
+                  <div>
+                    <h5 className="text-sm font-medium mb-2">Predicted Aligned Error</h5>
+                    <PAEPanel structure={selectedStructure} />
+                  </div>
+                )}
+
+                {/* Chain interfaces of multimers */}
+                {selectedStructure?.molecule && (
+                  <div>
+                    <h5 className="text-sm font-medium mb-2">Interface Analysis</h5>
+                    <InterfacePanel key={selectedStructure.id} structure={selectedStructure} />
+                  </div>
+                )}
+
                 {/* Structure Comparison component */}
                 <div>
                   <h5 className="text-sm font-medium mb-2">Structure Comparison</h5>
                   <StructureComparison />
                 </div>
+
+                {/* All-pairs comparison of the loaded structures */}
+                <div>
+                  <h5 className="text-sm font-medium mb-2">Comparison Matrix</h5>
+                  <StructureComparisonMatrix />
+                </div>
               </div>
             </Card>
           </div>
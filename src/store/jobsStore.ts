@@ -1,10 +1,18 @@
 import { create } from 'zustand'
-import { supabase, LiteFoldJob } from '@/lib/supabase'
+import { supabase, LiteFoldJob, LiteFoldBatch, getJobProfileId } from '@/lib/supabase'
 import { toast } from 'sonner'
 import { v4 as uuidv4 } from 'uuid'
-import { getApiUrl } from '@/lib/config'
-import { apiClient } from '@/lib/api-client'
+import { getActiveServerProfileId, isServerProfileAvailable } from '@/lib/config'
+import { api, ApiSchemaError } from '@/lib/api'
+import { ApiError } from '@/lib/api-client'
 import { submitSequenceForPrediction, analyzeSequenceQuality } from '@/lib/sequenceService'
+import { BatchRow, runRateLimited } from '@/lib/batchService'
+import { DEFAULT_MODEL_ID } from '@/lib/models'
+import { useServerStore, serverSupports } from './serverStore'
+
+// Backoff bounds for status polling when realtime updates are unavailable
+const POLL_INITIAL_DELAY_MS = 5000;
+const POLL_MAX_DELAY_MS = 60000;
 
 interface Job {
   id: string;
@@ -20,26 +28,103 @@ interface JobFormData {
   description: string;
   inputString: string;
   selectedModel: string;
+  parentJobId: string | null;  // Set when resubmitting an edited copy of a job
+}
+
+interface BatchSubmissionResult {
+  batchId: string;
+  submitted: number;
+  failed: { name: string; error: string }[];
+}
+
+export type JobsTableEntry =
+  | { type: 'job'; job: LiteFoldJob }
+  | { type: 'batch'; batch: LiteFoldBatch; jobs: LiteFoldJob[] };
+
+// Jobs that have not reached a final state yet
+export const isActiveJobStatus = (status: LiteFoldJob['status']): boolean =>
+  status === 'pending' || status === 'processing';
+
+/**
+ * Count the jobs of a batch per status
+ */
+export function getBatchStatusCounts(jobs: LiteFoldJob[]): Partial<Record<LiteFoldJob['status'], number>> {
+  return jobs.reduce((counts, job) => {
+    counts[job.status] = (counts[job.status] || 0) + 1;
+    return counts;
+  }, {} as Partial<Record<LiteFoldJob['status'], number>>);
 }
 
-interface DeleteJobResponse {
-  job_id: string;
-  user_id: string;
-  success: boolean;
-  error_message?: string;
+/**
+ * Follow parent links from a job back to the original submission.
+ * Returns the chain oldest first, ending with the job itself.
+ */
+export function getJobLineage(jobs: LiteFoldJob[], jobId: string): LiteFoldJob[] {
+  const jobsById = new Map(jobs.map(job => [job.job_id, job]));
+  const lineage: LiteFoldJob[] = [];
+  let current = jobsById.get(jobId);
+
+  // Guard against cycles in case of inconsistent data
+  while (current && !lineage.includes(current)) {
+    lineage.unshift(current);
+    current = current.parent_job_id ? jobsById.get(current.parent_job_id) : undefined;
+  }
+
+  return lineage;
+}
+
+/**
+ * Group jobs under their batches, keeping the newest-first order of the
+ * first job of every group. Jobs of unknown batches are listed on their own.
+ */
+export function groupJobsByBatch(jobs: LiteFoldJob[], batches: LiteFoldBatch[]): JobsTableEntry[] {
+  const batchesById = new Map(batches.map(batch => [batch.batch_id, batch]));
+  const entries: JobsTableEntry[] = [];
+  const batchEntries = new Map<string, { type: 'batch'; batch: LiteFoldBatch; jobs: LiteFoldJob[] }>();
+
+  for (const job of jobs) {
+    const batch = job.batch_id ? batchesById.get(job.batch_id) : undefined;
+    if (!batch) {
+      entries.push({ type: 'job', job });
+      continue;
+    }
+
+    let entry = batchEntries.get(batch.batch_id);
+    if (!entry) {
+      entry = { type: 'batch', batch, jobs: [] };
+      batchEntries.set(batch.batch_id, entry);
+      entries.push(entry);
+    }
+    entry.jobs.push(job);
+  }
+
+  return entries;
 }
 
 interface JobsState {
   jobs: LiteFoldJob[];
+  batches: LiteFoldBatch[];
   formData: JobFormData;
   setJobs: (jobs: LiteFoldJob[]) => void;
   addJob: (job: LiteFoldJob) => void;
   setFormData: (data: Partial<JobFormData>) => void;
   resetFormData: () => void;
+  cloneJob: (job: LiteFoldJob) => void;
   submitJob: () => Promise<void>;
+  submitBatch: (
+    rows: BatchRow[],
+    details: { name: string; description: string },
+    onProgress?: (completed: number, total: number) => void
+  ) => Promise<BatchSubmissionResult>;
   fetchJobs: () => Promise<void>;
   updateJobStatus: (jobId: string) => Promise<void>;
+  patchJob: (jobId: string, changes: Partial<LiteFoldJob>) => void;
+  watchJobs: (userId: string) => () => void;
+  realtimeStatus: 'off' | 'connecting' | 'live' | 'polling';
   deleteJob: (jobId: string) => Promise<void>;
+  cancelJob: (jobId: string) => Promise<void>;
+  cancelBatch: (batchId: string) => Promise<number>;
+  deleteBatch: (batchId: string) => Promise<void>;
   isLoading: boolean;
 }
 
@@ -47,12 +132,15 @@ const initialFormData: JobFormData = {
   name: "",
   description: "",
   inputString: "",
-  selectedModel: "alphafold2",
+  selectedModel: DEFAULT_MODEL_ID,
+  parentJobId: null,
 };
 
 export const useJobsStore = create<JobsState>((set, get) => ({
   jobs: [],
+  batches: [],
   isLoading: false,
+  realtimeStatus: 'off',
   formData: initialFormData,
   setJobs: (jobs) => set({ jobs }),
   addJob: (job) => set((state) => ({ jobs: [...state.jobs, job] })),
@@ -61,6 +149,21 @@ export const useJobsStore = create<JobsState>((set, get) => ({
   })),
   resetFormData: () => set({ formData: initialFormData }),
 
+  // Pre-fill the job form with a job's inputs; submitting creates a new job linked to it
+  cloneJob: (job) => {
+    const iteration = getJobLineage(get().jobs, job.job_id).length + 1;
+    const baseName = job.job_name.replace(/ \(v\d+\)$/, '');
+    set({
+      formData: {
+        name: `${baseName} (v${iteration})`,
+        description: job.job_desc,
+        inputString: job.sequence,
+        selectedModel: job.model,
+        parentJobId: job.job_id,
+      }
+    });
+  },
+
   submitJob: async () => {
     const { formData } = get();
     const jobId = uuidv4();
@@ -87,6 +190,9 @@ export const useJobsStore = create<JobsState>((set, get) => ({
         });
       }
 
+      // Jobs remember the server they ran on so later lookups go there
+      const profileId = getActiveServerProfileId();
+
       // Create job in Supabase first
       const { data, error: dbError } = await supabase
         .from('litefold-jobs')
@@ -98,7 +204,9 @@ export const useJobsStore = create<JobsState>((set, get) => ({
           sequence: formData.inputString, // Store original sequence in DB
           status: 'pending',
           created_at: new Date().toISOString(),
-          user_id: user.id
+          user_id: user.id,
+          server_profile_id: profileId,
+          parent_job_id: formData.parentJobId
         })
         .select()
         .single();
@@ -114,7 +222,8 @@ export const useJobsStore = create<JobsState>((set, get) => ({
         jobName: formData.name,
         model: formData.selectedModel,
         sequence: formData.inputString, // Service will preprocess
-        userId: user.id
+        userId: user.id,
+        profileId
       });
       
       if (!response.success) {
@@ -148,6 +257,93 @@ export const useJobsStore = create<JobsState>((set, get) => ({
     }
   },
 
+  submitBatch: async (rows, details, onProgress) => {
+    const batchId = uuidv4();
+    const profileId = getActiveServerProfileId();
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to submit a job');
+    }
+
+    // Create the parent batch record before any of its jobs
+    const { error: batchError } = await supabase
+      .from('litefold-batches')
+      .insert({
+        batch_id: batchId,
+        batch_name: details.name,
+        batch_desc: details.description,
+        job_count: rows.length,
+        created_at: new Date().toISOString(),
+        user_id: user.id
+      });
+
+    if (batchError) {
+      console.error('Supabase error:', batchError);
+      throw new Error(batchError.message);
+    }
+
+    const results = await runRateLimited(rows, async (row) => {
+      const jobId = uuidv4();
+
+      // Every row becomes its own job record, grouped by the shared batch id
+      const { error: dbError } = await supabase
+        .from('litefold-jobs')
+        .insert({
+          job_id: jobId,
+          job_name: row.name,
+          job_desc: row.description,
+          model: row.model,
+          sequence: row.sequence,
+          status: 'pending',
+          created_at: new Date().toISOString(),
+          user_id: user.id,
+          batch_id: batchId,
+          server_profile_id: profileId
+        });
+
+      if (dbError) {
+        console.error('Supabase error:', dbError);
+        return { name: row.name, error: dbError.message };
+      }
+
+      const response = await submitSequenceForPrediction({
+        jobId,
+        jobName: row.name,
+        model: row.model,
+        sequence: row.sequence,
+        userId: user.id,
+        profileId
+      });
+
+      if (!response.success) {
+        await supabase
+          .from('litefold-jobs')
+          .update({
+            status: 'error',
+            error_message: response.error || 'Unknown error during submission'
+          })
+          .eq('job_id', jobId);
+
+        return { name: row.name, error: response.error || 'Unknown error during submission' };
+      }
+
+      return null;
+    }, { onProgress });
+
+    const failed = results.filter((result): result is { name: string; error: string } => result !== null);
+
+    get().fetchJobs();
+
+    return {
+      batchId,
+      submitted: rows.length - failed.length,
+      failed
+    };
+  },
+
   fetchJobs: async () => {
     set({ isLoading: true });
     try {
@@ -158,14 +354,26 @@ export const useJobsStore = create<JobsState>((set, get) => ({
         throw new Error('You must be logged in to view jobs');
       }
 
-      const { data, error } = await supabase
-        .from('litefold-jobs')
-        .select('*')
-        .eq('user_id', user.id)  // Only fetch jobs for current user
-        .order('created_at', { ascending: false });
+      const [jobsResult, batchesResult] = await Promise.all([
+        supabase
+          .from('litefold-jobs')
+          .select('*')
+          .eq('user_id', user.id)  // Only fetch jobs for current user
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('litefold-batches')
+          .select('*')
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: false }),
+      ]);
 
-      if (error) throw error;
-      set({ jobs: data });
+      if (jobsResult.error) throw jobsResult.error;
+      // Batches only group the list; show jobs ungrouped rather than nothing
+      // when the table is missing or unreadable
+      if (batchesResult.error) {
+        console.warn('Error fetching batches:', batchesResult.error);
+      }
+      set({ jobs: jobsResult.data, batches: batchesResult.error ? [] : batchesResult.data });
     } catch (error) {
       console.error('Error fetching jobs:', error);
       setTimeout(() => {
@@ -187,16 +395,19 @@ export const useJobsStore = create<JobsState>((set, get) => ({
 
       // Add error handling for fetch
       try {
-        // Use apiClient instead of direct fetch with proper type
-        interface JobStatusResponse {
-          job_id: string;
-          status: string;
-          completed_at?: string;
-          error_message?: string;
+        // Attempt to get job status from the server the job was submitted to.
+        // Without that server's profile there is no one to ask, and any other
+        // server would answer 404; the job is shown as server unavailable.
+        const current = get().jobs.find(job => job.job_id === jobId);
+        if (current && !isServerProfileAvailable(getJobProfileId(current))) {
+          return;
         }
+        const data = await api.getJobStatus(jobId, current && getJobProfileId(current));
         
-        // Attempt to get job status
-        const data = await apiClient.get<JobStatusResponse>(`jobs/${jobId}/status`);
+        // Nothing to write if the status did not move
+        if (current && current.status === data.status) {
+          return;
+        }
         
         const { error } = await supabase
           .from('litefold-jobs')
@@ -209,23 +420,22 @@ export const useJobsStore = create<JobsState>((set, get) => ({
 
         if (error) throw error;
 
-        // Show toast for completed jobs
-        if (data.status === 'successful' || data.status === 'crashed') {
-          setTimeout(() => {
-            if (data.status === 'successful') {
-              toast.success(`Job ${jobId} completed successfully!`);
-            } else {
-              toast.error(`Job ${jobId} failed: ${data.error_message || 'Unknown error'}`);
-            }
-          }, 0);
-        }
-
-        get().fetchJobs();
+        get().patchJob(jobId, {
+          status: data.status,
+          completed_at: data.completed_at,
+          error_message: data.error_message,
+        });
       } catch (fetchError) {
         console.error('Error fetching job status:', fetchError);
         
-        // Check if it's a 404 error (job not found on server)
-        if (fetchError instanceof Error && fetchError.message.includes('404')) {
+        // The server answered, just not in the expected shape; that says
+        // nothing about the job, so its status is left alone
+        if (fetchError instanceof ApiSchemaError) {
+          return;
+        }
+        
+        // Check if it's a 404 error (job not found on the server it was submitted to)
+        if (fetchError instanceof ApiError && fetchError.isNotFound) {
           console.warn(`Job ${jobId} not found on server`);
           
           // Mark job as error state in the database
@@ -237,7 +447,7 @@ export const useJobsStore = create<JobsState>((set, get) => ({
             .eq('job_id', jobId)
             .eq('user_id', user.id);
             
-          get().fetchJobs();
+          get().patchJob(jobId, { status: 'error' });
           return;
         }
         
@@ -246,12 +456,7 @@ export const useJobsStore = create<JobsState>((set, get) => ({
         
         // Only update job status to error if it's been in a pending state for a while
         // This helps avoid marking jobs as error just because of temporary network issues
-        const { data: jobData } = await supabase
-          .from('litefold-jobs')
-          .select('status, created_at')
-          .eq('job_id', jobId)
-          .eq('user_id', user.id)
-          .single();
+        const jobData = get().jobs.find(job => job.job_id === jobId);
           
         // If job has been pending for more than 10 minutes, mark as error
         if (jobData && jobData.status === 'pending') {
@@ -269,7 +474,7 @@ export const useJobsStore = create<JobsState>((set, get) => ({
               .eq('user_id', user.id);
               
             if (!error) {
-              get().fetchJobs();
+              get().patchJob(jobId, { status: 'error' });
             }
           }
         }
@@ -279,6 +484,110 @@ export const useJobsStore = create<JobsState>((set, get) => ({
     }
   },
 
+  patchJob: (jobId, changes) => {
+    const previous = get().jobs.find(job => job.job_id === jobId);
+    if (!previous) return;
+
+    set(state => ({
+      jobs: state.jobs.map(job => job.job_id === jobId ? { ...job, ...changes } : job)
+    }));
+
+    // Only notify on the transition out of an active state, so the same
+    // completion seen again via realtime or polling stays silent
+    const status = changes.status;
+    if (!status || !isActiveJobStatus(previous.status) || isActiveJobStatus(status)) {
+      return;
+    }
+
+    setTimeout(() => {
+      if (status === 'successful') {
+        toast.success(`Job ${previous.job_name || jobId} completed successfully!`);
+      } else if (status === 'crashed' || status === 'error') {
+        toast.error(`Job ${previous.job_name || jobId} failed: ${changes.error_message || previous.error_message || 'Unknown error'}`);
+      }
+    }, 0);
+  },
+
+  watchJobs: (userId: string) => {
+    let pollTimer: ReturnType<typeof setTimeout> | null = null;
+    let pollDelay = POLL_INITIAL_DELAY_MS;
+    let stopped = false;
+
+    // Poll the API for every active job, backing off while nothing changes
+    const poll = async () => {
+      const before = get().jobs.map(job => `${job.job_id}:${job.status}`).join();
+      const activeJobs = get().jobs.filter(job => isActiveJobStatus(job.status) && isServerProfileAvailable(getJobProfileId(job)));
+
+      await Promise.all(activeJobs.map(job => get().updateJobStatus(job.job_id)));
+
+      const after = get().jobs.map(job => `${job.job_id}:${job.status}`).join();
+      pollDelay = before === after
+        ? Math.min(pollDelay * 2, POLL_MAX_DELAY_MS)
+        : POLL_INITIAL_DELAY_MS;
+
+      if (!stopped && get().realtimeStatus === 'polling') {
+        pollTimer = setTimeout(poll, pollDelay);
+      }
+    };
+
+    const startPolling = () => {
+      if (stopped || pollTimer) return;
+      set({ realtimeStatus: 'polling' });
+      pollDelay = POLL_INITIAL_DELAY_MS;
+      pollTimer = setTimeout(poll, pollDelay);
+    };
+
+    const stopPolling = () => {
+      if (pollTimer) {
+        clearTimeout(pollTimer);
+        pollTimer = null;
+      }
+    };
+
+    set({ realtimeStatus: 'connecting' });
+
+    const channel = supabase
+      .channel(`litefold-jobs-${userId}`)
+      .on<LiteFoldJob>(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'litefold-jobs', filter: `user_id=eq.${userId}` },
+        (payload) => {
+          if (payload.eventType === 'INSERT') {
+            set(state => state.jobs.some(job => job.job_id === payload.new.job_id)
+              ? state
+              : { jobs: [payload.new, ...state.jobs] });
+          } else if (payload.eventType === 'UPDATE') {
+            const { job_id, ...changes } = payload.new;
+            get().patchJob(job_id, changes);
+          } else if (payload.eventType === 'DELETE') {
+            // Deletes only carry the primary key unless replica identity is full
+            const removedId = payload.old.id;
+            set(state => ({ jobs: state.jobs.filter(job => job.id !== removedId) }));
+          }
+        }
+      )
+      .subscribe((status, error) => {
+        if (status === 'SUBSCRIBED') {
+          stopPolling();
+          set({ realtimeStatus: 'live' });
+          // Catch up on anything that changed before the subscription was live
+          get().fetchJobs();
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+          if (error) {
+            console.warn('Realtime job updates unavailable, falling back to polling:', error);
+          }
+          startPolling();
+        }
+      });
+
+    return () => {
+      stopped = true;
+      stopPolling();
+      supabase.removeChannel(channel);
+      set({ realtimeStatus: 'off' });
+    };
+  },
+
   deleteJob: async (jobId: string) => {
     try {
       // Get current user
@@ -288,11 +597,12 @@ export const useJobsStore = create<JobsState>((set, get) => ({
         throw new Error('You must be logged in to delete jobs');
       }
 
-      // Call the API to delete the job using apiClient with the correct endpoint
-      const response = await apiClient.post<DeleteJobResponse>('jobs/delete', {
+      // Call the API to delete the job
+      const job = get().jobs.find(j => j.job_id === jobId);
+      const response = await api.deleteJob({
         job_id: jobId,
         user_id: user.id
-      });
+      }, job && getJobProfileId(job));
 
       // Check API response for success
       if (!response.success) {
@@ -320,4 +630,92 @@ export const useJobsStore = create<JobsState>((set, get) => ({
       throw error;
     }
   },
-})); 
\ No newline at end of file
+
+  cancelJob: async (jobId: string) => {
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to cancel jobs');
+    }
+
+    const job = get().jobs.find(j => j.job_id === jobId);
+    if (!job || !serverSupports(useServerStore.getState().health, getJobProfileId(job), 'cancel')) {
+      throw new Error('The server of this job does not support cancelling');
+    }
+
+    // Show the job as cancelled right away and roll back if the server refuses
+    get().patchJob(jobId, { status: 'cancelled' });
+
+    try {
+      const response = await api.cancelJob({
+        job_id: jobId,
+        user_id: user.id
+      }, getJobProfileId(job));
+
+      if (!response.success) {
+        throw new Error(response.error_message || 'API cancellation failed');
+      }
+
+      const { error: dbError } = await supabase
+        .from('litefold-jobs')
+        .update({ status: 'cancelled' })
+        .eq('job_id', jobId)
+        .eq('user_id', user.id);
+
+      if (dbError) throw dbError;
+    } catch (error) {
+      get().patchJob(jobId, { status: job.status });
+      throw error;
+    }
+  },
+
+  cancelBatch: async (batchId: string) => {
+    // Jobs on servers that cannot cancel are left running
+    const { health } = useServerStore.getState();
+    const activeJobs = get().jobs.filter(job =>
+      job.batch_id === batchId && isActiveJobStatus(job.status) && serverSupports(health, getJobProfileId(job), 'cancel'));
+
+    const results = await Promise.allSettled(activeJobs.map(job => get().cancelJob(job.job_id)));
+    const failures = results.filter(result => result.status === 'rejected');
+
+    if (failures.length > 0) {
+      console.error('Error cancelling batch jobs:', failures);
+      throw new Error(`Failed to cancel ${failures.length} of ${activeJobs.length} jobs`);
+    }
+
+    return activeJobs.length;
+  },
+
+  deleteBatch: async (batchId: string) => {
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to delete jobs');
+    }
+
+    const batchJobs = get().jobs.filter(job => job.batch_id === batchId);
+
+    // Delete jobs one by one so the API cleans up their results too
+    const results = await Promise.allSettled(batchJobs.map(job => get().deleteJob(job.job_id)));
+    const failures = results.filter(result => result.status === 'rejected');
+
+    if (failures.length > 0) {
+      console.error('Error deleting batch jobs:', failures);
+      throw new Error(`Failed to delete ${failures.length} of ${batchJobs.length} jobs`);
+    }
+
+    const { error: dbError } = await supabase
+      .from('litefold-batches')
+      .delete()
+      .eq('batch_id', batchId)
+      .eq('user_id', user.id);
+
+    if (dbError) throw dbError;
+
+    set(state => ({
+      batches: state.batches.filter(batch => batch.batch_id !== batchId)
+    }));
+  },
+}));
@@ -0,0 +1,47 @@
+import { create } from 'zustand'
+import { api } from '@/lib/api'
+import { getServerProfile } from '@/lib/config'
+import { BUILTIN_MODELS, ModelCapabilities, buildModelRegistry, findModel } from '@/lib/models'
+import { useServerStore } from './serverStore'
+
+interface ModelsState {
+  models: ModelCapabilities[]
+  profileId: string | null     // Profile the registry was loaded for
+  isLoading: boolean
+  loadModels: (profileId: string) => Promise<void>
+  getModel: (modelId: string | null | undefined) => ModelCapabilities | undefined
+}
+
+// Profile of the latest loadModels call; answers for an earlier one are dropped
+let requestedProfileId: string | null = null
+
+export const useModelsStore = create<ModelsState>((set, get) => ({
+  models: buildModelRegistry(null, getServerProfile().models),
+  profileId: null,
+  isLoading: false,
+
+  // Prefer the server's own model descriptions; servers without a models
+  // endpoint fall back to the ids from /health, then the profile's list
+  loadModels: async (profileId) => {
+    requestedProfileId = profileId;
+    set({ isLoading: true });
+
+    try {
+      const remote = await api.getModels(profileId);
+      if (requestedProfileId !== profileId) return;
+      set({ models: buildModelRegistry(remote), profileId });
+    } catch (error) {
+      if (requestedProfileId !== profileId) return;
+      console.warn('Model list unavailable, using built-in registry:', error);
+      const servedIds = useServerStore.getState().health[profileId]?.models
+        || getServerProfile(profileId).models;
+      set({ models: servedIds.length > 0 ? buildModelRegistry(null, servedIds) : BUILTIN_MODELS, profileId });
+    } finally {
+      if (requestedProfileId === profileId) {
+        set({ isLoading: false });
+      }
+    }
+  },
+
+  getModel: (modelId) => findModel(get().models, modelId),
+}))
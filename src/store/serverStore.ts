@@ -0,0 +1,137 @@
+import { create } from 'zustand'
+import { api } from '@/lib/api'
+import {
+  ServerProfile,
+  DEFAULT_PROFILE_ID,
+  getServerProfiles,
+  saveServerProfiles,
+  getActiveServerProfileId,
+  setActiveServerProfileId,
+} from '@/lib/config'
+
+// How often every profile's /health endpoint is polled
+const HEALTH_CHECK_INTERVAL_MS = 30000;
+
+export interface ServerHealth {
+  online: boolean
+  latencyMs: number | null
+  gpuAvailable: boolean | null
+  gpuName: string | null
+  gpuMemoryUsed: number | null
+  gpuMemoryTotal: number | null
+  models: string[] | null   // Models the server reports as loaded, if it says
+  features: string[]        // Optional routes the server reports, see ServerFeature
+  error: string | null
+  checkedAt: string
+}
+
+// Optional backend routes the UI only offers where /health lists them
+export type ServerFeature = 'cancel'
+
+/**
+ * Whether the server a job was submitted to (null for the default server)
+ * reported `feature` in its last health check
+ */
+export function serverSupports(health: Record<string, ServerHealth>, profileId: string | null, feature: ServerFeature): boolean {
+  return health[profileId ?? DEFAULT_PROFILE_ID]?.features.includes(feature) ?? false
+}
+
+interface ServerState {
+  profiles: ServerProfile[]
+  activeProfileId: string
+  health: Record<string, ServerHealth>
+  setActiveProfile: (profileId: string) => void
+  saveProfile: (profile: ServerProfile) => void
+  removeProfile: (profileId: string) => void
+  checkHealth: (profileId: string) => Promise<ServerHealth>
+  checkAllHealth: () => Promise<void>
+  startHealthMonitor: () => () => void
+}
+
+export const useServerStore = create<ServerState>((set, get) => ({
+  profiles: getServerProfiles(),
+  activeProfileId: getActiveServerProfileId(),
+  health: {},
+
+  setActiveProfile: (profileId) => {
+    setActiveServerProfileId(profileId);
+    set({ activeProfileId: profileId });
+  },
+
+  saveProfile: (profile) => {
+    const exists = get().profiles.some(p => p.id === profile.id);
+    const profiles = exists
+      ? get().profiles.map(p => (p.id === profile.id ? profile : p))
+      : [...get().profiles, profile];
+
+    saveServerProfiles(profiles);
+    set({ profiles });
+    get().checkHealth(profile.id);
+  },
+
+  removeProfile: (profileId) => {
+    if (profileId === DEFAULT_PROFILE_ID) {
+      throw new Error('The default server cannot be removed');
+    }
+
+    const profiles = get().profiles.filter(p => p.id !== profileId);
+    saveServerProfiles(profiles);
+
+    const health = { ...get().health };
+    delete health[profileId];
+    set({ profiles, health });
+
+    // Fall back to the default server if the active one was removed
+    if (get().activeProfileId === profileId) {
+      get().setActiveProfile(DEFAULT_PROFILE_ID);
+    }
+  },
+
+  checkHealth: async (profileId) => {
+    const started = performance.now();
+    let health: ServerHealth;
+
+    try {
+      const data = await api.getHealth(profileId);
+      health = {
+        online: true,
+        latencyMs: Math.round(performance.now() - started),
+        gpuAvailable: data.gpu_available ?? null,
+        gpuName: data.gpu_name ?? null,
+        gpuMemoryUsed: data.gpu_memory_used ?? null,
+        gpuMemoryTotal: data.gpu_memory_total ?? null,
+        models: data.models ?? null,
+        features: data.features ?? [],
+        error: null,
+        checkedAt: new Date().toISOString(),
+      };
+    } catch (error) {
+      health = {
+        online: false,
+        latencyMs: null,
+        gpuAvailable: null,
+        gpuName: null,
+        gpuMemoryUsed: null,
+        gpuMemoryTotal: null,
+        models: null,
+        features: [],
+        error: error instanceof Error ? error.message : 'Health check failed',
+        checkedAt: new Date().toISOString(),
+      };
+    }
+
+    set(state => ({ health: { ...state.health, [profileId]: health } }));
+    return health;
+  },
+
+  checkAllHealth: async () => {
+    await Promise.all(get().profiles.map(profile => get().checkHealth(profile.id)));
+  },
+
+  // Poll all profiles in the background; returns a function that stops it
+  startHealthMonitor: () => {
+    get().checkAllHealth();
+    const intervalId = setInterval(() => get().checkAllHealth(), HEALTH_CHECK_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  },
+}))
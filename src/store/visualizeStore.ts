@@ -1,21 +1,19 @@
 import { create } from 'zustand'
-import { Molecule } from '@/utils/pdbParser'
-import { ViewMode, ColorScheme, ViewerState } from '@/types/viewer'
+import { Molecule } from '@/utils/structure'
+import { AlignedPair } from '@/utils/structureAlignment'
+import { PAEData } from '@/utils/pae'
+import { loadStoredMeasurements, saveStoredMeasurements } from '@/utils/measurements'
+import { ViewMode, ColorScheme, ViewerState, ResidueRef, ResidueSelection, Measurement } from '@/types/viewer'
 import { toast } from 'sonner'
+import { Distogram as DistogramData } from '@/lib/api-schema'
+import { hashString } from '@/lib/utils'
 
-// Define the distogram data interface to match the backend format
-interface DistogramData {
-  distance_matrix: number[][];
-  bin_edges: number[];
-  max_distance: number;
-  num_bins: number;
-}
 
 // Define limits for PDB uploads and job visualizations
 const MAX_UPLOADS = 3;
 const MAX_JOBS = 3;
 
-interface Structure {
+export interface Structure {
   id: string;
   pdbData: string;
   source: 'file' | 'job' | 'aligned';
@@ -23,6 +21,7 @@ interface Structure {
   name: string;
   metadata?: {
     distogram?: number[][] | number[] | DistogramData;
+    pae?: PAEData;
     plddt_score?: number;
     created_at?: string;
     completed_at?: string;
@@ -31,15 +30,78 @@ interface Structure {
     model?: string;
     aligned_pdb_content?: string;
     job_id?: string;
+    server_profile_id?: string;
+    tm_score?: number;
+    rmsd?: number;
   };
 }
 
+/**
+ * Server job id of a job structure. Structure ids are "job-<uuid>-<timestamp>";
+ * structures loaded before metadata.job_id existed only carry the id.
+ */
+export function getStructureJobId(structure: Structure): string {
+  if (structure.metadata?.job_id) return structure.metadata.job_id;
+
+  const id = structure.id.startsWith('job-') ? structure.id.substring(4) : structure.id;
+  const match = id.match(/^([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})/i);
+  return match ? match[1] : id;
+}
+
+/**
+ * Server profile a job structure was fetched from. Structures loaded before
+ * it was recorded give undefined, which requests read as the active profile.
+ */
+export function getStructureProfileId(structure: Structure): string | undefined {
+  return structure.metadata?.server_profile_id;
+}
+
+// Content keys of loaded structures, so large files are hashed once
+const contentKeys = new WeakMap<Structure, string>();
+
+/**
+ * Key measurements are stored under. Structure ids change on every load, so
+ * job structures are keyed by job and uploads by a hash of the file, which
+ * files of the same name with other coordinates do not share. Aligned
+ * structures are regenerated by every comparison and keyed by id.
+ */
+export function getMeasurementKey(structure: Structure): string {
+  if (structure.source === 'job') {
+    return `job:${getStructureJobId(structure)}`;
+  }
+  if (structure.source === 'aligned') {
+    return `aligned:${structure.id}`;
+  }
+
+  let key = contentKeys.get(structure);
+  if (!key) {
+    key = `content:${hashString(structure.pdbData)}`;
+    contentKeys.set(structure, key);
+  }
+  return key;
+}
+
+// Only job and upload measurements are kept across reloads; this also drops
+// lists saved under the file name by earlier versions
+const isStoredMeasurementKey = (key: string): boolean => key.startsWith('job:') || key.startsWith('content:');
+
+const storeMeasurements = (measurements: Record<string, Measurement[]>) => {
+  saveStoredMeasurements(Object.fromEntries(
+    Object.entries(measurements).filter(([key]) => isStoredMeasurementKey(key))
+  ));
+};
+
 interface ComparisonResult {
-  structureA: string; // ID of first structure
-  structureB: string; // ID of second structure
-  tmScore: number;
+  structureA: string; // ID of first structure (the reference)
+  structureB: string; // ID of second structure, superposed onto the first
+  tmScore: number;    // Normalized by structure A
+  tmScoreB?: number;  // Normalized by structure B
   rmsd: number;
-  caAtomsCount: number;
+  caAtomsCount: number; // Aligned residues
+  gdtTs?: number;
+  sequenceIdentity?: number;
+  alignment?: AlignedPair[];
+  alignedStructureId?: string; // Loaded copy of B superposed onto A
 }
 
 interface VisualizeState {
@@ -49,12 +111,16 @@ interface VisualizeState {
   viewerState: ViewerState;
   structureComparison: ComparisonResult | null;
   compareStructureIds: string[] | null; // IDs of structures to compare
+  highlightedResidues: ResidueRef[]; // Residues hovered in an analysis plot
+  selection: ResidueSelection | null; // Residues selected in the sequence, distogram or 3D viewer
+  measurements: Record<string, Measurement[]>; // By getMeasurementKey of the structure
   setFiles: (files: { file: File; molecule?: Molecule }[]) => void;
   addFiles: (files: { file: File; molecule?: Molecule }[]) => void;
   updateFile: (index: number, data: { molecule?: Molecule }) => void;
   setSelectedFileIndex: (index: number | null) => void;
   setLoadedStructures: (structures: Structure[]) => void;
   addLoadedStructures: (structures: Structure[]) => void;
+  setAlignedStructure: (structure: Structure) => void;  // Replaces the previous aligned structure
   removeStructureById: (id: string) => void;
   deleteLoadedStructure: (index: number) => void;
   setViewerState: (state: Partial<ViewerState>) => void;
@@ -63,6 +129,11 @@ interface VisualizeState {
   getSelectedStructure: () => Structure | null;
   setCompareStructureIds: (ids: string[] | null) => void;
   setStructureComparison: (result: ComparisonResult | null) => void;
+  setHighlightedResidues: (residues: ResidueRef[]) => void;
+  setSelection: (selection: ResidueSelection | null) => void;
+  addMeasurement: (structure: Structure, measurement: Measurement) => void;
+  removeMeasurement: (structure: Structure, id: string) => void;
+  clearMeasurements: (structure: Structure) => void;
   canAddMoreFiles: () => boolean;
   canAddMoreJobs: () => boolean;
   getCurrentUploadCount: () => number;
@@ -75,12 +146,18 @@ export const useVisualizeStore = create<VisualizeState>((set, get) => ({
   loadedStructures: [],
   structureComparison: null,
   compareStructureIds: null,
+  highlightedResidues: [],
+  selection: null,
+  measurements: Object.fromEntries(
+    Object.entries(loadStoredMeasurements()).filter(([key]) => isStoredMeasurementKey(key))
+  ),
   viewerState: {
     viewMode: 'default',
     colorScheme: 'DEFAULT',
     atomSize: 1.0,
     showLigand: true,
-    showWaterIon: false
+    showWaterIon: false,
+    plddtThreshold: 0
   },
   setFiles: (files) => set({ files }),
   addFiles: (newFiles) => set((state) => {
@@ -98,8 +175,31 @@ export const useVisualizeStore = create<VisualizeState>((set, get) => ({
   }),
   setSelectedFileIndex: (index) => set({ selectedFileIndex: index }),
   setLoadedStructures: (structures) => set({ loadedStructures: structures }),
+  setAlignedStructure: (structure) => set((state) => ({
+    loadedStructures: [...state.loadedStructures.filter(s => s.source !== 'aligned'), structure]
+  })),
   setCompareStructureIds: (ids) => set({ compareStructureIds: ids }),
   setStructureComparison: (result) => set({ structureComparison: result }),
+  setHighlightedResidues: (residues) => set({ highlightedResidues: residues }),
+  setSelection: (selection) => set({ selection }),
+  addMeasurement: (structure, measurement) => set((state) => {
+    const key = getMeasurementKey(structure);
+    const measurements = { ...state.measurements, [key]: [...(state.measurements[key] || []), measurement] };
+    storeMeasurements(measurements);
+    return { measurements };
+  }),
+  removeMeasurement: (structure, id) => set((state) => {
+    const key = getMeasurementKey(structure);
+    const measurements = { ...state.measurements, [key]: (state.measurements[key] || []).filter(m => m.id !== id) };
+    storeMeasurements(measurements);
+    return { measurements };
+  }),
+  clearMeasurements: (structure) => set((state) => {
+    const measurements = { ...state.measurements };
+    delete measurements[getMeasurementKey(structure)];
+    storeMeasurements(measurements);
+    return { measurements };
+  }),
   addLoadedStructures: (newStructures) => set((state) => {
     // Log structures being added
     console.log('visualizeStore: Adding structures:', newStructures.map(s => ({
@@ -1,6 +1,6 @@
 export type ViewMode = 'default' | 'cartoon' | 'spacefill' | 'licorice' | 'surface';
 
-export type ColorScheme = 'DEFAULT' | 'CHAIN' | 'RESIDUE' | 'ELEMENT' | 'BFACTOR' | 'SEQUENCE';
+export type ColorScheme = 'DEFAULT' | 'CHAIN' | 'RESIDUE' | 'ELEMENT' | 'BFACTOR' | 'SEQUENCE' | 'DEVIATION' | 'PLDDT' | 'EXPOSURE';
 
 export interface ViewerState {
   viewMode: ViewMode;
@@ -8,5 +8,42 @@ export interface ViewerState {
   atomSize: number;
   showLigand: boolean;
   showWaterIon: boolean;
-  selectedResidues?: number[];
-} 
\ No newline at end of file
+  plddtThreshold?: number;    // Predicted residues below this pLDDT are hidden, 0 shows all
+} 
+
+/** A residue of one of the loaded structures */
+export interface ResidueRef {
+  structureId: string;
+  chain: string;
+  residueId: number;
+  insertionCode: string;   // '' if none
+}
+
+/** Residues selected in one view, shown by all of them */
+export interface ResidueSelection {
+  residues: ResidueRef[];
+  origin: 'sequence' | 'distogram' | 'viewer' | 'interface';   // View the selection was made in
+  pair?: [ResidueRef, ResidueRef];                              // Distogram cell, drawn as a distance in 3D
+}
+
+export type MeasurementKind = 'distance' | 'angle' | 'dihedral';
+
+/** An atom of a measurement, by name within its residue */
+export interface MeasuredAtom {
+  chain: string;
+  residueId: number;
+  insertionCode: string;   // '' if none
+  residueName: string;
+  atomName: string;
+}
+
+/** A distance, angle or dihedral between atoms picked in the 3D viewer */
+export interface Measurement {
+  id: string;
+  kind: MeasurementKind;
+  atoms: MeasuredAtom[];   // 2, 3 or 4 atoms in picking order
+  value: number;           // Å for distances, degrees for angles and dihedrals
+}
+
+/** Colors (0xRRGGBB) by residue, keyed by residueKey(chain, residueId, insertionCode) */
+export type ResidueColors = Record<string, number>;
@@ -0,0 +1,623 @@
+/**
+ * mmCIF and BinaryCIF support.
+ *
+ * Reads the `_atom_site` loop (plus secondary structure, sequence and
+ * connectivity categories when present) into the same `Molecule` model the
+ * PDB parser produces, and writes a `Molecule` back out as mmCIF.
+ * See https://mmcif.wwpdb.org and https://github.com/molstar/BinaryCIF
+ */
+import { decodeMsgPack } from 'molstar/lib/mol-io/common/msgpack/decode';
+import { decode } from 'molstar/lib/mol-io/common/binary-cif/decoder';
+import { EncodedColumn, EncodedFile } from 'molstar/lib/mol-io/common/binary-cif/encoding';
+import {
+  Atom,
+  Model,
+  Molecule,
+  ParseStructureOptions,
+  SecondaryStructureElement,
+  buildModel,
+} from './structure';
+import { capitalizeElement } from './pdbParser';
+
+// Field value; null for the CIF "." (inapplicable) and "?" (unknown) markers
+type CifValue = string | number | null;
+
+interface CifCategory {
+  rowCount: number;
+  /** Column by lower-case field name, e.g. "cartn_x" */
+  getColumn: (field: string) => ArrayLike<CifValue> | undefined;
+}
+
+interface CifBlock {
+  header: string;
+  /** Categories by lower-case name without the leading underscore, e.g. "atom_site" */
+  categories: Record<string, CifCategory>;
+}
+
+interface CifToken {
+  value: string;
+  quoted: boolean;            // Quoted strings and text fields are never keywords or markers
+}
+
+const isWhitespace = (char: string): boolean =>
+  char === ' ' || char === '\t' || char === '\n' || char === '\r';
+
+/**
+ * Split CIF text into tokens, handling comments, quoted strings and
+ * semicolon-delimited text fields
+ */
+function tokenizeCIF(content: string): CifToken[] {
+  const tokens: CifToken[] = [];
+  const length = content.length;
+  let i = 0;
+  let atLineStart = true;
+
+  while (i < length) {
+    const char = content[i];
+
+    if (char === '\n' || char === '\r') {
+      atLineStart = true;
+      i++;
+      continue;
+    }
+    if (char === ' ' || char === '\t') {
+      atLineStart = false;
+      i++;
+      continue;
+    }
+
+    if (char === '#') {
+      while (i < length && content[i] !== '\n' && content[i] !== '\r') i++;
+      continue;
+    }
+
+    // Text field: from a ";" at the start of a line to the next line starting with ";"
+    if (char === ';' && atLineStart) {
+      let end = content.indexOf('\n;', i + 1);
+      if (end < 0) end = length;
+      tokens.push({ value: content.substring(i + 1, end).replace(/\r$/, ''), quoted: true });
+      i = end + 2;
+      atLineStart = false;
+      continue;
+    }
+
+    // Quoted string: closes at a matching quote followed by whitespace
+    if (char === '\'' || char === '"') {
+      let end = i + 1;
+      while (end < length && !(content[end] === char && (end + 1 >= length || isWhitespace(content[end + 1])))) {
+        if (content[end] === '\n' || content[end] === '\r') break;
+        end++;
+      }
+      tokens.push({ value: content.substring(i + 1, end), quoted: true });
+      i = end + 1;
+      atLineStart = false;
+      continue;
+    }
+
+    let end = i;
+    while (end < length && !isWhitespace(content[end])) end++;
+    tokens.push({ value: content.substring(i, end), quoted: false });
+    i = end;
+    atLineStart = false;
+  }
+
+  return tokens;
+}
+
+const isKeyword = (token: CifToken): boolean => {
+  if (token.quoted) return false;
+  const lower = token.value.toLowerCase();
+  return token.value.startsWith('_')
+    || lower === 'loop_'
+    || lower.startsWith('data_')
+    || lower.startsWith('save_')
+    || lower === 'global_'
+    || lower === 'stop_';
+};
+
+const toCifValue = (token: CifToken): CifValue =>
+  !token.quoted && (token.value === '.' || token.value === '?') ? null : token.value;
+
+// "_atom_site.Cartn_x" -> ["atom_site", "cartn_x"]
+const splitFieldName = (name: string): [string, string] => {
+  const lower = name.substring(1).toLowerCase();
+  const dot = lower.indexOf('.');
+  return dot < 0 ? [lower, ''] : [lower.substring(0, dot), lower.substring(dot + 1)];
+};
+
+/**
+ * Parse CIF text into data blocks
+ */
+function parseCIFBlocks(content: string): CifBlock[] {
+  const tokens = tokenizeCIF(content);
+  const blocks: CifBlock[] = [];
+  // Columns of the current block, collected per category before wrapping
+  let columns: Record<string, Record<string, CifValue[]>> = {};
+
+  const finishBlock = () => {
+    const block = blocks[blocks.length - 1];
+    if (!block) return;
+    Object.entries(columns).forEach(([name, fields]) => {
+      const rowCount = Math.max(0, ...Object.values(fields).map(values => values.length));
+      block.categories[name] = { rowCount, getColumn: field => fields[field] };
+    });
+    columns = {};
+  };
+
+  const addValues = (fieldName: string, values: CifValue[]) => {
+    const [category, field] = splitFieldName(fieldName);
+    columns[category] = columns[category] || {};
+    columns[category][field] = values;
+  };
+
+  let index = 0;
+  while (index < tokens.length) {
+    const token = tokens[index];
+    const lower = token.quoted ? '' : token.value.toLowerCase();
+
+    if (lower.startsWith('data_')) {
+      finishBlock();
+      blocks.push({ header: token.value.substring(5), categories: {} });
+      index++;
+    } else if (lower === 'loop_') {
+      index++;
+      const fieldNames: string[] = [];
+      while (index < tokens.length && !tokens[index].quoted && tokens[index].value.startsWith('_')) {
+        fieldNames.push(tokens[index].value);
+        index++;
+      }
+
+      // Values fill the loop row by row
+      const values: CifValue[][] = fieldNames.map(() => []);
+      let valueIndex = 0;
+      while (index < tokens.length && !isKeyword(tokens[index])) {
+        values[valueIndex % fieldNames.length].push(toCifValue(tokens[index]));
+        valueIndex++;
+        index++;
+      }
+      fieldNames.forEach((fieldName, i) => addValues(fieldName, values[i]));
+    } else if (token.value.startsWith('_') && !token.quoted) {
+      const valueToken = tokens[index + 1];
+      addValues(token.value, valueToken && !isKeyword(valueToken) ? [toCifValue(valueToken)] : [null]);
+      index += valueToken && !isKeyword(valueToken) ? 2 : 1;
+    } else {
+      // save_ frames, global_ and stray values carry nothing we read
+      index++;
+    }
+  }
+  finishBlock();
+
+  return blocks;
+}
+
+/**
+ * Decode a BinaryCIF column, applying its mask of "." / "?" markers
+ */
+function decodeBinaryColumn(column: EncodedColumn): CifValue[] {
+  const values = decode(column.data) as ArrayLike<string | number>;
+  const mask = column.mask ? (decode(column.mask) as ArrayLike<number>) : null;
+  const result: CifValue[] = new Array(values.length);
+  for (let i = 0; i < values.length; i++) {
+    result[i] = mask && mask[i] !== 0 ? null : values[i];
+  }
+  return result;
+}
+
+/**
+ * Decode a BinaryCIF file into data blocks. Columns are decoded on first use,
+ * so categories we never read cost nothing.
+ */
+function parseBinaryCIFBlocks(data: ArrayBuffer | Uint8Array): CifBlock[] {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const file = decodeMsgPack(bytes) as EncodedFile;
+
+  if (!file || !Array.isArray(file.dataBlocks)) {
+    throw new Error('Not a BinaryCIF file');
+  }
+
+  return file.dataBlocks.map(block => {
+    const categories: Record<string, CifCategory> = {};
+
+    block.categories.forEach(category => {
+      const encoded = new Map(category.columns.map(column => [column.name.toLowerCase(), column]));
+      const decoded = new Map<string, CifValue[]>();
+
+      categories[category.name.replace(/^_/, '').toLowerCase()] = {
+        rowCount: category.rowCount,
+        getColumn: field => {
+          if (!decoded.has(field) && encoded.has(field)) {
+            decoded.set(field, decodeBinaryColumn(encoded.get(field)));
+          }
+          return decoded.get(field);
+        },
+      };
+    });
+
+    return { header: block.header, categories };
+  });
+}
+
+/**
+ * Accessor for a category's fields: each field name may list fallbacks
+ * (e.g. auth_asym_id, then label_asym_id) used when the value is missing
+ */
+function fieldReader(category: CifCategory | undefined) {
+  const columnCache = new Map<string, ArrayLike<CifValue> | undefined>();
+  const column = (field: string) => {
+    if (!columnCache.has(field)) {
+      columnCache.set(field, category?.getColumn(field));
+    }
+    return columnCache.get(field);
+  };
+
+  const value = (row: number, fields: string[]): CifValue => {
+    for (const field of fields) {
+      const fieldValue = column(field)?.[row];
+      if (fieldValue !== null && fieldValue !== undefined) return fieldValue;
+    }
+    return null;
+  };
+
+  return {
+    has: (field: string) => column(field) !== undefined,
+    str: (row: number, ...fields: string[]): string => {
+      const fieldValue = value(row, fields);
+      return fieldValue === null ? '' : String(fieldValue);
+    },
+    num: (row: number, fallback: number, ...fields: string[]): number => {
+      const fieldValue = value(row, fields);
+      const parsed = typeof fieldValue === 'number' ? fieldValue : parseFloat(fieldValue ?? '');
+      return isNaN(parsed) ? fallback : parsed;
+    },
+  };
+}
+
+const atomKey = (chain: string, residueId: number, insertionCode: string, atomName: string) =>
+  `${chain}:${residueId}${insertionCode}:${atomName}`;
+
+function readAtoms(block: CifBlock, options: ParseStructureOptions): Model[] {
+  const category = block.categories['atom_site'];
+  if (!category) return [];
+
+  const field = fieldReader(category);
+  const atomsByModel = new Map<number, Atom[]>();
+  const seenByModel = new Map<number, Set<string>>();
+  let skipped = 0;
+
+  for (let row = 0; row < category.rowCount; row++) {
+    const x = field.num(row, NaN, 'cartn_x');
+    const y = field.num(row, NaN, 'cartn_y');
+    const z = field.num(row, NaN, 'cartn_z');
+    if (isNaN(x) || isNaN(y) || isNaN(z)) {
+      skipped++;
+      continue;
+    }
+
+    const name = field.str(row, 'auth_atom_id', 'label_atom_id');
+    const elementSymbol = field.str(row, 'type_symbol');
+    const atom: Atom = {
+      id: field.num(row, row + 1, 'id'),
+      name,
+      altLoc: field.str(row, 'label_alt_id'),
+      element: capitalizeElement(elementSymbol || name.replace(/^[0-9]+/, '').charAt(0)),
+      charge: field.num(row, 0, 'pdbx_formal_charge'),
+      residue: field.str(row, 'auth_comp_id', 'label_comp_id'),
+      chain: field.str(row, 'auth_asym_id', 'label_asym_id'),
+      residueId: Math.trunc(field.num(row, 0, 'auth_seq_id', 'label_seq_id')),
+      insertionCode: field.str(row, 'pdbx_pdb_ins_code'),
+      position: [x, y, z],
+      occupancy: field.num(row, 1, 'occupancy'),
+      bFactor: field.num(row, 0, 'b_iso_or_equiv'),
+      isHetero: field.str(row, 'group_pdb').toUpperCase() === 'HETATM',
+    };
+
+    const modelId = field.num(row, 1, 'pdbx_pdb_model_num');
+    if (!atomsByModel.has(modelId)) {
+      atomsByModel.set(modelId, []);
+      seenByModel.set(modelId, new Set());
+    }
+
+    if (atom.altLoc && !options.allAltLocs) {
+      const seen = seenByModel.get(modelId);
+      const key = atomKey(atom.chain, atom.residueId, atom.insertionCode, atom.name);
+      if (seen.has(key)) continue;
+      seen.add(key);
+    }
+    atomsByModel.get(modelId).push(atom);
+  }
+
+  if (skipped > 0) {
+    console.warn(`Skipped ${skipped} atoms with invalid coordinates`);
+  }
+
+  return [...atomsByModel.entries()].map(([id, atoms]) => buildModel(id, atoms));
+}
+
+function readSecondaryStructure(block: CifBlock): SecondaryStructureElement[] {
+  const elements: SecondaryStructureElement[] = [];
+
+  const conf = block.categories['struct_conf'];
+  if (conf) {
+    const field = fieldReader(conf);
+    for (let row = 0; row < conf.rowCount; row++) {
+      if (!field.str(row, 'conf_type_id').toUpperCase().startsWith('HELX')) continue;
+      elements.push({
+        type: 'helix',
+        id: field.str(row, 'pdbx_pdb_helix_id', 'id'),
+        chain: field.str(row, 'beg_auth_asym_id', 'beg_label_asym_id'),
+        startResidueId: Math.trunc(field.num(row, 0, 'beg_auth_seq_id', 'beg_label_seq_id')),
+        startInsertionCode: field.str(row, 'pdbx_beg_pdb_ins_code'),
+        endResidueId: Math.trunc(field.num(row, 0, 'end_auth_seq_id', 'end_label_seq_id')),
+        endInsertionCode: field.str(row, 'pdbx_end_pdb_ins_code'),
+        helixClass: field.num(row, 1, 'pdbx_pdb_helix_class'),
+      });
+    }
+  }
+
+  // Strand sense relative to the previous strand, as in PDB SHEET records
+  const senses = new Map<string, number>();
+  const order = block.categories['struct_sheet_order'];
+  if (order) {
+    const field = fieldReader(order);
+    for (let row = 0; row < order.rowCount; row++) {
+      const sense = field.str(row, 'sense').toLowerCase();
+      senses.set(
+        `${field.str(row, 'sheet_id')}:${field.str(row, 'range_id_2')}`,
+        sense.startsWith('anti') ? -1 : sense === 'parallel' ? 1 : 0
+      );
+    }
+  }
+
+  const ranges = block.categories['struct_sheet_range'];
+  if (ranges) {
+    const field = fieldReader(ranges);
+    for (let row = 0; row < ranges.rowCount; row++) {
+      const sheetId = field.str(row, 'sheet_id');
+      const strandId = field.str(row, 'id');
+      elements.push({
+        type: 'sheet',
+        id: sheetId,
+        chain: field.str(row, 'beg_auth_asym_id', 'beg_label_asym_id'),
+        startResidueId: Math.trunc(field.num(row, 0, 'beg_auth_seq_id', 'beg_label_seq_id')),
+        startInsertionCode: field.str(row, 'pdbx_beg_pdb_ins_code'),
+        endResidueId: Math.trunc(field.num(row, 0, 'end_auth_seq_id', 'end_label_seq_id')),
+        endInsertionCode: field.str(row, 'pdbx_end_pdb_ins_code'),
+        strand: field.num(row, row + 1, 'id'),
+        sense: senses.get(`${sheetId}:${strandId}`) ?? 0,
+      });
+    }
+  }
+
+  return elements;
+}
+
+function readSeqres(block: CifBlock): Record<string, string[]> {
+  const seqres: Record<string, string[]> = {};
+  const scheme = block.categories['pdbx_poly_seq_scheme'];
+  if (!scheme) return seqres;
+
+  const field = fieldReader(scheme);
+  for (let row = 0; row < scheme.rowCount; row++) {
+    const chain = field.str(row, 'pdb_strand_id', 'asym_id');
+    seqres[chain] = seqres[chain] || [];
+    seqres[chain].push(field.str(row, 'mon_id'));
+  }
+  return seqres;
+}
+
+/**
+ * Covalent, disulfide and metal coordination bonds from `_struct_conn`,
+ * mapped to atom serial numbers of the first model
+ */
+function readBonds(block: CifBlock, model: Model | undefined): [number, number][] {
+  const connections = block.categories['struct_conn'];
+  if (!connections || !model) return [];
+
+  const atomIds = new Map<string, number>();
+  model.atoms.forEach(atom => {
+    const key = atomKey(atom.chain, atom.residueId, atom.insertionCode, atom.name);
+    if (!atomIds.has(key)) atomIds.set(key, atom.id);
+  });
+
+  const field = fieldReader(connections);
+  const partnerId = (row: number, partner: 1 | 2) => atomIds.get(atomKey(
+    field.str(row, `ptnr${partner}_auth_asym_id`, `ptnr${partner}_label_asym_id`),
+    Math.trunc(field.num(row, 0, `ptnr${partner}_auth_seq_id`, `ptnr${partner}_label_seq_id`)),
+    field.str(row, `pdbx_ptnr${partner}_pdb_ins_code`),
+    field.str(row, `ptnr${partner}_label_atom_id`)
+  ));
+
+  const bondKeys = new Set<string>();
+  const bonds: [number, number][] = [];
+  for (let row = 0; row < connections.rowCount; row++) {
+    if (field.str(row, 'conn_type_id').toLowerCase() === 'hydrog') continue;
+
+    const from = partnerId(row, 1);
+    const to = partnerId(row, 2);
+    if (from === undefined || to === undefined || from === to) continue;
+
+    const pair: [number, number] = from < to ? [from, to] : [to, from];
+    const key = `${pair[0]}-${pair[1]}`;
+    if (!bondKeys.has(key)) {
+      bondKeys.add(key);
+      bonds.push(pair);
+    }
+  }
+  return bonds;
+}
+
+function moleculeFromBlock(block: CifBlock | undefined, name: string, options: ParseStructureOptions): Molecule {
+  const models = block ? readAtoms(block, options) : [];
+
+  if (models.length === 0) {
+    console.warn(`No atoms found in CIF: ${name}`);
+  }
+
+  const title = block
+    ? fieldReader(block.categories['struct']).str(0, 'title') || undefined
+    : undefined;
+
+  return {
+    id: name,
+    name: name.replace(/\.(b?cif|mmcif)$/i, ''),
+    title,
+    atoms: models[0]?.atoms || [],
+    models,
+    secondaryStructure: block ? readSecondaryStructure(block) : [],
+    seqres: block ? readSeqres(block) : {},
+    bonds: block ? readBonds(block, models[0]) : [],
+  };
+}
+
+/**
+ * Parse the text of an mmCIF file. Only the first data block is read.
+ */
+export function parseCIFString(content: string, name = 'structure', options: ParseStructureOptions = {}): Molecule {
+  return moleculeFromBlock(parseCIFBlocks(content)[0], name, options);
+}
+
+/**
+ * Parse a BinaryCIF file. Only the first data block is read.
+ */
+export function parseBinaryCIF(data: ArrayBuffer | Uint8Array, name = 'structure', options: ParseStructureOptions = {}): Molecule {
+  return moleculeFromBlock(parseBinaryCIFBlocks(data)[0], name, options);
+}
+
+/**
+ * Format a value for a CIF file, quoting it when it would otherwise be
+ * read as whitespace-separated tokens, a keyword or a marker
+ */
+function formatCifValue(value: string | number | null | undefined, missing = '.'): string {
+  if (value === null || value === undefined || value === '') return missing;
+
+  const text = String(value);
+  const needsQuotes = /\s/.test(text)
+    || /^[_#$'";[\]]/.test(text)
+    || /^(data|loop|save|global|stop)_/i.test(text)
+    || text === '.'
+    || text === '?';
+  if (!needsQuotes) return text;
+
+  if (!text.includes('"')) return `"${text}"`;
+  if (!text.includes('\'')) return `'${text}'`;
+  return `\n;${text}\n;\n`;
+}
+
+const formatLoop = (category: string, fields: string[], rows: (string | number | null)[][]): string[] => [
+  'loop_',
+  ...fields.map(field => `_${category}.${field}`),
+  ...rows.map(row => row.map(value => formatCifValue(value)).join(' ')),
+  '#',
+];
+
+/**
+ * Write a molecule as mmCIF, with every model and alternate location it holds
+ *
+ * Author (auth_*) fields keep the original chain ids and residue numbers;
+ * label_seq_id numbers the polymer residues of each chain from 1.
+ */
+export function toCIFString(molecule: Molecule): string {
+  const entryId = molecule.name.replace(/[^A-Za-z0-9_.-]+/g, '_') || 'structure';
+  const lines: string[] = [`data_${entryId}`, '#', `_entry.id ${formatCifValue(entryId)}`, '#'];
+
+  if (molecule.title) {
+    lines.push(`_struct.entry_id ${formatCifValue(entryId)}`, `_struct.title ${formatCifValue(molecule.title)}`, '#');
+  }
+
+  // Entities: polymer chains with the same sequence share one, every
+  // heterogen residue name gets its own
+  const entityIds = new Map<string, number>();
+  const labelSeqIds = new Map<string, number>();
+  const residueKey = (chain: string, residueId: number, insertionCode: string) =>
+    `${chain}:${residueId}${insertionCode}`;
+  const entityOf = (key: string) => {
+    if (!entityIds.has(key)) entityIds.set(key, entityIds.size + 1);
+    return entityIds.get(key);
+  };
+
+  const chainEntities = new Map<string, number>();
+  molecule.models[0]?.chains.forEach(chain => {
+    const polymer = chain.residues.filter(residue => !residue.isHetero);
+    polymer.forEach((residue, index) => {
+      labelSeqIds.set(residueKey(chain.id, residue.residueId, residue.insertionCode), index + 1);
+    });
+    if (polymer.length > 0) {
+      chainEntities.set(chain.id, entityOf(`polymer:${polymer.map(residue => residue.name).join('-')}`));
+    }
+  });
+
+  const atomRows = molecule.models.flatMap(model => model.atoms.map(atom => {
+    const chain = atom.chain || 'A';
+    const labelSeqId = atom.isHetero
+      ? null
+      : labelSeqIds.get(residueKey(atom.chain, atom.residueId, atom.insertionCode)) ?? null;
+    const entityId = atom.isHetero ? entityOf(`ligand:${atom.residue}`) : chainEntities.get(atom.chain) ?? entityOf('polymer');
+    // label_asym_id separates heterogens from the polymer they are attached to
+    const labelAsymId = atom.isHetero ? `${chain}_${entityId}` : chain;
+
+    return [
+      atom.isHetero ? 'HETATM' : 'ATOM',
+      atom.id,
+      atom.element,
+      atom.name,
+      atom.altLoc || null,
+      atom.residue,
+      labelAsymId,
+      entityId,
+      labelSeqId,
+      atom.insertionCode || null,
+      atom.position[0].toFixed(3),
+      atom.position[1].toFixed(3),
+      atom.position[2].toFixed(3),
+      atom.occupancy.toFixed(2),
+      atom.bFactor.toFixed(2),
+      atom.charge,
+      atom.residueId,
+      atom.residue,
+      chain,
+      atom.name,
+      model.id,
+    ];
+  }));
+
+  lines.push(...formatLoop('atom_site', [
+    'group_PDB', 'id', 'type_symbol', 'label_atom_id', 'label_alt_id', 'label_comp_id',
+    'label_asym_id', 'label_entity_id', 'label_seq_id', 'pdbx_PDB_ins_code',
+    'Cartn_x', 'Cartn_y', 'Cartn_z', 'occupancy', 'B_iso_or_equiv', 'pdbx_formal_charge',
+    'auth_seq_id', 'auth_comp_id', 'auth_asym_id', 'auth_atom_id', 'pdbx_PDB_model_num',
+  ], atomRows));
+
+  const rangeRow = (element: SecondaryStructureElement) => {
+    const chain = element.chain || 'A';
+    return [
+      chain,
+      labelSeqIds.get(residueKey(element.chain, element.startResidueId, element.startInsertionCode)) ?? null,
+      chain,
+      element.startResidueId,
+      element.startInsertionCode || null,
+      chain,
+      labelSeqIds.get(residueKey(element.chain, element.endResidueId, element.endInsertionCode)) ?? null,
+      chain,
+      element.endResidueId,
+      element.endInsertionCode || null,
+    ];
+  };
+  const rangeFields = [
+    'beg_label_asym_id', 'beg_label_seq_id', 'beg_auth_asym_id', 'beg_auth_seq_id', 'pdbx_beg_PDB_ins_code',
+    'end_label_asym_id', 'end_label_seq_id', 'end_auth_asym_id', 'end_auth_seq_id', 'pdbx_end_PDB_ins_code',
+  ];
+
+  const helices = molecule.secondaryStructure.filter(element => element.type === 'helix');
+  if (helices.length > 0) {
+    lines.push(...formatLoop('struct_conf', ['conf_type_id', 'id', 'pdbx_PDB_helix_id', ...rangeFields, 'pdbx_PDB_helix_class'],
+      helices.map((helix, index) => ['HELX_P', `HELX_P${index + 1}`, helix.id, ...rangeRow(helix), helix.helixClass ?? 1])));
+  }
+
+  const strands = molecule.secondaryStructure.filter(element => element.type === 'sheet');
+  if (strands.length > 0) {
+    lines.push(...formatLoop('struct_sheet_range', ['sheet_id', 'id', ...rangeFields],
+      strands.map((strand, index) => [strand.id, strand.strand ?? index + 1, ...rangeRow(strand)])));
+  }
+
+  return `${lines.join('\n')}\n`;
+}
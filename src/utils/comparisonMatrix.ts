@@ -0,0 +1,193 @@
+/**
+ * All-pairs structure comparison and clustering.
+ *
+ * The matrix is filled pair by pair through a comparer callback, so the
+ * caller decides how each pair is scored (locally with alignStructures or
+ * on the server). Clustering is average linkage (UPGMA) on 1 - TM-score.
+ */
+import { Molecule } from './structure';
+import { StructureAlignment, alignStructures } from './structureAlignment';
+
+export interface PairScores {
+  tmScoreA: number;               // Normalized by the first structure of the pair
+  tmScoreB: number;               // Normalized by the second structure of the pair
+  rmsd: number;
+  alignedLength: number | null;   // null when the comparer does not report it
+}
+
+export type PairComparer = (i: number, j: number) => Promise<PairScores>;
+
+export interface ComparisonMatrix {
+  ids: string[];
+  names: string[];
+  /** tmScore[i][j]: structure j superposed on structure i, normalized by i */
+  tmScore: number[][];
+  rmsd: number[][];
+  alignedLength: (number | null)[][];
+}
+
+export interface ClusterNode {
+  /** Indices into the matrix of the structures under this node */
+  members: number[];
+  /** Merge height as a distance (1 - TM-score), 0 for leaves */
+  height: number;
+  children?: [ClusterNode, ClusterNode];
+}
+
+/**
+ * Scores of a pair from the alignment of B (mobile) on A (target)
+ */
+export function pairScoresFromAlignment(result: StructureAlignment): PairScores {
+  return {
+    tmScoreA: result.tmScoreTarget,
+    tmScoreB: result.tmScoreMobile,
+    rmsd: result.rmsd,
+    alignedLength: result.alignedLength,
+  };
+}
+
+/**
+ * Score a pair with the local TM-align style alignment, B superposed on A
+ */
+export function compareMolecules(moleculeA: Molecule, moleculeB: Molecule): PairScores {
+  return pairScoresFromAlignment(alignStructures(moleculeB, moleculeA));
+}
+
+const square = <T,>(size: number, diagonal: T, offDiagonal: T): T[][] =>
+  Array.from({ length: size }, (_, i) => Array.from({ length: size }, (_, j) => (i === j ? diagonal : offDiagonal)));
+
+// Let the browser paint between pairs; each alignment can take a while
+const nextTick = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+export interface BuildMatrixOptions {
+  onProgress?: (done: number, total: number) => void;
+  /** Pairs compared at the same time */
+  concurrency?: number;
+  /** Stops starting new pairs; the build rejects with an AbortError */
+  signal?: AbortSignal;
+}
+
+/**
+ * Compare every pair of structures once and fill both halves of the matrix
+ */
+export async function buildComparisonMatrix(
+  structures: { id: string; name: string }[],
+  compare: PairComparer,
+  { onProgress, concurrency = 1, signal }: BuildMatrixOptions = {}
+): Promise<ComparisonMatrix> {
+  const size = structures.length;
+  const matrix: ComparisonMatrix = {
+    ids: structures.map(s => s.id),
+    names: structures.map(s => s.name),
+    tmScore: square(size, 1, NaN),
+    rmsd: square(size, 0, NaN),
+    alignedLength: square<number | null>(size, null, null),
+  };
+
+  const pairs: [number, number][] = [];
+  for (let i = 0; i < size; i++) {
+    for (let j = i + 1; j < size; j++) {
+      pairs.push([i, j]);
+    }
+  }
+
+  const total = pairs.length;
+  let done = 0;
+  onProgress?.(done, total);
+
+  // Each runner takes the next pair until none are left
+  const runner = async () => {
+    for (let pair = pairs.shift(); pair; pair = pairs.shift()) {
+      await nextTick();
+      if (signal?.aborted) {
+        throw new DOMException('Comparison cancelled', 'AbortError');
+      }
+
+      const [i, j] = pair;
+      const scores = await compare(i, j);
+      matrix.tmScore[i][j] = scores.tmScoreA;
+      matrix.tmScore[j][i] = scores.tmScoreB;
+      matrix.rmsd[i][j] = matrix.rmsd[j][i] = scores.rmsd;
+      matrix.alignedLength[i][j] = matrix.alignedLength[j][i] = scores.alignedLength;
+      onProgress?.(++done, total);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, concurrency) }, runner));
+  return matrix;
+}
+
+/**
+ * Distance between two structures: 1 - the higher of the two TM-scores, so
+ * a structure that is a domain of another one still clusters with it
+ */
+export function tmDistance(matrix: ComparisonMatrix, i: number, j: number): number {
+  if (i === j) return 0;
+  const score = Math.max(matrix.tmScore[i][j], matrix.tmScore[j][i]);
+  return Number.isFinite(score) ? 1 - score : 1;
+}
+
+/**
+ * Average linkage (UPGMA) clustering of the matrix. Returns the root of the
+ * dendrogram, or null for an empty matrix.
+ */
+export function clusterMatrix(matrix: ComparisonMatrix): ClusterNode | null {
+  let clusters: ClusterNode[] = matrix.ids.map((_, index) => ({ members: [index], height: 0 }));
+  if (clusters.length === 0) return null;
+
+  const averageDistance = (a: ClusterNode, b: ClusterNode) => {
+    let sum = 0;
+    a.members.forEach(i => b.members.forEach(j => { sum += tmDistance(matrix, i, j); }));
+    return sum / (a.members.length * b.members.length);
+  };
+
+  while (clusters.length > 1) {
+    let best = { a: 0, b: 1, distance: Infinity };
+    for (let a = 0; a < clusters.length; a++) {
+      for (let b = a + 1; b < clusters.length; b++) {
+        const distance = averageDistance(clusters[a], clusters[b]);
+        if (distance < best.distance) {
+          best = { a, b, distance };
+        }
+      }
+    }
+
+    const merged: ClusterNode = {
+      members: [...clusters[best.a].members, ...clusters[best.b].members],
+      height: best.distance,
+      children: [clusters[best.a], clusters[best.b]],
+    };
+    clusters = [...clusters.filter((_, index) => index !== best.a && index !== best.b), merged];
+  }
+
+  return clusters[0];
+}
+
+/**
+ * Flat clusters from a dendrogram: structures joined below `minTMScore`
+ * (i.e. below a distance of 1 - minTMScore) share a cluster. TM-score 0.5
+ * is the usual "same fold" cutoff.
+ */
+export function cutTree(root: ClusterNode | null, minTMScore = 0.5): number[][] {
+  if (!root) return [];
+  const maxDistance = 1 - minTMScore;
+
+  const clusters: number[][] = [];
+  const visit = (node: ClusterNode) => {
+    if (!node.children || node.height <= maxDistance) {
+      clusters.push(node.members);
+      return;
+    }
+    node.children.forEach(visit);
+  };
+  visit(root);
+
+  return clusters;
+}
+
+/**
+ * Matrix indices in dendrogram order, so similar structures sit together
+ */
+export function leafOrder(root: ClusterNode | null): number[] {
+  return root ? root.members : [];
+}
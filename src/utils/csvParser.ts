@@ -0,0 +1,79 @@
+/**
+ * Minimal RFC 4180 style CSV parser.
+ *
+ * Handles quoted fields (including embedded commas, newlines and escaped
+ * double quotes), CRLF/LF/CR line endings and a leading UTF-8 BOM.
+ * Completely empty lines are skipped.
+ */
+export const parseCSV = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip the byte order mark that Excel likes to prepend
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    field = '';
+    if (row.length > 1 || row[0].trim() !== '') {
+      rows.push(row);
+    }
+    row = [];
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\r') {
+      if (input[i + 1] === '\n') i++;
+      endRow();
+    } else if (char === '\n') {
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('Unterminated quoted field in CSV');
+  }
+
+  // Flush the last row if the file does not end with a newline
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
+
+/**
+ * Format rows as CSV, quoting fields with commas, quotes or line breaks
+ */
+export const toCSV = (rows: (string | number)[][]): string => {
+  const formatField = (value: string | number): string => {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return rows.map(row => row.map(formatField).join(',')).join('\n') + '\n';
+};
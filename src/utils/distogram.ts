@@ -1,4 +1,4 @@
-import { Molecule, Atom } from './pdbParser';
+import { Molecule, Atom, Residue, getPolymerResidues, getResidues } from './structure';
 
 /**
  * Calculate the Euclidean distance between two atoms
@@ -11,34 +11,36 @@ function calculateDistance(atom1: Atom, atom2: Atom): number {
 }
 
 /**
- * Calculate the residue-residue distance matrix for a molecule
+ * Residues that make up the rows of a distogram: the polymer residues of the
+ * first model, in chain order
+ */
+export function getDistogramResidues(molecule: Molecule): Residue[] {
+  // Waters and ligands are not part of the distogram; fall back to every
+  // residue for files that mark the whole structure as HETATM
+  const polymerResidues = getPolymerResidues(molecule);
+  return polymerResidues.length > 0 ? polymerResidues : getResidues(molecule);
+}
+
+/**
+ * Calculate the residue-residue distance matrix for a molecule. This runs on
+ * the calling thread; the UI uses computeDistanceMatrix in lib/geometryWorkers.
  * @param molecule The molecule to calculate the distance matrix for
- * @returns A 2D array representing the minimum distances between residues
+ * @returns A 2D array representing the minimum distances between polymer
+ * residues of the first model, in chain order
  */
 export function calculateDistogram(molecule: Molecule): number[][] {
-  // Group atoms by residue
-  const residues = new Map<number, Atom[]>();
-  
-  molecule.atoms.forEach(atom => {
-    if (!residues.has(atom.residueId)) {
-      residues.set(atom.residueId, []);
-    }
-    residues.get(atom.residueId)!.push(atom);
-  });
-
-  // Sort residue IDs
-  const residueIds = Array.from(residues.keys()).sort((a, b) => a - b);
+  const residues = getDistogramResidues(molecule).map(residue => residue.atoms);
   
   // Initialize distance matrix
-  const distogram: number[][] = Array(residueIds.length).fill(0)
-    .map(() => Array(residueIds.length).fill(0));
+  const distogram: number[][] = Array(residues.length).fill(0)
+    .map(() => Array(residues.length).fill(0));
 
   // Calculate minimum distances between residues
-  for (let i = 0; i < residueIds.length; i++) {
-    const residue1Atoms = residues.get(residueIds[i])!;
+  for (let i = 0; i < residues.length; i++) {
+    const residue1Atoms = residues[i];
     
-    for (let j = i; j < residueIds.length; j++) {
-      const residue2Atoms = residues.get(residueIds[j])!;
+    for (let j = i; j < residues.length; j++) {
+      const residue2Atoms = residues[j];
       
       // Find minimum distance between any atoms in the two residues
       let minDistance = Infinity;
@@ -57,4 +59,65 @@ export function calculateDistogram(molecule: Molecule): number[][] {
   }
 
   return distogram;
-} 
\ No newline at end of file
+}
+
+/**
+ * Distance range of each bin of a binned distogram. `binEdges` may list
+ * the num_bins - 1 breaks between bins (AlphaFold, ESMFold) or all
+ * num_bins + 1 edges. The first bin starts at 0 and, with breaks, the last
+ * one is open-ended.
+ */
+export function getDistanceBins(binEdges: number[], numBins: number): [number, number][] {
+  if (binEdges.length === numBins + 1) {
+    return Array.from({ length: numBins }, (_, k) => [binEdges[k], binEdges[k + 1]]);
+  }
+  if (binEdges.length === numBins - 1) {
+    return Array.from({ length: numBins }, (_, k) => [
+      k === 0 ? 0 : binEdges[k - 1],
+      k === numBins - 1 ? Infinity : binEdges[k],
+    ]);
+  }
+  throw new Error(`Distogram has ${binEdges.length} bin edges for ${numBins} bins`);
+}
+
+/**
+ * Probabilities of the distance bins from their logits (softmax)
+ */
+export function binProbabilities(logits: number[]): number[] {
+  const max = Math.max(...logits);
+  const weights = logits.map(logit => Math.exp(logit - max));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  return weights.map(weight => weight / total);
+}
+
+/**
+ * P(d < cutoff) for every residue pair from the binned logits. A bin that
+ * straddles the cutoff contributes the fraction of its range below it.
+ */
+export function calculateContactProbabilities(
+  logits: number[][][],
+  bins: [number, number][],
+  cutoff = 8
+): number[][] {
+  const logitCount = logits[0]?.[0]?.length ?? 0;
+  if (logitCount !== bins.length) {
+    throw new Error(`Distogram has ${logitCount} logits per residue pair for ${bins.length} bins`);
+  }
+
+  const fractionBelow = bins.map(([lower, upper]) => {
+    if (upper <= cutoff) return 1;
+    if (lower >= cutoff || !Number.isFinite(upper)) return 0;
+    return (cutoff - lower) / (upper - lower);
+  });
+
+  return logits.map(row => row.map(pairLogits =>
+    binProbabilities(pairLogits).reduce((sum, probability, k) => sum + probability * fractionBelow[k], 0)
+  ));
+}
+
+/**
+ * Binary contact map: 1 where the contact probability reaches `threshold`
+ */
+export function thresholdContacts(probabilities: number[][], threshold: number): number[][] {
+  return probabilities.map(row => row.map(probability => (probability >= threshold ? 1 : 0)));
+}
@@ -0,0 +1,247 @@
+/**
+ * Residue-level geometry on packed coordinates.
+ *
+ * Coordinates are packed into typed arrays on the main thread; the kernels
+ * below run in the geometry workers (see lib/geometryWorkers) and only take
+ * and return data that can be posted between threads.
+ */
+import { Atom, Molecule, Residue, findResidueAtom, getRepresentativeAtom } from './structure';
+import { getDistogramResidues } from './distogram';
+import { AlignmentOptions, alignStructures } from './structureAlignment';
+import { analyzeInterfaces } from './interface';
+import { calculateSASA } from './sasa';
+
+/**
+ * Atoms a residue is represented by: all of them (minimum distance between
+ * residues), the trace atom, or CB (CA for glycine)
+ */
+export type DistanceMode = 'all-atom' | 'CA' | 'CB';
+
+export interface PackedResidues {
+  /** x, y, z of the selected atoms, residue after residue */
+  coordinates: Float32Array;
+  /** Atoms of residue i are offsets[i] to offsets[i + 1] - 1; residues without atoms are empty */
+  offsets: Uint32Array;
+}
+
+export type GeometryTask =
+  | { type: 'distance-rows'; residues: PackedResidues; start: number; end: number }
+  | { type: 'contacts'; residues: PackedResidues; cutoff: number }
+  | { type: 'align'; mobile: Molecule; target: Molecule; options?: AlignmentOptions }
+  | { type: 'interface'; molecule: Molecule }
+  | { type: 'sasa'; molecule: Molecule };
+
+/**
+ * Pack the distogram residues of a molecule (see getDistogramResidues)
+ */
+export function packResidues(molecule: Molecule, mode: DistanceMode = 'all-atom'): PackedResidues {
+  const atomsOf = (residue: Residue): Atom[] => {
+    if (mode === 'all-atom') return residue.atoms;
+    const atom = mode === 'CB'
+      ? findResidueAtom(residue, 'CB') || getRepresentativeAtom(residue)
+      : getRepresentativeAtom(residue);
+    return atom ? [atom] : [];
+  };
+
+  const selected = getDistogramResidues(molecule).map(atomsOf);
+  const offsets = new Uint32Array(selected.length + 1);
+  selected.forEach((atoms, i) => {
+    offsets[i + 1] = offsets[i] + atoms.length;
+  });
+
+  const coordinates = new Float32Array(offsets[selected.length] * 3);
+  let k = 0;
+  for (const atoms of selected) {
+    for (const atom of atoms) {
+      coordinates.set(atom.position, k);
+      k += 3;
+    }
+  }
+
+  return { coordinates, offsets };
+}
+
+export const residueCount = (residues: PackedResidues): number => residues.offsets.length - 1;
+
+/**
+ * Minimum atom distance between two packed residues, NaN if either has no atoms
+ */
+function residueDistance({ coordinates, offsets }: PackedResidues, i: number, j: number): number {
+  let min = Infinity;
+  for (let a = offsets[i] * 3; a < offsets[i + 1] * 3; a += 3) {
+    for (let b = offsets[j] * 3; b < offsets[j + 1] * 3; b += 3) {
+      const dx = coordinates[a] - coordinates[b];
+      const dy = coordinates[a + 1] - coordinates[b + 1];
+      const dz = coordinates[a + 2] - coordinates[b + 2];
+      const squared = dx * dx + dy * dy + dz * dz;
+      if (squared < min) min = squared;
+    }
+  }
+  return min === Infinity ? NaN : Math.sqrt(min);
+}
+
+/**
+ * Upper triangle of rows `start` to `end - 1` of the residue distance
+ * matrix: row i holds the distances to residues i to N - 1, rows back to back
+ */
+export function distanceRows(
+  residues: PackedResidues,
+  start: number,
+  end: number,
+  onProgress?: (fraction: number) => void
+): Float32Array {
+  const size = residueCount(residues);
+  const length = (end - start) * size - ((end - 1) * end - (start - 1) * start) / 2;
+  const rows = new Float32Array(length);
+
+  let k = 0;
+  for (let i = start; i < end; i++) {
+    for (let j = i; j < size; j++) {
+      rows[k++] = residueDistance(residues, i, j);
+    }
+    onProgress?.(k / length);
+  }
+
+  return rows;
+}
+
+export interface SpatialGrid {
+  cellSize: number;
+  origin: [number, number, number];
+  dimensions: [number, number, number];
+  /** Point indices by cell */
+  cells: Map<number, number[]>;
+}
+
+/**
+ * Bin points into cubic cells so that the neighbors within `cellSize` of a
+ * point are in its own cell or the 26 around it
+ */
+export function buildSpatialGrid(coordinates: Float32Array, cellSize: number): SpatialGrid {
+  const origin: [number, number, number] = [Infinity, Infinity, Infinity];
+  const upper = [-Infinity, -Infinity, -Infinity];
+  for (let k = 0; k < coordinates.length; k += 3) {
+    for (let axis = 0; axis < 3; axis++) {
+      origin[axis] = Math.min(origin[axis], coordinates[k + axis]);
+      upper[axis] = Math.max(upper[axis], coordinates[k + axis]);
+    }
+  }
+
+  const dimensions = [0, 1, 2].map(axis =>
+    coordinates.length > 0 ? Math.floor((upper[axis] - origin[axis]) / cellSize) + 1 : 0
+  ) as [number, number, number];
+  const grid: SpatialGrid = { cellSize, origin, dimensions, cells: new Map() };
+
+  for (let point = 0; point < coordinates.length / 3; point++) {
+    const key = cellKey(grid, cellOf(grid, coordinates, point));
+    const cell = grid.cells.get(key);
+    if (cell) {
+      cell.push(point);
+    } else {
+      grid.cells.set(key, [point]);
+    }
+  }
+
+  return grid;
+}
+
+const cellOf = (grid: SpatialGrid, coordinates: Float32Array, point: number): [number, number, number] => [
+  Math.floor((coordinates[point * 3] - grid.origin[0]) / grid.cellSize),
+  Math.floor((coordinates[point * 3 + 1] - grid.origin[1]) / grid.cellSize),
+  Math.floor((coordinates[point * 3 + 2] - grid.origin[2]) / grid.cellSize),
+];
+
+const cellKey = ({ dimensions }: SpatialGrid, [x, y, z]: [number, number, number]): number =>
+  (x * dimensions[1] + y) * dimensions[2] + z;
+
+/**
+ * Call `visit` with every point within `radius` (at most the cell size) of
+ * point `index`, other than the point itself
+ */
+export function forEachNeighbor(
+  grid: SpatialGrid,
+  coordinates: Float32Array,
+  index: number,
+  radius: number,
+  visit: (neighbor: number, distance: number) => void
+): void {
+  const [cx, cy, cz] = cellOf(grid, coordinates, index);
+  const radiusSquared = radius * radius;
+
+  for (let x = Math.max(0, cx - 1); x <= Math.min(grid.dimensions[0] - 1, cx + 1); x++) {
+    for (let y = Math.max(0, cy - 1); y <= Math.min(grid.dimensions[1] - 1, cy + 1); y++) {
+      for (let z = Math.max(0, cz - 1); z <= Math.min(grid.dimensions[2] - 1, cz + 1); z++) {
+        const cell = grid.cells.get(cellKey(grid, [x, y, z]));
+        if (!cell) continue;
+
+        for (const neighbor of cell) {
+          if (neighbor === index) continue;
+          const dx = coordinates[neighbor * 3] - coordinates[index * 3];
+          const dy = coordinates[neighbor * 3 + 1] - coordinates[index * 3 + 1];
+          const dz = coordinates[neighbor * 3 + 2] - coordinates[index * 3 + 2];
+          const squared = dx * dx + dy * dy + dz * dz;
+          if (squared <= radiusSquared) {
+            visit(neighbor, Math.sqrt(squared));
+          }
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Residue pairs (i < j) with atoms within `cutoff`, as i, j flattened
+ */
+export function residueContacts(
+  residues: PackedResidues,
+  cutoff: number,
+  onProgress?: (fraction: number) => void
+): Uint32Array {
+  const { coordinates, offsets } = residues;
+  const size = residueCount(residues);
+  const atomCount = offsets[size];
+
+  const residueOf = new Uint32Array(atomCount);
+  for (let i = 0; i < size; i++) {
+    residueOf.fill(i, offsets[i], offsets[i + 1]);
+  }
+
+  const grid = buildSpatialGrid(coordinates, cutoff);
+  const pairs = new Set<number>();
+
+  for (let atom = 0; atom < atomCount; atom++) {
+    const i = residueOf[atom];
+    forEachNeighbor(grid, coordinates, atom, cutoff, neighbor => {
+      const j = residueOf[neighbor];
+      if (j > i) pairs.add(i * size + j);
+    });
+    if (atom % 1000 === 999) onProgress?.(atom / atomCount);
+  }
+
+  const flat = new Uint32Array(pairs.size * 2);
+  let k = 0;
+  pairs.forEach(pair => {
+    flat[k++] = Math.floor(pair / size);
+    flat[k++] = pair % size;
+  });
+  return flat;
+}
+
+/**
+ * Run a task on the current thread; the geometry worker calls this for
+ * every message
+ */
+export function runGeometryTask(task: GeometryTask, onProgress?: (fraction: number) => void): unknown {
+  switch (task.type) {
+    case 'distance-rows':
+      return distanceRows(task.residues, task.start, task.end, onProgress);
+    case 'contacts':
+      return residueContacts(task.residues, task.cutoff, onProgress);
+    case 'align':
+      return alignStructures(task.mobile, task.target, task.options);
+    case 'interface':
+      return analyzeInterfaces(task.molecule, onProgress);
+    case 'sasa':
+      return calculateSASA(task.molecule, onProgress);
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Geometry worker: runs one GeometryTask per message and posts progress
+ * while it works, then the result. Started by lib/geometryWorkers.
+ */
+import { GeometryTask, runGeometryTask } from './geometry';
+
+export type GeometryWorkerMessage =
+  | { type: 'progress'; fraction: number }
+  | { type: 'result'; result: unknown }
+  | { type: 'error'; message: string };
+
+// Progress messages at most this often
+const PROGRESS_INTERVAL_MS = 100;
+
+const context = self as unknown as Worker;
+const post = (message: GeometryWorkerMessage, transfer: Transferable[] = []) => context.postMessage(message, transfer);
+
+context.onmessage = (event: MessageEvent<GeometryTask>) => {
+  let lastProgress = 0;
+  const onProgress = (fraction: number) => {
+    const now = Date.now();
+    if (now - lastProgress < PROGRESS_INTERVAL_MS) return;
+    lastProgress = now;
+    post({ type: 'progress', fraction });
+  };
+
+  try {
+    const result = runGeometryTask(event.data, onProgress);
+    // Typed array results are handed over instead of copied
+    const transfer = ArrayBuffer.isView(result) ? [result.buffer] : [];
+    post({ type: 'result', result }, transfer);
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Geometry computation failed' });
+  }
+};
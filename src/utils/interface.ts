@@ -0,0 +1,280 @@
+/**
+ * Chain-chain interfaces of multimer structures: residue contacts, buried
+ * surface area, hydrogen bonds and salt bridges between chains.
+ *
+ * Bonds are assigned from heavy-atom geometry only (donor-acceptor and
+ * charged group distances), without hydrogens or angles.
+ */
+import { Atom, Molecule, Residue, calculateMoleculeStats, getPolymerResidues } from './structure';
+import { buildSpatialGrid, forEachNeighbor } from './geometry';
+import { packAtoms, shrakeRupley } from './sasa';
+import { residueKey } from './residueColors';
+
+// Heavy atoms of two residues this close make them an interface contact (Å)
+export const INTERFACE_CONTACT_CUTOFF = 4.5;
+// Donor-acceptor distance of a hydrogen bond (Å)
+const HBOND_CUTOFF = 3.5;
+// Distance between oppositely charged groups of a salt bridge (Å)
+const SALT_BRIDGE_CUTOFF = 4.0;
+
+// Side chain donors and acceptors by residue; backbone N (not proline) donates, O accepts
+const SIDE_CHAIN_DONORS: Record<string, string[]> = {
+  ARG: ['NE', 'NH1', 'NH2'],
+  ASN: ['ND2'],
+  GLN: ['NE2'],
+  HIS: ['ND1', 'NE2'],
+  LYS: ['NZ'],
+  SER: ['OG'],
+  THR: ['OG1'],
+  TYR: ['OH'],
+  TRP: ['NE1'],
+  CYS: ['SG'],
+};
+const SIDE_CHAIN_ACCEPTORS: Record<string, string[]> = {
+  ASP: ['OD1', 'OD2'],
+  GLU: ['OE1', 'OE2'],
+  ASN: ['OD1'],
+  GLN: ['OE1'],
+  HIS: ['ND1', 'NE2'],
+  SER: ['OG'],
+  THR: ['OG1'],
+  TYR: ['OH'],
+  MET: ['SD'],
+};
+const ACIDIC_ATOMS: Record<string, string[]> = {
+  ASP: ['OD1', 'OD2'],
+  GLU: ['OE1', 'OE2'],
+};
+const BASIC_ATOMS: Record<string, string[]> = {
+  ARG: ['NE', 'NH1', 'NH2'],
+  LYS: ['NZ'],
+  HIS: ['ND1', 'NE2'],
+};
+
+export interface InterfaceAtom {
+  chain: string;
+  residueId: number;
+  insertionCode: string;
+  residueName: string;
+  atomName: string;
+}
+
+export interface InterfaceBond {
+  kind: 'hbond' | 'salt-bridge';
+  /** Donor of a hydrogen bond, acidic atom of a salt bridge */
+  a: InterfaceAtom;
+  b: InterfaceAtom;
+  distance: number;
+}
+
+export interface InterfaceResidue {
+  chain: string;
+  residueId: number;
+  insertionCode: string;
+  name: string;
+  /** Chains this residue contacts */
+  partners: string[];
+  /** Accessible area lost when the other chains are added (Å²) */
+  buriedArea: number;
+  hbonds: number;
+  saltBridges: number;
+}
+
+export interface ChainInterface {
+  chainA: string;
+  chainB: string;
+  /** Residue pairs in contact */
+  contacts: number;
+  /** SASA(A) + SASA(B) - SASA(A and B together), Å² */
+  buriedSurfaceArea: number;
+  bonds: InterfaceBond[];
+}
+
+export interface InterfaceAnalysis {
+  chains: string[];
+  interfaces: ChainInterface[];
+  /** Residues in contact with another chain, in chain order */
+  residues: InterfaceResidue[];
+}
+
+const isDonor = (residue: Residue, atom: Atom): boolean =>
+  (atom.name === 'N' && residue.name !== 'PRO') || !!SIDE_CHAIN_DONORS[residue.name]?.includes(atom.name);
+const isAcceptor = (residue: Residue, atom: Atom): boolean =>
+  atom.name === 'O' || atom.name === 'OXT' || !!SIDE_CHAIN_ACCEPTORS[residue.name]?.includes(atom.name);
+const isAcidic = (residue: Residue, atom: Atom): boolean =>
+  !!ACIDIC_ATOMS[residue.name]?.includes(atom.name) || atom.name === 'OXT';
+const isBasic = (residue: Residue, atom: Atom): boolean => !!BASIC_ATOMS[residue.name]?.includes(atom.name);
+
+const toInterfaceAtom = (residue: Residue, atom: Atom): InterfaceAtom => ({
+  chain: residue.chain,
+  residueId: residue.residueId,
+  insertionCode: residue.insertionCode,
+  residueName: residue.name,
+  atomName: atom.name,
+});
+
+const chainPairKey = (a: string, b: string): string => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+/**
+ * Interfaces between the polymer chains of the first model. Chains come
+ * from calculateMoleculeStats; ligands, waters and hydrogens are left out.
+ */
+export function analyzeInterfaces(molecule: Molecule, onProgress?: (fraction: number) => void): InterfaceAnalysis {
+  const chains = calculateMoleculeStats(molecule).chainInfo
+    .filter(chain => chain.residueCount > 0)
+    .map(chain => chain.chainId);
+  if (chains.length < 2) {
+    return { chains, interfaces: [], residues: [] };
+  }
+
+  const residues = getPolymerResidues(molecule);
+  const atoms: Atom[] = [];
+  const residueOf: number[] = [];
+  residues.forEach((residue, index) => {
+    residue.atoms.forEach(atom => {
+      if (atom.element.toUpperCase() === 'H') return;
+      atoms.push(atom);
+      residueOf.push(index);
+    });
+  });
+  const { coordinates, radii } = packAtoms(atoms);
+
+  // Contacts and bonds between atoms of different chains
+  const grid = buildSpatialGrid(coordinates, INTERFACE_CONTACT_CUTOFF);
+  const contacts = new Map<string, Set<number>>();
+  const bonds = new Map<string, InterfaceBond[]>();
+  const partners = new Map<number, Set<string>>();
+  // Closest salt bridge per residue pair
+  const saltBridges = new Map<number, InterfaceBond>();
+  const size = residues.length;
+
+  for (let i = 0; i < atoms.length; i++) {
+    const residueA = residues[residueOf[i]];
+    forEachNeighbor(grid, coordinates, i, INTERFACE_CONTACT_CUTOFF, (j, distance) => {
+      const residueB = residues[residueOf[j]];
+      if (j < i || residueA.chain === residueB.chain) return;
+
+      const key = chainPairKey(residueA.chain, residueB.chain);
+      if (!contacts.has(key)) {
+        contacts.set(key, new Set());
+        bonds.set(key, []);
+      }
+      const [low, high] = residueOf[i] < residueOf[j] ? [residueOf[i], residueOf[j]] : [residueOf[j], residueOf[i]];
+      contacts.get(key)!.add(low * size + high);
+      if (!partners.has(residueOf[i])) partners.set(residueOf[i], new Set());
+      if (!partners.has(residueOf[j])) partners.set(residueOf[j], new Set());
+      partners.get(residueOf[i])!.add(residueB.chain);
+      partners.get(residueOf[j])!.add(residueA.chain);
+
+      const atomA = atoms[i];
+      const atomB = atoms[j];
+      if (distance <= HBOND_CUTOFF) {
+        if (isDonor(residueA, atomA) && isAcceptor(residueB, atomB)) {
+          bonds.get(key)!.push({ kind: 'hbond', a: toInterfaceAtom(residueA, atomA), b: toInterfaceAtom(residueB, atomB), distance });
+        } else if (isDonor(residueB, atomB) && isAcceptor(residueA, atomA)) {
+          bonds.get(key)!.push({ kind: 'hbond', a: toInterfaceAtom(residueB, atomB), b: toInterfaceAtom(residueA, atomA), distance });
+        }
+      }
+
+      if (distance <= SALT_BRIDGE_CUTOFF) {
+        let bond: InterfaceBond | null = null;
+        if (isAcidic(residueA, atomA) && isBasic(residueB, atomB)) {
+          bond = { kind: 'salt-bridge', a: toInterfaceAtom(residueA, atomA), b: toInterfaceAtom(residueB, atomB), distance };
+        } else if (isAcidic(residueB, atomB) && isBasic(residueA, atomA)) {
+          bond = { kind: 'salt-bridge', a: toInterfaceAtom(residueB, atomB), b: toInterfaceAtom(residueA, atomA), distance };
+        }
+        const previous = saltBridges.get(low * size + high);
+        if (bond && (!previous || bond.distance < previous.distance)) {
+          saltBridges.set(low * size + high, bond);
+        }
+      }
+    });
+  }
+
+  saltBridges.forEach(bond => {
+    bonds.get(chainPairKey(bond.a.chain, bond.b.chain))!.push(bond);
+  });
+
+  // Accessible areas of each chain alone, of each contacting pair and of the whole complex
+  const chainAtoms = new Map<string, number[]>(chains.map(chain => [chain, []]));
+  atoms.forEach((_, i) => chainAtoms.get(residues[residueOf[i]].chain)?.push(i));
+
+  const pairKeys = [...contacts.keys()];
+  const steps = chains.length + pairKeys.length + 1;
+  let step = 0;
+  const areaOf = (indices: number[]): Float32Array => {
+    const subset = new Float32Array(indices.length * 3);
+    const subsetRadii = new Float32Array(indices.length);
+    indices.forEach((atom, k) => {
+      subset.set(coordinates.subarray(atom * 3, atom * 3 + 3), k * 3);
+      subsetRadii[k] = radii[atom];
+    });
+    const areas = shrakeRupley(subset, subsetRadii, fraction => onProgress?.((step + fraction) / steps));
+    step++;
+    return areas;
+  };
+  const sum = (areas: Float32Array): number => areas.reduce((total, area) => total + area, 0);
+
+  const unboundArea = new Float32Array(atoms.length);
+  const chainArea = new Map<string, number>();
+  chains.forEach(chain => {
+    const indices = chainAtoms.get(chain)!;
+    const areas = areaOf(indices);
+    indices.forEach((atom, k) => {
+      unboundArea[atom] = areas[k];
+    });
+    chainArea.set(chain, sum(areas));
+  });
+
+  const interfaces: ChainInterface[] = pairKeys.map(key => {
+    const [chainA, chainB] = key.split('|');
+    const together = sum(areaOf([...chainAtoms.get(chainA)!, ...chainAtoms.get(chainB)!]));
+    return {
+      chainA,
+      chainB,
+      contacts: contacts.get(key)!.size,
+      buriedSurfaceArea: chainArea.get(chainA)! + chainArea.get(chainB)! - together,
+      bonds: bonds.get(key)!.sort((x, y) => x.distance - y.distance),
+    };
+  });
+
+  const boundArea = areaOf(atoms.map((_, i) => i));
+  const buried = new Float32Array(residues.length);
+  atoms.forEach((_, i) => {
+    buried[residueOf[i]] += unboundArea[i] - boundArea[i];
+  });
+
+  // Bond counts per residue
+  const bondCounts = new Map<string, { hbonds: number; saltBridges: number }>();
+  const count = (atom: InterfaceAtom, kind: InterfaceBond['kind']) => {
+    const key = residueKey(atom.chain, atom.residueId, atom.insertionCode);
+    const counts = bondCounts.get(key) || { hbonds: 0, saltBridges: 0 };
+    if (kind === 'hbond') counts.hbonds++;
+    else counts.saltBridges++;
+    bondCounts.set(key, counts);
+  };
+  interfaces.forEach(({ bonds }) => bonds.forEach(bond => {
+    count(bond.a, bond.kind);
+    count(bond.b, bond.kind);
+  }));
+
+  const interfaceResidues: InterfaceResidue[] = [];
+  residues.forEach((residue, index) => {
+    const residuePartners = partners.get(index);
+    if (!residuePartners) return;
+    const counts = bondCounts.get(residueKey(residue.chain, residue.residueId, residue.insertionCode));
+    interfaceResidues.push({
+      chain: residue.chain,
+      residueId: residue.residueId,
+      insertionCode: residue.insertionCode,
+      name: residue.name,
+      partners: [...residuePartners].sort(),
+      buriedArea: Math.max(0, buried[index]),
+      hbonds: counts?.hbonds || 0,
+      saltBridges: counts?.saltBridges || 0,
+    });
+  });
+
+  onProgress?.(1);
+  return { chains, interfaces, residues: interfaceResidues };
+}
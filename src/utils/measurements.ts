@@ -0,0 +1,131 @@
+/**
+ * Distances, angles and dihedrals between atoms picked in the 3D viewer.
+ *
+ * Measurements are kept per structure and stored in localStorage, so they
+ * come back when the same file or job is loaded again.
+ */
+import { MeasuredAtom, Measurement, MeasurementKind } from '@/types/viewer';
+import { toCSV } from './csvParser';
+
+type Vec3 = [number, number, number];
+
+// Atoms picked for each kind of measurement
+export const MEASUREMENT_ATOM_COUNT: Record<MeasurementKind, number> = {
+  distance: 2,
+  angle: 3,
+  dihedral: 4,
+};
+
+export const MEASUREMENT_LABELS: Record<MeasurementKind, string> = {
+  distance: 'Distance',
+  angle: 'Angle',
+  dihedral: 'Dihedral',
+};
+
+const STORAGE_KEY = 'measurements';
+
+const subtract = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const dot = (a: Vec3, b: Vec3): number => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const cross = (a: Vec3, b: Vec3): Vec3 => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0],
+];
+const norm = (a: Vec3): number => Math.hypot(a[0], a[1], a[2]);
+const toDegrees = (radians: number): number => (radians * 180) / Math.PI;
+
+/**
+ * Value of a measurement from the atom positions in picking order: Å for a
+ * distance, degrees for the angle at the middle atom, and the signed
+ * dihedral (-180 to 180) about the bond between the two middle atoms
+ */
+export function measure(kind: MeasurementKind, positions: Vec3[]): number {
+  if (positions.length !== MEASUREMENT_ATOM_COUNT[kind]) {
+    throw new Error(`A ${kind} needs ${MEASUREMENT_ATOM_COUNT[kind]} atoms, got ${positions.length}`);
+  }
+
+  if (kind === 'distance') {
+    return norm(subtract(positions[0], positions[1]));
+  }
+
+  if (kind === 'angle') {
+    const u = subtract(positions[0], positions[1]);
+    const v = subtract(positions[2], positions[1]);
+    const cosine = dot(u, v) / (norm(u) * norm(v));
+    return toDegrees(Math.acos(Math.max(-1, Math.min(1, cosine))));
+  }
+
+  const [p0, p1, p2, p3] = positions;
+  const b0 = subtract(p0, p1);
+  const b1 = subtract(p2, p1);
+  const b2 = subtract(p3, p2);
+  // Components of b0 and b2 perpendicular to the central bond
+  const axis = b1.map(value => value / norm(b1)) as Vec3;
+  const v = subtract(b0, axis.map(value => value * dot(b0, axis)) as Vec3);
+  const w = subtract(b2, axis.map(value => value * dot(b2, axis)) as Vec3);
+  return toDegrees(Math.atan2(dot(cross(axis, v), w), dot(v, w)));
+}
+
+export const formatMeasurementValue = (measurement: Measurement): string =>
+  measurement.kind === 'distance' ? `${measurement.value.toFixed(2)} Å` : `${measurement.value.toFixed(1)}°`;
+
+export const formatMeasuredAtom = (atom: MeasuredAtom): string =>
+  `${atom.residueName} ${atom.chain}${atom.residueId}${atom.insertionCode} ${atom.atomName}`;
+
+/**
+ * CSV of measurements, one row per measurement with the structure it was
+ * made on
+ */
+export function measurementsToCSV(rows: { structure: string; measurement: Measurement }[]): string {
+  const maxAtoms = Math.max(...Object.values(MEASUREMENT_ATOM_COUNT));
+  const header = ['structure', 'type', 'value', 'unit'];
+  for (let i = 1; i <= maxAtoms; i++) {
+    header.push(`atom${i}_chain`, `atom${i}_residue`, `atom${i}_residue_id`, `atom${i}_insertion_code`, `atom${i}_name`);
+  }
+
+  return toCSV([
+    header,
+    ...rows.map(({ structure, measurement }) => [
+      structure,
+      measurement.kind,
+      measurement.value.toFixed(3),
+      measurement.kind === 'distance' ? 'Å' : 'deg',
+      ...Array.from({ length: maxAtoms }).flatMap((_, i) => {
+        const atom = measurement.atoms[i];
+        return atom
+          ? [atom.chain, atom.residueName, atom.residueId, atom.insertionCode, atom.atomName]
+          : ['', '', '', '', ''];
+      }),
+    ]),
+  ]);
+}
+
+/**
+ * Measurements saved in this browser, by structure key. Atoms saved before
+ * insertion codes were recorded get none.
+ */
+export function loadStoredMeasurements(): Record<string, Measurement[]> {
+  if (typeof window === 'undefined') return {};
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const measurements: Record<string, Measurement[]> = stored ? JSON.parse(stored) : {};
+    Object.values(measurements).forEach(list => list.forEach(measurement => {
+      measurement.atoms.forEach(atom => {
+        atom.insertionCode ??= '';
+      });
+    }));
+    return measurements;
+  } catch (error) {
+    console.error('Invalid measurements in localStorage:', error);
+    return {};
+  }
+}
+
+export function saveStoredMeasurements(measurements: Record<string, Measurement[]>): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(measurements));
+  } catch (error) {
+    console.error('Could not save measurements:', error);
+  }
+}
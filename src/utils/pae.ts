@@ -0,0 +1,179 @@
+/**
+ * Predicted aligned error (PAE).
+ *
+ * PAE[i][j] is the expected position error (Å) at residue j when the
+ * predicted and true structures are aligned on residue i. Rows and columns
+ * follow the polymer residues of the model in chain order. Low PAE between
+ * residues of two chains means their relative placement, i.e. the
+ * interface, is predicted with confidence.
+ */
+import { PAE } from '@/lib/api-schema';
+import { Molecule, getPolymerResidues, getRepresentativeAtom } from './structure';
+
+export interface PAEData {
+  matrix: number[][];
+  maxError: number;
+}
+
+export interface ChainPairPAE {
+  chainA: string;
+  chainB: string;
+  /** Mean PAE over all residue pairs between the chains, both directions */
+  meanPAE: number;
+  /** Mean PAE over inter-chain residue pairs in contact, null without contacts */
+  interfacePAE: number | null;
+  contactCount: number;
+}
+
+// Trace atoms closer than this count as an inter-chain contact
+const CONTACT_DISTANCE = 8;
+
+const isMatrix = (value: unknown): value is number[][] =>
+  Array.isArray(value) && value.length > 0 && value.every(row => Array.isArray(row) && row.length === value.length);
+
+// Reduced rather than spread: the arguments of a call are limited to about 100k
+const listMax = (values: number[]) => values.reduce((max, value) => Math.max(max, value), 0);
+const matrixMax = (matrix: number[][]) => matrix.reduce((max, row) => Math.max(max, listMax(row)), 0);
+
+/**
+ * Read PAE from the backend payload or an AlphaFold / ColabFold JSON file.
+ * Accepts the AlphaFold database layouts (current and the older flattened
+ * residue1/residue2/distance one) and ColabFold/AlphaFold 3 "pae" matrices.
+ */
+export function parsePAE(json: unknown): PAEData {
+  // The AlphaFold database wraps the object in an array
+  const data = (Array.isArray(json) && json.length === 1 ? json[0] : json) as Record<string, unknown> | null;
+  if (!data || typeof data !== 'object') {
+    throw new Error('Not a PAE file: expected a JSON object');
+  }
+
+  const maxFromFile = (key: string) => (typeof data[key] === 'number' ? (data[key] as number) : undefined);
+
+  if (isMatrix(data.predicted_aligned_error)) {
+    const matrix = data.predicted_aligned_error;
+    return { matrix, maxError: maxFromFile('max_predicted_aligned_error') ?? matrixMax(matrix) };
+  }
+
+  if (isMatrix(data.pae)) {
+    const matrix = data.pae;
+    return { matrix, maxError: maxFromFile('max_pae') ?? matrixMax(matrix) };
+  }
+
+  // Old database format: 1-based residue indices with a flat list of errors
+  if (Array.isArray(data.residue1) && Array.isArray(data.residue2) && Array.isArray(data.distance)) {
+    const residue1 = data.residue1 as number[];
+    const residue2 = data.residue2 as number[];
+    const distance = data.distance as number[];
+    if (residue1.length !== residue2.length || residue1.length !== distance.length) {
+      throw new Error(
+        `Not a PAE file: residue1, residue2 and distance have different lengths (${residue1.length}, ${residue2.length}, ${distance.length})`
+      );
+    }
+
+    const size = Math.max(listMax(residue1), listMax(residue2));
+    if (size * size !== distance.length) {
+      throw new Error(`Not a PAE file: ${distance.length} errors do not fill a ${size} x ${size} matrix`);
+    }
+
+    const matrix = Array.from({ length: size }, () => new Array<number>(size).fill(0));
+    const filled = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+    distance.forEach((value, k) => {
+      const [i, j] = [residue1[k] - 1, residue2[k] - 1];
+      if (!Number.isInteger(i) || !Number.isInteger(j) || i < 0 || j < 0 || filled[i][j]) {
+        throw new Error(`Not a PAE file: invalid or repeated residue pair ${residue1[k]}, ${residue2[k]}`);
+      }
+      matrix[i][j] = value;
+      filled[i][j] = true;
+    });
+    return { matrix, maxError: maxFromFile('max_predicted_aligned_error') ?? matrixMax(matrix) };
+  }
+
+  throw new Error('Not a PAE file: no predicted_aligned_error or pae matrix found');
+}
+
+/**
+ * PAE from a job status payload, if the model produced it
+ */
+export function paeFromJobStatus(pae: PAE | null | undefined): PAEData | undefined {
+  if (!pae) return undefined;
+  try {
+    return parsePAE(pae);
+  } catch (error) {
+    console.warn('Ignoring malformed PAE in job status:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Read an uploaded PAE JSON file
+ */
+export async function readPAEFile(file: File): Promise<PAEData> {
+  let json: unknown;
+  try {
+    json = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`${file.name} is not valid JSON`);
+  }
+  return parsePAE(json);
+}
+
+/**
+ * Mean and interface PAE for every pair of chains. The matrix must have one
+ * row per polymer residue of the molecule.
+ */
+export function calculateChainPairPAE(pae: PAEData, molecule: Molecule): ChainPairPAE[] {
+  const residues = getPolymerResidues(molecule);
+  if (residues.length !== pae.matrix.length) {
+    throw new Error(`PAE matrix has ${pae.matrix.length} residues but the structure has ${residues.length}`);
+  }
+
+  const chains = Array.from(new Set(residues.map(residue => residue.chain)));
+  const positions = residues.map(residue => getRepresentativeAtom(residue)?.position);
+
+  const isContact = (i: number, j: number) => {
+    const a = positions[i];
+    const b = positions[j];
+    if (!a || !b) return false;
+    const dx = a[0] - b[0];
+    const dy = a[1] - b[1];
+    const dz = a[2] - b[2];
+    return dx * dx + dy * dy + dz * dz <= CONTACT_DISTANCE * CONTACT_DISTANCE;
+  };
+
+  const indicesByChain = new Map(chains.map(chain => [
+    chain,
+    residues.map((residue, index) => (residue.chain === chain ? index : -1)).filter(index => index >= 0),
+  ]));
+
+  const summaries: ChainPairPAE[] = [];
+  chains.forEach((chainA, a) => {
+    chains.slice(a + 1).forEach(chainB => {
+      let sum = 0;
+      let count = 0;
+      let interfaceSum = 0;
+      let contactCount = 0;
+
+      for (const i of indicesByChain.get(chainA)!) {
+        for (const j of indicesByChain.get(chainB)!) {
+          const pairError = pae.matrix[i][j] + pae.matrix[j][i];
+          sum += pairError;
+          count += 2;
+          if (isContact(i, j)) {
+            interfaceSum += pairError;
+            contactCount++;
+          }
+        }
+      }
+
+      summaries.push({
+        chainA,
+        chainB,
+        meanPAE: count > 0 ? sum / count : NaN,
+        interfacePAE: contactCount > 0 ? interfaceSum / (2 * contactCount) : null,
+        contactCount,
+      });
+    });
+  });
+
+  return summaries;
+}
@@ -1,107 +1,288 @@
+/**
+ * PDB format parser.
+ *
+ * Reads the fixed-column records of the wwPDB format (v3.3) into a
+ * models -> chains -> residues -> atoms hierarchy, together with the
+ * secondary structure (HELIX/SHEET), SEQRES and CONECT records.
+ * See https://www.wwpdb.org/documentation/file-format-content/format33/v3.3.html
+ */
+
+import {
+  Atom,
+  Model,
+  Molecule,
+  ParseStructureOptions,
+  SecondaryStructureElement,
+  buildModel,
+} from './structure';
+
+// Two-letter elements that also start common atom names (CA, CD, NE, HG, ...)
+const TWO_LETTER_ELEMENTS = new Set([
+  'HE', 'LI', 'BE', 'NE', 'NA', 'MG', 'AL', 'SI', 'CL', 'AR', 'CA', 'SC', 'TI',
+  'CR', 'MN', 'FE', 'CO', 'NI', 'CU', 'ZN', 'GA', 'GE', 'AS', 'SE', 'BR', 'KR',
+  'RB', 'SR', 'ZR', 'MO', 'RU', 'RH', 'PD', 'AG', 'CD', 'IN', 'SN', 'SB', 'TE',
+  'XE', 'CS', 'BA', 'LA', 'CE', 'GD', 'YB', 'HF', 'TA', 'RE', 'OS', 'IR', 'PT',
+  'AU', 'HG', 'TL', 'PB', 'BI', 'RA', 'TH', 'PA', 'AM', 'CM',
+]);
+
+export const capitalizeElement = (symbol: string): string =>
+  symbol.charAt(0).toUpperCase() + symbol.slice(1).toLowerCase();
+
+/**
+ * Derive the element from the atom name field (columns 13-16) for files
+ * that leave columns 77-78 empty. Element symbols are right-justified in
+ * columns 13-14, so " CA " is an alpha carbon and "CA  " is calcium.
+ */
+function inferElement(nameField: string, isHetero: boolean): string {
+  const padded = nameField.padEnd(4, ' ');
+
+  // Column 13 blank: single-letter element in column 14
+  if (padded[0] === ' ') {
+    return capitalizeElement(padded[1]);
+  }
+
+  // Four-character hydrogen names such as "1HG1" or "HD21"
+  if (/[0-9]/.test(padded[0])) {
+    return capitalizeElement(padded[1]);
+  }
+
+  // Left-justified names are two-letter elements only in heterogens
+  // (ions, metals); polymer atoms from sloppy writers are single letters
+  const twoLetters = padded.substring(0, 2).toUpperCase();
+  if (isHetero && TWO_LETTER_ELEMENTS.has(twoLetters)) {
+    return capitalizeElement(twoLetters);
+  }
+
+  return capitalizeElement(padded[0]);
+}
+
+// Charges are written as "2+" / "1-"
+function parseCharge(field: string): number {
+  const match = field.trim().match(/^(\d)([+-])$/);
+  if (!match) return 0;
+  return parseInt(match[1], 10) * (match[2] === '-' ? -1 : 1);
+}
+
+const parseIntField = (line: string, start: number, end: number, fallback = 0): number => {
+  const value = parseInt(line.substring(start, end).trim(), 10);
+  return isNaN(value) ? fallback : value;
+};
+
+const parseFloatField = (line: string, start: number, end: number, fallback = 0): number => {
+  const value = parseFloat(line.substring(start, end).trim());
+  return isNaN(value) ? fallback : value;
+};
+
+/**
+ * Parse an ATOM/HETATM record, or return null if its coordinates are unusable
+ */
+function parseAtomRecord(line: string, fallbackId: number): Atom | null {
+  const x = parseFloat(line.substring(30, 38));
+  const y = parseFloat(line.substring(38, 46));
+  const z = parseFloat(line.substring(46, 54));
+  if (isNaN(x) || isNaN(y) || isNaN(z)) {
+    return null;
+  }
+
+  const isHetero = line.startsWith('HETATM');
+  const nameField = line.substring(12, 16);
+  const elementField = line.substring(76, 78).trim();
+
+  return {
+    // Serial numbers beyond 99999 (hybrid-36) fall back to the record index
+    id: parseIntField(line, 6, 11, fallbackId),
+    name: nameField.trim(),
+    altLoc: line.substring(16, 17).trim(),
+    element: elementField ? capitalizeElement(elementField) : inferElement(nameField, isHetero),
+    charge: parseCharge(line.substring(78, 80)),
+    residue: line.substring(17, 20).trim(),
+    chain: line.substring(21, 22).trim(),
+    residueId: parseIntField(line, 22, 26),
+    insertionCode: line.substring(26, 27).trim(),
+    position: [x, y, z],
+    occupancy: parseFloatField(line, 54, 60, 1),
+    bFactor: parseFloatField(line, 60, 66),
+    isHetero,
+  };
+}
 
-export interface Atom {
-  id: number;
-  element: string;
-  residue: string;
-  chain: string;
-  position: [number, number, number]; // [x, y, z]
-  residueId: number;
+function parseHelixRecord(line: string): SecondaryStructureElement {
+  return {
+    type: 'helix',
+    id: line.substring(11, 14).trim(),
+    chain: line.substring(19, 20).trim(),
+    startResidueId: parseIntField(line, 21, 25),
+    startInsertionCode: line.substring(25, 26).trim(),
+    endResidueId: parseIntField(line, 33, 37),
+    endInsertionCode: line.substring(37, 38).trim(),
+    helixClass: parseIntField(line, 38, 40, 1),
+  };
 }
 
-export interface Molecule {
-  id: string;
-  name: string;
-  atoms: Atom[];
+function parseSheetRecord(line: string): SecondaryStructureElement {
+  return {
+    type: 'sheet',
+    id: line.substring(11, 14).trim(),
+    chain: line.substring(21, 22).trim(),
+    startResidueId: parseIntField(line, 22, 26),
+    startInsertionCode: line.substring(26, 27).trim(),
+    endResidueId: parseIntField(line, 33, 37),
+    endInsertionCode: line.substring(37, 38).trim(),
+    strand: parseIntField(line, 7, 10),
+    sense: parseIntField(line, 38, 40),
+  };
 }
 
 /**
- * A basic PDB parser that extracts atom information from PDB files
+ * Parse the text of a PDB file
  */
-export const parsePDB = async (file: File): Promise<Molecule> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    
-    reader.onload = (event) => {
-      try {
-        if (!event.target || typeof event.target.result !== 'string') {
-          throw new Error('Failed to read file');
+export function parsePDBString(content: string, name = 'structure', options: ParseStructureOptions = {}): Molecule {
+  // Handle different line endings (Windows: \r\n, Unix: \n, Old Mac: \r)
+  const lines = content.split(/\r\n|\n|\r/);
+
+  const models: Model[] = [];
+  const secondaryStructure: SecondaryStructureElement[] = [];
+  const seqres: Record<string, string[]> = {};
+  const bondKeys = new Set<string>();
+  const bonds: [number, number][] = [];
+  const titleParts: string[] = [];
+
+  let modelId = 1;
+  let modelAtoms: Atom[] = [];
+  // Atoms already seen per residue + atom name, to skip extra alternate locations
+  let seenAtoms = new Set<string>();
+  let recordIndex = 0;
+
+  const finishModel = () => {
+    if (modelAtoms.length > 0) {
+      models.push(buildModel(modelId, modelAtoms));
+    }
+    modelAtoms = [];
+    seenAtoms = new Set();
+  };
+
+  for (const line of lines) {
+    const record = line.substring(0, 6).trim();
+
+    switch (record) {
+      case 'ATOM':
+      case 'HETATM': {
+        recordIndex++;
+        const atom = parseAtomRecord(line, recordIndex);
+        if (!atom) {
+          console.warn(`Skipping atom with invalid coordinates: ${line}`);
+          break;
         }
-        
-        const content = event.target.result;
-        // Handle different line endings (Windows: \r\n, Unix: \n, Old Mac: \r)
-        const lines = content.split(/\r\n|\n|\r/);
-        const atoms: Atom[] = [];
-        
-        console.log(`Parsing PDB file: ${file.name} with ${lines.length} lines`);
-        
-        // Parse ATOM and HETATM records from PDB file
-        let atomCount = 0;
-        for (const line of lines) {
-          if (line.startsWith('ATOM  ') || line.startsWith('HETATM')) {
-            atomCount++;
-            try {
-              // PDB format is fixed-width, so we can extract information by character position
-              const id = parseInt(line.substring(6, 11).trim());
-              // Some PDB files store element in columns 76-78, others in 13-14
-              let element = line.substring(76, 78).trim();
-              if (!element) {
-                // Try alternative location for element (atom name field)
-                element = line.substring(12, 14).trim();
-              }
-              const residue = line.substring(17, 20).trim();
-              const chain = line.substring(21, 22).trim();
-              const residueId = parseInt(line.substring(22, 26).trim());
-              
-              const x = parseFloat(line.substring(30, 38).trim());
-              const y = parseFloat(line.substring(38, 46).trim());
-              const z = parseFloat(line.substring(46, 54).trim());
-              
-              // Skip atoms with invalid coordinates
-              if (isNaN(x) || isNaN(y) || isNaN(z)) {
-                console.warn(`Skipping atom with invalid coordinates: ${line}`);
-                continue;
-              }
-              
-              atoms.push({
-                id,
-                element,
-                residue,
-                chain,
-                position: [x, y, z],
-                residueId,
-              });
-            } catch (atomError) {
-              console.warn(`Error parsing atom line: ${line}`, atomError);
-            }
-          }
+        if (atom.altLoc && !options.allAltLocs) {
+          const key = `${atom.chain}:${atom.residueId}${atom.insertionCode}:${atom.name}`;
+          if (seenAtoms.has(key)) break;
+          seenAtoms.add(key);
         }
-        
-        console.log(`Parsed ${atoms.length} atoms from ${atomCount} atom records`);
-        
-        if (atoms.length === 0) {
-          console.warn(`No atoms found in file: ${file.name}`);
-          console.log(`First few lines of file:`, lines.slice(0, 10));
+        modelAtoms.push(atom);
+        break;
+      }
+      case 'MODEL':
+        finishModel();
+        modelId = parseIntField(line, 10, 14, models.length + 1);
+        break;
+      case 'ENDMDL':
+        finishModel();
+        modelId = models.length + 1;
+        break;
+      case 'HELIX':
+        secondaryStructure.push(parseHelixRecord(line));
+        break;
+      case 'SHEET':
+        secondaryStructure.push(parseSheetRecord(line));
+        break;
+      case 'SEQRES': {
+        const chain = line.substring(11, 12).trim();
+        const residues = line.substring(19).trim().split(/\s+/).filter(Boolean);
+        seqres[chain] = [...(seqres[chain] || []), ...residues];
+        break;
+      }
+      case 'CONECT': {
+        const from = parseIntField(line, 6, 11, NaN);
+        if (isNaN(from)) break;
+        for (let start = 11; start < 31; start += 5) {
+          const to = parseIntField(line, start, start + 5, NaN);
+          if (isNaN(to)) continue;
+          // CONECT lists each bond from both ends; keep it once
+          const key = from < to ? `${from}-${to}` : `${to}-${from}`;
+          if (!bondKeys.has(key)) {
+            bondKeys.add(key);
+            bonds.push(from < to ? [from, to] : [to, from]);
+          }
         }
-        
-        // Create molecule object
-        const molecule: Molecule = {
-          id: file.name,
-          name: file.name.replace('.pdb', ''),
-          atoms,
-        };
-        
-        resolve(molecule);
-      } catch (error) {
-        console.error('Error parsing PDB file:', error);
-        reject(error);
+        break;
       }
-    };
-    
-    reader.onerror = (error) => {
-      console.error('Error reading file:', error);
-      reject(new Error('Failed to read file'));
-    };
-    
-    reader.readAsText(file);
+      case 'TITLE':
+        titleParts.push(line.substring(10).trim());
+        break;
+    }
+  }
+  finishModel();
+
+  if (models.length === 0) {
+    console.warn(`No atoms found in PDB: ${name}`);
+  }
+
+  return {
+    id: name,
+    name: name.replace(/\.pdb$/i, ''),
+    title: titleParts.length > 0 ? titleParts.join(' ') : undefined,
+    atoms: models[0]?.atoms || [],
+    models,
+    secondaryStructure,
+    seqres,
+    bonds,
+  };
+}
+
+/**
+ * Format an atom as a fixed-column ATOM/HETATM record
+ */
+function formatAtomRecord(atom: Atom): string {
+  // One-letter element names start in column 14, see inferElement
+  const name = atom.name.length < 4 && atom.element.length === 1
+    ? ` ${atom.name.padEnd(3)}`
+    : atom.name.padEnd(4).substring(0, 4);
+  const charge = atom.charge ? `${Math.abs(atom.charge)}${atom.charge < 0 ? '-' : '+'}` : '  ';
+
+  return [
+    (atom.isHetero ? 'HETATM' : 'ATOM').padEnd(6),
+    String(atom.id % 100000).padStart(5),
+    ' ',
+    name,
+    (atom.altLoc || ' ').charAt(0),
+    atom.residue.padStart(3).substring(0, 3),
+    ' ',
+    (atom.chain || ' ').charAt(0),
+    String(atom.residueId).padStart(4),
+    (atom.insertionCode || ' ').charAt(0),
+    '   ',
+    atom.position.map(value => value.toFixed(3).padStart(8)).join(''),
+    atom.occupancy.toFixed(2).padStart(6),
+    atom.bFactor.toFixed(2).padStart(6),
+    ' '.repeat(10),
+    atom.element.toUpperCase().padStart(2),
+    charge,
+  ].join('');
+}
+
+/**
+ * Write a molecule as PDB, with MODEL records when it has several models
+ */
+export function toPDBString(molecule: Molecule): string {
+  const multiModel = molecule.models.length > 1;
+  const lines: string[] = [];
+
+  molecule.models.forEach(model => {
+    if (multiModel) lines.push(`MODEL     ${String(model.id).padStart(4)}`);
+    model.atoms.forEach(atom => lines.push(formatAtomRecord(atom)));
+    if (multiModel) lines.push('ENDMDL');
   });
-};
+  lines.push('END');
+
+  return `${lines.join('\n')}\n`;
+}
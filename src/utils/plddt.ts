@@ -0,0 +1,77 @@
+/**
+ * Per-residue model confidence (pLDDT).
+ *
+ * ESMFold and AlphaFold write pLDDT into the B-factor column, either on a
+ * 0-100 scale or (some ESMFold versions) on 0-1. Colors and bands follow
+ * the AlphaFold database.
+ */
+import { ResidueColors } from '@/types/viewer';
+import { Molecule, filterResidues, getPolymerResidues, getRepresentativeAtom } from './structure';
+import { residueKey, toResidueColors } from './residueColors';
+
+export interface PLDDTBand {
+  min: number;
+  label: string;
+  color: number;
+}
+
+// Highest band first
+export const PLDDT_BANDS: PLDDTBand[] = [
+  { min: 90, label: 'Very high', color: 0x0053D6 },
+  { min: 70, label: 'Confident', color: 0x65CBF3 },
+  { min: 50, label: 'Low', color: 0xFFDB13 },
+  { min: 0, label: 'Very low', color: 0xFF7D45 },
+];
+
+export const getPLDDTBand = (plddt: number): PLDDTBand =>
+  PLDDT_BANDS.find(band => plddt >= band.min) || PLDDT_BANDS[PLDDT_BANDS.length - 1];
+
+export const plddtColor = (plddt: number): number => getPLDDTBand(plddt).color;
+
+export interface ResiduePLDDT {
+  chain: string;
+  residueId: number;
+  insertionCode: string;
+  name: string;
+  plddt: number;
+}
+
+/**
+ * pLDDT of each polymer residue on the 0-100 scale, read from the B-factor
+ * of its trace atom (CA or C4')
+ */
+export function getResiduePLDDT(molecule: Molecule): ResiduePLDDT[] {
+  const residues = getPolymerResidues(molecule)
+    .map(residue => ({ residue, atom: getRepresentativeAtom(residue) || residue.atoms[0] }))
+    .filter(({ atom }) => atom !== undefined);
+
+  // 0-1 values are rescaled so thresholds and bands work the same
+  const scale = residues.every(({ atom }) => atom.bFactor <= 1) ? 100 : 1;
+
+  return residues.map(({ residue, atom }) => ({
+    chain: residue.chain,
+    residueId: residue.residueId,
+    insertionCode: residue.insertionCode,
+    name: residue.name,
+    plddt: atom.bFactor * scale,
+  }));
+}
+
+export function plddtResidueColors(molecule: Molecule): ResidueColors {
+  const residues = getResiduePLDDT(molecule).map(({ chain, residueId, insertionCode, plddt }) => ({ chain, residueId, insertionCode, value: plddt }));
+  return toResidueColors(residues, plddtColor);
+}
+
+/**
+ * Copy of a molecule without the polymer residues below `threshold`, for
+ * hiding disordered regions. Heterogens are kept.
+ */
+export function hideLowConfidence(molecule: Molecule, threshold: number): Molecule {
+  const hidden = new Set(
+    getResiduePLDDT(molecule)
+      .filter(({ plddt }) => plddt < threshold)
+      .map(({ chain, residueId, insertionCode }) => residueKey(chain, residueId, insertionCode))
+  );
+  return filterResidues(molecule, residue =>
+    residue.isHetero || !hidden.has(residueKey(residue.chain, residue.residueId, residue.insertionCode)));
+}
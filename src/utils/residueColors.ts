@@ -0,0 +1,82 @@
+/**
+ * Per-residue coloring for the 3D viewers.
+ *
+ * Analyses that produce one value per residue turn it into a ResidueColors
+ * map, which MolStarViewer and NGLViewer apply as a custom color theme.
+ */
+import { ResidueColors } from '@/types/viewer';
+import { Molecule } from './structure';
+import { AlignedPair, getResidueDeviations } from './structureAlignment';
+
+// Residues without a value
+export const NO_VALUE_COLOR = 0xBFBFBF;
+
+// Key of a residue in maps and sets; keeps insertion codes apart (100 and 100A)
+export const residueKey = (chain: string, residueId: number, insertionCode: string): string =>
+  `${chain}:${residueId}${insertionCode}`;
+
+/**
+ * Linear interpolation between colors placed at increasing stops
+ */
+export function interpolateColor(value: number, stops: [number, number][]): number {
+  if (value <= stops[0][0]) return stops[0][1];
+  const last = stops[stops.length - 1];
+  if (value >= last[0]) return last[1];
+
+  const upper = stops.findIndex(([stop]) => stop >= value);
+  const [from, fromColor] = stops[upper - 1];
+  const [to, toColor] = stops[upper];
+  const t = (value - from) / (to - from);
+
+  const channel = (shift: number) => {
+    const a = (fromColor >> shift) & 0xFF;
+    const b = (toColor >> shift) & 0xFF;
+    return Math.round(a + (b - a) * t) << shift;
+  };
+  return channel(16) | channel(8) | channel(0);
+}
+
+// Blue where the structures agree, white at 2.5 Å, red from 5 Å (the
+// distance beyond which TM-align no longer counts a pair as aligned)
+export const DEVIATION_COLOR_STOPS: [number, number][] = [
+  [0, 0x2166AC],
+  [2.5, 0xF7F7F7],
+  [5, 0xB2182B],
+];
+
+export const deviationColor = (distance: number): number => interpolateColor(distance, DEVIATION_COLOR_STOPS);
+
+/**
+ * Color map from per-residue values; residues with a null value are left out
+ * and drawn in NO_VALUE_COLOR
+ */
+export function toResidueColors(
+  residues: { chain: string; residueId: number; insertionCode: string; value: number | null }[],
+  colorFor: (value: number) => number
+): ResidueColors {
+  const colors: ResidueColors = {};
+  residues.forEach(({ chain, residueId, insertionCode, value }) => {
+    if (value !== null) {
+      colors[residueKey(chain, residueId, insertionCode)] = colorFor(value);
+    }
+  });
+  return colors;
+}
+
+/**
+ * Deviation colors for one structure of a pairwise alignment (see
+ * getResidueDeviations for `side`)
+ */
+export function deviationResidueColors(
+  molecule: Molecule,
+  alignment: AlignedPair[],
+  side: 'target' | 'mobile'
+): ResidueColors {
+  const residues = getResidueDeviations(molecule, alignment, side).map(({ residue, distance }) => ({
+    chain: residue.chain,
+    residueId: residue.residueId,
+    insertionCode: residue.insertionCode,
+    value: distance,
+  }));
+  return toResidueColors(residues, deviationColor);
+}
@@ -0,0 +1,222 @@
+/**
+ * Solvent accessible surface area by the Shrake-Rupley method: test points
+ * on a sphere of radius vdW + probe around each atom, and count the ones
+ * not inside the sphere of any neighboring atom.
+ *
+ * Per residue, the area relative to the residue's maximum in a Gly-X-Gly
+ * tripeptide (relative solvent accessibility) classifies it as buried or
+ * exposed.
+ */
+import { ResidueColors } from '@/types/viewer';
+import { Atom, Molecule, getPolymerResidues } from './structure';
+import { buildSpatialGrid, forEachNeighbor } from './geometry';
+import { interpolateColor, toResidueColors } from './residueColors';
+
+// Water probe radius (Å)
+export const PROBE_RADIUS = 1.4;
+
+// Test points per atom
+const SPHERE_POINTS = 100;
+
+// Van der Waals radii (Å) by element, after Bondi
+const VDW_RADII: Record<string, number> = {
+  H: 1.1,
+  C: 1.7,
+  N: 1.55,
+  O: 1.52,
+  S: 1.8,
+  P: 1.8,
+  SE: 1.9,
+};
+const DEFAULT_RADIUS = 1.8;
+
+export const vdwRadius = (element: string): number => VDW_RADII[element.toUpperCase()] ?? DEFAULT_RADIUS;
+
+/**
+ * Points spread evenly over the unit sphere (golden section spiral), as
+ * x, y, z flattened
+ */
+function spherePoints(count: number): Float32Array {
+  const points = new Float32Array(count * 3);
+  const increment = Math.PI * (3 - Math.sqrt(5));
+  for (let i = 0; i < count; i++) {
+    const y = 1 - (2 * i + 1) / count;
+    const radius = Math.sqrt(1 - y * y);
+    const phi = i * increment;
+    points.set([Math.cos(phi) * radius, y, Math.sin(phi) * radius], i * 3);
+  }
+  return points;
+}
+
+/**
+ * Pack atom positions and radii for shrakeRupley
+ */
+export function packAtoms(atoms: Atom[]): { coordinates: Float32Array; radii: Float32Array } {
+  const coordinates = new Float32Array(atoms.length * 3);
+  const radii = new Float32Array(atoms.length);
+  atoms.forEach((atom, i) => {
+    coordinates.set(atom.position, i * 3);
+    radii[i] = vdwRadius(atom.element);
+  });
+  return { coordinates, radii };
+}
+
+/**
+ * Accessible surface area of each atom (Å²)
+ */
+export function shrakeRupley(
+  coordinates: Float32Array,
+  radii: Float32Array,
+  onProgress?: (fraction: number) => void
+): Float32Array {
+  const count = radii.length;
+  const areas = new Float32Array(count);
+  if (count === 0) return areas;
+
+  const maxRadius = radii.reduce((max, radius) => Math.max(max, radius), 0) + PROBE_RADIUS;
+  // Spheres of two atoms overlap within the sum of their expanded radii
+  const grid = buildSpatialGrid(coordinates, 2 * maxRadius);
+  const sphere = spherePoints(SPHERE_POINTS);
+  const neighbors: number[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const radius = radii[i] + PROBE_RADIUS;
+    neighbors.length = 0;
+    forEachNeighbor(grid, coordinates, i, radius + maxRadius, (neighbor, distance) => {
+      if (distance < radius + radii[neighbor] + PROBE_RADIUS) neighbors.push(neighbor);
+    });
+
+    let accessible = 0;
+    // The last neighbor that buried a point is checked first for the next one
+    let last = 0;
+    for (let p = 0; p < SPHERE_POINTS * 3; p += 3) {
+      const x = coordinates[i * 3] + sphere[p] * radius;
+      const y = coordinates[i * 3 + 1] + sphere[p + 1] * radius;
+      const z = coordinates[i * 3 + 2] + sphere[p + 2] * radius;
+
+      let buried = false;
+      for (let k = 0; k < neighbors.length; k++) {
+        const neighbor = neighbors[(last + k) % neighbors.length];
+        const neighborRadius = radii[neighbor] + PROBE_RADIUS;
+        const dx = coordinates[neighbor * 3] - x;
+        const dy = coordinates[neighbor * 3 + 1] - y;
+        const dz = coordinates[neighbor * 3 + 2] - z;
+        if (dx * dx + dy * dy + dz * dz < neighborRadius * neighborRadius) {
+          buried = true;
+          last = (last + k) % neighbors.length;
+          break;
+        }
+      }
+      if (!buried) accessible++;
+    }
+
+    areas[i] = (4 * Math.PI * radius * radius * accessible) / SPHERE_POINTS;
+    if (i % 500 === 499) onProgress?.(i / count);
+  }
+
+  return areas;
+}
+
+// Maximum accessible area of each amino acid (Å²), theoretical values of
+// Tien et al. 2013
+const MAX_ASA: Record<string, number> = {
+  ALA: 129,
+  ARG: 274,
+  ASN: 195,
+  ASP: 193,
+  CYS: 167,
+  GLN: 225,
+  GLU: 223,
+  GLY: 104,
+  HIS: 224,
+  ILE: 197,
+  LEU: 201,
+  LYS: 236,
+  MET: 224,
+  PHE: 240,
+  PRO: 159,
+  SER: 155,
+  THR: 172,
+  TRP: 285,
+  TYR: 263,
+  VAL: 174,
+};
+
+// Residues with a relative accessibility below this are buried
+export const EXPOSURE_THRESHOLD = 0.25;
+
+// Blue for buried, white at the threshold, red for fully exposed
+export const EXPOSURE_COLOR_STOPS: [number, number][] = [
+  [0, 0x2166AC],
+  [EXPOSURE_THRESHOLD, 0xF7F7F7],
+  [1, 0xB2182B],
+];
+
+export const exposureColor = (rsa: number): number => interpolateColor(rsa, EXPOSURE_COLOR_STOPS);
+
+export interface ResidueExposure {
+  chain: string;
+  residueId: number;
+  insertionCode: string;
+  name: string;
+  /** Accessible area (Å²) */
+  sasa: number;
+  /** sasa / maximum area, null for residues other than the standard amino acids */
+  rsa: number | null;
+  /** RSA at or above EXPOSURE_THRESHOLD; null without an RSA */
+  exposed: boolean | null;
+}
+
+export interface SASAResult {
+  /** Accessible area of all polymer atoms (Å²) */
+  total: number;
+  /** Polymer residues of the first model, in order */
+  residues: ResidueExposure[];
+}
+
+/**
+ * Accessible area of the polymer of the first model, in total and per
+ * residue. Ligands, waters and hydrogens are left out.
+ */
+export function calculateSASA(molecule: Molecule, onProgress?: (fraction: number) => void): SASAResult {
+  const residues = getPolymerResidues(molecule);
+  const atoms: Atom[] = [];
+  const residueOf: number[] = [];
+  residues.forEach((residue, index) => {
+    residue.atoms.forEach(atom => {
+      if (atom.element.toUpperCase() === 'H') return;
+      atoms.push(atom);
+      residueOf.push(index);
+    });
+  });
+
+  const { coordinates, radii } = packAtoms(atoms);
+  const areas = shrakeRupley(coordinates, radii, onProgress);
+  const residueAreas = new Float32Array(residues.length);
+  areas.forEach((area, i) => {
+    residueAreas[residueOf[i]] += area;
+  });
+
+  onProgress?.(1);
+  return {
+    total: areas.reduce((total, area) => total + area, 0),
+    residues: residues.map((residue, index) => {
+      const maxArea = MAX_ASA[residue.name];
+      const rsa = maxArea ? residueAreas[index] / maxArea : null;
+      return {
+        chain: residue.chain,
+        residueId: residue.residueId,
+        insertionCode: residue.insertionCode,
+        name: residue.name,
+        sasa: residueAreas[index],
+        rsa,
+        exposed: rsa === null ? null : rsa >= EXPOSURE_THRESHOLD,
+      };
+    }),
+  };
+}
+
+export function exposureResidueColors(result: SASAResult): ResidueColors {
+  const residues = result.residues.map(({ chain, residueId, insertionCode, rsa }) => ({ chain, residueId, insertionCode, value: rsa }));
+  return toResidueColors(residues, exposureColor);
+}
@@ -0,0 +1,337 @@
+/**
+ * Secondary structure assignment from backbone hydrogen bonds, after DSSP
+ * (Kabsch & Sander, 1983).
+ *
+ * Predicted models come without HELIX/SHEET records, so the states are
+ * computed from the coordinates: backbone H-bonds from the electrostatic
+ * energy of the C=O and N-H groups, n-turns and helices from runs of i -> i+n
+ * bonds, bridges and ladders from paired bonds between strands. Beta bulges
+ * are not joined into ladders.
+ */
+import { Molecule, Residue, SecondaryStructureElement, findResidueAtom, getPolymerResidues } from './structure';
+import { buildSpatialGrid, forEachNeighbor } from './geometry';
+import { AlignedPair, AlignedResidue } from './structureAlignment';
+
+/**
+ * DSSP states: H alpha helix, G 3-10 helix, I pi helix, E strand in a
+ * ladder, B isolated bridge, T H-bonded turn, S bend, C none of these
+ */
+export type DSSPState = 'H' | 'G' | 'I' | 'E' | 'B' | 'T' | 'S' | 'C';
+
+/** Three-state reduction: helix, strand, coil */
+export type SecondaryStructureClass = 'H' | 'E' | 'C';
+
+export interface ResidueSecondaryStructure {
+  chain: string;
+  residueId: number;
+  insertionCode: string;
+  name: string;
+  state: DSSPState;
+}
+
+export interface SecondaryStructureSummary {
+  chain: string;
+  residueCount: number;
+  /** Fractions of the chain's residues, 0-1 */
+  helix: number;
+  strand: number;
+  coil: number;
+}
+
+export const DSSP_STATE_NAMES: Record<DSSPState, string> = {
+  H: 'Alpha helix',
+  G: '3-10 helix',
+  I: 'Pi helix',
+  E: 'Strand',
+  B: 'Isolated bridge',
+  T: 'Turn',
+  S: 'Bend',
+  C: 'Coil',
+};
+
+// Helix magenta and strand yellow, as in the Mol* secondary structure theme
+export const SECONDARY_STRUCTURE_COLORS: Record<SecondaryStructureClass, string> = {
+  H: '#FF0080',
+  E: '#FFC800',
+  C: '#CCCCCC',
+};
+
+export const toSecondaryStructureClass = (state: DSSPState): SecondaryStructureClass =>
+  state === 'H' || state === 'G' || state === 'I' ? 'H' : state === 'E' || state === 'B' ? 'E' : 'C';
+
+// Kabsch & Sander: q1 * q2 * f with partial charges 0.42e, 0.20e
+const HBOND_ENERGY_FACTOR = 0.084 * 332;
+// kcal/mol; bonds are weaker than this
+const HBOND_ENERGY_CUTOFF = -0.5;
+// Residues whose CA atoms are further apart cannot be H-bonded
+const MAX_CA_DISTANCE = 9;
+// Longer C(i)-N(i+1) bonds are chain breaks
+const MAX_PEPTIDE_BOND = 2.5;
+// CA(i-2), CA(i), CA(i+2) angle above which residue i is a bend
+const BEND_ANGLE = 70;
+
+type Vec3 = [number, number, number];
+
+interface Backbone {
+  n: Vec3;
+  ca: Vec3;
+  c: Vec3;
+  o: Vec3;
+  /** Amide hydrogen, placed opposite the previous carbonyl; none for proline or after a break */
+  h?: Vec3;
+}
+
+const subtract = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const norm = (a: Vec3): number => Math.hypot(a[0], a[1], a[2]);
+const distance = (a: Vec3, b: Vec3): number => norm(subtract(a, b));
+
+function getBackbone(residue: Residue): Backbone | undefined {
+  const [n, ca, c, o] = ['N', 'CA', 'C', 'O'].map(name => findResidueAtom(residue, name)?.position);
+  return n && ca && c && o ? { n, ca, c, o } : undefined;
+}
+
+/**
+ * Electrostatic energy of the bond between the C=O of `acceptor` and the
+ * N-H of `donor`, in kcal/mol
+ */
+function hbondEnergy(acceptor: Backbone, donor: Backbone): number {
+  if (!donor.h) return 0;
+  return HBOND_ENERGY_FACTOR * (
+    1 / distance(acceptor.o, donor.n) +
+    1 / distance(acceptor.c, donor.h) -
+    1 / distance(acceptor.o, donor.h) -
+    1 / distance(acceptor.c, donor.n)
+  );
+}
+
+/**
+ * DSSP state of every polymer residue of the first model, in chain order
+ * (the order of getPolymerResidues). Residues without a complete backbone,
+ * such as nucleotides, are coil.
+ */
+export function assignSecondaryStructure(molecule: Molecule): ResidueSecondaryStructure[] {
+  const residues = getPolymerResidues(molecule);
+  const size = residues.length;
+  const backbones = residues.map(getBackbone);
+
+  // Residues i and i + 1 are bonded when in the same chain and close enough
+  const connected = (i: number) => {
+    const a = backbones[i];
+    const b = backbones[i + 1];
+    return !!a && !!b && residues[i].chain === residues[i + 1].chain && distance(a.c, b.n) < MAX_PEPTIDE_BOND;
+  };
+  const linked = residues.map((_, i) => i < size - 1 && connected(i));
+  // True when residues `from` to `to` form an unbroken stretch
+  const unbroken = (from: number, to: number) => {
+    if (from < 0 || to >= size) return false;
+    for (let k = from; k < to; k++) {
+      if (!linked[k]) return false;
+    }
+    return true;
+  };
+
+  backbones.forEach((backbone, i) => {
+    if (!backbone || i === 0 || !linked[i - 1] || residues[i].name === 'PRO') return;
+    const previous = backbones[i - 1]!;
+    const direction = subtract(previous.c, previous.o);
+    const length = norm(direction);
+    backbone.h = [
+      backbone.n[0] + direction[0] / length,
+      backbone.n[1] + direction[1] / length,
+      backbone.n[2] + direction[2] / length,
+    ];
+  });
+
+  // Candidate partners from a grid on the CA atoms
+  const indices = backbones.map((backbone, i) => (backbone ? i : -1)).filter(i => i >= 0);
+  const caCoordinates = new Float32Array(indices.length * 3);
+  indices.forEach((residue, point) => caCoordinates.set(backbones[residue]!.ca, point * 3));
+  const grid = buildSpatialGrid(caCoordinates, MAX_CA_DISTANCE);
+
+  // hbonds has acceptor * size + donor for every C=O(acceptor) -> N-H(donor) bond
+  const hbonds = new Set<number>();
+  indices.forEach((acceptor, point) => {
+    forEachNeighbor(grid, caCoordinates, point, MAX_CA_DISTANCE, neighbor => {
+      const donor = indices[neighbor];
+      if (Math.abs(donor - acceptor) < 2 && residues[donor].chain === residues[acceptor].chain) return;
+      if (hbondEnergy(backbones[acceptor]!, backbones[donor]!) < HBOND_ENERGY_CUTOFF) {
+        hbonds.add(acceptor * size + donor);
+      }
+    });
+  });
+  const hbond = (acceptor: number, donor: number) =>
+    acceptor >= 0 && donor >= 0 && acceptor < size && donor < size && hbonds.has(acceptor * size + donor);
+
+  // n-turn at i: C=O(i) bonded to N-H(i + n) within an unbroken stretch
+  const turn = (n: number, i: number) => hbond(i, i + n) && unbroken(i, i + n);
+
+  const states: DSSPState[] = new Array(size).fill('C');
+  const assign = (i: number, state: DSSPState, over: DSSPState[]) => {
+    if (over.includes(states[i])) states[i] = state;
+  };
+
+  // Lowest priority first, each level overwriting the ones before it
+  for (let i = 2; i < size - 2; i++) {
+    const [a, b, c] = [backbones[i - 2], backbones[i], backbones[i + 2]];
+    if (!a || !b || !c || !unbroken(i - 2, i + 2)) continue;
+    const u = subtract(b.ca, a.ca);
+    const v = subtract(c.ca, b.ca);
+    const cosine = (u[0] * v[0] + u[1] * v[1] + u[2] * v[2]) / (norm(u) * norm(v));
+    if ((Math.acos(Math.max(-1, Math.min(1, cosine))) * 180) / Math.PI > BEND_ANGLE) {
+      states[i] = 'S';
+    }
+  }
+
+  [3, 4, 5].forEach(n => {
+    for (let i = 0; i < size; i++) {
+      if (!turn(n, i)) continue;
+      for (let k = i + 1; k < i + n; k++) assign(k, 'T', ['C', 'S']);
+    }
+  });
+
+  // Two consecutive n-turns start a helix of n residues
+  const helix = (n: number, state: DSSPState, over: DSSPState[]) => {
+    for (let i = 1; i < size; i++) {
+      if (turn(n, i - 1) && turn(n, i)) {
+        for (let k = i; k < i + n; k++) assign(k, state, over);
+      }
+    }
+  };
+  helix(5, 'I', ['C', 'S', 'T']);
+  helix(3, 'G', ['C', 'S', 'T']);
+
+  // Bridges between residues at least three apart
+  const bridges = new Map<number, { partner: number; parallel: boolean }[]>();
+  const addBridge = (i: number, j: number, parallel: boolean) => {
+    bridges.set(i, [...(bridges.get(i) || []), { partner: j, parallel }]);
+    bridges.set(j, [...(bridges.get(j) || []), { partner: i, parallel }]);
+  };
+  indices.forEach((i, point) => {
+    if (!unbroken(i - 1, i + 1)) return;
+    forEachNeighbor(grid, caCoordinates, point, MAX_CA_DISTANCE, neighbor => {
+      const j = indices[neighbor];
+      if (j <= i + 2 || !unbroken(j - 1, j + 1)) return;
+      if ((hbond(i - 1, j) && hbond(j, i + 1)) || (hbond(j - 1, i) && hbond(i, j + 1))) {
+        addBridge(i, j, true);
+      } else if ((hbond(i, j) && hbond(j, i)) || (hbond(i - 1, j + 1) && hbond(j - 1, i + 1))) {
+        addBridge(i, j, false);
+      }
+    });
+  });
+
+  // Bridges with a neighboring bridge on the same ladder are strands
+  const hasBridge = (i: number, partner: number, parallel: boolean) =>
+    (bridges.get(i) || []).some(bridge => bridge.partner === partner && bridge.parallel === parallel);
+  bridges.forEach((partners, i) => {
+    const inLadder = partners.some(({ partner, parallel }) => {
+      const step = parallel ? 1 : -1;
+      return hasBridge(i + 1, partner + step, parallel) || hasBridge(i - 1, partner - step, parallel);
+    });
+    assign(i, inLadder ? 'E' : 'B', ['C', 'S', 'T', 'G', 'I', 'B']);
+  });
+
+  helix(4, 'H', ['C', 'S', 'T', 'G', 'I', 'E', 'B']);
+
+  return residues.map((residue, i) => ({
+    chain: residue.chain,
+    residueId: residue.residueId,
+    insertionCode: residue.insertionCode,
+    name: residue.name,
+    state: states[i],
+  }));
+}
+
+// Orders residue numbers with insertion codes
+const compareResidueNumbers = (residueId: number, insertionCode: string, otherId: number, otherCode: string) =>
+  residueId !== otherId ? residueId - otherId : insertionCode.localeCompare(otherCode);
+
+const HELIX_CLASS_STATES: Record<number, DSSPState> = { 1: 'H', 3: 'I', 5: 'G' };
+
+/**
+ * States from the HELIX/SHEET records of the file, for experimental
+ * structures; residues outside the records are coil
+ */
+export function secondaryStructureFromRecords(molecule: Molecule): ResidueSecondaryStructure[] {
+  const contains = (element: SecondaryStructureElement, residue: Residue) =>
+    element.chain === residue.chain &&
+    compareResidueNumbers(residue.residueId, residue.insertionCode, element.startResidueId, element.startInsertionCode) >= 0 &&
+    compareResidueNumbers(residue.residueId, residue.insertionCode, element.endResidueId, element.endInsertionCode) <= 0;
+
+  return getPolymerResidues(molecule).map(residue => {
+    const element = molecule.secondaryStructure.find(candidate => contains(candidate, residue));
+    const state: DSSPState = !element
+      ? 'C'
+      : element.type === 'sheet' ? 'E' : HELIX_CLASS_STATES[element.helixClass ?? 1] || 'H';
+    return {
+      chain: residue.chain,
+      residueId: residue.residueId,
+      insertionCode: residue.insertionCode,
+      name: residue.name,
+      state,
+    };
+  });
+}
+
+/**
+ * Helix, strand and coil fractions of every chain
+ */
+export function summarizeSecondaryStructure(assignment: ResidueSecondaryStructure[]): SecondaryStructureSummary[] {
+  const summaries = new Map<string, SecondaryStructureSummary>();
+  assignment.forEach(({ chain, state }) => {
+    const summary = summaries.get(chain) || { chain, residueCount: 0, helix: 0, strand: 0, coil: 0 };
+    summary.residueCount++;
+    const stateClass = toSecondaryStructureClass(state);
+    if (stateClass === 'H') summary.helix++;
+    else if (stateClass === 'E') summary.strand++;
+    else summary.coil++;
+    summaries.set(chain, summary);
+  });
+
+  return Array.from(summaries.values()).map(summary => ({
+    ...summary,
+    helix: summary.helix / summary.residueCount,
+    strand: summary.strand / summary.residueCount,
+    coil: summary.coil / summary.residueCount,
+  }));
+}
+
+export interface SecondaryStructurePair {
+  targetResidue: AlignedResidue;
+  mobileResidue: AlignedResidue;
+  target: DSSPState;
+  mobile: DSSPState;
+}
+
+export interface SecondaryStructureComparison {
+  /** Aligned residue pairs with both states, in alignment order */
+  pairs: SecondaryStructurePair[];
+  /** Fraction of pairs in the same three-state class (Q3) */
+  agreement: number;
+}
+
+/**
+ * Three-state agreement of two assignments over the residue pairs of a
+ * structural alignment
+ */
+export function compareSecondaryStructure(
+  target: ResidueSecondaryStructure[],
+  mobile: ResidueSecondaryStructure[],
+  alignment: AlignedPair[]
+): SecondaryStructureComparison {
+  const key = ({ chain, residueId, insertionCode }: { chain: string; residueId: number; insertionCode: string }) =>
+    `${chain}:${residueId}${insertionCode}`;
+  const targetStates = new Map(target.map(residue => [key(residue), residue.state]));
+  const mobileStates = new Map(mobile.map(residue => [key(residue), residue.state]));
+
+  const pairs: SecondaryStructurePair[] = [];
+  alignment.forEach(({ targetResidue, mobileResidue }) => {
+    const targetState = targetStates.get(key(targetResidue));
+    const mobileState = mobileStates.get(key(mobileResidue));
+    if (targetState && mobileState) {
+      pairs.push({ targetResidue, mobileResidue, target: targetState, mobile: mobileState });
+    }
+  });
+
+  const matches = pairs.filter(pair => toSecondaryStructureClass(pair.target) === toSecondaryStructureClass(pair.mobile)).length;
+  return { pairs, agreement: pairs.length > 0 ? matches / pairs.length : NaN };
+}
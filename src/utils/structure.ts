@@ -0,0 +1,308 @@
+/**
+ * Structure model shared by the parsers, analysis utilities and viewers.
+ *
+ * A molecule is a models -> chains -> residues -> atoms hierarchy plus the
+ * annotations the file formats carry (secondary structure, SEQRES, bonds).
+ * Parsing lives in structureParser.ts (PDB in pdbParser.ts, mmCIF and
+ * BinaryCIF in cifParser.ts); the selection helpers below are how the rest
+ * of the app picks atoms out of a molecule.
+ */
+
+export interface Atom {
+  id: number;                 // Atom serial number
+  name: string;               // Atom name, e.g. "CA", "OG1"
+  altLoc: string;             // Alternate location indicator, '' if none
+  element: string;            // Element symbol, e.g. "C", "Ca"
+  charge: number;
+  residue: string;            // Residue name, e.g. "ALA"
+  chain: string;
+  residueId: number;          // Residue sequence number
+  insertionCode: string;      // '' if none
+  position: [number, number, number]; // [x, y, z]
+  occupancy: number;
+  bFactor: number;            // Temperature factor (pLDDT in predicted models)
+  isHetero: boolean;          // HETATM record
+}
+
+export interface Residue {
+  name: string;
+  chain: string;
+  residueId: number;
+  insertionCode: string;
+  isHetero: boolean;
+  atoms: Atom[];
+}
+
+export interface Chain {
+  id: string;
+  residues: Residue[];
+}
+
+export interface Model {
+  id: number;                 // MODEL serial number, 1 if the file has no MODEL records
+  chains: Chain[];
+  atoms: Atom[];
+}
+
+export interface SecondaryStructureElement {
+  type: 'helix' | 'sheet';
+  id: string;                 // Helix id or sheet id
+  chain: string;
+  startResidueId: number;
+  startInsertionCode: string;
+  endResidueId: number;
+  endInsertionCode: string;
+  helixClass?: number;        // HELIX only, 1 = right-handed alpha
+  strand?: number;            // SHEET only
+  sense?: number;             // SHEET only, 0 first strand, 1 parallel, -1 anti-parallel
+}
+
+export interface Molecule {
+  id: string;
+  name: string;
+  title?: string;
+  /** Atoms of the first model, with only the primary alternate location of each atom */
+  atoms: Atom[];
+  models: Model[];
+  secondaryStructure: SecondaryStructureElement[];
+  /** Residue names from SEQRES records per chain */
+  seqres: Record<string, string[]>;
+  /** Bonds from CONECT records as pairs of atom serial numbers (each pair once) */
+  bonds: [number, number][];
+}
+
+export interface ParseStructureOptions {
+  /** Keep every alternate location instead of only the first one per atom */
+  allAltLocs?: boolean;
+}
+
+/**
+ * Group the atoms of one model into chains and residues, in file order
+ */
+export function buildModel(id: number, atoms: Atom[]): Model {
+  const chains: Chain[] = [];
+  const chainsById = new Map<string, Chain>();
+  let currentResidue: Residue | null = null;
+
+  for (const atom of atoms) {
+    let chain = chainsById.get(atom.chain);
+    if (!chain) {
+      chain = { id: atom.chain, residues: [] };
+      chainsById.set(atom.chain, chain);
+      chains.push(chain);
+    }
+
+    // A residue continues while chain, number and insertion code stay the same
+    if (
+      !currentResidue ||
+      currentResidue.chain !== atom.chain ||
+      currentResidue.residueId !== atom.residueId ||
+      currentResidue.insertionCode !== atom.insertionCode ||
+      currentResidue.name !== atom.residue
+    ) {
+      currentResidue = {
+        name: atom.residue,
+        chain: atom.chain,
+        residueId: atom.residueId,
+        insertionCode: atom.insertionCode,
+        isHetero: atom.isHetero,
+        atoms: [],
+      };
+      chain.residues.push(currentResidue);
+    }
+    currentResidue.atoms.push(atom);
+  }
+
+  return { id, chains, atoms };
+}
+
+// Selection helpers. Unless stated otherwise they read the first model.
+
+export const WATER_RESIDUES = new Set(['HOH', 'WAT', 'DOD']);
+
+export const AMINO_ACID_CODES: Record<string, string> = {
+  'ALA': 'A', 'ARG': 'R', 'ASN': 'N', 'ASP': 'D',
+  'CYS': 'C', 'GLN': 'Q', 'GLU': 'E', 'GLY': 'G',
+  'HIS': 'H', 'ILE': 'I', 'LEU': 'L', 'LYS': 'K',
+  'MET': 'M', 'PHE': 'F', 'PRO': 'P', 'SER': 'S',
+  'THR': 'T', 'TRP': 'W', 'TYR': 'Y', 'VAL': 'V',
+  // Non-standard amino acids
+  'MSE': 'M', 'HSE': 'H', 'HSD': 'H', 'HSP': 'H',
+  'SEC': 'U', 'PYL': 'O', 'ASX': 'B', 'GLX': 'Z',
+  'UNK': 'X'
+};
+
+const NUCLEOTIDE_CODES: Record<string, string> = {
+  'A': 'A', 'C': 'C', 'G': 'G', 'U': 'U', 'T': 'T',
+  'DA': 'A', 'DC': 'C', 'DG': 'G', 'DT': 'T', 'DU': 'U',
+};
+
+const PROTEIN_BACKBONE = ['N', 'CA', 'C', 'O'];
+const NUCLEIC_BACKBONE = ['P', 'OP1', 'OP2', "O5'", "C5'", "C4'", "C3'", "O3'"];
+
+/**
+ * One-letter code of a residue name, 'X' if unknown
+ */
+export function getResidueCode(residueName: string): string {
+  const name = residueName.toUpperCase();
+  return AMINO_ACID_CODES[name] || NUCLEOTIDE_CODES[name] || 'X';
+}
+
+export function isWater(residue: Residue): boolean {
+  return WATER_RESIDUES.has(residue.name);
+}
+
+/**
+ * All residues of a model (the first by default), in chain and file order
+ */
+export function getResidues(molecule: Molecule, modelIndex = 0): Residue[] {
+  return molecule.models[modelIndex]?.chains.flatMap(chain => chain.residues) || [];
+}
+
+/**
+ * Residues of the polymer chains (amino or nucleic acids), skipping
+ * waters and other heterogens
+ */
+export function getPolymerResidues(molecule: Molecule, modelIndex = 0): Residue[] {
+  return getResidues(molecule, modelIndex).filter(residue => !residue.isHetero);
+}
+
+/**
+ * Find an atom of a residue by name
+ */
+export function findResidueAtom(residue: Residue, atomName: string): Atom | undefined {
+  return residue.atoms.find(atom => atom.name === atomName);
+}
+
+export function getChainIds(molecule: Molecule): string[] {
+  return molecule.models[0]?.chains.map(chain => chain.id) || [];
+}
+
+/**
+ * Residues of one chain
+ */
+export function selectChain(molecule: Molecule, chainId: string): Residue[] {
+  return molecule.models[0]?.chains.find(chain => chain.id === chainId)?.residues || [];
+}
+
+/**
+ * Residues of a chain numbered from `start` to `end`, inclusive
+ */
+export function selectResidueRange(molecule: Molecule, chainId: string, start: number, end: number): Residue[] {
+  return selectChain(molecule, chainId)
+    .filter(residue => residue.residueId >= start && residue.residueId <= end);
+}
+
+/**
+ * Atom standing for a residue in traces and residue-level analyses: CA for
+ * amino acids, C4' for nucleotides
+ */
+export function getRepresentativeAtom(residue: Residue): Atom | undefined {
+  return findResidueAtom(residue, 'CA') || findResidueAtom(residue, "C4'");
+}
+
+/**
+ * One trace atom per polymer residue (see getRepresentativeAtom), in chain
+ * order. Pass residues to trace a selection instead of the whole molecule.
+ */
+export function selectCATrace(source: Molecule | Residue[]): Atom[] {
+  const residues = Array.isArray(source) ? source.filter(residue => !residue.isHetero) : getPolymerResidues(source);
+  return residues
+    .map(getRepresentativeAtom)
+    .filter((atom): atom is Atom => atom !== undefined);
+}
+
+/**
+ * Backbone atoms (N, CA, C, O and the nucleic acid sugar-phosphate chain)
+ * of the polymer residues
+ */
+export function selectBackbone(source: Molecule | Residue[]): Atom[] {
+  const residues = Array.isArray(source) ? source.filter(residue => !residue.isHetero) : getPolymerResidues(source);
+  return residues.flatMap(residue =>
+    residue.atoms.filter(atom => PROTEIN_BACKBONE.includes(atom.name) || NUCLEIC_BACKBONE.includes(atom.name))
+  );
+}
+
+/**
+ * Copy of a molecule keeping only the residues that pass `keep`, in every
+ * model. Annotations are kept as they are.
+ */
+export function filterResidues(molecule: Molecule, keep: (residue: Residue) => boolean): Molecule {
+  const models = molecule.models.map(model =>
+    buildModel(model.id, model.chains.flatMap(chain => chain.residues.filter(keep).flatMap(residue => residue.atoms)))
+  );
+  return { ...molecule, atoms: models[0]?.atoms || [], models };
+}
+
+/**
+ * Coordinates of atoms as [x, y, z] arrays, skipping non-finite positions
+ */
+export function getCoordinates(atoms: Atom[]): number[][] {
+  return atoms
+    .map(atom => [...atom.position])
+    .filter(position => position.every(value => Number.isFinite(value)));
+}
+
+/**
+ * Polymer residues with their one-letter codes, for sequence displays
+ */
+export function getSequenceResidues(molecule: Molecule): { id: number; insertionCode: string; code: string; name: string; chain: string }[] {
+  return getPolymerResidues(molecule).map(residue => ({
+    id: residue.residueId,
+    insertionCode: residue.insertionCode,
+    code: getResidueCode(residue.name),
+    name: residue.name,
+    chain: residue.chain,
+  }));
+}
+
+export interface MoleculeStats {
+  totalAtoms: number;
+  uniqueElements: string[];
+  residueCounts: { [key: string]: number };
+  chainInfo: {
+    chainId: string;
+    residueCount: number;
+    atomCount: number;
+  }[];
+  waterCount: number;
+  ionCount: number;
+}
+
+/**
+ * Composition summary of the first model
+ */
+export function calculateMoleculeStats(molecule: Molecule): MoleculeStats {
+  const stats: MoleculeStats = {
+    totalAtoms: molecule.atoms.length,
+    uniqueElements: Array.from(new Set(molecule.atoms.map(atom => atom.element))).sort(),
+    residueCounts: {},
+    chainInfo: [],
+    waterCount: 0,
+    ionCount: 0
+  };
+
+  molecule.models[0]?.chains.forEach(chain => {
+    stats.chainInfo.push({
+      chainId: chain.id,
+      residueCount: chain.residues.filter(residue => !residue.isHetero).length,
+      atomCount: chain.residues.reduce((count, residue) => count + residue.atoms.length, 0)
+    });
+
+    chain.residues.forEach(residue => {
+      stats.residueCounts[residue.name] = (stats.residueCounts[residue.name] || 0) + 1;
+
+      // Waters and single-atom heterogens (ions) are counted per residue
+      if (isWater(residue)) {
+        stats.waterCount++;
+      } else if (residue.isHetero && residue.atoms.length === 1) {
+        stats.ionCount++;
+      }
+    });
+  });
+
+  // Sort chains by ID
+  stats.chainInfo.sort((a, b) => a.chainId.localeCompare(b.chainId));
+
+  return stats;
+}
@@ -0,0 +1,558 @@
+/**
+ * Client-side structure alignment in the style of TM-align.
+ *
+ * Structures are compared on their residue traces (CA, or C4' for
+ * nucleotides). The residue correspondence is searched without relying on
+ * sequence: gapless threading and a sequence alignment give starting
+ * alignments, which are refined by alternating a TM-score maximizing
+ * superposition with a dynamic programming realignment on the superposed
+ * distances.
+ *
+ * Zhang & Skolnick, "TM-align: a protein structure alignment algorithm based
+ * on the TM-score", Nucleic Acids Res. 2005.
+ */
+import {
+  Atom,
+  Molecule,
+  Residue,
+  buildModel,
+  getPolymerResidues,
+  getRepresentativeAtom,
+  getResidueCode,
+} from './structure';
+
+type Vec3 = number[];
+
+/**
+ * Rigid transform mapping mobile coordinates onto the target:
+ * x' = rotation * x + translation
+ */
+export interface Transform {
+  rotation: number[][];       // 3x3, row-major
+  translation: Vec3;
+}
+
+export interface Superposition {
+  transform: Transform;
+  rmsd: number;
+}
+
+export interface AlignedResidue {
+  chain: string;
+  residueId: number;
+  insertionCode: string;
+  name: string;
+}
+
+export interface AlignedPair {
+  mobileIndex: number;        // Index into the mobile trace
+  targetIndex: number;        // Index into the target trace
+  mobileResidue: AlignedResidue;
+  targetResidue: AlignedResidue;
+  distance: number;           // After superposition, in Å
+}
+
+export interface StructureAlignment {
+  /** Residue correspondence, in trace order */
+  alignment: AlignedPair[];
+  /** Superposition of the mobile structure onto the target */
+  transform: Transform;
+  /** Mobile trace coordinates after superposition */
+  alignedCoordinates: number[][];
+  /** RMSD over the aligned pairs closer than ALIGNED_DISTANCE_CUTOFF */
+  rmsd: number;
+  alignedLength: number;
+  tmScoreTarget: number;      // Normalized by the target length
+  tmScoreMobile: number;      // Normalized by the mobile length
+  gdtTs: number;              // 0-100, over the target length
+  sequenceIdentity: number;   // Over the aligned length, 0-1
+  mobileLength: number;
+  targetLength: number;
+}
+
+export interface AlignmentOptions {
+  /** Keep the sequence alignment as residue correspondence and only superpose */
+  sequenceDependent?: boolean;
+}
+
+// Pairs further apart than this do not count as aligned (as in TM-align)
+const ALIGNED_DISTANCE_CUTOFF = 5;
+// Gap opening penalty of the structural dynamic programming
+const GAP_OPEN = -0.6;
+const MAX_REFINEMENT_ROUNDS = 6;
+const MAX_SUPERPOSITION_ITERATIONS = 20;
+const GDT_CUTOFFS = [1, 2, 4, 8];
+
+/**
+ * TM-score distance scale for a chain of `length` residues
+ */
+export function tmScoreD0(length: number): number {
+  if (length <= 21) return 0.5;
+  return Math.max(0.5, 1.24 * Math.cbrt(length - 15) - 1.8);
+}
+
+// Pair selection cutoff while searching for the superposition
+const searchCutoff = (d0: number) => Math.min(8, Math.max(4.5, d0));
+
+/**
+ * Largest eigenvalue and its eigenvector of a symmetric 4x4 matrix (Jacobi)
+ */
+function largestEigenvector(matrix: number[][]): { value: number; vector: number[] } {
+  const a = matrix.map(row => [...row]);
+  const v = [[1, 0, 0, 0], [0, 1, 0, 0], [0, 0, 1, 0], [0, 0, 0, 1]];
+
+  for (let sweep = 0; sweep < 50; sweep++) {
+    let offDiagonal = 0;
+    for (let p = 0; p < 3; p++) {
+      for (let q = p + 1; q < 4; q++) offDiagonal += a[p][q] * a[p][q];
+    }
+    if (offDiagonal < 1e-18) break;
+
+    for (let p = 0; p < 3; p++) {
+      for (let q = p + 1; q < 4; q++) {
+        if (Math.abs(a[p][q]) < 1e-15) continue;
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+
+        for (let k = 0; k < 4; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < 4; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < 4; k++) {
+          const vkp = v[k][p];
+          const vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  let best = 0;
+  for (let i = 1; i < 4; i++) {
+    if (a[i][i] > a[best][best]) best = i;
+  }
+  return { value: a[best][best], vector: v.map(row => row[best]) };
+}
+
+/**
+ * Optimal superposition (least RMSD) of paired coordinates, the Kabsch
+ * problem solved in its quaternion form so the result is always a proper
+ * rotation
+ */
+export function kabsch(mobile: Vec3[], target: Vec3[]): Superposition {
+  const n = Math.min(mobile.length, target.length);
+  if (n === 0) {
+    return { transform: { rotation: [[1, 0, 0], [0, 1, 0], [0, 0, 1]], translation: [0, 0, 0] }, rmsd: 0 };
+  }
+
+  const mobileCenter = [0, 0, 0];
+  const targetCenter = [0, 0, 0];
+  for (let i = 0; i < n; i++) {
+    for (let k = 0; k < 3; k++) {
+      mobileCenter[k] += mobile[i][k] / n;
+      targetCenter[k] += target[i][k] / n;
+    }
+  }
+
+  // Correlation matrix of the centered coordinates
+  const s = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  let squaredNorms = 0;
+  for (let i = 0; i < n; i++) {
+    const x = [0, 1, 2].map(k => mobile[i][k] - mobileCenter[k]);
+    const y = [0, 1, 2].map(k => target[i][k] - targetCenter[k]);
+    squaredNorms += x[0] * x[0] + x[1] * x[1] + x[2] * x[2] + y[0] * y[0] + y[1] * y[1] + y[2] * y[2];
+    for (let r = 0; r < 3; r++) {
+      for (let c = 0; c < 3; c++) s[r][c] += x[r] * y[c];
+    }
+  }
+
+  const [[sxx, sxy, sxz], [syx, syy, syz], [szx, szy, szz]] = s;
+  const { value, vector: [q0, q1, q2, q3] } = largestEigenvector([
+    [sxx + syy + szz, syz - szy, szx - sxz, sxy - syx],
+    [syz - szy, sxx - syy - szz, sxy + syx, szx + sxz],
+    [szx - sxz, sxy + syx, -sxx + syy - szz, syz + szy],
+    [sxy - syx, szx + sxz, syz + szy, -sxx - syy + szz],
+  ]);
+
+  const rotation = [
+    [q0 * q0 + q1 * q1 - q2 * q2 - q3 * q3, 2 * (q1 * q2 - q0 * q3), 2 * (q1 * q3 + q0 * q2)],
+    [2 * (q1 * q2 + q0 * q3), q0 * q0 - q1 * q1 + q2 * q2 - q3 * q3, 2 * (q2 * q3 - q0 * q1)],
+    [2 * (q1 * q3 - q0 * q2), 2 * (q2 * q3 + q0 * q1), q0 * q0 - q1 * q1 - q2 * q2 + q3 * q3],
+  ];
+  const translation = [0, 1, 2].map(r =>
+    targetCenter[r] - (rotation[r][0] * mobileCenter[0] + rotation[r][1] * mobileCenter[1] + rotation[r][2] * mobileCenter[2])
+  );
+
+  return {
+    transform: { rotation, translation },
+    rmsd: Math.sqrt(Math.max(0, squaredNorms - 2 * value) / n),
+  };
+}
+
+/**
+ * Apply a transform to a single point
+ */
+export function transformPoint(point: Vec3, { rotation, translation }: Transform): Vec3 {
+  return [0, 1, 2].map(r =>
+    rotation[r][0] * point[0] + rotation[r][1] * point[1] + rotation[r][2] * point[2] + translation[r]
+  );
+}
+
+export function transformCoordinates(coordinates: Vec3[], transform: Transform): Vec3[] {
+  return coordinates.map(point => transformPoint(point, transform));
+}
+
+/**
+ * Copy of a molecule with every atom moved by the transform, e.g. to show
+ * the mobile structure superposed on the target
+ */
+export function superposeMolecule(molecule: Molecule, transform: Transform): Molecule {
+  const models = molecule.models.map(model => buildModel(model.id, model.atoms.map((atom): Atom => ({
+    ...atom,
+    position: transformPoint(atom.position, transform) as [number, number, number],
+  }))));
+
+  return { ...molecule, atoms: models[0]?.atoms || [], models };
+}
+
+const distance = (a: Vec3, b: Vec3) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+type Pairs = [number, number][];
+
+const pairCoordinates = (mobile: Vec3[], target: Vec3[], pairs: Pairs) => ({
+  mobile: pairs.map(([i]) => mobile[i]),
+  target: pairs.map(([, j]) => target[j]),
+});
+
+/**
+ * TM-score of aligned pairs under a transform
+ */
+function scorePairs(mobile: Vec3[], target: Vec3[], pairs: Pairs, transform: Transform, d0: number, normLength: number): number {
+  let sum = 0;
+  for (const [i, j] of pairs) {
+    const d = distance(transformPoint(mobile[i], transform), target[j]);
+    sum += 1 / (1 + (d / d0) * (d / d0));
+  }
+  return sum / normLength;
+}
+
+/**
+ * Find the superposition maximizing the TM-score of a fixed alignment,
+ * as the TM-score program does: superpose on fragments of decreasing length,
+ * then repeatedly re-superpose on the pairs that end up close together
+ */
+function searchSuperposition(
+  mobile: Vec3[],
+  target: Vec3[],
+  pairs: Pairs,
+  d0: number,
+  normLength: number
+): { transform: Transform; score: number } {
+  let best = { transform: kabsch([], []).transform, score: 0 };
+  if (pairs.length === 0) return best;
+
+  const cutoff = searchCutoff(d0);
+  const fragmentLengths: number[] = [];
+  for (let length = pairs.length; length >= 4 && fragmentLengths.length < 6; length = Math.floor(length / 2)) {
+    fragmentLengths.push(length);
+  }
+  if (fragmentLengths.length === 0) fragmentLengths.push(pairs.length);
+
+  const step = Math.max(1, Math.floor(pairs.length / 20));
+  for (const fragmentLength of fragmentLengths) {
+    for (let start = 0; start + fragmentLength <= pairs.length; start += step) {
+      let selected = pairs.slice(start, start + fragmentLength);
+      let selectionKey = '';
+
+      for (let iteration = 0; iteration < MAX_SUPERPOSITION_ITERATIONS; iteration++) {
+        const coordinates = pairCoordinates(mobile, target, selected);
+        const { transform } = kabsch(coordinates.mobile, coordinates.target);
+        const score = scorePairs(mobile, target, pairs, transform, d0, normLength);
+        if (score > best.score) best = { transform, score };
+
+        // Re-select the pairs within the cutoff, relaxing it until at least three remain
+        const distances = pairs.map(([i, j]) => distance(transformPoint(mobile[i], transform), target[j]));
+        let limit = cutoff;
+        let next = pairs.filter((_, k) => distances[k] < limit);
+        while (next.length < 3 && limit < 100) {
+          limit += 0.5;
+          next = pairs.filter((_, k) => distances[k] < limit);
+        }
+
+        const nextKey = next.map(([i]) => i).join(',');
+        if (nextKey === selectionKey) break;
+        selectionKey = nextKey;
+        selected = next;
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Global alignment by dynamic programming with a gap opening penalty
+ * (TM-align's scheme: extending a gap is free)
+ */
+function alignByScore(rows: number, columns: number, score: (i: number, j: number) => number, gapOpen: number): Pairs {
+  const value: Float64Array[] = [];
+  const diagonal: Uint8Array[] = [];   // 1 where the best path into the cell is a match
+  const direction: Uint8Array[] = [];  // 0 match, 1 gap in the target, 2 gap in the mobile chain
+
+  for (let i = 0; i <= rows; i++) {
+    value.push(new Float64Array(columns + 1));
+    diagonal.push(new Uint8Array(columns + 1));
+    direction.push(new Uint8Array(columns + 1));
+  }
+  for (let i = 1; i <= rows; i++) direction[i][0] = 1;
+  for (let j = 1; j <= columns; j++) direction[0][j] = 2;
+
+  for (let i = 1; i <= rows; i++) {
+    for (let j = 1; j <= columns; j++) {
+      const match = value[i - 1][j - 1] + score(i - 1, j - 1);
+      const up = value[i - 1][j] + (diagonal[i - 1][j] ? gapOpen : 0);
+      const left = value[i][j - 1] + (diagonal[i][j - 1] ? gapOpen : 0);
+
+      if (match >= up && match >= left) {
+        value[i][j] = match;
+        diagonal[i][j] = 1;
+        direction[i][j] = 0;
+      } else if (up >= left) {
+        value[i][j] = up;
+        direction[i][j] = 1;
+      } else {
+        value[i][j] = left;
+        direction[i][j] = 2;
+      }
+    }
+  }
+
+  const pairs: Pairs = [];
+  let i = rows;
+  let j = columns;
+  while (i > 0 && j > 0) {
+    if (direction[i][j] === 0) {
+      pairs.push([i - 1, j - 1]);
+      i--;
+      j--;
+    } else if (direction[i][j] === 1) {
+      i--;
+    } else {
+      j--;
+    }
+  }
+  return pairs.reverse();
+}
+
+/**
+ * Starting alignment from gapless threading: the register shift whose
+ * superposition scores best
+ */
+function threadingAlignment(mobile: Vec3[], target: Vec3[], d0: number): Pairs {
+  const minOverlap = Math.max(3, Math.floor(Math.min(mobile.length, target.length) / 2));
+  let best: { pairs: Pairs; score: number } = { pairs: [], score: -1 };
+
+  for (let shift = -(mobile.length - minOverlap); shift <= target.length - minOverlap; shift++) {
+    const pairs: Pairs = [];
+    for (let i = Math.max(0, -shift); i < mobile.length && i + shift < target.length; i++) {
+      pairs.push([i, i + shift]);
+    }
+    if (pairs.length < minOverlap) continue;
+
+    const coordinates = pairCoordinates(mobile, target, pairs);
+    const { transform } = kabsch(coordinates.mobile, coordinates.target);
+    const score = scorePairs(mobile, target, pairs, transform, d0, target.length);
+    if (score > best.score) best = { pairs, score };
+  }
+
+  return best.pairs;
+}
+
+/**
+ * Starting alignment from the residue sequences
+ */
+function sequenceAlignment(mobileCodes: string[], targetCodes: string[]): Pairs {
+  return alignByScore(
+    mobileCodes.length,
+    targetCodes.length,
+    (i, j) => (mobileCodes[i] === targetCodes[j] && mobileCodes[i] !== 'X' ? 1 : -0.3),
+    -1
+  );
+}
+
+const residueLabel = (residue: Residue): AlignedResidue => ({
+  chain: residue.chain,
+  residueId: residue.residueId,
+  insertionCode: residue.insertionCode,
+  name: residue.name,
+});
+
+/**
+ * Fraction of target residues within `cutoff` of their aligned partner,
+ * maximized over superpositions grown from the pairs already close
+ */
+function gdtFraction(mobile: Vec3[], target: Vec3[], pairs: Pairs, start: Transform, cutoff: number): number {
+  let transform = start;
+  let bestCount = 0;
+  let selectionKey = '';
+
+  for (let iteration = 0; iteration < MAX_SUPERPOSITION_ITERATIONS; iteration++) {
+    const distances = pairs.map(([i, j]) => distance(transformPoint(mobile[i], transform), target[j]));
+    const close = pairs.filter((_, k) => distances[k] <= cutoff);
+    bestCount = Math.max(bestCount, close.length);
+
+    // Too few pairs to superpose on: use the three closest
+    const selected = close.length >= 3
+      ? close
+      : pairs.map((pair, k) => ({ pair, d: distances[k] })).sort((a, b) => a.d - b.d).slice(0, 3).map(p => p.pair);
+
+    const key = selected.map(([i]) => i).join(',');
+    if (key === selectionKey || selected.length < 3) break;
+    selectionKey = key;
+
+    const coordinates = pairCoordinates(mobile, target, selected);
+    transform = kabsch(coordinates.mobile, coordinates.target).transform;
+  }
+
+  return bestCount / target.length;
+}
+
+// Residues the alignment works on: polymer residues with a trace atom
+const traceResidues = (molecule: Molecule): Residue[] =>
+  getPolymerResidues(molecule).filter(residue => getRepresentativeAtom(residue) !== undefined);
+
+/**
+ * Align two structures on their residue traces, superposing `mobile` onto
+ * `target`. Works for chains of different lengths and sequences.
+ */
+export function alignStructures(mobile: Molecule, target: Molecule, options: AlignmentOptions = {}): StructureAlignment {
+  const mobileResidues = traceResidues(mobile);
+  const targetResidues = traceResidues(target);
+  if (mobileResidues.length < 3 || targetResidues.length < 3) {
+    throw new Error('Both structures need at least 3 residues to align');
+  }
+
+  const mobileTrace = mobileResidues.map(residue => [...getRepresentativeAtom(residue).position]);
+  const targetTrace = targetResidues.map(residue => [...getRepresentativeAtom(residue).position]);
+  const mobileCodes = mobileResidues.map(residue => getResidueCode(residue.name));
+  const targetCodes = targetResidues.map(residue => getResidueCode(residue.name));
+
+  const d0Target = tmScoreD0(targetTrace.length);
+  const d0Mobile = tmScoreD0(mobileTrace.length);
+
+  const seqPairs = sequenceAlignment(mobileCodes, targetCodes);
+  const initialAlignments = options.sequenceDependent
+    ? [seqPairs]
+    : [threadingAlignment(mobileTrace, targetTrace, d0Target), seqPairs].filter(pairs => pairs.length >= 3);
+
+  // Refine each starting alignment and keep the best scoring one
+  let best: { pairs: Pairs; transform: Transform; score: number } = { pairs: [], transform: kabsch([], []).transform, score: -1 };
+  for (const initial of initialAlignments) {
+    let pairs = initial;
+    let previousKey = '';
+
+    for (let round = 0; round < MAX_REFINEMENT_ROUNDS; round++) {
+      const { transform, score } = searchSuperposition(mobileTrace, targetTrace, pairs, d0Target, targetTrace.length);
+      if (score > best.score) best = { pairs, transform, score };
+      if (options.sequenceDependent) break;
+
+      // Realign on the superposed distances
+      const superposed = transformCoordinates(mobileTrace, transform);
+      const d0Squared = d0Target * d0Target;
+      pairs = alignByScore(mobileTrace.length, targetTrace.length, (i, j) => {
+        const d = distance(superposed[i], targetTrace[j]);
+        return 1 / (1 + (d * d) / d0Squared);
+      }, GAP_OPEN);
+
+      const key = pairs.map(([i, j]) => `${i}:${j}`).join(',');
+      if (key === previousKey) break;
+      previousKey = key;
+    }
+  }
+
+  const { pairs, transform } = best;
+  const tmScoreMobile = searchSuperposition(mobileTrace, targetTrace, pairs, d0Mobile, mobileTrace.length).score;
+  const alignedCoordinates = transformCoordinates(mobileTrace, transform);
+
+  const alignment: AlignedPair[] = pairs.map(([i, j]) => ({
+    mobileIndex: i,
+    targetIndex: j,
+    mobileResidue: residueLabel(mobileResidues[i]),
+    targetResidue: residueLabel(targetResidues[j]),
+    distance: distance(alignedCoordinates[i], targetTrace[j]),
+  }));
+
+  // Aligned length, RMSD and identity count only the pairs that superpose well
+  const closePairs = pairs.filter((_, k) => alignment[k].distance < ALIGNED_DISTANCE_CUTOFF);
+  const close = pairCoordinates(mobileTrace, targetTrace, closePairs);
+  const identical = closePairs.filter(([i, j]) => mobileCodes[i] === targetCodes[j]).length;
+
+  const gdtTs = 100 * GDT_CUTOFFS
+    .map(cutoff => gdtFraction(mobileTrace, targetTrace, pairs, transform, cutoff))
+    .reduce((sum, fraction) => sum + fraction, 0) / GDT_CUTOFFS.length;
+
+  return {
+    alignment,
+    transform,
+    alignedCoordinates,
+    rmsd: closePairs.length > 0 ? kabsch(close.mobile, close.target).rmsd : NaN,
+    alignedLength: closePairs.length,
+    tmScoreTarget: best.score,
+    tmScoreMobile,
+    gdtTs,
+    sequenceIdentity: closePairs.length > 0 ? identical / closePairs.length : 0,
+    mobileLength: mobileTrace.length,
+    targetLength: targetTrace.length,
+  };
+}
+
+/**
+ * TM-score of coordinates that are already in residue correspondence,
+ * after finding their best superposition
+ */
+export function superposedTMScore(mobile: Vec3[], target: Vec3[]): number {
+  const length = Math.min(mobile.length, target.length);
+  const pairs: Pairs = Array.from({ length }, (_, i) => [i, i]);
+  return searchSuperposition(mobile, target, pairs, tmScoreD0(target.length), target.length).score;
+}
+
+export interface ResidueDeviation {
+  residue: AlignedResidue;
+  /** Aligned residue of the other structure, if any */
+  partner: AlignedResidue | null;
+  /** Trace atom distance after superposition, null for unaligned residues */
+  distance: number | null;
+}
+
+/**
+ * Per-residue deviation along one side of an alignment: one entry per trace
+ * residue of `molecule`, which must be the structure the alignment's
+ * `side` indices refer to
+ */
+export function getResidueDeviations(
+  molecule: Molecule,
+  alignment: AlignedPair[],
+  side: 'target' | 'mobile' = 'target'
+): ResidueDeviation[] {
+  const pairsByIndex = new Map(alignment.map(pair => [side === 'target' ? pair.targetIndex : pair.mobileIndex, pair]));
+
+  return traceResidues(molecule).map((residue, index) => {
+    const pair = pairsByIndex.get(index);
+    return {
+      residue: residueLabel(residue),
+      partner: pair ? (side === 'target' ? pair.mobileResidue : pair.targetResidue) : null,
+      distance: pair ? pair.distance : null,
+    };
+  });
+}
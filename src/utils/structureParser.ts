@@ -0,0 +1,94 @@
+/**
+ * Format-independent structure loading: picks the PDB, mmCIF or BinaryCIF
+ * parser by file extension, falling back to sniffing the content.
+ */
+import { Molecule, ParseStructureOptions } from './structure';
+import { parsePDBString } from './pdbParser';
+import { parseBinaryCIF, parseCIFString, toCIFString } from './cifParser';
+
+export type StructureFormat = 'pdb' | 'mmcif' | 'bcif';
+
+const stripGzipExtension = (fileName: string) => fileName.replace(/\.gz$/i, '');
+
+/**
+ * Format implied by a file name, or null if the extension is not a known one
+ */
+export function getStructureFormat(fileName: string): StructureFormat | null {
+  const extension = stripGzipExtension(fileName).toLowerCase().split('.').pop();
+  switch (extension) {
+    case 'pdb':
+    case 'ent':
+      return 'pdb';
+    case 'cif':
+    case 'mmcif':
+      return 'mmcif';
+    case 'bcif':
+      return 'bcif';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Guess the format of structure text: mmCIF starts with a data block
+ */
+export function detectTextFormat(content: string): 'pdb' | 'mmcif' {
+  const firstLine = content.split(/\r?\n/).find(line => line.trim() && !line.startsWith('#'));
+  return firstLine?.trim().toLowerCase().startsWith('data_') ? 'mmcif' : 'pdb';
+}
+
+// gzip magic number
+const isGzip = (bytes: Uint8Array) => bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+
+/**
+ * Read a file's bytes, decompressing it if gzipped, and its name without ".gz"
+ */
+async function readStructureFile(file: File): Promise<{ bytes: Uint8Array; name: string }> {
+  const name = stripGzipExtension(file.name);
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (!isGzip(bytes)) {
+    return { bytes, name };
+  }
+
+  const stream = file.stream().pipeThrough(new DecompressionStream('gzip'));
+  return { bytes: new Uint8Array(await new Response(stream).arrayBuffer()), name };
+}
+
+/**
+ * Parse structure text (PDB or mmCIF)
+ */
+export function parseStructureString(content: string, name = 'structure', options: ParseStructureOptions = {}): Molecule {
+  const format = getStructureFormat(name) ?? detectTextFormat(content);
+  return format === 'mmcif'
+    ? parseCIFString(content, name, options)
+    : parsePDBString(content, name, options);
+}
+
+/**
+ * Parse a structure file in any supported format, gzipped or not
+ */
+export async function parseStructure(file: File, options: ParseStructureOptions = {}): Promise<Molecule> {
+  const { bytes, name } = await readStructureFile(file);
+  if (getStructureFormat(name) === 'bcif') {
+    return parseBinaryCIF(bytes, name, options);
+  }
+
+  return parseStructureString(new TextDecoder().decode(bytes), name, options);
+}
+
+/**
+ * Read and parse a structure file for display. Returns the text the 3D
+ * viewers load (BinaryCIF has no text form and is converted to mmCIF)
+ * together with the parsed molecule.
+ */
+export async function loadStructureFile(file: File): Promise<{ content: string; format: 'pdb' | 'mmcif'; molecule: Molecule }> {
+  const { bytes, name } = await readStructureFile(file);
+  if (getStructureFormat(name) === 'bcif') {
+    const molecule = parseBinaryCIF(bytes, name);
+    return { content: toCIFString(molecule), format: 'mmcif', molecule };
+  }
+
+  const content = new TextDecoder().decode(bytes);
+  const format = (getStructureFormat(name) ?? detectTextFormat(content)) === 'mmcif' ? 'mmcif' : 'pdb';
+  return { content, format, molecule: parseStructureString(content, name) };
+}
@@ -0,0 +1,39 @@
+-- Batch submissions: one row per batch, jobs point back via batch_id
+create table if not exists public."litefold-batches" (
+  id uuid primary key default gen_random_uuid(),
+  batch_id text not null unique,
+  batch_name text not null,
+  batch_desc text not null default '',
+  job_count integer not null default 0,
+  created_at timestamptz not null default now(),
+  user_id uuid not null references auth.users (id) on delete cascade
+);
+
+create index if not exists "litefold-batches_user_id_idx"
+  on public."litefold-batches" (user_id, created_at desc);
+
+alter table public."litefold-batches" enable row level security;
+
+create policy "Users can read their own batches"
+  on public."litefold-batches" for select
+  using (auth.uid() = user_id);
+
+create policy "Users can create their own batches"
+  on public."litefold-batches" for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own batches"
+  on public."litefold-batches" for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own batches"
+  on public."litefold-batches" for delete
+  using (auth.uid() = user_id);
+
+alter table public."litefold-jobs"
+  add column if not exists batch_id text
+  references public."litefold-batches" (batch_id) on delete set null;
+
+create index if not exists "litefold-jobs_batch_id_idx"
+  on public."litefold-jobs" (batch_id);
@@ -0,0 +1,5 @@
+-- Server profile a job was submitted to; null for jobs from before profiles,
+-- which ran on the default server. Profile ids are local to the browser
+-- that created them, so this is plain text rather than a foreign key.
+alter table public."litefold-jobs"
+  add column if not exists server_profile_id text;
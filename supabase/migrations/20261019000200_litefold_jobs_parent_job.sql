@@ -0,0 +1,6 @@
+-- Job a resubmitted job was cloned from, for the iteration history
+alter table public."litefold-jobs"
+  add column if not exists parent_job_id text;
+
+create index if not exists "litefold-jobs_parent_job_id_idx"
+  on public."litefold-jobs" (parent_job_id);
@@ -1,4 +1,5 @@
 import { defineConfig, loadEnv } from "vite";
+import type { Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
@@ -65,6 +66,69 @@ const createCustomProxyMiddleware = () => {
   };
 };
 
+// Scripted pipeline replayed by the mock job events stream
+const MOCK_JOB_EVENT_STEPS = [
+  { stage: 'queued', status: 'pending', queue_position: 3, progress: 0 },
+  { stage: 'queued', status: 'pending', queue_position: 2, progress: 0 },
+  { stage: 'queued', status: 'pending', queue_position: 1, progress: 0 },
+  { stage: 'msa', status: 'processing', progress: 0.1 },
+  { stage: 'msa', status: 'processing', progress: 0.2 },
+  { stage: 'msa', status: 'processing', progress: 0.3 },
+  { stage: 'inference', status: 'processing', progress: 0.45 },
+  { stage: 'inference', status: 'processing', progress: 0.6 },
+  { stage: 'inference', status: 'processing', progress: 0.75 },
+  { stage: 'relaxation', status: 'processing', progress: 0.85 },
+  { stage: 'relaxation', status: 'processing', progress: 0.95 },
+  { stage: 'completed', status: 'successful', progress: 1 },
+];
+
+// Development-only mock of the `jobs/{id}/events` SSE endpoint, enabled with MOCK_JOB_EVENTS=true
+const mockJobEventsPlugin = (intervalMs = 2000): Plugin => ({
+  name: 'mock-job-events',
+  apply: 'serve',
+  configureServer(server) {
+    server.middlewares.use((req, res, next) => {
+      const match = req.url?.match(/^\/api(?:-proxy)?\/jobs\/([^/?]+)\/events/);
+      if (!match) {
+        next();
+        return;
+      }
+      
+      const jobId = decodeURIComponent(match[1]);
+      const lastEventId = parseInt(req.headers['last-event-id'] as string, 10);
+      let step = Number.isNaN(lastEventId) ? 0 : lastEventId + 1;
+      
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      });
+      res.write(`retry: ${intervalMs}\n\n`);
+      
+      const send = () => {
+        const current = MOCK_JOB_EVENT_STEPS[Math.min(step, MOCK_JOB_EVENT_STEPS.length - 1)];
+        const remainingSteps = MOCK_JOB_EVENT_STEPS.length - 1 - step;
+        const event = {
+          job_id: jobId,
+          eta_seconds: (remainingSteps * intervalMs) / 1000,
+          ...current,
+        };
+        res.write(`id: ${step}\ndata: ${JSON.stringify(event)}\n\n`);
+        
+        step++;
+        if (step >= MOCK_JOB_EVENT_STEPS.length) {
+          clearInterval(timer);
+          res.end();
+        }
+      };
+      
+      const timer = setInterval(send, intervalMs);
+      send();
+      req.on('close', () => clearInterval(timer));
+    });
+  },
+});
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => {
   // Load env file based on mode
@@ -110,6 +174,7 @@ export default defineConfig(({ mode }) => {
     plugins: [
       react(),
       mode === 'development' && componentTagger(),
+      env.MOCK_JOB_EVENTS === 'true' && mockJobEventsPlugin(),
     ].filter(Boolean),
     resolve: {
       alias: {